@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { buildUrl } from "@shared/routes";
+import { CliError, type Credential } from "./config";
+
+const MAX_RETRIES = 5;
+
+// An entry of the `api` contract in shared/routes.ts
+interface Route {
+  method: string;
+  path: string;
+  input?: z.ZodTypeAny;
+  responses: Record<number, z.ZodTypeAny>;
+}
+
+interface CallOptions {
+  params?: Record<string, string | number>;
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+}
+
+// The server answered, but not with success. `message` is the server's own.
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+export const backoff = (attempt: number) => Math.min(1000 * 2 ** attempt, 30000);
+
+async function errorFrom(res: Response): Promise<ApiError> {
+  const body = await res.json().catch(() => ({}));
+  if (res.status === 401) {
+    return new ApiError(401, "The server rejected the token. Run `fms login` again.");
+  }
+  return new ApiError(res.status, body.message || `${res.status} ${res.statusText}`);
+}
+
+// Talks to one FMS server as the owner of a personal API token
+export class FmsClient {
+  constructor(private readonly credential: Credential) {}
+
+  get server() {
+    return this.credential.server;
+  }
+
+  url(path: string, query?: CallOptions["query"]): string {
+    const url = new URL(path, this.credential.server);
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+    return url.toString();
+  }
+
+  // A raw request, for uploads and downloads. Dropped connections and 5xx
+  // answers are retried with backoff when `retry` is set; other failures throw.
+  async fetch(url: string, init: RequestInit = {}, { retry = true } = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    headers.set("Authorization", `Bearer ${this.credential.token}`);
+
+    for (let attempt = 0; ; attempt++) {
+      let res: Response | undefined;
+      try {
+        res = await fetch(url, { ...init, headers });
+      } catch (err) {
+        if (!retry || attempt >= MAX_RETRIES) {
+          throw new CliError(`Can't reach ${this.credential.server}: ${err instanceof Error ? err.message : err}`);
+        }
+      }
+      if (res && (res.ok || res.status === 304 || res.status < 500 || !retry || attempt >= MAX_RETRIES)) {
+        if (!res.ok && res.status !== 304) throw await errorFrom(res);
+        return res;
+      }
+      await wait(backoff(attempt));
+    }
+  }
+
+  // A JSON call to a contract route: the body is checked against the route's
+  // input schema before it goes out, and the answer against its response schema
+  async call<R extends Route, S extends keyof R["responses"] & number>(
+    route: R,
+    status: S,
+    { params, query, body }: CallOptions = {},
+  ): Promise<z.infer<R["responses"][S]>> {
+    const payload = body !== undefined && route.input ? route.input.parse(body) : body;
+    // Only reads are safe to repeat; a retried POST could do its work twice
+    const retry = route.method === "GET" || route.method === "HEAD";
+    const res = await this.fetch(this.url(buildUrl(route.path, params), query), {
+      method: route.method,
+      headers: payload !== undefined ? { "Content-Type": "application/json" } : undefined,
+      body: payload !== undefined ? JSON.stringify(payload) : undefined,
+    }, { retry });
+
+    if (res.status !== status) throw new ApiError(res.status, `Unexpected ${res.status} from ${route.path}`);
+    const text = await res.text();
+    return route.responses[status].parse(text ? JSON.parse(text) : undefined);
+  }
+}
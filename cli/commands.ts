@@ -0,0 +1,311 @@
+import fs from "fs/promises";
+import path from "path";
+import { createHash } from "crypto";
+import { createInterface } from "readline";
+import { format } from "date-fns";
+import { api } from "@shared/routes";
+import type { File as StoredFile, Folder } from "@shared/schema";
+import { FmsClient } from "./client";
+import { CliError, clearCredential, loadCredential, readState, saveCredential, writeState } from "./config";
+import { formatBytes } from "./progress";
+import {
+  ensureFolder,
+  folderIdOf,
+  listFolder,
+  requireRemote,
+  requireRemoteFolder,
+  resolveRemote,
+  splitRemotePath,
+  type RemoteEntry,
+} from "./remote";
+import { downloadFile, uploadFile, uploadVersion } from "./transfer";
+
+const ACCESS_LEVELS = ["view", "download", "edit"] as const;
+type AccessLevel = typeof ACCESS_LEVELS[number];
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+async function connect(): Promise<FmsClient> {
+  return new FmsClient(await loadCredential());
+}
+
+async function prompt(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  return new Promise(resolve => rl.question(question, answer => {
+    rl.close();
+    resolve(answer.trim());
+  }));
+}
+
+function entryName(entry: RemoteEntry): string {
+  if (entry.type === "root") return "My Files";
+  return entry.type === "folder" ? entry.folder.name : entry.file.name;
+}
+
+function parentIdOf(entry: RemoteEntry): number | null {
+  if (entry.type === "folder") return entry.folder.parentId;
+  if (entry.type === "file") return entry.file.folderId;
+  return null;
+}
+
+// The token is checked against the server before it's stored, so a typo shows
+// up here rather than in the first cron run
+export async function login(options: { server?: string; token?: string }) {
+  const server = (options.server || await prompt("Server URL: ")).replace(/\/+$/, "");
+  const token = options.token || process.env.FMS_TOKEN || await prompt("API token (create one under Settings > API Tokens): ");
+  if (!server || !token) throw new CliError("A server URL and an API token are both required.");
+  try {
+    new URL(server);
+  } catch {
+    throw new CliError(`${server} is not a valid URL`);
+  }
+
+  const credential = { server, token };
+  const user = await new FmsClient(credential).call(api.auth.me, 200);
+  await saveCredential(credential);
+  console.log(`Signed in to ${server} as ${user.username}`);
+}
+
+export async function logout() {
+  const removed = await clearCredential();
+  console.log(removed ? "Signed out" : "Not signed in");
+}
+
+export async function ls(remotePath: string, options: { long?: boolean }) {
+  const client = await connect();
+  const entry = await requireRemote(client, remotePath);
+  let folders: Folder[] = [];
+  let files: StoredFile[] = [];
+  if (entry.type === "file") {
+    files = [entry.file];
+  } else {
+    ({ folders, files } = await listFolder(client, folderIdOf(entry)));
+  }
+
+  const when = (date: Date | string | null) => date ? format(new Date(date), "yyyy-MM-dd HH:mm") : "";
+  for (const folder of [...folders].sort(byName)) {
+    console.log(options.long ? `d ${"-".padStart(10)}  ${when(folder.createdAt)}  ${folder.name}/` : `${folder.name}/`);
+  }
+  for (const file of [...files].sort(byName)) {
+    console.log(options.long ? `- ${formatBytes(file.size).padStart(10)}  ${when(file.createdAt)}  ${file.name}` : file.name);
+  }
+}
+
+// Files that already exist in the folder get a new version rather than a
+// second copy, matching the browser's "replace" behaviour
+async function uploadInto(client: FmsClient, localPaths: string[], folderId: number | null) {
+  const { files } = await listFolder(client, folderId);
+  for (const localPath of localPaths) {
+    const stat = await fs.stat(localPath);
+    const name = path.basename(path.resolve(localPath));
+    if (stat.isDirectory()) {
+      const folder = await ensureFolder(client, folderId, name);
+      const children = (await fs.readdir(localPath)).sort().map(child => path.join(localPath, child));
+      await uploadInto(client, children, folder.id);
+    } else if (stat.isFile()) {
+      const existing = files.find(f => f.name === name);
+      if (existing) await uploadVersion(client, localPath, existing.id, name);
+      else await uploadFile(client, localPath, folderId, name);
+    } else {
+      console.error(`skipped ${localPath}: not a regular file`);
+    }
+  }
+}
+
+export async function upload(localPaths: string[], remoteFolder: string) {
+  const client = await connect();
+  const folderId = await requireRemoteFolder(client, remoteFolder);
+  await uploadInto(client, localPaths, folderId);
+}
+
+// A finished file of the same size is taken as already downloaded, so running
+// the same download again only fetches what's missing
+async function downloadInto(client: FmsClient, folderId: number | null, localDir: string, force: boolean) {
+  await fs.mkdir(localDir, { recursive: true });
+  const { folders, files } = await listFolder(client, folderId);
+  for (const file of [...files].sort(byName)) {
+    const target = path.join(localDir, file.name);
+    const existing = await fs.stat(target).catch(() => null);
+    if (!force && existing?.isFile() && existing.size === file.size) continue;
+    await downloadFile(client, file, target);
+  }
+  for (const folder of [...folders].sort(byName)) {
+    await downloadInto(client, folder.id, path.join(localDir, folder.name), force);
+  }
+}
+
+export async function download(remotePath: string, localPath: string, options: { force?: boolean }) {
+  const client = await connect();
+  const entry = await requireRemote(client, remotePath);
+  const localStat = await fs.stat(localPath).catch(() => null);
+
+  if (entry.type === "file") {
+    const target = localStat?.isDirectory() ? path.join(localPath, entry.file.name) : localPath;
+    await downloadFile(client, entry.file, target);
+  } else if (entry.type === "folder") {
+    const target = localStat?.isDirectory() ? path.join(localPath, entry.folder.name) : localPath;
+    await downloadInto(client, entry.folder.id, target, !!options.force);
+  } else {
+    await downloadInto(client, null, localPath, !!options.force);
+  }
+}
+
+// Like mv(1): into the destination when it's a folder, otherwise to that path
+// under a new name
+export async function mv(source: string, destination: string) {
+  const client = await connect();
+  const entry = await requireRemote(client, source);
+  if (entry.type === "root") throw new CliError("Can't move My Files");
+
+  const target = await resolveRemote(client, destination);
+  let parentId: number | null;
+  let name = entryName(entry);
+  if (target && target.type !== "file") {
+    parentId = folderIdOf(target);
+  } else if (target) {
+    throw new CliError(`${destination} already exists`);
+  } else {
+    const parts = splitRemotePath(destination);
+    name = parts.pop() ?? name;
+    parentId = await requireRemoteFolder(client, parts.join("/"));
+  }
+
+  if (entry.type === "folder") {
+    const id = entry.folder.id;
+    if (parentId !== parentIdOf(entry)) await client.call(api.fs.moveFolder, 200, { params: { id }, body: { parentId } });
+    if (name !== entry.folder.name) await client.call(api.fs.renameFolder, 200, { params: { id }, body: { name } });
+  } else {
+    const id = entry.file.id;
+    if (parentId !== parentIdOf(entry)) await client.call(api.fs.moveFile, 200, { params: { id }, body: { folderId: parentId } });
+    if (name !== entry.file.name) await client.call(api.fs.renameFile, 200, { params: { id }, body: { name } });
+  }
+  console.log(`${source} -> ${destination}`);
+}
+
+// "@name" is a group, anything else a username; both must match exactly
+export async function share(remotePath: string, recipient: string, options: { level?: string }) {
+  const level = (options.level ?? "view") as AccessLevel;
+  if (!ACCESS_LEVELS.includes(level)) {
+    throw new CliError(`--level must be one of ${ACCESS_LEVELS.join(", ")}`);
+  }
+
+  const client = await connect();
+  const entry = await requireRemote(client, remotePath);
+  if (entry.type === "root") throw new CliError("Share a file or folder inside My Files");
+
+  let recipientId: { userId: number } | { groupId: number };
+  if (recipient.startsWith("@")) {
+    const name = recipient.slice(1).toLowerCase();
+    const group = (await client.call(api.groups.available, 200)).find(g => g.name.toLowerCase() === name);
+    if (!group) throw new CliError(`No group named ${recipient.slice(1)}`);
+    recipientId = { groupId: group.id };
+  } else {
+    const users = await client.call(api.users.search, 200, { query: { q: recipient } });
+    const user = users.find(u => u.username.toLowerCase() === recipient.toLowerCase());
+    if (!user) throw new CliError(`No user named ${recipient}`);
+    recipientId = { userId: user.id };
+  }
+
+  await client.call(api.fs.share, 201, {
+    body: {
+      targetId: entry.type === "folder" ? entry.folder.id : entry.file.id,
+      targetType: entry.type,
+      accessLevel: level,
+      ...recipientId,
+    },
+  });
+  console.log(`Shared ${remotePath} with ${recipient} (${level})`);
+}
+
+// What the last sync saw of each local file, by path relative to the sync root
+type SyncManifest = Record<string, { size: number; mtimeMs: number; fileId: number }>;
+
+interface SyncCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+}
+
+interface SyncRun {
+  client: FmsClient;
+  stateName: string;
+  manifest: SyncManifest;
+  dryRun: boolean;
+  counts: SyncCounts;
+}
+
+// folderId is undefined for a folder that doesn't exist on the server yet,
+// which only happens on a dry run
+async function syncFolder(run: SyncRun, localDir: string, folderId: number | null | undefined, relative: string) {
+  const remote = folderId === undefined ? { folders: [], files: [] } : await listFolder(run.client, folderId);
+  for (const name of (await fs.readdir(localDir)).sort()) {
+    const localPath = path.join(localDir, name);
+    const key = relative ? `${relative}/${name}` : name;
+    const stat = await fs.stat(localPath);
+
+    if (stat.isDirectory()) {
+      let childId: number | null | undefined = remote.folders.find(f => f.name === name)?.id;
+      if (childId === undefined) {
+        if (run.dryRun) console.log(`new folder ${key}/`);
+        else childId = (await ensureFolder(run.client, folderId ?? null, name)).id;
+      }
+      await syncFolder(run, localPath, childId, key);
+      continue;
+    }
+    if (!stat.isFile()) continue;
+
+    const known = run.manifest[key];
+    const existing = remote.files.find(f => f.name === name);
+    const unchanged = existing && (known
+      ? known.fileId === existing.id && known.size === stat.size && known.mtimeMs === stat.mtimeMs
+      // First sync against a folder that already has the file: trust a matching size
+      : existing.size === stat.size);
+
+    if (unchanged) {
+      run.counts.unchanged++;
+      run.manifest[key] = { size: stat.size, mtimeMs: stat.mtimeMs, fileId: existing.id };
+      continue;
+    }
+    if (existing) run.counts.updated++;
+    else run.counts.created++;
+    if (run.dryRun) {
+      console.log(`${existing ? "changed" : "new"} ${key}`);
+      continue;
+    }
+
+    const fileId = existing
+      ? (await uploadVersion(run.client, localPath, existing.id, name)).fileId
+      : (await uploadFile(run.client, localPath, folderId ?? null, name)).id;
+    run.manifest[key] = { size: stat.size, mtimeMs: stat.mtimeMs, fileId };
+    // Saved after every file, so an interrupted sync doesn't send it again
+    await writeState(run.stateName, run.manifest);
+  }
+}
+
+/**
+ * One-way sync from a local folder to a remote one: new files are uploaded,
+ * changed files become new versions, nothing is ever deleted on either side.
+ */
+export async function sync(localDir: string, remoteFolder: string, options: { dryRun?: boolean }) {
+  const stat = await fs.stat(localDir).catch(() => null);
+  if (!stat?.isDirectory()) throw new CliError(`${localDir}: not a directory`);
+
+  const client = await connect();
+  const folderId = await requireRemoteFolder(client, remoteFolder);
+  const stateKey = [client.server, path.resolve(localDir), folderId ?? "root"].join(":");
+  const stateName = `sync-${createHash("sha256").update(stateKey).digest("hex").slice(0, 16)}.json`;
+  const run: SyncRun = {
+    client,
+    stateName,
+    manifest: await readState<SyncManifest>(stateName, {}),
+    dryRun: !!options.dryRun,
+    counts: { created: 0, updated: 0, unchanged: 0 },
+  };
+
+  await syncFolder(run, localDir, folderId, "");
+  if (!run.dryRun) await writeState(stateName, run.manifest);
+
+  const { created, updated, unchanged } = run.counts;
+  const prefix = run.dryRun ? "would upload" : "uploaded";
+  console.log(`${prefix} ${created} new and ${updated} changed file(s), ${unchanged} unchanged`);
+}
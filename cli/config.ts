@@ -0,0 +1,59 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+// Where the CLI keeps its credential and the state that lets interrupted
+// transfers pick up where they left off
+const CONFIG_DIR = process.env.FMS_CONFIG_DIR || path.join(os.homedir(), ".config", "fms");
+const CREDENTIAL_FILE = path.join(CONFIG_DIR, "credentials.json");
+
+export interface Credential {
+  server: string;
+  token: string;
+}
+
+// Errors meant for the person at the terminal: printed without a stack trace
+export class CliError extends Error {}
+
+async function writePrivate(file: string, data: unknown) {
+  await fs.mkdir(CONFIG_DIR, { recursive: true, mode: 0o700 });
+  await fs.writeFile(file, JSON.stringify(data, null, 2), { mode: 0o600 });
+}
+
+// FMS_SERVER and FMS_TOKEN win over the stored credential, so cron jobs and CI
+// can run without `fms login`
+export async function loadCredential(): Promise<Credential> {
+  if (process.env.FMS_SERVER && process.env.FMS_TOKEN) {
+    return { server: process.env.FMS_SERVER, token: process.env.FMS_TOKEN };
+  }
+  try {
+    return JSON.parse(await fs.readFile(CREDENTIAL_FILE, "utf8"));
+  } catch {
+    throw new CliError("Not signed in. Run `fms login` first, or set FMS_SERVER and FMS_TOKEN.");
+  }
+}
+
+export async function saveCredential(credential: Credential) {
+  await writePrivate(CREDENTIAL_FILE, credential);
+}
+
+export async function clearCredential(): Promise<boolean> {
+  try {
+    await fs.unlink(CREDENTIAL_FILE);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function readState<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(CONFIG_DIR, name), "utf8"));
+  } catch {
+    return fallback;
+  }
+}
+
+export async function writeState(name: string, value: unknown) {
+  await writePrivate(path.join(CONFIG_DIR, name), value);
+}
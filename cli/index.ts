@@ -0,0 +1,91 @@
+import { parseArgs } from "util";
+import { ZodError } from "zod";
+import { ApiError } from "./client";
+import { CliError } from "./config";
+import { download, login, logout, ls, mv, share, sync, upload } from "./commands";
+
+const USAGE = `Usage: fms <command> [options]
+
+Commands:
+  login [--server URL] [--token TOKEN]   Store the server address and an API token
+  logout                                 Forget the stored credential
+  ls [REMOTE] [-l]                       List a remote folder (default: /)
+  upload LOCAL... REMOTE_FOLDER          Upload files and folders, recursively
+  download REMOTE [LOCAL] [--force]      Download a file or folder, recursively
+  mv REMOTE_SOURCE REMOTE_DEST           Move or rename a file or folder
+  share REMOTE USER|@GROUP [--level L]   Share with a user or group (view, download, edit)
+  sync LOCAL_DIR REMOTE_FOLDER [--dry-run]
+                                         Upload new and changed files from LOCAL_DIR
+
+Remote paths start at My Files, e.g. /Reports/2024. Interrupted uploads and
+downloads resume when the same command is run again.
+
+Create a token under Settings > API Tokens. FMS_SERVER and FMS_TOKEN take
+precedence over the stored credential.`;
+
+function usageError(message: string): never {
+  throw new CliError(`${message}\n\n${USAGE}`);
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      server: { type: "string" },
+      token: { type: "string" },
+      long: { type: "boolean", short: "l" },
+      force: { type: "boolean" },
+      level: { type: "string" },
+      "dry-run": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, ...args] = positionals;
+
+  if (!command || values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  switch (command) {
+    case "login":
+      return login({ server: values.server, token: values.token });
+    case "logout":
+      return logout();
+    case "ls":
+      return ls(args[0] ?? "/", { long: values.long });
+    case "upload":
+      if (args.length < 2) usageError("upload needs at least one local path and a remote folder");
+      return upload(args.slice(0, -1), args[args.length - 1]);
+    case "download":
+      if (args.length < 1) usageError("download needs a remote path");
+      return download(args[0], args[1] ?? ".", { force: values.force });
+    case "mv":
+      if (args.length !== 2) usageError("mv needs a source and a destination");
+      return mv(args[0], args[1]);
+    case "share":
+      if (args.length !== 2) usageError("share needs a remote path and a user or @group");
+      return share(args[0], args[1], { level: values.level });
+    case "sync":
+      if (args.length !== 2) usageError("sync needs a local directory and a remote folder");
+      return sync(args[0], args[1], { dryRun: values["dry-run"] });
+    default:
+      usageError(`Unknown command: ${command}`);
+  }
+}
+
+main(process.argv.slice(2)).catch((err) => {
+  if (err instanceof CliError || err instanceof ApiError) {
+    console.error(`fms: ${err.message}`);
+  } else if (err instanceof ZodError) {
+    console.error(`fms: ${err.errors[0]?.message ?? "invalid input"}`);
+  } else if (err instanceof TypeError && (err as NodeJS.ErrnoException).code?.startsWith("ERR_PARSE_ARGS")) {
+    console.error(`fms: ${err.message}\n\n${USAGE}`);
+  } else if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+    console.error(`fms: ${(err as NodeJS.ErrnoException).path}: no such file or directory`);
+  } else {
+    console.error(err);
+  }
+  process.exitCode = 1;
+});
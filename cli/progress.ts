@@ -0,0 +1,50 @@
+// Transfer progress on stderr, so stdout stays clean for scripts. On a
+// terminal it's a bar redrawn in place; under cron, one line per file.
+const BAR_WIDTH = 24;
+const REDRAW_INTERVAL_MS = 100;
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+export class Progress {
+  private readonly interactive = !!process.stderr.isTTY;
+  private readonly startedAt = Date.now();
+  private lastDrawn = 0;
+  private current = 0;
+
+  constructor(private readonly label: string, private readonly total: number) {}
+
+  update(bytes: number) {
+    this.current = bytes;
+    if (this.interactive && Date.now() - this.lastDrawn >= REDRAW_INTERVAL_MS) this.draw();
+  }
+
+  done(verb: string) {
+    if (this.interactive) process.stderr.write("\r\x1b[K");
+    const seconds = Math.max((Date.now() - this.startedAt) / 1000, 0.001);
+    process.stderr.write(`${verb} ${this.label} (${formatBytes(this.total)} in ${seconds.toFixed(1)}s)\n`);
+  }
+
+  fail() {
+    if (this.interactive) process.stderr.write("\r\x1b[K");
+  }
+
+  private draw() {
+    this.lastDrawn = Date.now();
+    const ratio = this.total > 0 ? Math.min(this.current / this.total, 1) : 1;
+    const filled = Math.round(ratio * BAR_WIDTH);
+    const bar = "#".repeat(filled) + "-".repeat(BAR_WIDTH - filled);
+    const columns = process.stderr.columns || 80;
+    const line = `[${bar}] ${String(Math.floor(ratio * 100)).padStart(3)}% ${formatBytes(this.current)}/${formatBytes(this.total)} ${this.label}`;
+    process.stderr.write(`\r\x1b[K${line.slice(0, columns - 1)}`);
+  }
+}
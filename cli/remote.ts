@@ -0,0 +1,56 @@
+import { api } from "@shared/routes";
+import type { File as StoredFile, Folder } from "@shared/schema";
+import type { FmsClient } from "./client";
+import { CliError } from "./config";
+
+// Remote paths are walked by name from "My Files", like the file browser:
+// "/" is the root, "/Reports/2024" a folder under it
+export type RemoteEntry =
+  | { type: "root" }
+  | { type: "folder"; folder: Folder }
+  | { type: "file"; file: StoredFile };
+
+export function splitRemotePath(remotePath: string): string[] {
+  return remotePath.split("/").filter(Boolean);
+}
+
+export const folderIdOf = (entry: RemoteEntry) => entry.type === "folder" ? entry.folder.id : null;
+
+export async function listFolder(client: FmsClient, folderId: number | null) {
+  return client.call(api.fs.list, 200, { query: { folderId: folderId ?? "root" } });
+}
+
+export async function resolveRemote(client: FmsClient, remotePath: string): Promise<RemoteEntry | undefined> {
+  let entry: RemoteEntry = { type: "root" };
+  for (const name of splitRemotePath(remotePath)) {
+    if (entry.type === "file") return undefined;
+    const { folders, files } = await listFolder(client, folderIdOf(entry));
+    // Where a folder and a file share a name, the folder wins
+    const folder = folders.find(f => f.name === name);
+    const file = files.find(f => f.name === name);
+    if (folder) entry = { type: "folder", folder };
+    else if (file) entry = { type: "file", file };
+    else return undefined;
+  }
+  return entry;
+}
+
+export async function requireRemote(client: FmsClient, remotePath: string): Promise<RemoteEntry> {
+  const entry = await resolveRemote(client, remotePath);
+  if (!entry) throw new CliError(`${remotePath}: no such file or folder`);
+  return entry;
+}
+
+export async function requireRemoteFolder(client: FmsClient, remotePath: string): Promise<number | null> {
+  const entry = await requireRemote(client, remotePath);
+  if (entry.type === "file") throw new CliError(`${remotePath}: not a folder`);
+  return folderIdOf(entry);
+}
+
+// The child folder of that name, created if it isn't there yet
+export async function ensureFolder(client: FmsClient, parentId: number | null, name: string): Promise<Folder> {
+  const { folders } = await listFolder(client, parentId);
+  const existing = folders.find(f => f.name === name);
+  if (existing) return existing;
+  return client.call(api.fs.createFolder, 201, { body: { name, parentId } });
+}
@@ -0,0 +1,195 @@
+import fs from "fs/promises";
+import { createWriteStream, openAsBlob } from "fs";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { api, buildUrl } from "@shared/routes";
+import type { File as StoredFile, FileVersion } from "@shared/schema";
+import { ApiError, backoff, wait, type FmsClient } from "./client";
+import { CliError, readState, writeState } from "./config";
+import { Progress } from "./progress";
+
+// Same chunking as the browser: a dropped connection loses at most one chunk
+const CHUNK_SIZE = 8 * 1024 * 1024;
+const MAX_RETRIES = 5;
+
+// Upload sessions and half-finished downloads from earlier runs, so running
+// the same command again continues instead of starting over
+const UPLOADS_STATE = "uploads.json";
+const DOWNLOADS_STATE = "downloads.json";
+const PART_SUFFIX = ".fms-part";
+
+type StoredUploads = Record<string, string>;
+type StoredDownloads = Record<string, string>;
+
+// Dropped connections, server errors and offset mismatches are worth another
+// try; anything else (no permission, over quota) will fail the same way again
+const isRetryable = (err: unknown) =>
+  !(err instanceof ApiError) || err.status === 409 || err.status >= 500;
+
+async function updateState<T extends Record<string, string>>(name: string, key: string, value: string | null) {
+  const state = await readState<T>(name, {} as T);
+  if (value === null) delete state[key];
+  else (state as Record<string, string>)[key] = value;
+  await writeState(name, state);
+}
+
+async function serverOffset(client: FmsClient, sessionId: string): Promise<number | null> {
+  try {
+    const res = await client.fetch(client.url(buildUrl(api.fs.uploadStatus.path, { id: sessionId })), {
+      method: api.fs.uploadStatus.method,
+    });
+    return parseInt(res.headers.get("Upload-Offset") || "0", 10);
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 404) return null;
+    throw err;
+  }
+}
+
+/**
+ * Upload a local file as a new file in the folder, in chunks. An upload of the
+ * same (unchanged) file to the same folder that was cut short is resumed.
+ */
+export async function uploadFile(client: FmsClient, localPath: string, folderId: number | null, name = path.basename(localPath)): Promise<StoredFile> {
+  const { size, mtimeMs } = await fs.stat(localPath);
+  const key = [client.server, folderId ?? "root", path.resolve(localPath), name, size, mtimeMs].join(":");
+
+  let sessionId: string | null = (await readState<StoredUploads>(UPLOADS_STATE, {}))[key] ?? null;
+  let offset = sessionId ? await serverOffset(client, sessionId) : null;
+  if (sessionId === null || offset === null) {
+    const session = await client.call(api.fs.createUpload, 201, { body: { name, size, folderId } });
+    sessionId = session.id;
+    offset = 0;
+    await updateState(UPLOADS_STATE, key, sessionId);
+  }
+
+  const progress = new Progress(name, size);
+  progress.update(offset);
+  const handle = await fs.open(localPath, "r");
+  try {
+    const chunkUrl = client.url(buildUrl(api.fs.uploadChunk.path, { id: sessionId }));
+    let failures = 0;
+    while (offset < size) {
+      const chunk = Buffer.alloc(Math.min(CHUNK_SIZE, size - offset));
+      await handle.read(chunk, 0, chunk.length, offset);
+      try {
+        const res = await client.fetch(chunkUrl, {
+          method: api.fs.uploadChunk.method,
+          headers: { "Upload-Offset": String(offset), "Content-Type": "application/offset+octet-stream" },
+          body: chunk,
+        }, { retry: false });
+        offset = parseInt(res.headers.get("Upload-Offset") || String(offset + chunk.length), 10);
+        failures = 0;
+      } catch (err) {
+        if (!isRetryable(err) || ++failures > MAX_RETRIES) throw err;
+        // Back off, then ask the server how much of the chunk actually landed
+        await wait(backoff(failures));
+        const current = await serverOffset(client, sessionId);
+        if (current === null) {
+          await updateState(UPLOADS_STATE, key, null);
+          throw new CliError(`The upload of ${name} expired on the server. Run the command again to start over.`);
+        }
+        offset = current;
+      }
+      progress.update(offset);
+    }
+  } catch (err) {
+    progress.fail();
+    throw err;
+  } finally {
+    await handle.close();
+  }
+
+  const file = await client.call(api.fs.completeUpload, 201, { params: { id: sessionId } });
+  await updateState(UPLOADS_STATE, key, null);
+  progress.done("uploaded");
+  return file;
+}
+
+// New content for an existing file, kept as its next version. Versions go up
+// in one request, so an interrupted one starts again from the beginning.
+export async function uploadVersion(client: FmsClient, localPath: string, fileId: number, name = path.basename(localPath)): Promise<FileVersion> {
+  const { size } = await fs.stat(localPath);
+  const progress = new Progress(name, size);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const form = new FormData();
+      form.append("file", await openAsBlob(localPath), name);
+      const res = await client.fetch(client.url(buildUrl(api.fs.uploadVersion.path, { id: fileId })), {
+        method: api.fs.uploadVersion.method,
+        body: form,
+      }, { retry: false });
+      const version = api.fs.uploadVersion.responses[201].parse(await res.json());
+      progress.done(`uploaded version ${version.versionNumber} of`);
+      return version;
+    } catch (err) {
+      // Only a dropped connection is tried again; whatever the server said stands
+      if (err instanceof ApiError || attempt >= MAX_RETRIES) {
+        progress.fail();
+        throw err;
+      }
+      await wait(backoff(attempt));
+    }
+  }
+}
+
+/**
+ * Download a file to localPath. Bytes land in a ".fms-part" file next to it
+ * first; a later run continues that file with a Range request, as long as the
+ * file hasn't changed on the server since.
+ */
+export async function downloadFile(client: FmsClient, file: StoredFile, localPath: string): Promise<void> {
+  const partPath = `${localPath}${PART_SUFFIX}`;
+  const key = path.resolve(partPath);
+  const url = client.url(buildUrl(api.fs.download.path, { fileId: file.id }));
+  const progress = new Progress(file.name, file.size);
+  let lastModified: string | null = null;
+
+  for (let attempt = 0; ; attempt++) {
+    const etag = (await readState<StoredDownloads>(DOWNLOADS_STATE, {}))[key];
+    let offset = (await fs.stat(partPath).catch(() => null))?.size ?? 0;
+    if (!etag || offset >= file.size) offset = 0;
+
+    try {
+      const res = await client.fetch(url, {
+        headers: offset > 0 ? { Range: `bytes=${offset}-`, "If-Range": etag } : {},
+      }, { retry: false });
+      // A full answer means the file changed (or ranges aren't on offer): start over
+      if (res.status !== 206) offset = 0;
+      const received = res.headers.get("ETag");
+      if (received) await updateState(DOWNLOADS_STATE, key, received);
+      lastModified = res.headers.get("Last-Modified");
+
+      let written = offset;
+      progress.update(written);
+      const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          written += chunk.length;
+          progress.update(written);
+          callback(null, chunk);
+        },
+      });
+      if (res.body) {
+        await pipeline(Readable.fromWeb(res.body as import("stream/web").ReadableStream), counter, createWriteStream(partPath, { flags: offset > 0 ? "a" : "w" }));
+      } else {
+        await fs.writeFile(partPath, "");
+      }
+      break;
+    } catch (err) {
+      if (!isRetryable(err) || attempt >= MAX_RETRIES) {
+        progress.fail();
+        throw err;
+      }
+      await wait(backoff(attempt));
+    }
+  }
+
+  await fs.rename(partPath, localPath);
+  await updateState(DOWNLOADS_STATE, key, null);
+  // Keeps `fms sync` and other tools able to tell which copy is newer
+  if (lastModified) {
+    const modifiedAt = new Date(lastModified);
+    await fs.utimes(localPath, modifiedAt, modifiedAt).catch(() => {});
+  }
+  progress.done("downloaded");
+}
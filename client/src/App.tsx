@@ -3,6 +3,9 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { useCapabilities } from "@/hooks/use-capabilities";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import type { Capability } from "@shared/schema";
 import { Loader2 } from "lucide-react";
 
 import LoginPage from "@/pages/login";
@@ -10,14 +13,18 @@ import DashboardPage from "@/pages/dashboard";
 import RecentPage from "@/pages/recent";
 import StarredPage from "@/pages/starred";
 import TrashPage from "@/pages/trash";
+import SearchPage from "@/pages/search";
 import SettingsPage from "@/pages/settings";
 import UsersPage from "@/pages/admin-users";
+import GroupsPage from "@/pages/admin-groups";
 import AuditPage from "@/pages/admin-audit";
+import RolesPage from "@/pages/admin-roles";
+import PublicSharePage from "@/pages/public-share";
 import NotFound from "@/pages/not-found";
 
 function ProtectedRoute({ component: Component }: { component: React.ComponentType }) {
   const { user, isLoading } = useAuth();
-  const [, setLocation] = useLocation();
+  const [location, setLocation] = useLocation();
 
   if (isLoading) {
     return (
@@ -32,21 +39,36 @@ function ProtectedRoute({ component: Component }: { component: React.ComponentTy
     return null;
   }
 
+  // Their role requires 2FA: nothing else until it's set up
+  if (user.twoFactorSetupRequired && location !== "/settings") {
+    setLocation("/settings");
+    return null;
+  }
+
   return <Component />;
 }
 
-function AdminRoute({ component: Component }: { component: React.ComponentType }) {
+// Admin pages are open to any role granted the capability (superadmin-only
+// pages pass no capability)
+function AdminRoute({ component: Component, capability }: { component: React.ComponentType; capability?: Capability }) {
   const { user, isLoading } = useAuth();
+  const { data: capabilities, isLoading: capabilitiesLoading } = useCapabilities();
   const [, setLocation] = useLocation();
 
-  if (isLoading) return <div className="min-h-screen flex items-center justify-center"><Loader2 className="w-8 h-8 animate-spin text-primary" /></div>;
+  if (isLoading || (user && capabilitiesLoading)) return <div className="min-h-screen flex items-center justify-center"><Loader2 className="w-8 h-8 animate-spin text-primary" /></div>;
 
   if (!user) {
     setLocation("/login");
     return null;
   }
 
-  if (user.role !== "admin" && user.role !== "superadmin") {
+  if (user.twoFactorSetupRequired) {
+    setLocation("/settings");
+    return null;
+  }
+
+  const allowed = capability ? !!capabilities?.[capability] : user.role === "superadmin";
+  if (!allowed) {
     setLocation("/");
     return null;
   }
@@ -54,18 +76,28 @@ function AdminRoute({ component: Component }: { component: React.ComponentType }
   return <Component />;
 }
 
+// Folder listings follow changes made by others while signed in
+function LiveUpdates() {
+  useLiveUpdates();
+  return null;
+}
+
 function Router() {
   return (
     <Switch>
       <Route path="/login" component={LoginPage} />
+      <Route path="/s/:token" component={PublicSharePage} />
       <Route path="/" component={() => <ProtectedRoute component={DashboardPage} />} />
       <Route path="/folder/:id" component={() => <ProtectedRoute component={DashboardPage} />} />
       <Route path="/recent" component={() => <ProtectedRoute component={RecentPage} />} />
       <Route path="/starred" component={() => <ProtectedRoute component={StarredPage} />} />
       <Route path="/trash" component={() => <ProtectedRoute component={TrashPage} />} />
+      <Route path="/search" component={() => <ProtectedRoute component={SearchPage} />} />
       <Route path="/settings" component={() => <ProtectedRoute component={SettingsPage} />} />
-      <Route path="/admin/users" component={() => <AdminRoute component={UsersPage} />} />
-      <Route path="/admin/audit" component={() => <AdminRoute component={AuditPage} />} />
+      <Route path="/admin/users" component={() => <AdminRoute component={UsersPage} capability="canManageUsers" />} />
+      <Route path="/admin/groups" component={() => <AdminRoute component={GroupsPage} capability="canManageUsers" />} />
+      <Route path="/admin/audit" component={() => <AdminRoute component={AuditPage} capability="canViewAudit" />} />
+      <Route path="/admin/roles" component={() => <AdminRoute component={RolesPage} />} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -75,6 +107,7 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
+        <LiveUpdates />
         <Router />
         <Toaster />
       </AuthProvider>
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { useApiTokens, useCreateApiToken, useRevokeApiToken } from "@/hooks/use-api-tokens";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, KeyRound, Plus } from "lucide-react";
+import { API_TOKEN_SCOPES, type ApiTokenInfo, type ApiTokenScope } from "@shared/schema";
+
+const SCOPE_LABELS: Record<ApiTokenScope, { name: string; description: string }> = {
+  read: { name: "Read", description: "List, search and download files" },
+  write: { name: "Write", description: "Upload, rename, move and delete" },
+  share: { name: "Share", description: "Share with users and create links" },
+  admin: { name: "Admin", description: "Admin pages your role can use" },
+};
+
+const EXPIRY_OPTIONS = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+function describeExpiry(token: ApiTokenInfo) {
+  if (!token.expiresAt) return "Never expires";
+  const expiresAt = new Date(token.expiresAt);
+  return expiresAt < new Date() ? "Expired" : `Expires ${format(expiresAt, "MMM d, yyyy")}`;
+}
+
+export function ApiTokenSettings() {
+  const { data: tokens, isLoading } = useApiTokens();
+  const createToken = useCreateApiToken();
+  const revokeToken = useRevokeApiToken();
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"]);
+  const [expiry, setExpiry] = useState("90");
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<ApiTokenInfo | null>(null);
+
+  const resetForm = () => {
+    setName("");
+    setScopes(["read"]);
+    setExpiry("90");
+  };
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) =>
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+
+  const handleCreate = () => {
+    createToken.mutate({
+      name: name.trim(),
+      scopes,
+      expiresInDays: expiry === "never" ? null : parseInt(expiry),
+    }, {
+      onSuccess: ({ token }) => {
+        setCreateOpen(false);
+        resetForm();
+        setNewToken(token);
+      },
+    });
+  };
+
+  if (isLoading || !tokens) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-10 w-32" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {tokens.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No tokens yet. Scripts can use a token instead of your password, sent as
+          an <span className="font-mono">Authorization: Bearer</span> header.
+        </p>
+      ) : (
+        <div className="divide-y divide-border/50">
+          {tokens.map((token) => (
+            <div key={token.id} className="flex items-center gap-3 py-3">
+              <KeyRound className="w-5 h-5 text-muted-foreground shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {token.name} <span className="font-mono text-xs text-muted-foreground">{token.prefix}…</span>
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {token.scopes.map(s => SCOPE_LABELS[s].name).join(", ")} · {describeExpiry(token)} ·{" "}
+                  {token.lastUsedAt ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}` : "Never used"}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" className="text-destructive" onClick={() => setRevoking(token)}>
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={() => setCreateOpen(true)}>
+          <Plus className="w-4 h-4 mr-2" /> New Token
+        </Button>
+      </div>
+
+      <Dialog open={createOpen} onOpenChange={(open) => { setCreateOpen(open); if (!open) resetForm(); }}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>New API token</DialogTitle>
+            <DialogDescription>
+              The token acts as you, limited to the scopes you pick
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="token-name">Name</Label>
+              <Input id="token-name" placeholder="e.g. Nightly report upload" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label>Scopes</Label>
+              {API_TOKEN_SCOPES.map(scope => (
+                <label key={scope} className="flex items-start gap-3 cursor-pointer">
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  <span>
+                    <span className="text-sm font-medium">{SCOPE_LABELS[scope].name}</span>
+                    <span className="block text-xs text-muted-foreground">{SCOPE_LABELS[scope].description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <div className="grid gap-2">
+              <Label>Expires after</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setCreateOpen(false); resetForm(); }}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={!name.trim() || scopes.length === 0 || createToken.isPending}>
+              Create Token
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={newToken !== null} onOpenChange={(open) => !open && setNewToken(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Copy your new token</DialogTitle>
+            <DialogDescription>
+              It won't be shown again. Store it where your script can read it, not in source control.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="rounded-lg bg-muted p-4 font-mono text-sm break-all">{newToken}</div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => newToken && navigator.clipboard.writeText(newToken)
+                .then(() => toast({ title: "Token copied" }))
+                .catch(() => toast({ title: "Could not copy the token", variant: "destructive" }))}
+            >
+              <Copy className="w-4 h-4 mr-2" /> Copy
+            </Button>
+            <Button onClick={() => setNewToken(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!revoking}
+        onOpenChange={(open) => !open && setRevoking(null)}
+        title={`Revoke "${revoking?.name}"?`}
+        description="Scripts using this token will stop working straight away."
+        confirmText="Revoke Token"
+        variant="destructive"
+        onConfirm={() => revoking && revokeToken.mutate(revoking.id)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,757 @@
+import { ReactNode, useRef, useState } from "react";
+import { Link } from "wouter";
+import { useDeleteFile, useDeleteFolder, useUploadVersion, useStarredItems, useToggleStar } from "@/hooks/use-fs";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ViewToggle } from "@/components/view-toggle";
+import { useViewMode } from "@/hooks/use-view-mode";
+import {
+  Folder,
+  FileText,
+  Image as ImageIcon,
+  MoreVertical,
+  Download,
+  Trash2,
+  Edit2,
+  Move,
+  Eye,
+  Share2,
+  History,
+  FileUp,
+  Star,
+  StarOff,
+  X
+} from "lucide-react";
+import { format } from "date-fns";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+import { RenameDialog } from "@/components/rename-dialog";
+import { MoveDialog } from "@/components/move-dialog";
+import { ShareDialog } from "@/components/share-dialog";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { VersionHistoryDialog } from "@/components/version-history-dialog";
+import { FilePreviewDrawer } from "@/components/file-preview-drawer";
+import { FileThumbnail } from "@/components/file-thumbnail";
+import { useToast } from "@/hooks/use-toast";
+import { formatSize } from "@/lib/utils";
+import { hasAccess, type AccessLevel, type Folder as StoredFolder, type File as StoredFile } from "@shared/schema";
+import { api, buildUrl } from "@shared/routes";
+
+// Permission helpers
+const canShare = (accessLevel: AccessLevel) => hasAccess(accessLevel, 'owner');
+const canDownload = (accessLevel: AccessLevel) => hasAccess(accessLevel, 'download');
+const canEdit = (accessLevel: AccessLevel) => hasAccess(accessLevel, 'edit');
+const canDelete = (accessLevel: AccessLevel) => hasAccess(accessLevel, 'edit');
+
+function FileIcon({ mimeType, size = "md" }: { mimeType: string; size?: "sm" | "md" | "lg" }) {
+  const sizeClasses = {
+    sm: "w-4 h-4",
+    md: "w-5 h-5",
+    lg: "w-8 h-8"
+  };
+  const cls = sizeClasses[size];
+
+  if (mimeType.includes("image")) return <ImageIcon className={`${cls} text-purple-500`} />;
+  if (mimeType.includes("folder")) return <Folder className={`${cls} text-blue-500 fill-blue-500/20`} />;
+  if (mimeType.includes("pdf")) return <FileText className={`${cls} text-red-500`} />;
+  return <FileText className={`${cls} text-slate-500`} />;
+}
+
+// Where a search hit lives, plus the matching bit of its text
+function SearchContext({ location, snippet }: { location?: string; snippet?: string | null }) {
+  if (location === undefined) return null;
+  return (
+    <>
+      <p className="text-xs text-muted-foreground truncate">in {location || "My Files"}</p>
+      {snippet && <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">…{snippet}…</p>}
+    </>
+  );
+}
+
+// Listing payloads carry the caller's access level; search results also say
+// where each item lives
+export type FileListFolder = StoredFolder & { accessLevel?: AccessLevel; size?: number; location?: string };
+export type FileListFile = StoredFile & { accessLevel?: AccessLevel; location?: string; snippet?: string | null };
+
+interface FileListProps {
+  folders: FileListFolder[];
+  files: FileListFile[];
+  viewKey: string; // Remembers the list/grid/compact choice per page
+  leading: ReactNode; // Breadcrumbs or a page title
+  actions?: ReactNode; // Extra toolbar buttons, e.g. new folder / upload
+  emptyState: ReactNode;
+}
+
+export function FileList({ folders, files, viewKey, leading, actions, emptyState }: FileListProps) {
+  const deleteFileMutation = useDeleteFile();
+  const deleteFolderMutation = useDeleteFolder();
+  const uploadVersionMutation = useUploadVersion();
+  const toggleStarMutation = useToggleStar();
+  const { data: starred } = useStarredItems();
+  const starredFileIds = new Set(starred?.files.map(f => f.id));
+  const starredFolderIds = new Set(starred?.folders.map(f => f.id));
+  const { toast } = useToast();
+  const [viewMode, setViewMode] = useViewMode(viewKey);
+
+  // Dialog States
+  const [renameItem, setRenameItem] = useState<{ id: number; name: string; type: 'file' | 'folder' } | null>(null);
+  const [moveItem, setMoveItem] = useState<{ id: number; name: string; type: 'file' | 'folder' } | null>(null);
+  const [shareItem, setShareItem] = useState<{ id: number; name: string; type: 'file' | 'folder'; inheritPermissions?: boolean } | null>(null);
+  const [historyItem, setHistoryItem] = useState<{ id: number; name: string; accessLevel: AccessLevel } | null>(null);
+  const [previewFileId, setPreviewFileId] = useState<number | null>(null);
+
+  // Upload new version (shared hidden input, target file tracked in a ref)
+  const versionInputRef = useRef<HTMLInputElement>(null);
+  const versionTargetRef = useRef<number | null>(null);
+
+  // Multi-select state (includes accessLevel for permission-aware actions)
+  type SelectedItem = { id: number; name: string; type: 'file' | 'folder'; accessLevel?: AccessLevel };
+  const [selectedItems, setSelectedItems] = useState<SelectedItem[]>([]);
+  const [shareMultipleOpen, setShareMultipleOpen] = useState(false);
+  const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
+
+  const toggleSelection = (item: SelectedItem) => {
+    setSelectedItems(prev => {
+      const isSelected = prev.some(i => i.id === item.id && i.type === item.type);
+      if (isSelected) {
+        return prev.filter(i => !(i.id === item.id && i.type === item.type));
+      } else {
+        return [...prev, item];
+      }
+    });
+  };
+
+  const isSelected = (id: number, type: 'file' | 'folder') =>
+    selectedItems.some(i => i.id === id && i.type === type);
+
+  // Check if all selected items can be shared/deleted (only owners)
+  const canBulkShare = selectedItems.every(i => canShare(i.accessLevel || 'owner'));
+  const canBulkDelete = selectedItems.every(i => canDelete(i.accessLevel || 'owner'));
+  const canBulkDownload = selectedItems.every(i => canDownload(i.accessLevel || 'owner'));
+
+  const clearSelection = () => setSelectedItems([]);
+
+  const handleViewFile = (fileId: number) => {
+    setPreviewFileId(fileId);
+  };
+
+  const handleDownloadFile = (fileId: number) => {
+    window.open(buildUrl(api.fs.download.path, { fileId }), '_blank');
+  };
+
+  const handleDownloadFolder = (folderId: number) => {
+    window.open(buildUrl(api.fs.downloadFolder.path, { id: folderId }), '_blank');
+  };
+
+  const handleUploadVersion = (fileId: number) => {
+    versionTargetRef.current = fileId;
+    versionInputRef.current?.click();
+  };
+
+  const handleVersionSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const fileId = versionTargetRef.current;
+    if (file && fileId !== null) {
+      uploadVersionMutation.mutate({ fileId, file });
+    }
+    event.target.value = "";
+    versionTargetRef.current = null;
+  };
+
+  const handleDelete = async (id: number, type: 'file' | 'folder') => {
+    if (type === 'file') {
+      deleteFileMutation.mutate(id);
+    } else {
+      deleteFolderMutation.mutate(id);
+    }
+  };
+
+  // Bulk delete selected items - opens confirmation dialog
+  const handleBulkDelete = () => {
+    if (selectedItems.length === 0) return;
+    setDeleteConfirmOpen(true);
+  };
+
+  // Actually perform the bulk delete after confirmation
+  const confirmBulkDelete = async () => {
+    for (const item of selectedItems) {
+      if (item.type === 'file') {
+        deleteFileMutation.mutate(item.id);
+      } else {
+        deleteFolderMutation.mutate(item.id);
+      }
+    }
+
+    toast({
+      title: "Items deleted",
+      description: `${selectedItems.length} items moved to trash`,
+    });
+    clearSelection();
+    setDeleteConfirmOpen(false);
+  };
+
+  // Bulk download selected items
+  const handleBulkDownload = () => {
+    if (selectedItems.length === 0) return;
+
+    // For single item, download directly
+    if (selectedItems.length === 1) {
+      const item = selectedItems[0];
+      if (item.type === 'file') {
+        handleDownloadFile(item.id);
+      } else {
+        handleDownloadFolder(item.id);
+      }
+      return;
+    }
+
+    // For multiple items, use bulk download endpoint
+    const fileIds = selectedItems.filter(i => i.type === 'file').map(i => i.id);
+    const folderIds = selectedItems.filter(i => i.type === 'folder').map(i => i.id);
+
+    const params = new URLSearchParams();
+    fileIds.forEach(id => params.append('fileIds', id.toString()));
+    folderIds.forEach(id => params.append('folderIds', id.toString()));
+
+    window.open(`${api.fs.bulkDownload.path}?${params.toString()}`, '_blank');
+
+    toast({
+      title: "Download started",
+      description: `Downloading ${selectedItems.length} items as ZIP`,
+    });
+  };
+
+
+  const isEmpty = folders.length === 0 && files.length === 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Dialogs */}
+      <RenameDialog
+        open={!!renameItem}
+        onOpenChange={(open) => !open && setRenameItem(null)}
+        item={renameItem}
+      />
+      <MoveDialog
+        open={!!moveItem}
+        onOpenChange={(open) => !open && setMoveItem(null)}
+        item={moveItem}
+      />
+      <ShareDialog
+        open={!!shareItem}
+        onOpenChange={(open) => !open && setShareItem(null)}
+        item={shareItem}
+      />
+      <VersionHistoryDialog
+        open={!!historyItem}
+        onOpenChange={(open) => !open && setHistoryItem(null)}
+        item={historyItem}
+        canDownload={historyItem ? canDownload(historyItem.accessLevel) : false}
+        canRestore={historyItem ? canEdit(historyItem.accessLevel) : false}
+      />
+      <FilePreviewDrawer files={files} fileId={previewFileId} onFileChange={setPreviewFileId} />
+      <input type="file" className="hidden" ref={versionInputRef} onChange={handleVersionSelected} />
+      {/* Multi-select share dialog */}
+      <ShareDialog
+        open={shareMultipleOpen}
+        onOpenChange={(open) => {
+          setShareMultipleOpen(open);
+          if (!open) clearSelection();
+        }}
+        item={null}
+        items={selectedItems}
+      />
+      {/* Bulk delete confirmation dialog */}
+      <ConfirmDialog
+        open={deleteConfirmOpen}
+        onOpenChange={setDeleteConfirmOpen}
+        title="Delete Items"
+        description="Are you sure you want to delete these items? They will be moved to trash and can be restored later."
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="destructive"
+        onConfirm={confirmBulkDelete}
+        itemCount={selectedItems.length}
+      />
+
+
+      {/* Header & Actions */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        {leading}
+
+        <div className="flex items-center gap-2">
+          {/* Multi-select actions */}
+          {selectedItems.length > 0 && (
+            <div className="flex items-center gap-2 px-3 py-1.5 bg-muted/50 rounded-lg border">
+              <span className="text-sm font-medium">{selectedItems.length} selected</span>
+              <div className="w-px h-4 bg-border" />
+              {canBulkDownload && (
+                <Button variant="ghost" size="sm" onClick={() => handleBulkDownload()}>
+                  <Download className="w-4 h-4 mr-1" /> Download
+                </Button>
+              )}
+              {canBulkShare && (
+                <Button variant="ghost" size="sm" onClick={() => setShareMultipleOpen(true)}>
+                  <Share2 className="w-4 h-4 mr-1" /> Share
+                </Button>
+              )}
+              {canBulkDelete && (
+                <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => handleBulkDelete()}>
+                  <Trash2 className="w-4 h-4 mr-1" /> Delete
+                </Button>
+              )}
+              <div className="w-px h-4 bg-border" />
+              <Button variant="ghost" size="sm" onClick={clearSelection}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+          <ViewToggle view={viewMode} onViewChange={setViewMode} />
+          {actions}
+        </div>
+      </div>
+
+      {/* File List */}
+      <div className="bg-card rounded-2xl border border-border shadow-sm overflow-hidden">
+        {/* Content */}
+        {isEmpty ? (
+          emptyState
+        ) : viewMode === 'grid' ? (
+          // Grid View
+          <div className="p-4 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+            {folders.map((folder) => (
+              <div
+                key={`folder-${folder.id}`}
+                className={`group relative bg-muted/30 hover:bg-muted/50 rounded-xl p-4 transition-all hover:shadow-md ${isSelected(folder.id, 'folder') ? 'ring-2 ring-primary' : ''}`}
+              >
+                <div className="absolute top-2 left-2">
+                  <Checkbox
+                    checked={isSelected(folder.id, 'folder')}
+                    onCheckedChange={() => toggleSelection({ id: folder.id, name: folder.name, type: 'folder', accessLevel: folder.accessLevel || 'owner' })}
+                  />
+                </div>
+                <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8">
+                        <MoreVertical className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => toggleStarMutation.mutate({ id: folder.id, type: 'folder' })}>
+                        {starredFolderIds.has(folder.id) ? <><StarOff className="w-4 h-4 mr-2" /> Unstar</> : <><Star className="w-4 h-4 mr-2" /> Star</>}
+                      </DropdownMenuItem>
+                      {canDownload(folder.accessLevel || 'owner') && (
+                        <DropdownMenuItem onClick={() => handleDownloadFolder(folder.id)}>
+                          <Download className="w-4 h-4 mr-2" /> Download Zip
+                        </DropdownMenuItem>
+                      )}
+                      {canShare(folder.accessLevel || 'owner') && (
+                        <DropdownMenuItem onClick={() => setShareItem({ id: folder.id, name: folder.name, type: 'folder', inheritPermissions: folder.inheritPermissions })}>
+                          <Share2 className="w-4 h-4 mr-2" /> Share
+                        </DropdownMenuItem>
+                      )}
+                      {canEdit(folder.accessLevel || 'owner') && (
+                        <>
+                          <DropdownMenuItem onClick={() => setRenameItem({ id: folder.id, name: folder.name, type: 'folder' })}>
+                            <Edit2 className="w-4 h-4 mr-2" /> Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setMoveItem({ id: folder.id, name: folder.name, type: 'folder' })}>
+                            <Move className="w-4 h-4 mr-2" /> Move to...
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                      {canDelete(folder.accessLevel || 'owner') && (
+                        <>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(folder.id, 'folder')}>
+                            <Trash2 className="w-4 h-4 mr-2" /> Delete
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+                <Link href={`/folder/${folder.id}`} className="flex flex-col items-center text-center pt-4">
+                  <div className="w-16 h-16 rounded-xl bg-blue-500/10 flex items-center justify-center mb-3">
+                    <Folder className="w-10 h-10 text-blue-600 fill-blue-600/20" />
+                  </div>
+                  <p className="text-sm font-medium truncate w-full">{folder.name}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {folder.accessLevel && folder.accessLevel !== 'owner' ? `Shared (${folder.accessLevel})` : 'Folder'}
+                  </p>
+                </Link>
+              </div>
+            ))}
+
+            {files.map((file) => (
+              <div
+                key={`file-${file.id}`}
+                className={`group relative bg-muted/30 hover:bg-muted/50 rounded-xl p-4 transition-all hover:shadow-md cursor-pointer ${isSelected(file.id, 'file') ? 'ring-2 ring-primary' : ''}`}
+                onClick={() => handleViewFile(file.id)}
+              >
+                <div className="absolute top-2 left-2" onClick={(e) => e.stopPropagation()}>
+                  <Checkbox
+                    checked={isSelected(file.id, 'file')}
+                    onCheckedChange={() => toggleSelection({ id: file.id, name: file.name, type: 'file', accessLevel: file.accessLevel || 'owner' })}
+                  />
+                </div>
+                <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                      <Button variant="ghost" size="icon" className="h-8 w-8">
+                        <MoreVertical className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={(e) => { e.stopPropagation(); handleViewFile(file.id); }}>
+                        <Eye className="w-4 h-4 mr-2" /> View
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={(e) => { e.stopPropagation(); toggleStarMutation.mutate({ id: file.id, type: 'file' }); }}>
+                        {starredFileIds.has(file.id) ? <><StarOff className="w-4 h-4 mr-2" /> Unstar</> : <><Star className="w-4 h-4 mr-2" /> Star</>}
+                      </DropdownMenuItem>
+                      {canDownload(file.accessLevel || 'owner') && (
+                        <DropdownMenuItem onClick={(e) => { e.stopPropagation(); handleDownloadFile(file.id); }}>
+                          <Download className="w-4 h-4 mr-2" /> Download
+                        </DropdownMenuItem>
+                      )}
+                      {canShare(file.accessLevel || 'owner') && (
+                        <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setShareItem({ id: file.id, name: file.name, type: 'file' }); }}>
+                          <Share2 className="w-4 h-4 mr-2" /> Share
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setHistoryItem({ id: file.id, name: file.name, accessLevel: file.accessLevel || 'owner' }); }}>
+                        <History className="w-4 h-4 mr-2" /> Version history
+                      </DropdownMenuItem>
+                      {canEdit(file.accessLevel || 'owner') && (
+                        <>
+                          <DropdownMenuItem onClick={(e) => { e.stopPropagation(); handleUploadVersion(file.id); }}>
+                            <FileUp className="w-4 h-4 mr-2" /> Upload new version
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setRenameItem({ id: file.id, name: file.name, type: 'file' }); }}>
+                            <Edit2 className="w-4 h-4 mr-2" /> Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setMoveItem({ id: file.id, name: file.name, type: 'file' }); }}>
+                            <Move className="w-4 h-4 mr-2" /> Move to...
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                      {canDelete(file.accessLevel || 'owner') && (
+                        <>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem className="text-destructive" onClick={(e) => { e.stopPropagation(); handleDelete(file.id, 'file'); }}>
+                            <Trash2 className="w-4 h-4 mr-2" /> Delete
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+                <div className="flex flex-col items-center text-center pt-4">
+                  <FileThumbnail file={file}>
+                    <FileIcon mimeType={file.mimeType} size="lg" />
+                  </FileThumbnail>
+                  <p className="text-sm font-medium truncate w-full">{file.name}</p>
+                  <p className="text-xs text-muted-foreground mt-1">{formatSize(file.size)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : viewMode === 'compact' ? (
+          // Compact View
+          <div className="divide-y divide-border/50">
+            {folders.map((folder) => (
+              <div
+                key={`folder-${folder.id}`}
+                className={`flex items-center gap-3 px-4 py-2 hover:bg-muted/30 transition-colors group ${isSelected(folder.id, 'folder') ? 'bg-primary/5' : ''}`}
+              >
+                <Checkbox
+                  checked={isSelected(folder.id, 'folder')}
+                  onCheckedChange={() => toggleSelection({ id: folder.id, name: folder.name, type: 'folder', accessLevel: folder.accessLevel || 'owner' })}
+                />
+                <Folder className="w-4 h-4 text-blue-500 shrink-0" />
+                <Link href={`/folder/${folder.id}`} className="text-sm font-medium truncate flex-1 hover:text-primary">
+                  {folder.name}
+                </Link>
+                <span className="text-xs text-muted-foreground hidden sm:block">
+                  {folder.size ? formatSize(folder.size) : "-"}
+                </span>
+                <span className="text-xs text-muted-foreground hidden md:block">
+                  {folder.createdAt ? format(new Date(folder.createdAt), "MMM d") : "-"}
+                </span>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <MoreVertical className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => toggleStarMutation.mutate({ id: folder.id, type: 'folder' })}>
+                      {starredFolderIds.has(folder.id) ? <><StarOff className="w-4 h-4 mr-2" /> Unstar</> : <><Star className="w-4 h-4 mr-2" /> Star</>}
+                    </DropdownMenuItem>
+                    {canDownload(folder.accessLevel || 'owner') && (
+                      <DropdownMenuItem onClick={() => handleDownloadFolder(folder.id)}>
+                        <Download className="w-4 h-4 mr-2" /> Download
+                      </DropdownMenuItem>
+                    )}
+                    {canShare(folder.accessLevel || 'owner') && (
+                      <DropdownMenuItem onClick={() => setShareItem({ id: folder.id, name: folder.name, type: 'folder', inheritPermissions: folder.inheritPermissions })}>
+                        <Share2 className="w-4 h-4 mr-2" /> Share
+                      </DropdownMenuItem>
+                    )}
+                    {canEdit(folder.accessLevel || 'owner') && (
+                      <DropdownMenuItem onClick={() => setMoveItem({ id: folder.id, name: folder.name, type: 'folder' })}>
+                        <Move className="w-4 h-4 mr-2" /> Move to...
+                      </DropdownMenuItem>
+                    )}
+                    {canDelete(folder.accessLevel || 'owner') && (
+                      <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(folder.id, 'folder')}>
+                        <Trash2 className="w-4 h-4 mr-2" /> Delete
+                      </DropdownMenuItem>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            ))}
+
+            {files.map((file) => (
+              <div
+                key={`file-${file.id}`}
+                className={`flex items-center gap-3 px-4 py-2 hover:bg-muted/30 transition-colors group cursor-pointer ${isSelected(file.id, 'file') ? 'bg-primary/5' : ''}`}
+                onClick={() => handleViewFile(file.id)}
+              >
+                <div onClick={(e) => e.stopPropagation()}>
+                  <Checkbox
+                    checked={isSelected(file.id, 'file')}
+                    onCheckedChange={() => toggleSelection({ id: file.id, name: file.name, type: 'file', accessLevel: file.accessLevel || 'owner' })}
+                  />
+                </div>
+                <FileIcon mimeType={file.mimeType} size="sm" />
+                <span className="text-sm font-medium truncate flex-1">{file.name}</span>
+                <span className="text-xs text-muted-foreground hidden sm:block">{formatSize(file.size)}</span>
+                <span className="text-xs text-muted-foreground hidden md:block">
+                  {file.createdAt ? format(new Date(file.createdAt), "MMM d") : "-"}
+                </span>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                    <Button variant="ghost" size="icon" className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <MoreVertical className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={(e) => { e.stopPropagation(); handleViewFile(file.id); }}>
+                      <Eye className="w-4 h-4 mr-2" /> View
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={(e) => { e.stopPropagation(); toggleStarMutation.mutate({ id: file.id, type: 'file' }); }}>
+                      {starredFileIds.has(file.id) ? <><StarOff className="w-4 h-4 mr-2" /> Unstar</> : <><Star className="w-4 h-4 mr-2" /> Star</>}
+                    </DropdownMenuItem>
+                    {canDownload(file.accessLevel || 'owner') && (
+                      <DropdownMenuItem onClick={(e) => { e.stopPropagation(); handleDownloadFile(file.id); }}>
+                        <Download className="w-4 h-4 mr-2" /> Download
+                      </DropdownMenuItem>
+                    )}
+                    {canShare(file.accessLevel || 'owner') && (
+                      <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setShareItem({ id: file.id, name: file.name, type: 'file' }); }}>
+                        <Share2 className="w-4 h-4 mr-2" /> Share
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setHistoryItem({ id: file.id, name: file.name, accessLevel: file.accessLevel || 'owner' }); }}>
+                      <History className="w-4 h-4 mr-2" /> Version history
+                    </DropdownMenuItem>
+                    {canEdit(file.accessLevel || 'owner') && (
+                      <>
+                        <DropdownMenuItem onClick={(e) => { e.stopPropagation(); handleUploadVersion(file.id); }}>
+                          <FileUp className="w-4 h-4 mr-2" /> Upload new version
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setMoveItem({ id: file.id, name: file.name, type: 'file' }); }}>
+                          <Move className="w-4 h-4 mr-2" /> Move to...
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                    {canDelete(file.accessLevel || 'owner') && (
+                      <DropdownMenuItem className="text-destructive" onClick={(e) => { e.stopPropagation(); handleDelete(file.id, 'file'); }}>
+                        <Trash2 className="w-4 h-4 mr-2" /> Delete
+                      </DropdownMenuItem>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            ))}
+          </div>
+        ) : (
+          // List View (default)
+          <>
+            {/* Table Header */}
+            <div className="grid grid-cols-12 gap-4 px-6 py-3 border-b border-border bg-muted/30 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              <div className="col-span-6 flex items-center gap-2">
+                <div className="w-5" />
+                Name
+              </div>
+              <div className="col-span-2 hidden sm:block">Size</div>
+              <div className="col-span-3 hidden sm:block">Last Modified</div>
+              <div className="col-span-1"></div>
+            </div>
+
+            <div className="divide-y divide-border/50">
+              {folders.map((folder) => (
+                <div key={`folder-${folder.id}`} className={`grid grid-cols-12 gap-4 px-6 py-4 items-center hover:bg-muted/30 transition-colors group file-row ${isSelected(folder.id, 'folder') ? 'bg-primary/5' : ''}`}>
+                  <div className="col-span-6 flex items-center gap-3">
+                    <Checkbox
+                      checked={isSelected(folder.id, 'folder')}
+                      onCheckedChange={() => toggleSelection({ id: folder.id, name: folder.name, type: 'folder', accessLevel: folder.accessLevel || 'owner' })}
+                      className="mr-1"
+                    />
+                    <div className="w-10 h-10 shrink-0 rounded-lg bg-blue-500/10 flex items-center justify-center text-blue-600">
+                      <Folder className="w-6 h-6 fill-blue-600/20" />
+                    </div>
+                    <div className="min-w-0">
+                      <Link href={`/folder/${folder.id}`} className="block font-medium text-foreground hover:text-primary truncate">
+                        {folder.name}
+                      </Link>
+                      <SearchContext location={folder.location} />
+                    </div>
+                  </div>
+                  <div className="col-span-2 hidden sm:block text-sm text-muted-foreground">
+                    {folder.size ? formatSize(folder.size) : "-"}
+                  </div>
+                  <div className="col-span-3 hidden sm:block text-sm text-muted-foreground">
+                    {folder.createdAt ? format(new Date(folder.createdAt), "MMM d, yyyy") : "-"}
+                  </div>
+                  <div className="col-span-1 flex justify-end">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="opacity-0 group-hover:opacity-100 transition-opacity">
+                          <MoreVertical className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => toggleStarMutation.mutate({ id: folder.id, type: 'folder' })}>
+                          {starredFolderIds.has(folder.id) ? <><StarOff className="w-4 h-4 mr-2" /> Unstar</> : <><Star className="w-4 h-4 mr-2" /> Star</>}
+                        </DropdownMenuItem>
+                        {canDownload(folder.accessLevel || 'owner') && (
+                          <DropdownMenuItem onClick={() => handleDownloadFolder(folder.id)}>
+                            <Download className="w-4 h-4 mr-2" /> Download Zip
+                          </DropdownMenuItem>
+                        )}
+                        {canShare(folder.accessLevel || 'owner') && (
+                          <DropdownMenuItem onClick={() => setShareItem({ id: folder.id, name: folder.name, type: 'folder', inheritPermissions: folder.inheritPermissions })}>
+                            <Share2 className="w-4 h-4 mr-2" /> Share
+                          </DropdownMenuItem>
+                        )}
+                        {canEdit(folder.accessLevel || 'owner') && (
+                          <>
+                            <DropdownMenuItem onClick={() => setRenameItem({ id: folder.id, name: folder.name, type: 'folder' })}>
+                              <Edit2 className="w-4 h-4 mr-2" /> Rename
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setMoveItem({ id: folder.id, name: folder.name, type: 'folder' })}>
+                              <Move className="w-4 h-4 mr-2" /> Move to...
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                        {canDelete(folder.accessLevel || 'owner') && (
+                          <>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(folder.id, 'folder')}>
+                              <Trash2 className="w-4 h-4 mr-2" /> Delete
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              ))}
+
+              {files.map((file) => (
+                <div key={`file-${file.id}`} className={`grid grid-cols-12 gap-4 px-6 py-4 items-center hover:bg-muted/30 transition-colors group file-row ${isSelected(file.id, 'file') ? 'bg-primary/5' : ''}`}>
+                  <div className="col-span-6 flex items-center gap-3">
+                    <Checkbox
+                      checked={isSelected(file.id, 'file')}
+                      onCheckedChange={() => toggleSelection({ id: file.id, name: file.name, type: 'file', accessLevel: file.accessLevel || 'owner' })}
+                      className="mr-1"
+                    />
+                    <div className="w-10 h-10 shrink-0 rounded-lg bg-muted flex items-center justify-center">
+                      <FileIcon mimeType={file.mimeType} />
+                    </div>
+                    <div className="min-w-0">
+                      <span
+                        className="block font-medium text-foreground truncate cursor-pointer hover:underline"
+                        onClick={() => handleViewFile(file.id)}
+                      >
+                        {file.name}
+                      </span>
+                      <SearchContext location={file.location} snippet={file.snippet} />
+                    </div>
+                  </div>
+                  <div className="col-span-2 hidden sm:block text-sm text-muted-foreground">
+                    {formatSize(file.size)}
+                  </div>
+                  <div className="col-span-3 hidden sm:block text-sm text-muted-foreground">
+                    {file.createdAt ? format(new Date(file.createdAt), "MMM d, yyyy") : "-"}
+                  </div>
+                  <div className="col-span-1 flex justify-end">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="opacity-0 group-hover:opacity-100 transition-opacity">
+                          <MoreVertical className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => handleViewFile(file.id)}>
+                          <Eye className="w-4 h-4 mr-2" /> View
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => toggleStarMutation.mutate({ id: file.id, type: 'file' })}>
+                          {starredFileIds.has(file.id) ? <><StarOff className="w-4 h-4 mr-2" /> Unstar</> : <><Star className="w-4 h-4 mr-2" /> Star</>}
+                        </DropdownMenuItem>
+                        {canDownload(file.accessLevel || 'owner') && (
+                          <DropdownMenuItem onClick={() => handleDownloadFile(file.id)}>
+                            <Download className="w-4 h-4 mr-2" /> Download
+                          </DropdownMenuItem>
+                        )}
+                        {canShare(file.accessLevel || 'owner') && (
+                          <DropdownMenuItem onClick={() => setShareItem({ id: file.id, name: file.name, type: 'file' })}>
+                            <Share2 className="w-4 h-4 mr-2" /> Share
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem onClick={() => setHistoryItem({ id: file.id, name: file.name, accessLevel: file.accessLevel || 'owner' })}>
+                          <History className="w-4 h-4 mr-2" /> Version history
+                        </DropdownMenuItem>
+                        {canEdit(file.accessLevel || 'owner') && (
+                          <>
+                            <DropdownMenuItem onClick={() => handleUploadVersion(file.id)}>
+                              <FileUp className="w-4 h-4 mr-2" /> Upload new version
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setRenameItem({ id: file.id, name: file.name, type: 'file' })}>
+                              <Edit2 className="w-4 h-4 mr-2" /> Rename
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setMoveItem({ id: file.id, name: file.name, type: 'file' })}>
+                              <Move className="w-4 h-4 mr-2" /> Move to...
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                        {canDelete(file.accessLevel || 'owner') && (
+                          <>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(file.id, 'file')}>
+                              <Trash2 className="w-4 h-4 mr-2" /> Delete
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
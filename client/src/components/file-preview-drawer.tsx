@@ -0,0 +1,311 @@
+import { useEffect, useMemo } from "react";
+import { marked } from "marked";
+import DOMPurify from "dompurify";
+import hljs from "highlight.js/lib/common";
+import "highlight.js/styles/github.css";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChevronLeft, ChevronRight, Download, ExternalLink, File as FileIcon, Folder } from "lucide-react";
+import { format } from "date-fns";
+import { useFileText, useZipEntries } from "@/hooks/use-fs";
+import { formatSize } from "@/lib/utils";
+import { hasAccess, previewKind, fileExtension, CODE_LANGUAGES } from "@shared/schema";
+import { api, buildUrl } from "@shared/routes";
+import type { FileListFile } from "@/components/file-list";
+
+// Automatic language detection tries every grammar; not worth it on big files
+const MAX_HIGHLIGHT_BYTES = 256 * 1024;
+const MAX_CSV_ROWS = 1000;
+
+// RFC 4180-ish: quoted fields may contain commas, newlines and "" escapes
+function parseCsv(text: string, maxRows: number): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if ((field || row.length) && rows.length < maxRows) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function PreviewLoading() {
+  return (
+    <div className="space-y-2">
+      {[1, 2, 3, 4, 5].map((i) => <Skeleton key={i} className="h-5 w-full" />)}
+    </div>
+  );
+}
+
+function PreviewError({ message }: { message: string }) {
+  return <p className="text-sm text-destructive text-center py-8">{message}</p>;
+}
+
+function CodePreview({ file }: { file: FileListFile }) {
+  const { data: text, isLoading, error } = useFileText(file);
+
+  const html = useMemo(() => {
+    if (text === undefined || text.length > MAX_HIGHLIGHT_BYTES) return null;
+    const language = CODE_LANGUAGES[fileExtension(file.name)];
+    return language && hljs.getLanguage(language)
+      ? hljs.highlight(text, { language }).value
+      : hljs.highlightAuto(text).value;
+  }, [text, file.name]);
+
+  if (isLoading) return <PreviewLoading />;
+  if (error) return <PreviewError message={error.message} />;
+
+  return (
+    <pre className="hljs text-xs leading-relaxed rounded-lg border border-border p-4 overflow-auto">
+      {html !== null ? <code dangerouslySetInnerHTML={{ __html: html }} /> : <code>{text}</code>}
+    </pre>
+  );
+}
+
+function MarkdownPreview({ file }: { file: FileListFile }) {
+  const { data: text, isLoading, error } = useFileText(file);
+
+  const html = useMemo(
+    () => text === undefined ? "" : DOMPurify.sanitize(marked.parse(text, { async: false })),
+    [text],
+  );
+
+  if (isLoading) return <PreviewLoading />;
+  if (error) return <PreviewError message={error.message} />;
+
+  return <article className="prose prose-sm max-w-none dark:prose-invert" dangerouslySetInnerHTML={{ __html: html }} />;
+}
+
+function CsvPreview({ file }: { file: FileListFile }) {
+  const { data: text, isLoading, error } = useFileText(file);
+  const rows = useMemo(() => text === undefined ? [] : parseCsv(text, MAX_CSV_ROWS + 1), [text]);
+
+  if (isLoading) return <PreviewLoading />;
+  if (error) return <PreviewError message={error.message} />;
+  if (rows.length === 0) return <p className="text-sm text-muted-foreground italic text-center py-8">This file is empty.</p>;
+
+  const [header, ...body] = rows;
+  return (
+    <div className="space-y-2">
+      <div className="rounded-lg border border-border overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {header.map((cell, i) => <TableHead key={i} className="whitespace-nowrap">{cell}</TableHead>)}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {body.slice(0, MAX_CSV_ROWS - 1).map((row, i) => (
+              <TableRow key={i}>
+                {row.map((cell, j) => <TableCell key={j} className="whitespace-nowrap">{cell}</TableCell>)}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {rows.length > MAX_CSV_ROWS && (
+        <p className="text-xs text-muted-foreground text-center">Showing the first {MAX_CSV_ROWS} rows</p>
+      )}
+    </div>
+  );
+}
+
+function ZipPreview({ file }: { file: FileListFile }) {
+  const { data: entries, isLoading, error } = useZipEntries(file);
+
+  if (isLoading) return <PreviewLoading />;
+  if (error) return <PreviewError message={error.message} />;
+  if (!entries?.length) return <p className="text-sm text-muted-foreground italic text-center py-8">This archive is empty.</p>;
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {entries.length} entries, {formatSize(totalSize)} uncompressed
+      </p>
+      <div className="rounded-lg border border-border overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead className="text-right">Size</TableHead>
+              <TableHead>Modified</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.name}>
+                <TableCell className="font-mono text-xs">
+                  <span className="flex items-center gap-2">
+                    {entry.isDirectory
+                      ? <Folder className="w-4 h-4 text-primary shrink-0" />
+                      : <FileIcon className="w-4 h-4 text-muted-foreground shrink-0" />}
+                    {entry.name}
+                  </span>
+                </TableCell>
+                <TableCell className="text-right text-xs whitespace-nowrap">
+                  {entry.isDirectory ? "-" : formatSize(entry.size)}
+                </TableCell>
+                <TableCell className="text-xs whitespace-nowrap">
+                  {format(new Date(entry.modifiedAt), "MMM d, yyyy HH:mm")}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+function PreviewBody({ file, onDownload }: { file: FileListFile; onDownload?: () => void }) {
+  const viewUrl = buildUrl(api.fs.view.path, { fileId: file.id });
+
+  switch (previewKind(file)) {
+    case "image":
+      return <img src={viewUrl} alt={file.name} className="max-w-full max-h-[75vh] mx-auto rounded-lg object-contain" />;
+    case "pdf":
+      return <iframe src={viewUrl} title={file.name} className="w-full h-[75vh] rounded-lg border border-border" />;
+    case "video":
+      return <video key={file.id} src={viewUrl} controls preload="metadata" className="w-full max-h-[75vh] rounded-lg bg-black" />;
+    case "audio":
+      return <audio key={file.id} src={viewUrl} controls preload="metadata" className="w-full" />;
+    case "markdown":
+      return <MarkdownPreview file={file} />;
+    case "csv":
+      return <CsvPreview file={file} />;
+    case "code":
+      return <CodePreview file={file} />;
+    case "zip":
+      return <ZipPreview file={file} />;
+    case "none":
+      return (
+        <div className="flex flex-col items-center justify-center py-20 text-center">
+          <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mb-4">
+            <FileIcon className="w-8 h-8 text-muted-foreground/50" />
+          </div>
+          <h3 className="text-lg font-medium text-foreground">No preview available</h3>
+          <p className="text-muted-foreground mt-1">This file type can't be shown in the browser</p>
+          {onDownload && (
+            <Button className="mt-4 gap-2" onClick={onDownload}>
+              <Download className="w-4 h-4" /> Download
+            </Button>
+          )}
+        </div>
+      );
+  }
+}
+
+interface FilePreviewDrawerProps {
+  files: FileListFile[]; // Siblings to step through with next/previous
+  fileId: number | null;
+  onFileChange: (fileId: number | null) => void;
+}
+
+export function FilePreviewDrawer({ files, fileId, onFileChange }: FilePreviewDrawerProps) {
+  const index = files.findIndex(f => f.id === fileId);
+  const file = index === -1 ? undefined : files[index];
+  const previous = index > 0 ? files[index - 1] : undefined;
+  const next = index !== -1 && index < files.length - 1 ? files[index + 1] : undefined;
+
+  useEffect(() => {
+    if (!file) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Leave arrow keys alone where they already mean something (seeking, text input)
+      if (e.target instanceof HTMLElement && e.target.closest("input, textarea, video, audio")) return;
+      if (e.key === "ArrowLeft" && previous) onFileChange(previous.id);
+      if (e.key === "ArrowRight" && next) onFileChange(next.id);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [file, previous, next, onFileChange]);
+
+  const canDownload = file ? hasAccess(file.accessLevel || 'owner', 'download') : false;
+  // Opening anything the drawer can't preview hands over the raw file, like a download
+  const canOpen = file ? canDownload || !["none", "zip"].includes(previewKind(file)) : false;
+  const handleDownload = () => file && window.open(buildUrl(api.fs.download.path, { fileId: file.id }), '_blank');
+
+  return (
+    <Sheet open={!!file} onOpenChange={(open) => !open && onFileChange(null)}>
+      <SheetContent side="right" className="w-full sm:max-w-3xl flex flex-col gap-0 p-0">
+        {file && (
+          <>
+            <SheetHeader className="px-6 py-4 pr-12 border-b border-border space-y-1">
+              <SheetTitle className="truncate">{file.name}</SheetTitle>
+              <SheetDescription>
+                {formatSize(file.size)}
+                {file.createdAt && ` · ${format(new Date(file.createdAt), "MMM d, yyyy")}`}
+              </SheetDescription>
+              <div className="flex items-center gap-2 pt-2">
+                <Button variant="outline" size="icon" className="h-8 w-8" disabled={!previous} onClick={() => previous && onFileChange(previous.id)}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" size="icon" className="h-8 w-8" disabled={!next} onClick={() => next && onFileChange(next.id)}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+                <span className="text-xs text-muted-foreground">{index + 1} of {files.length}</span>
+                <div className="flex-1" />
+                {canOpen && (
+                  <Button variant="ghost" size="sm" className="gap-2" onClick={() => window.open(buildUrl(api.fs.view.path, { fileId: file.id }), '_blank')}>
+                    <ExternalLink className="w-4 h-4" /> Open
+                  </Button>
+                )}
+                {canDownload && (
+                  <Button variant="ghost" size="sm" className="gap-2" onClick={handleDownload}>
+                    <Download className="w-4 h-4" /> Download
+                  </Button>
+                )}
+              </div>
+            </SheetHeader>
+            <div className="flex-1 overflow-auto p-6">
+              <PreviewBody file={file} onDownload={canDownload ? handleDownload : undefined} />
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,42 @@
+import { ReactNode, useState } from "react";
+import type { File as StoredFile } from "@shared/schema";
+import { api, buildUrl } from "@shared/routes";
+
+// Mirrors what the server renders thumbnails for (server/thumbnails.ts)
+function mayHaveThumbnail(mimeType: string) {
+  return (mimeType.startsWith("image/") && mimeType !== "image/svg+xml") ||
+    mimeType === "application/pdf" ||
+    mimeType.startsWith("video/");
+}
+
+interface FileThumbnailProps {
+  file: Pick<StoredFile, "id" | "name" | "mimeType" | "path">;
+  children: ReactNode; // Icon shown when there is no thumbnail (yet)
+}
+
+// Grid tile preview. Thumbnails are generated in the background after upload,
+// so a missing one quietly falls back to the file type icon.
+export function FileThumbnail({ file, children }: FileThumbnailProps) {
+  // Keyed on the blob path so a new version gets another try
+  const [failedPath, setFailedPath] = useState<string | null>(null);
+
+  if (!mayHaveThumbnail(file.mimeType) || failedPath === file.path) {
+    return (
+      <div className="w-16 h-16 rounded-xl bg-background flex items-center justify-center mb-3 shadow-sm">
+        {children}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-28 rounded-xl bg-background flex items-center justify-center mb-3 shadow-sm overflow-hidden">
+      <img
+        src={buildUrl(api.fs.thumbnail.path, { fileId: file.id })}
+        alt={file.name}
+        loading="lazy"
+        className="w-full h-full object-cover"
+        onError={() => setFailedPath(file.path)}
+      />
+    </div>
+  );
+}
@@ -1,18 +1,22 @@
-import { ReactNode } from "react";
-import { Link, useLocation } from "wouter";
+import { ReactNode, useEffect, useState } from "react";
+import { Link, useLocation, useSearch } from "wouter";
 import { 
   Folder, 
   Clock, 
   Trash2, 
   Users, 
+  UsersRound,
   ShieldAlert, 
   Settings, 
   LogOut, 
   Search,
+  Star,
   Menu,
-  FileText
+  FileText,
+  KeyRound
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import { useCapabilities } from "@/hooks/use-capabilities";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import {
@@ -25,22 +29,74 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Progress } from "@/components/ui/progress";
+import { useStorageUsage } from "@/hooks/use-quotas";
+import { formatSize } from "@/lib/utils";
+
+function StorageMeter() {
+  const { data: usage } = useStorageUsage();
+  if (!usage) return null;
+
+  const nearlyFull = usage.percentage !== null && usage.percentage >= 90;
+  return (
+    <div className="px-4 py-3 space-y-2">
+      <div className="flex items-center justify-between text-xs font-medium text-muted-foreground">
+        <span>Storage</span>
+        {usage.percentage !== null && (
+          <span className={nearlyFull ? "text-destructive" : undefined}>{usage.percentage}%</span>
+        )}
+      </div>
+      {usage.quota !== null && (
+        <Progress
+          value={usage.percentage ?? 0}
+          className={`h-1.5 ${nearlyFull ? "[&>div]:bg-destructive" : ""}`}
+        />
+      )}
+      <p className="text-xs text-muted-foreground">
+        {usage.quota !== null
+          ? `${formatSize(usage.used)} of ${formatSize(usage.quota)} used`
+          : `${formatSize(usage.used)} used`}
+      </p>
+    </div>
+  );
+}
 
 export function LayoutShell({ children }: { children: ReactNode }) {
-  const [location] = useLocation();
+  const [location, setLocation] = useLocation();
+  const search = useSearch();
   const { user, logoutMutation } = useAuth();
+
+  // Keep the search box in step with the results page (and empty elsewhere)
+  const currentQuery = location === "/search" ? new URLSearchParams(search).get("q") || "" : "";
+  const [searchQuery, setSearchQuery] = useState(currentQuery);
+  useEffect(() => setSearchQuery(currentQuery), [currentQuery]);
+
+  const submitSearch = () => {
+    const q = searchQuery.trim();
+    if (!q) return;
+    // A new term keeps any filters already applied on the results page
+    const params = new URLSearchParams(location === "/search" ? search : "");
+    params.set("q", q);
+    setLocation(`/search?${params}`);
+  };
   
-  const isAdmin = user?.role === "superadmin" || user?.role === "admin";
+  const { data: capabilities } = useCapabilities();
 
   const navigation = [
     { name: "My Files", href: "/", icon: Folder, group: "main" },
     { name: "Recent", href: "/recent", icon: Clock, group: "main" },
-    { name: "Starred", href: "/starred", icon: Folder, group: "main" },
+    { name: "Starred", href: "/starred", icon: Star, group: "main" },
     { name: "Trash", href: "/trash", icon: Trash2, group: "main" },
-    ...(isAdmin ? [
+    ...(capabilities?.canManageUsers ? [
       { name: "User Management", href: "/admin/users", icon: Users, group: "admin" },
+      { name: "Groups", href: "/admin/groups", icon: UsersRound, group: "admin" },
+    ] : []),
+    ...(capabilities?.canViewAudit ? [
       { name: "Audit Logs", href: "/admin/audit", icon: ShieldAlert, group: "admin" },
     ] : []),
+    ...(user?.role === "superadmin" ? [
+      { name: "Roles & Permissions", href: "/admin/roles", icon: KeyRound, group: "admin" },
+    ] : []),
   ];
 
   return (
@@ -74,6 +130,7 @@ export function LayoutShell({ children }: { children: ReactNode }) {
         </nav>
 
         <div className="p-4 border-t border-border">
+          <StorageMeter />
           <Link href="/settings" className="flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-medium text-muted-foreground hover:bg-muted hover:text-foreground transition-colors">
             <Settings className="w-5 h-5" />
             Settings
@@ -117,13 +174,22 @@ export function LayoutShell({ children }: { children: ReactNode }) {
       <div className="flex-1 flex flex-col min-w-0">
         {/* Header */}
         <header className="h-16 border-b border-border bg-card px-8 flex items-center justify-between gap-4">
-          <div className="flex-1 max-w-xl relative">
+          <form
+            className="flex-1 max-w-xl relative"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitSearch();
+            }}
+          >
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
             <Input 
+              type="search"
               placeholder="Search files..." 
               className="pl-10 bg-muted/50 border-transparent focus:bg-background focus:border-primary w-full transition-all"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
             />
-          </div>
+          </form>
 
           <div className="flex items-center gap-4">
             <DropdownMenu>
@@ -14,6 +14,7 @@ import { useQueryClient, useMutation, useQuery } from "@tanstack/react-query";
 import { Folder } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import type { Folder as FolderType } from "@shared/schema";
+import { api, buildUrl } from "@shared/routes";
 
 interface MoveDialogProps {
   open: boolean;
@@ -44,11 +45,11 @@ export function MoveDialog({ open, onOpenChange, item }: MoveDialogProps) {
   const [currentBrowseId, setCurrentBrowseId] = useState<number | null>(null);
   
   const { data: currentFolders } = useQuery({
-      queryKey: ['/api/fs/list', currentBrowseId],
+      queryKey: [api.fs.list.path, currentBrowseId ? String(currentBrowseId) : "root"],
       queryFn: async () => {
-          const res = await fetch(`/api/fs/list${currentBrowseId ? `?folderId=${currentBrowseId}` : ''}`);
+          const res = await fetch(`${api.fs.list.path}${currentBrowseId ? `?folderId=${currentBrowseId}` : ''}`);
           if (!res.ok) throw new Error("Failed");
-          return await res.json();
+          return api.fs.list.responses[200].parse(await res.json());
       },
       enabled: open
   });
@@ -56,16 +57,15 @@ export function MoveDialog({ open, onOpenChange, item }: MoveDialogProps) {
   const moveMutation = useMutation({
     mutationFn: async () => {
       if (!item) return;
-      const endpoint = item.type === 'file' 
-        ? `/api/fs/files/${item.id}/move` 
-        : `/api/fs/folders/${item.id}/move`;
-        
+      const route = item.type === 'file' ? api.fs.moveFile : api.fs.moveFolder;
+      const endpoint = buildUrl(route.path, { id: item.id });
+
       const body = item.type === 'file' 
         ? { folderId: selectedFolderId }
         : { parentId: selectedFolderId };
       
       const res = await fetch(endpoint, {
-        method: 'PATCH',
+        method: route.method,
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(body)
       });
@@ -74,7 +74,8 @@ export function MoveDialog({ open, onOpenChange, item }: MoveDialogProps) {
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/fs/list'] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.search.path] });
       toast({ title: "Moved successfully" });
       onOpenChange(false);
     },
@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useUserQuota, useSetUserQuota, useRoleQuotas, useSetRoleQuota } from "@/hooks/use-quotas";
+import { useToast } from "@/hooks/use-toast";
+import { formatSize } from "@/lib/utils";
+import { USER_ROLES } from "@shared/schema";
+
+const GB = 1024 * 1024 * 1024;
+
+// Quotas are edited in GB; an empty field means "no limit of its own"
+const toGB = (bytes: number | null) => (bytes === null ? "" : String(parseFloat((bytes / GB).toFixed(2))));
+
+function parseGB(value: string): number | null | undefined {
+  if (!value.trim()) return null;
+  const gb = Number(value);
+  if (isNaN(gb) || gb < 0) return undefined;
+  return Math.round(gb * GB);
+}
+
+interface UserQuotaDialogProps {
+  user: { id: number; username: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function UserQuotaDialog({ user, onOpenChange }: UserQuotaDialogProps) {
+  const { data: quota, isLoading } = useUserQuota(user?.id ?? null);
+  const setQuota = useSetUserQuota();
+  const { toast } = useToast();
+  const [value, setValue] = useState("");
+
+  useEffect(() => {
+    if (quota) setValue(toGB(quota.quotaBytes));
+  }, [quota]);
+
+  const handleSave = () => {
+    if (!user) return;
+    const quotaBytes = parseGB(value);
+    if (quotaBytes === undefined) {
+      toast({ title: "Enter a size in GB, or leave it empty", variant: "destructive" });
+      return;
+    }
+    setQuota.mutate({ userId: user.id, quotaBytes }, {
+      onSuccess: () => onOpenChange(false),
+    });
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Storage Quota</DialogTitle>
+          <DialogDescription>
+            How much {user?.username} may store, trash included
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading || !quota ? (
+          <div className="space-y-3 py-4">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              {quota.quota !== null && <Progress value={quota.percentage ?? 0} className="h-2" />}
+              <p className="text-sm text-muted-foreground">
+                {quota.quota !== null
+                  ? `${formatSize(quota.used)} of ${formatSize(quota.quota)} used`
+                  : `${formatSize(quota.used)} used, no limit`}
+              </p>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="quota">Quota (GB)</Label>
+              <Input
+                id="quota"
+                type="number"
+                min={0}
+                step="any"
+                placeholder={quota.roleQuota !== null ? `Role default (${formatSize(quota.roleQuota)})` : "Role default (unlimited)"}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty to use the default for the user's role</p>
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!quota || setQuota.isPending}>
+            Save Quota
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RoleQuotasDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RoleQuotasDialog({ open, onOpenChange }: RoleQuotasDialogProps) {
+  const { data: roleQuotas, isLoading } = useRoleQuotas();
+  const setRoleQuota = useSetRoleQuota();
+  const { toast } = useToast();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open || !roleQuotas) return;
+    setValues(Object.fromEntries(USER_ROLES.map(role => [
+      role,
+      toGB(roleQuotas.find(q => q.role === role)?.quotaBytes ?? null),
+    ])));
+  }, [open, roleQuotas]);
+
+  const handleSave = async () => {
+    const changes: { role: string; quotaBytes: number | null }[] = [];
+    for (const role of USER_ROLES) {
+      const quotaBytes = parseGB(values[role] ?? "");
+      if (quotaBytes === undefined) {
+        toast({ title: `Invalid quota for ${role}`, description: "Enter a size in GB, or leave it empty", variant: "destructive" });
+        return;
+      }
+      const current = roleQuotas?.find(q => q.role === role)?.quotaBytes ?? null;
+      if (quotaBytes !== current) changes.push({ role, quotaBytes });
+    }
+
+    try {
+      for (const change of changes) {
+        await setRoleQuota.mutateAsync(change);
+      }
+    } catch {
+      return; // The mutation already toasted
+    }
+    if (changes.length) toast({ title: "Default quotas updated" });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Default Quotas</DialogTitle>
+          <DialogDescription>
+            Applies to every user of a role without a quota of their own. Leave empty for no limit.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="space-y-3 py-4">
+            {USER_ROLES.map(role => <Skeleton key={role} className="h-10 w-full" />)}
+          </div>
+        ) : (
+          <div className="grid gap-3 py-4">
+            {USER_ROLES.map(role => (
+              <div key={role} className="grid grid-cols-3 items-center gap-4">
+                <Label htmlFor={`quota-${role}`} className="capitalize">{role}</Label>
+                <Input
+                  id={`quota-${role}`}
+                  type="number"
+                  min={0}
+                  step="any"
+                  placeholder="Unlimited"
+                  className="col-span-2"
+                  value={values[role] ?? ""}
+                  onChange={(e) => setValues(prev => ({ ...prev, [role]: e.target.value }))}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">Sizes in GB</p>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isLoading || setRoleQuota.isPending}>
+            Save Defaults
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,6 +12,7 @@ import { Label } from "@/components/ui/label";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useQueryClient, useMutation } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
 
 interface RenameDialogProps {
   open: boolean;
@@ -27,12 +28,10 @@ export function RenameDialog({ open, onOpenChange, item }: RenameDialogProps) {
   const renameMutation = useMutation({
     mutationFn: async (newName: string) => {
       if (!item) return;
-      const endpoint = item.type === 'file' 
-        ? `/api/fs/files/${item.id}/rename` 
-        : `/api/fs/folders/${item.id}/rename`;
-      
-      const res = await fetch(endpoint, {
-        method: 'PATCH',
+      const route = item.type === 'file' ? api.fs.renameFile : api.fs.renameFolder;
+
+      const res = await fetch(buildUrl(route.path, { id: item.id }), {
+        method: route.method,
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ name: newName })
       });
@@ -41,7 +40,9 @@ export function RenameDialog({ open, onOpenChange, item }: RenameDialogProps) {
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/fs/list'] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.search.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.recent.path] });
       toast({ title: "Renamed successfully" });
       onOpenChange(false);
     },
@@ -0,0 +1,108 @@
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Monitor, Smartphone, LogOut } from "lucide-react";
+import { useSessions, useRevokeSession, useRevokeSessions } from "@/hooks/use-sessions";
+import type { SessionInfo } from "@shared/schema";
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+  [/curl\//, "curl"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// "Firefox on Windows" - good enough to recognise your own devices
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? "Unknown device";
+}
+
+const isMobile = (session: SessionInfo) => /Mobile|Android|iPhone|iPad/.test(session.userAgent ?? "");
+
+interface SessionListProps {
+  // Another user's sessions (admin view); the signed-in user's own when omitted
+  userId?: number;
+}
+
+export function SessionList({ userId }: SessionListProps) {
+  const { data: sessions, isLoading } = useSessions(userId);
+  const revokeSession = useRevokeSession();
+  const revokeSessions = useRevokeSessions();
+
+  if (isLoading || !sessions) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => <Skeleton key={i} className="h-12 w-full" />)}
+      </div>
+    );
+  }
+
+  const others = sessions.filter(s => !s.current);
+
+  return (
+    <div className="space-y-4">
+      {sessions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Not signed in anywhere</p>
+      ) : (
+        <div className="divide-y divide-border/50">
+          {sessions.map((session) => {
+            const Icon = isMobile(session) ? Smartphone : Monitor;
+            return (
+              <div key={session.id} className="flex items-center gap-3 py-3">
+                <Icon className="w-5 h-5 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {describeUserAgent(session.userAgent)}
+                    {session.current && <span className="ml-2 text-xs font-normal text-green-600">This device</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {session.ipAddress ?? "Unknown IP"} · Signed in {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                    {" "}· Last active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => revokeSession.mutate({ userId, sessionId: session.id })}
+                    disabled={revokeSession.isPending}
+                  >
+                    Sign Out
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {others.length > 0 && (
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            onClick={() => revokeSessions.mutate({ userId })}
+            disabled={revokeSessions.isPending}
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            {sessions.some(s => s.current) ? "Sign Out Other Sessions" : "Sign Out Everywhere"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,10 +9,11 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { useCapabilities } from "@/hooks/use-capabilities";
 import { useQueryClient, useMutation, useQuery } from "@tanstack/react-query";
-import { User, Lock, X, Folder, FileText } from "lucide-react";
+import { User, UsersRound, Lock, X, Folder, FileText, Link2, Copy } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -21,22 +22,41 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Switch } from "@/components/ui/switch";
+import { api, buildUrl } from "@shared/routes";
+import type { ShareLinkInfo } from "@shared/schema";
+import { format } from "date-fns";
 
 interface ShareDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  item: { id: number; name: string; type: 'file' | 'folder' } | null;
+  item: { id: number; name: string; type: 'file' | 'folder'; inheritPermissions?: boolean } | null;
   // Support for multi-select share
   items?: { id: number; name: string; type: 'file' | 'folder' }[];
 }
 
 type SearchUser = { id: number; username: string };
-type Permission = { id: number; userId: number; accessLevel: string; user: { username: string } };
+type SearchGroup = { id: number; name: string };
+type Grantee = { type: 'user' | 'group'; id: number; name: string };
+type Permission = {
+  id: number;
+  userId: number | null;
+  groupId: number | null;
+  accessLevel: string;
+  user: { username: string } | null;
+  group: { name: string } | null;
+};
 
 export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProps) {
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedUser, setSelectedUser] = useState<SearchUser | null>(null);
+  const { data: capabilities } = useCapabilities();
+  const [selectedGrantee, setSelectedGrantee] = useState<Grantee | null>(null);
   const [accessLevel, setAccessLevel] = useState("view");
+  const [linkExpiry, setLinkExpiry] = useState("");
+  const [linkPassword, setLinkPassword] = useState("");
+  const [linkMaxDownloads, setLinkMaxDownloads] = useState("");
+  const [linkViewOnly, setLinkViewOnly] = useState(false);
+  const [inheritOverride, setInheritOverride] = useState<boolean | null>(null);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -48,9 +68,9 @@ export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProp
 
   // Fetch all available users
   const { data: allUsers = [], isLoading: usersLoading, error: usersError } = useQuery<SearchUser[]>({
-    queryKey: ['/api/users/available'],
+    queryKey: [api.users.available.path],
     queryFn: async () => {
-      const res = await fetch('/api/users/available');
+      const res = await fetch(api.users.available.path);
       if (!res.ok) {
         console.error('Failed to fetch users:', res.status, res.statusText);
         return [];
@@ -62,36 +82,157 @@ export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProp
     enabled: open
   });
 
-  // Filter users based on search query
-  const filteredUsers = searchQuery.length > 0 
-    ? allUsers.filter(u => u.username.toLowerCase().includes(searchQuery.toLowerCase()))
-    : allUsers;
+  const { data: allGroups = [] } = useQuery<SearchGroup[]>({
+    queryKey: [api.groups.available.path],
+    queryFn: async () => {
+      const res = await fetch(api.groups.available.path);
+      if (!res.ok) return [];
+      return await res.json();
+    },
+    enabled: open
+  });
+
+  // Filter groups and users based on search query, groups first
+  const grantees: Grantee[] = [
+    ...allGroups.map(g => ({ type: 'group' as const, id: g.id, name: g.name })),
+    ...allUsers.map(u => ({ type: 'user' as const, id: u.id, name: u.username })),
+  ];
+  const filteredGrantees = searchQuery.length > 0
+    ? grantees.filter(g => g.name.toLowerCase().includes(searchQuery.toLowerCase()))
+    : grantees;
+  const isSelected = (g: Grantee) => selectedGrantee?.type === g.type && selectedGrantee.id === g.id;
+  const granteeField = selectedGrantee?.type === 'group'
+    ? { groupId: selectedGrantee.id }
+    : { userId: selectedGrantee?.id };
 
   // Existing Permissions (only for single item)
   const { data: permissions = [], refetch: refetchPermissions } = useQuery<Permission[]>({
-    queryKey: ['/api/fs/permissions', shareItems[0]?.type, shareItems[0]?.id],
+    queryKey: [api.fs.permissions.path, shareItems[0]?.type, shareItems[0]?.id],
     queryFn: async () => {
       if (!shareItems[0] || isMultiSelect) return [];
-      const endpoint = shareItems[0].type === 'file' ? 'files' : 'folders';
-      const res = await fetch(`/api/fs/${endpoint}/${shareItems[0].id}/permissions`);
+      const type = shareItems[0].type === 'file' ? 'files' : 'folders';
+      const res = await fetch(buildUrl(api.fs.permissions.path, { type, id: shareItems[0].id }));
       if (!res.ok) return []; // Should handle 403 (if not owner) gracefully
       return await res.json();
     },
     enabled: shareItems.length === 1 && open
   });
 
+  // Permission inheritance (only for a single folder)
+  useEffect(() => setInheritOverride(null), [item?.id, open]);
+  const inheritsPermissions = inheritOverride ?? item?.inheritPermissions ?? true;
+
+  const inheritanceMutation = useMutation({
+    mutationFn: async (inheritPermissions: boolean) => {
+      const res = await fetch(buildUrl(api.fs.setInheritance.path, { id: shareItems[0].id }), {
+        method: api.fs.setInheritance.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ inheritPermissions })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.message || "Failed to update inheritance");
+      }
+      return inheritPermissions;
+    },
+    onSuccess: (inheritPermissions) => {
+      setInheritOverride(inheritPermissions);
+      toast({ title: inheritPermissions ? "Now inheriting access from parent folder" : "Inheritance broken" });
+      queryClient.invalidateQueries({ queryKey: [api.fs.list.path] });
+    },
+    onError: (e) => {
+      toast({ title: e.message, variant: "destructive" });
+    }
+  });
+
+  // Public links (only for single item)
+  const shareLinksPath = shareItems[0]
+    ? buildUrl(api.shareLinks.list.path, { type: shareItems[0].type === 'file' ? 'files' : 'folders', id: shareItems[0].id })
+    : api.shareLinks.list.path;
+  const { data: shareLinks = [], refetch: refetchShareLinks } = useQuery<ShareLinkInfo[]>({
+    queryKey: [shareLinksPath],
+    queryFn: async () => {
+      const res = await fetch(shareLinksPath);
+      if (!res.ok) return [];
+      return await res.json();
+    },
+    enabled: shareItems.length === 1 && open
+  });
+
+  const createLinkMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(api.shareLinks.create.path, {
+        method: api.shareLinks.create.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targetId: shareItems[0].id,
+          targetType: shareItems[0].type,
+          // A date picked in the dialog means "valid through the end of that day"
+          expiresAt: linkExpiry ? new Date(`${linkExpiry}T23:59:59`).toISOString() : null,
+          password: linkPassword || null,
+          maxDownloads: linkMaxDownloads ? parseInt(linkMaxDownloads) : null,
+          viewOnly: linkViewOnly
+        })
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.message || "Failed to create link");
+      }
+      return await res.json() as ShareLinkInfo;
+    },
+    onSuccess: (link) => {
+      copyLink(link.token);
+      setLinkExpiry("");
+      setLinkPassword("");
+      setLinkMaxDownloads("");
+      setLinkViewOnly(false);
+      refetchShareLinks();
+    },
+    onError: (e) => {
+      toast({ title: e.message, variant: "destructive" });
+    }
+  });
+
+  const revokeLinkMutation = useMutation({
+    mutationFn: async (linkId: number) => {
+      const res = await fetch(buildUrl(api.shareLinks.revoke.path, { id: linkId }), {
+        method: api.shareLinks.revoke.method
+      });
+      if (!res.ok) throw new Error("Failed to revoke link");
+    },
+    onSuccess: () => {
+      toast({ title: "Link revoked" });
+      refetchShareLinks();
+    },
+    onError: () => {
+      toast({ title: "Failed to revoke link", variant: "destructive" });
+    }
+  });
+
+  const copyLink = (token: string) => {
+    navigator.clipboard.writeText(`${window.location.origin}/s/${token}`)
+      .then(() => toast({ title: "Link copied to clipboard" }))
+      .catch(() => toast({ title: "Could not copy link", variant: "destructive" }));
+  };
+
+  const describeLink = (link: ShareLinkInfo) => [
+    link.expiresAt ? `Expires ${format(new Date(link.expiresAt), "MMM d, yyyy")}` : "No expiry",
+    link.hasPassword && "Password",
+    link.viewOnly ? "View only" : link.maxDownloads !== null ? `${link.downloadCount}/${link.maxDownloads} downloads` : `${link.downloadCount} downloads`,
+  ].filter(Boolean).join(" • ");
+
   const shareMutation = useMutation({
     mutationFn: async () => {
-      if (shareItems.length === 0 || !selectedUser) return;
+      if (shareItems.length === 0 || !selectedGrantee) return;
       
       if (isMultiSelect) {
         // Multi-share API
-        const res = await fetch('/api/fs/share-multiple', {
-          method: 'POST',
+        const res = await fetch(api.fs.shareMultiple.path, {
+          method: api.fs.shareMultiple.method,
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             items: shareItems.map(i => ({ id: i.id, type: i.type })),
-            userId: selectedUser.id,
+            ...granteeField,
             accessLevel
           })
         });
@@ -101,13 +242,13 @@ export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProp
         }
       } else {
         // Single share API
-        const res = await fetch('/api/fs/share', {
-          method: 'POST',
+        const res = await fetch(api.fs.share.path, {
+          method: api.fs.share.method,
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             targetId: shareItems[0].id,
             targetType: shareItems[0].type,
-            userId: selectedUser.id,
+            ...granteeField,
             accessLevel
           })
         });
@@ -119,7 +260,7 @@ export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProp
     },
     onSuccess: () => {
       toast({ title: isMultiSelect ? `Shared ${shareItems.length} items successfully` : "Shared successfully" });
-      setSelectedUser(null);
+      setSelectedGrantee(null);
       setSearchQuery("");
       if (!isMultiSelect) refetchPermissions();
       onOpenChange(false);
@@ -131,8 +272,8 @@ export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProp
 
   const revokeMutation = useMutation({
     mutationFn: async (permissionId: number) => {
-      const res = await fetch(`/api/fs/share/${permissionId}`, {
-        method: 'DELETE'
+      const res = await fetch(buildUrl(api.fs.unshare.path, { permissionId }), {
+        method: api.fs.unshare.method
       });
       if (!res.ok) throw new Error("Failed to revoke");
     },
@@ -140,7 +281,7 @@ export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProp
       toast({ title: "Permission revoked" });
       refetchPermissions();
       // Invalidate file system cache so the shared user no longer sees the item
-      queryClient.invalidateQueries({ queryKey: ['/api/fs/list'] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.list.path] });
     },
     onError: () => {
       toast({ title: "Failed to revoke permission", variant: "destructive" });
@@ -151,7 +292,7 @@ export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProp
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Share {displayName}</DialogTitle>
           <DialogDescription>
@@ -181,15 +322,15 @@ export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProp
 
           {/* Add People */}
           <div className="space-y-3">
-            <Label>Add people</Label>
+            <Label>Add people or groups</Label>
             <div className="flex gap-2 items-start">
               <div className="flex-1 space-y-2">
                 <Input
-                  placeholder="Search by username..."
+                  placeholder="Search by username or group..."
                   value={searchQuery}
                   onChange={(e) => {
                     setSearchQuery(e.target.value);
-                    if (!e.target.value) setSelectedUser(null);
+                    if (!e.target.value) setSelectedGrantee(null);
                   }}
                 />
                 
@@ -199,28 +340,29 @@ export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProp
                     <div className="px-3 py-4 text-center text-sm text-muted-foreground">
                       Loading users...
                     </div>
-                  ) : filteredUsers.length > 0 ? (
+                  ) : filteredGrantees.length > 0 ? (
                     <div className="divide-y">
-                      {filteredUsers.map(u => (
+                      {filteredGrantees.map(g => (
                         <div 
-                          key={u.id}
+                          key={`${g.type}-${g.id}`}
                           className={`px-3 py-2 cursor-pointer flex items-center gap-3 transition-colors ${
-                            selectedUser?.id === u.id 
+                            isSelected(g)
                               ? 'bg-primary/10 border-l-2 border-l-primary' 
                               : 'hover:bg-muted/50'
                           }`}
                           onClick={() => {
-                            setSelectedUser(u);
-                            setSearchQuery(u.username);
+                            setSelectedGrantee(g);
+                            setSearchQuery(g.name);
                           }}
                         >
                           <Avatar className="h-8 w-8 shrink-0">
                             <AvatarFallback className="text-xs font-medium">
-                              {u.username.slice(0, 2).toUpperCase()}
+                              {g.type === 'group' ? <UsersRound className="h-4 w-4" /> : g.name.slice(0, 2).toUpperCase()}
                             </AvatarFallback>
                           </Avatar>
-                          <span className="text-sm font-medium truncate">{u.username}</span>
-                          {selectedUser?.id === u.id && (
+                          <span className="text-sm font-medium truncate">{g.name}</span>
+                          {g.type === 'group' && <span className="text-xs text-muted-foreground">Group</span>}
+                          {isSelected(g) && (
                             <span className="ml-auto text-xs text-primary font-medium">Selected</span>
                           )}
                         </div>
@@ -228,7 +370,7 @@ export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProp
                     </div>
                   ) : (
                     <div className="px-3 py-4 text-center text-sm text-muted-foreground">
-                      {searchQuery ? `No users found matching "${searchQuery}"` : 'No users available'}
+                      {searchQuery ? `No users or groups found matching "${searchQuery}"` : 'No users available'}
                     </div>
                   )}
                 </div>
@@ -247,7 +389,7 @@ export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProp
                 </Select>
                 <Button 
                   onClick={() => shareMutation.mutate()} 
-                  disabled={!selectedUser || shareMutation.isPending}
+                  disabled={!selectedGrantee || shareMutation.isPending}
                   className="w-[120px]"
                 >
                   Share
@@ -278,10 +420,12 @@ export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProp
                   <div key={p.id} className="flex items-center justify-between">
                     <div className="flex items-center gap-2">
                       <Avatar className="h-8 w-8">
-                        <AvatarFallback>{p.user.username[0].toUpperCase()}</AvatarFallback>
+                        <AvatarFallback>
+                          {p.group ? <UsersRound className="h-4 w-4" /> : p.user?.username[0].toUpperCase()}
+                        </AvatarFallback>
                       </Avatar>
                       <div>
-                        <p className="text-sm font-medium">{p.user.username}</p>
+                        <p className="text-sm font-medium">{p.group ? p.group.name : p.user?.username}</p>
                         <p className="text-xs text-muted-foreground capitalize">
                           {p.accessLevel === 'view' ? 'Can view' : p.accessLevel === 'download' ? 'Can download' : 'Can edit'}
                         </p>
@@ -301,9 +445,102 @@ export function ShareDialog({ open, onOpenChange, item, items }: ShareDialogProp
                 {permissions.length === 0 && (
                   <p className="text-sm text-muted-foreground italic">No permissions granted yet.</p>
                 )}
+
+                {shareItems[0]?.type === 'folder' && (
+                  <div className="flex items-center justify-between gap-4 pt-2 border-t">
+                    <div>
+                      <p className="text-sm font-medium">Inherit access from parent folder</p>
+                      <p className="text-xs text-muted-foreground">
+                        {inheritsPermissions
+                          ? "People with access to the parent folder can also open this one."
+                          : "Only the people listed above can open this folder and its contents."}
+                      </p>
+                    </div>
+                    <Switch
+                      checked={inheritsPermissions}
+                      onCheckedChange={(checked) => inheritanceMutation.mutate(checked)}
+                      disabled={inheritanceMutation.isPending}
+                    />
+                  </div>
+                )}
               </div>
             </div>
           )}
+
+          {/* Public Links (only for single item). Without the capability,
+              links made earlier can still be revoked but no new ones created. */}
+          {!isMultiSelect && (capabilities?.canShareExternally || shareLinks.length > 0) && (
+            <div className="space-y-3">
+              <Label>Public links</Label>
+              <p className="text-xs text-muted-foreground">Anyone with the link can open this {shareItems[0]?.type}, no account needed.</p>
+              {capabilities?.canShareExternally && (
+                <>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      type="date"
+                      value={linkExpiry}
+                      min={new Date().toISOString().slice(0, 10)}
+                      onChange={(e) => setLinkExpiry(e.target.value)}
+                      aria-label="Expiry date"
+                    />
+                    <Input
+                      type="password"
+                      placeholder="Password (optional)"
+                      value={linkPassword}
+                      onChange={(e) => setLinkPassword(e.target.value)}
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="Max downloads"
+                      value={linkMaxDownloads}
+                      onChange={(e) => setLinkMaxDownloads(e.target.value)}
+                      disabled={linkViewOnly}
+                    />
+                    <label className="flex items-center gap-2 text-sm px-1">
+                      <Switch checked={linkViewOnly} onCheckedChange={setLinkViewOnly} />
+                      View only
+                    </label>
+                  </div>
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => createLinkMutation.mutate()}
+                    disabled={createLinkMutation.isPending}
+                  >
+                    <Link2 className="h-4 w-4 mr-2" /> Create link
+                  </Button>
+                </>
+              )}
+
+              {shareLinks.map(link => (
+                <div key={link.id} className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center shrink-0">
+                      {link.hasPassword ? <Lock className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">/s/{link.token.slice(0, 10)}…</p>
+                      <p className="text-xs text-muted-foreground">{describeLink(link)}</p>
+                    </div>
+                  </div>
+                  <div className="flex shrink-0">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copyLink(link.token)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => revokeLinkMutation.mutate(link.id)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
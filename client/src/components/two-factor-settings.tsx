@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TotpInput } from "@/components/totp-input";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldCheck, ShieldAlert, Copy, Download } from "lucide-react";
+import { api } from "@shared/routes";
+import type { AuthUser, TwoFactorSetup } from "@shared/schema";
+
+async function postJson<T>(path: string, body?: unknown): Promise<T> {
+  const res = await fetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || "Request failed");
+  }
+  return await res.json();
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`FMS recovery codes\n\n${text}\n`], { type: "text/plain" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "fms-recovery-codes.txt";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator. They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted p-4 font-mono text-sm">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => navigator.clipboard.writeText(text)
+            .then(() => toast({ title: "Recovery codes copied" }))
+            .catch(() => toast({ title: "Could not copy codes", variant: "destructive" }))}
+        >
+          <Copy className="w-4 h-4 mr-2" /> Copy
+        </Button>
+        <Button variant="outline" size="sm" onClick={download}>
+          <Download className="w-4 h-4 mr-2" /> Download
+        </Button>
+        <Button size="sm" className="ml-auto" onClick={onDone}>I've saved them</Button>
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [passwordAction, setPasswordAction] = useState<"disable" | "regenerate" | null>(null);
+  const [password, setPassword] = useState("");
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: [api.twoFactor.status.path],
+    queryFn: async () => {
+      const res = await fetch(api.twoFactor.status.path);
+      if (!res.ok) throw new Error("Failed to fetch two-factor status");
+      return api.twoFactor.status.responses[200].parse(await res.json());
+    },
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: [api.twoFactor.status.path] });
+
+  const setupMutation = useMutation({
+    mutationFn: () => postJson<TwoFactorSetup>(api.twoFactor.setup.path),
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: (error: Error) => toast({ title: error.message, variant: "destructive" }),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: (value: string) => postJson<{ recoveryCodes: string[] }>(api.twoFactor.enable.path, { code: value }),
+    onSuccess: (data) => {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      // A user sent here to set up 2FA can now use the rest of the app
+      queryClient.setQueryData<AuthUser | null>([api.auth.me.path], (user) => user && { ...user, twoFactorSetupRequired: false });
+      refresh();
+      toast({ title: "Two-factor authentication is on" });
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({ title: error.message, variant: "destructive" });
+    },
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: async () => {
+      if (passwordAction === "disable") {
+        await postJson(api.twoFactor.disable.path, { password });
+        return null;
+      }
+      return (await postJson<{ recoveryCodes: string[] }>(api.twoFactor.regenerateRecoveryCodes.path, { password })).recoveryCodes;
+    },
+    onSuccess: (codes) => {
+      setPasswordAction(null);
+      setPassword("");
+      if (codes) setRecoveryCodes(codes);
+      else toast({ title: "Two-factor authentication turned off" });
+      refresh();
+    },
+    onError: (error: Error) => toast({ title: error.message, variant: "destructive" }),
+  });
+
+  if (isLoading || !status) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-10 w-32" />
+      </div>
+    );
+  }
+
+  if (recoveryCodes) {
+    return <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy,
+          then enter the 6-digit code it shows.
+        </p>
+        <div className="flex justify-center">
+          <img src={setup.qrCode} alt="Two-factor QR code" className="w-44 h-44 rounded-lg border border-border" />
+        </div>
+        <p className="text-xs text-center text-muted-foreground">
+          Can't scan it? Enter this key instead: <span className="font-mono break-all text-foreground">{setup.secret}</span>
+        </p>
+        <TotpInput
+          value={code}
+          onChange={setCode}
+          onComplete={(value) => enableMutation.mutate(value)}
+          disabled={enableMutation.isPending}
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => setSetup(null)}>Cancel</Button>
+          <Button onClick={() => enableMutation.mutate(code)} disabled={code.length !== 6 || enableMutation.isPending}>
+            Verify & Turn On
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {status.enabled ? (
+        <div className="flex items-start gap-3">
+          <ShieldCheck className="w-5 h-5 text-green-600 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium">Two-factor authentication is on</p>
+            <p className="text-xs text-muted-foreground">
+              {status.recoveryCodesRemaining} of 10 recovery codes left
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-start gap-3">
+          <ShieldAlert className={`w-5 h-5 mt-0.5 ${status.required ? "text-destructive" : "text-muted-foreground"}`} />
+          <div>
+            <p className="text-sm font-medium">Two-factor authentication is off</p>
+            <p className="text-xs text-muted-foreground">
+              {status.required
+                ? "Your role requires it. Set it up to keep using FMS."
+                : "Ask for a code from your phone as well as your password when signing in."}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {status.enabled ? (
+          <>
+            <Button variant="outline" onClick={() => setPasswordAction("regenerate")}>New Recovery Codes</Button>
+            {!status.required && (
+              <Button variant="outline" className="text-destructive" onClick={() => setPasswordAction("disable")}>
+                Turn Off
+              </Button>
+            )}
+          </>
+        ) : (
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            Set Up Two-Factor
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={passwordAction !== null} onOpenChange={(open) => { if (!open) { setPasswordAction(null); setPassword(""); } }}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{passwordAction === "disable" ? "Turn off two-factor" : "New recovery codes"}</DialogTitle>
+            <DialogDescription>
+              {passwordAction === "disable"
+                ? "Signing in will only need your password."
+                : "Your current recovery codes will stop working."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="two-factor-password">Confirm your password</Label>
+            <Input
+              id="two-factor-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && password && passwordMutation.mutate()}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setPasswordAction(null); setPassword(""); }}>Cancel</Button>
+            <Button
+              variant={passwordAction === "disable" ? "destructive" : "default"}
+              onClick={() => passwordMutation.mutate()}
+              disabled={!password || passwordMutation.isPending}
+            >
+              {passwordAction === "disable" ? "Turn Off" : "Generate Codes"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -8,10 +8,12 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { File, Folder, Archive, Upload, X, FolderOpen } from "lucide-react";
-import { useQueryClient } from "@tanstack/react-query";
+import { File, Folder, Archive, Upload, X, FolderOpen, RotateCcw } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { api } from "@shared/routes";
 import { useToast } from "@/hooks/use-toast";
+import { useCapabilities } from "@/hooks/use-capabilities";
+import { uploadResumable, fetchPendingUploads, cancelResumableUpload, UploadRejectedError } from "@/lib/resumable-upload";
 
 interface UploadDialogProps {
   folderId?: number | null;
@@ -157,6 +159,24 @@ export function UploadDialog({ folderId, trigger }: UploadDialogProps) {
   const archiveInputRef = useRef<HTMLInputElement>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { data: capabilities } = useCapabilities();
+
+  // Chunked uploads that were interrupted (closed tab, dropped connection) for this folder
+  const { data: pendingUploads = [] } = useQuery({
+    queryKey: [api.fs.uploads.path],
+    queryFn: fetchPendingUploads,
+    enabled: open,
+  });
+  const folderPendingUploads = pendingUploads.filter(u => (u.folderId ?? null) === (folderId ?? null));
+
+  const discardPendingUpload = async (sessionId: string) => {
+    try {
+      await cancelResumableUpload(sessionId);
+      queryClient.invalidateQueries({ queryKey: [api.fs.uploads.path] });
+    } catch (e) {
+      toast({ title: "Failed to discard upload", variant: "destructive" });
+    }
+  };
 
   const resetSelection = () => {
     setSelection(null);
@@ -304,6 +324,43 @@ export function UploadDialog({ folderId, trigger }: UploadDialogProps) {
 
     setUploading(true);
     setUploadProgress(0);
+
+    // Plain files go through the resumable chunked protocol, one file at a time
+    if (selection.type === 'file') {
+      const { filesWithPaths, totalSize } = selection;
+      let completedBytes = 0;
+
+      try {
+        for (const { file } of filesWithPaths) {
+          await uploadResumable(file, folderId ?? null, (sent) => {
+            const done = completedBytes + sent;
+            setUploadProgress(totalSize > 0 ? Math.round((done / totalSize) * 100) : 100);
+          });
+          completedBytes += file.size;
+        }
+
+        toast({ title: "Upload successful" });
+        queryClient.invalidateQueries({ queryKey: [api.fs.list.path] });
+        queryClient.invalidateQueries({ queryKey: [api.fs.recent.path] });
+        setOpen(false);
+        resetSelection();
+      } catch (error) {
+        toast(error instanceof UploadRejectedError ? {
+          title: "Upload failed",
+          description: error.message,
+          variant: "destructive",
+        } : {
+          title: "Upload interrupted",
+          description: "Select the same files again to resume where it stopped",
+          variant: "destructive",
+        });
+      } finally {
+        queryClient.invalidateQueries({ queryKey: [api.fs.uploads.path] });
+        queryClient.invalidateQueries({ queryKey: [api.fs.storageUsage.path] });
+        setUploading(false);
+      }
+      return;
+    }
     
     const formData = new FormData();
     
@@ -313,24 +370,18 @@ export function UploadDialog({ folderId, trigger }: UploadDialogProps) {
 
     const { type, filesWithPaths } = selection;
 
-    if (type === 'file') {
-      for (const { file } of filesWithPaths) {
-        formData.append("files", file);
-      }
-    } else if (type === 'folder') {
+    if (type === 'folder') {
       for (const { file, path } of filesWithPaths) {
-        formData.append("files", file);
+        formData.append(api.fs.uploadFolder.multipart.field, file);
         formData.append("paths", path);
       }
       formData.append("isFolderUpload", "true");
     } else if (type === 'archive') {
-      formData.append("archive", filesWithPaths[0].file);
+      formData.append(api.fs.uploadArchive.multipart.field, filesWithPaths[0].file);
     }
 
     try {
-      let endpoint = "/api/fs/upload";
-      if (type === 'folder') endpoint = "/api/fs/upload-folder";
-      if (type === 'archive') endpoint = "/api/fs/upload-archive";
+      const route = type === 'folder' ? api.fs.uploadFolder : api.fs.uploadArchive;
 
       await new Promise<void>((resolve, reject) => {
         const xhr = new XMLHttpRequest();
@@ -345,24 +396,29 @@ export function UploadDialog({ folderId, trigger }: UploadDialogProps) {
           if (xhr.status >= 200 && xhr.status < 300) {
             resolve();
           } else {
-            reject(new Error('Upload failed'));
+            let message = 'Failed to upload files';
+            try {
+              message = JSON.parse(xhr.responseText).message || message;
+            } catch {}
+            reject(new Error(message));
           }
         });
 
-        xhr.addEventListener('error', () => reject(new Error('Upload failed')));
-        xhr.open('POST', endpoint);
+        xhr.addEventListener('error', () => reject(new Error('Failed to upload files')));
+        xhr.open(route.method, route.path);
         xhr.send(formData);
       });
 
       toast({ title: "Upload successful" });
       queryClient.invalidateQueries({ queryKey: [api.fs.list.path] });
       queryClient.invalidateQueries({ queryKey: [api.fs.recent.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.storageUsage.path] });
       setOpen(false);
       resetSelection();
     } catch (error) {
       toast({
         title: "Upload error",
-        description: "Failed to upload files",
+        description: error instanceof Error ? error.message : "Failed to upload files",
         variant: "destructive",
       });
     } finally {
@@ -408,7 +464,7 @@ export function UploadDialog({ folderId, trigger }: UploadDialogProps) {
         )}
         
         {/* Upload Type Options */}
-        <div className="grid grid-cols-3 gap-4 py-4">
+        <div className={`grid ${capabilities?.canUploadArchive ? 'grid-cols-3' : 'grid-cols-2'} gap-4 py-4`}>
           {/* File Upload */}
           <div 
             className={`flex flex-col items-center justify-center p-4 border-2 border-dashed rounded-xl cursor-pointer transition-all gap-2 text-center ${
@@ -444,28 +500,30 @@ export function UploadDialog({ folderId, trigger }: UploadDialogProps) {
           </div>
 
           {/* Archive Upload */}
-          <div 
-            className={`flex flex-col items-center justify-center p-4 border-2 border-dashed rounded-xl cursor-pointer transition-all gap-2 text-center ${
-              selection?.type === 'archive' 
-                ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/20' 
-                : 'border-border hover:border-purple-400 hover:bg-purple-50/50 dark:hover:bg-purple-900/10'
-            } ${uploading ? 'pointer-events-none opacity-50' : ''}`}
-            onClick={() => !uploading && archiveInputRef.current?.click()}
-          >
-            <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-              selection?.type === 'archive' ? 'bg-purple-500 text-white' : 'bg-purple-100 text-purple-600'
-            }`}>
-              <Archive className="w-5 h-5" />
+          {capabilities?.canUploadArchive && (
+            <div 
+              className={`flex flex-col items-center justify-center p-4 border-2 border-dashed rounded-xl cursor-pointer transition-all gap-2 text-center ${
+                selection?.type === 'archive' 
+                  ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/20' 
+                  : 'border-border hover:border-purple-400 hover:bg-purple-50/50 dark:hover:bg-purple-900/10'
+              } ${uploading ? 'pointer-events-none opacity-50' : ''}`}
+              onClick={() => !uploading && archiveInputRef.current?.click()}
+            >
+              <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                selection?.type === 'archive' ? 'bg-purple-500 text-white' : 'bg-purple-100 text-purple-600'
+              }`}>
+                <Archive className="w-5 h-5" />
+              </div>
+              <span className="text-sm font-medium">Archive</span>
+              <input 
+                type="file" 
+                accept=".zip,.rar,.7z,.tar" 
+                className="hidden" 
+                ref={archiveInputRef} 
+                onChange={handleArchiveSelect}
+              />
             </div>
-            <span className="text-sm font-medium">Archive</span>
-            <input 
-              type="file" 
-              accept=".zip,.rar,.7z,.tar" 
-              className="hidden" 
-              ref={archiveInputRef} 
-              onChange={handleArchiveSelect}
-            />
-          </div>
+          )}
         </div>
 
         {/* Hint text */}
@@ -475,6 +533,31 @@ export function UploadDialog({ folderId, trigger }: UploadDialogProps) {
           </p>
         )}
 
+        {/* Interrupted uploads */}
+        {folderPendingUploads.length > 0 && !uploading && (
+          <div className="border rounded-lg p-3 bg-muted/30 space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <RotateCcw className="w-4 h-4 text-primary" />
+              Interrupted uploads
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Select the same files again to resume where they stopped.
+            </p>
+            {folderPendingUploads.map(u => (
+              <div key={u.id} className="flex items-center gap-2 text-sm">
+                <File className="w-4 h-4 text-blue-500 shrink-0" />
+                <span className="truncate flex-1">{u.fileName}</span>
+                <span className="text-xs text-muted-foreground">
+                  {u.size > 0 ? Math.floor((u.offset / u.size) * 100) : 0}%
+                </span>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => discardPendingUpload(u.id)}>
+                  <X className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Selection Summary */}
         {selection && !uploading && (
           <div className="border rounded-lg p-4 bg-muted/30 space-y-3">
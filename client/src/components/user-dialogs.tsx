@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SessionList } from "@/components/session-list";
+import { useUsers, useUpdateUser, useResetPassword, useDeleteUser } from "@/hooks/use-users";
+import { useAuth } from "@/hooks/use-auth";
+import { USER_ROLES, USER_STATUSES, canManageRole, type User, type UserRole, type UserStatus } from "@shared/schema";
+
+interface UserDialogProps {
+  user: User | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function EditUserDialog({ user, onOpenChange }: UserDialogProps) {
+  const { user: currentUser } = useAuth();
+  const updateUser = useUpdateUser();
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<UserRole>("employee");
+  const [status, setStatus] = useState<UserStatus>("active");
+
+  useEffect(() => {
+    if (!user) return;
+    setUsername(user.username);
+    setRole(user.role as UserRole);
+    setStatus(user.status as UserStatus);
+  }, [user]);
+
+  const isSelf = user?.id === currentUser?.id;
+  const roles = USER_ROLES.filter(r => canManageRole(currentUser?.role ?? "", r));
+
+  const handleSave = () => {
+    if (!user) return;
+    updateUser.mutate({
+      id: user.id,
+      ...(username.trim() !== user.username && { username: username.trim() }),
+      ...(role !== user.role && { role }),
+      ...(status !== user.status && { status }),
+    }, {
+      onSuccess: () => onOpenChange(false),
+    });
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Edit User</DialogTitle>
+          <DialogDescription>
+            Users who are no longer active are signed out immediately
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="edit-username">Username</Label>
+            <Input id="edit-username" value={username} onChange={(e) => setUsername(e.target.value)} />
+          </div>
+          <div className="grid gap-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as UserRole)} disabled={isSelf}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.map(r => (
+                  <SelectItem key={r} value={r} className="capitalize">{r}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as UserStatus)} disabled={isSelf}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {USER_STATUSES.map(s => (
+                  <SelectItem key={s} value={s} className="capitalize">{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isSelf && <p className="text-xs text-muted-foreground">You can't change your own role or status</p>}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!username.trim() || updateUser.isPending}>
+            Save Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ResetPasswordDialog({ user, onOpenChange }: UserDialogProps) {
+  const resetPassword = useResetPassword();
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+
+  useEffect(() => {
+    setPassword("");
+    setConfirm("");
+  }, [user]);
+
+  const mismatch = confirm.length > 0 && password !== confirm;
+
+  const handleReset = () => {
+    if (!user) return;
+    resetPassword.mutate({ id: user.id, password }, {
+      onSuccess: () => onOpenChange(false),
+    });
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Reset Password</DialogTitle>
+          <DialogDescription>
+            Set a new password for {user?.username}. They will be signed out of every session.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="new-password">New password</Label>
+            <Input id="new-password" type="password" autoComplete="new-password" value={password} onChange={(e) => setPassword(e.target.value)} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="confirm-password">Confirm password</Label>
+            <Input id="confirm-password" type="password" autoComplete="new-password" value={confirm} onChange={(e) => setConfirm(e.target.value)} />
+            {mismatch && <p className="text-xs text-destructive">Passwords don't match</p>}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleReset} disabled={password.length < 6 || password !== confirm || resetPassword.isPending}>
+            Reset Password
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function DeleteUserDialog({ user, onOpenChange }: UserDialogProps) {
+  const { data: users } = useUsers();
+  const deleteUser = useDeleteUser();
+  const [transferTo, setTransferTo] = useState<string>("");
+
+  useEffect(() => {
+    setTransferTo("");
+  }, [user]);
+
+  const recipients = users?.filter(u => u.id !== user?.id && u.status === 'active') ?? [];
+
+  const handleDelete = () => {
+    if (!user || !transferTo) return;
+    deleteUser.mutate({ id: user.id, transferTo: parseInt(transferTo) }, {
+      onSuccess: () => onOpenChange(false),
+    });
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Delete {user?.username}?</DialogTitle>
+          <DialogDescription>
+            This permanently removes the account. Their files, folders and share links
+            go to the user you choose below; shares granted to them are revoked.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2 py-4">
+          <Label>Transfer files to</Label>
+          <Select value={transferTo} onValueChange={setTransferTo}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a user" />
+            </SelectTrigger>
+            <SelectContent>
+              {recipients.map(u => (
+                <SelectItem key={u.id} value={String(u.id)}>{u.username}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button variant="destructive" onClick={handleDelete} disabled={!transferTo || deleteUser.isPending}>
+            Delete User
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function UserSessionsDialog({ user, onOpenChange }: UserDialogProps) {
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Sessions for {user?.username}</DialogTitle>
+          <DialogDescription>
+            Devices signed in to this account. Signing one out takes effect on its next request.
+          </DialogDescription>
+        </DialogHeader>
+        {user && <SessionList userId={user.id} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Download, History, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import { api, buildUrl } from "@shared/routes";
+import { useFileVersions, useRestoreVersion } from "@/hooks/use-fs";
+import { formatSize } from "@/lib/utils";
+
+interface VersionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: { id: number; name: string } | null;
+  canDownload: boolean;
+  canRestore: boolean;
+}
+
+export function VersionHistoryDialog({ open, onOpenChange, item, canDownload, canRestore }: VersionHistoryDialogProps) {
+  const { data: versions = [], isLoading } = useFileVersions(open && item ? item.id : undefined);
+  const restoreMutation = useRestoreVersion();
+
+  if (!item) return null;
+
+  const handleDownload = (versionId: number) => {
+    window.open(buildUrl(api.fs.downloadVersion.path, { id: item.id, versionId }), '_blank');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            Previous versions of {item.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[360px]">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => <Skeleton key={i} className="h-12 w-full" />)}
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic py-4 text-center">No versions recorded yet.</p>
+          ) : (
+            <div className="divide-y divide-border/50">
+              {versions.map((version, index) => {
+                const isCurrent = index === 0;
+                return (
+                  <div key={version.id} className="flex items-center gap-3 py-3">
+                    <div className="w-9 h-9 rounded-lg bg-muted flex items-center justify-center shrink-0">
+                      <History className="w-4 h-4 text-muted-foreground" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium">
+                        Version {version.versionNumber}
+                        {isCurrent && <span className="ml-2 text-xs text-primary font-medium">Current</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {version.createdAt ? format(new Date(version.createdAt), "MMM d, yyyy HH:mm") : "-"} • {formatSize(version.size)}
+                      </p>
+                    </div>
+                    {canDownload && (
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDownload(version.id)}>
+                        <Download className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {canRestore && !isCurrent && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate({ fileId: item.id, versionId: version.id })}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" /> Restore
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { CreateApiTokenRequest } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+export function useApiTokens() {
+  return useQuery({
+    queryKey: [api.apiTokens.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.apiTokens.list.path);
+      if (!res.ok) throw new Error("Failed to fetch API tokens");
+      return api.apiTokens.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+// Resolves with the new token; it can't be fetched again afterwards
+export function useCreateApiToken() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: CreateApiTokenRequest) => {
+      const res = await fetch(api.apiTokens.create.path, {
+        method: api.apiTokens.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to create API token");
+      }
+      return api.apiTokens.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.apiTokens.list.path] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error creating API token",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useRevokeApiToken() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.apiTokens.revoke.path, { id }), {
+        method: api.apiTokens.revoke.method,
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to revoke API token");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.apiTokens.list.path] });
+      toast({ title: "API token revoked", description: "Scripts using it can no longer sign in" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error revoking API token",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -1,11 +1,11 @@
 import { createContext, ReactNode, useContext } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { User, LoginRequest } from "@shared/schema";
+import type { AuthUser, LoginRequest, LoginResponse } from "@shared/schema";
 import { api } from "@shared/routes";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
-  user: User | null;
+  user: AuthUser | null;
   isLoading: boolean;
   error: Error | null;
   loginMutation: ReturnType<typeof useLoginMutation>;
@@ -14,9 +14,30 @@ type AuthContextType = {
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
-export function useLoginMutation() {
+// Shared by both login steps: the user is in once we have their record
+function useCompleteLogin() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  return (user: AuthUser) => {
+    queryClient.setQueryData([api.auth.me.path], user);
+
+    // Invalidate file system queries to ensure fresh data for the new user
+    // We use invalidateQueries instead of hard reload for a smoother experience
+    queryClient.invalidateQueries({ queryKey: [api.fs.list.path] });
+    queryClient.invalidateQueries({ queryKey: [api.fs.recent.path] });
+    queryClient.invalidateQueries({ queryKey: [api.fs.starred.path] });
+    queryClient.invalidateQueries({ queryKey: [api.fs.trash.path] });
+
+    toast({
+      title: "Welcome back",
+      description: `Logged in as ${user.username}`,
+    });
+  };
+}
+
+export function useLoginMutation() {
+  const { toast } = useToast();
+  const completeLogin = useCompleteLogin();
   return useMutation({
     mutationFn: async (credentials: LoginRequest) => {
       const res = await fetch(api.auth.login.path, {
@@ -29,26 +50,44 @@ export function useLoginMutation() {
         const error = await res.json();
         throw new Error(error.message || "Login failed");
       }
-      return await res.json();
+      return await res.json() as LoginResponse;
     },
-    onSuccess: (user: User) => {
-      queryClient.setQueryData([api.auth.me.path], user);
-
-      // Invalidate file system queries to ensure fresh data for the new user
-      // We use invalidateQueries instead of hard reload for a smoother experience
-      queryClient.invalidateQueries({ queryKey: [api.fs.list.path] });
-      queryClient.invalidateQueries({ queryKey: [api.fs.recent.path] });
-      queryClient.invalidateQueries({ queryKey: [api.fs.starred.path] });
-      queryClient.invalidateQueries({ queryKey: [api.fs.trash.path] });
-
+    onSuccess: (result) => {
+      // Users with 2FA aren't signed in yet; the login page asks for their code
+      if ("twoFactorRequired" in result) return;
+      completeLogin(result);
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Welcome back",
-        description: `Logged in as ${user.username}`,
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
       });
     },
+  });
+}
+
+export function useVerifyTwoFactorMutation() {
+  const { toast } = useToast();
+  const completeLogin = useCompleteLogin();
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const res = await fetch(api.auth.verifyTwoFactor.path, {
+        method: api.auth.verifyTwoFactor.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Verification failed");
+      }
+      return api.auth.verifyTwoFactor.responses[200].parse(await res.json());
+    },
+    onSuccess: completeLogin,
     onError: (error: Error) => {
       toast({
-        title: "Login failed",
+        title: "Verification failed",
         description: error.message,
         variant: "destructive",
       });
@@ -85,7 +124,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     data: user,
     error,
     isLoading,
-  } = useQuery<User | null, Error>({
+  } = useQuery<AuthUser | null, Error>({
     queryKey: [api.auth.me.path],
     queryFn: async () => {
       const res = await fetch(api.auth.me.path);
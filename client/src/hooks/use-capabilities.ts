@@ -0,0 +1,62 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { RoleCapabilities, UserRole } from "@shared/schema";
+
+// What the signed-in user's role may do. Keyed by role so switching accounts
+// never shows the previous user's capabilities.
+export function useCapabilities() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: [api.capabilities.mine.path, user?.role],
+    queryFn: async () => {
+      const res = await fetch(api.capabilities.mine.path);
+      if (!res.ok) throw new Error("Failed to fetch capabilities");
+      return api.capabilities.mine.responses[200].parse(await res.json());
+    },
+    enabled: !!user,
+  });
+}
+
+export function useRoleCapabilities() {
+  return useQuery({
+    queryKey: [api.capabilities.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.capabilities.list.path);
+      if (!res.ok) throw new Error("Failed to fetch capabilities");
+      return api.capabilities.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useUpdateRoleCapabilities() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ role, capabilities }: { role: UserRole; capabilities: RoleCapabilities }) => {
+      const res = await fetch(buildUrl(api.capabilities.update.path, { role }), {
+        method: api.capabilities.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(capabilities),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update capabilities");
+      }
+      return api.capabilities.update.responses[200].parse(await res.json());
+    },
+    onSuccess: (all) => {
+      queryClient.setQueryData([api.capabilities.list.path], all);
+      queryClient.invalidateQueries({ queryKey: [api.capabilities.mine.path] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating capabilities",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
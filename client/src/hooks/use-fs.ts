@@ -1,6 +1,6 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api, buildUrl } from "@shared/routes";
-import { CreateFolderRequest, Folder, File } from "@shared/schema";
+import { CreateFolderRequest, Folder, File, FileVersion, SearchType } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 
 type FileSystemResponse = {
@@ -27,22 +27,60 @@ export function useFileSystem(folderId?: string) {
 }
 
 export function useRecentFiles() {
-  return useQuery({
+  return useInfiniteQuery({
     queryKey: [api.fs.recent.path],
-    queryFn: async () => {
-      const res = await fetch(api.fs.recent.path);
+    queryFn: async ({ pageParam }) => {
+      const res = await fetch(`${api.fs.recent.path}?offset=${pageParam}`);
       if (!res.ok) throw new Error("Failed to fetch recent files");
       return api.fs.recent.responses[200].parse(await res.json());
     },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset ?? undefined,
+    // Opening a file anywhere moves it up the list, so don't trust the cache
+    refetchOnMount: "always",
   });
 }
 
-export function useStarredFiles() {
+export type SearchParams = {
+  q: string;
+  type?: SearchType;
+  ownerId?: number;
+  from?: string; // yyyy-mm-dd
+  to?: string;
+  minSize?: number;
+  maxSize?: number;
+};
+
+export function useSearchFiles(params: SearchParams) {
+  return useQuery({
+    queryKey: [api.fs.search.path, params],
+    queryFn: async () => {
+      const query = new URLSearchParams({ q: params.q });
+      if (params.type) query.set("type", params.type);
+      if (params.ownerId !== undefined) query.set("ownerId", String(params.ownerId));
+      // Dates are whole days in the user's timezone
+      if (params.from) query.set("from", new Date(`${params.from}T00:00:00`).toISOString());
+      if (params.to) query.set("to", new Date(`${params.to}T23:59:59.999`).toISOString());
+      if (params.minSize !== undefined) query.set("minSize", String(params.minSize));
+      if (params.maxSize !== undefined) query.set("maxSize", String(params.maxSize));
+
+      const res = await fetch(`${api.fs.search.path}?${query}`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Search failed");
+      }
+      return api.fs.search.responses[200].parse(await res.json());
+    },
+    enabled: params.q.trim().length > 0,
+  });
+}
+
+export function useStarredItems() {
   return useQuery({
     queryKey: [api.fs.starred.path],
     queryFn: async () => {
       const res = await fetch(api.fs.starred.path);
-      if (!res.ok) throw new Error("Failed to fetch starred files");
+      if (!res.ok) throw new Error("Failed to fetch starred items");
       return api.fs.starred.responses[200].parse(await res.json());
     },
   });
@@ -106,18 +144,19 @@ export function useToggleStar() {
   const { toast } = useToast();
 
   return useMutation({
-    mutationFn: async (fileId: number) => {
-      const url = buildUrl(api.fs.toggleStar.path, { fileId });
+    mutationFn: async ({ id, type }: { id: number; type: 'file' | 'folder' }) => {
+      const url = type === 'file'
+        ? buildUrl(api.fs.toggleStar.path, { fileId: id })
+        : buildUrl(api.fs.toggleFolderStar.path, { id });
       const res = await fetch(url, {
         method: api.fs.toggleStar.method,
       });
       if (!res.ok) throw new Error("Failed to toggle star");
-      return await res.json();
+      return api.fs.toggleStar.responses[200].parse(await res.json());
     },
-    onSuccess: () => {
+    onSuccess: ({ starred }) => {
       queryClient.invalidateQueries({ queryKey: [api.fs.starred.path] });
-      queryClient.invalidateQueries({ queryKey: [api.fs.list.path] });
-      queryClient.invalidateQueries({ queryKey: [api.fs.recent.path] });
+      toast({ title: starred ? "Added to Starred" : "Removed from Starred" });
     },
     onError: (error: Error) => {
       toast({
@@ -146,6 +185,7 @@ export function useDeleteFile() {
       queryClient.invalidateQueries({ queryKey: [api.fs.recent.path] });
       queryClient.invalidateQueries({ queryKey: [api.fs.starred.path] });
       queryClient.invalidateQueries({ queryKey: [api.fs.trash.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.search.path] });
       toast({ title: "File moved to trash" });
     },
     onError: (error: Error) => {
@@ -164,14 +204,15 @@ export function useDeleteFolder() {
 
   return useMutation({
     mutationFn: async (folderId: number) => {
-      const res = await fetch(`/api/fs/folders/${folderId}`, {
-        method: "DELETE",
+      const res = await fetch(buildUrl(api.fs.deleteFolder.path, { id: folderId }), {
+        method: api.fs.deleteFolder.method,
       });
       if (!res.ok) throw new Error("Failed to delete folder");
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [api.fs.list.path] });
       queryClient.invalidateQueries({ queryKey: [api.fs.trash.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.search.path] });
       toast({ title: "Folder moved to trash" });
     },
     onError: (error: Error) => {
@@ -190,8 +231,8 @@ export function useRestoreFile() {
 
   return useMutation({
     mutationFn: async (fileId: number) => {
-      const res = await fetch(`/api/fs/${fileId}/restore`, {
-        method: "POST",
+      const res = await fetch(buildUrl(api.fs.restore.path, { fileId }), {
+        method: api.fs.restore.method,
       });
       if (!res.ok) throw new Error("Failed to restore file");
     },
@@ -217,8 +258,8 @@ export function useRestoreFolder() {
 
   return useMutation({
     mutationFn: async (folderId: number) => {
-      const res = await fetch(`/api/fs/folders/${folderId}/restore`, {
-        method: "POST",
+      const res = await fetch(buildUrl(api.fs.restoreFolder.path, { id: folderId }), {
+        method: api.fs.restoreFolder.method,
       });
       if (!res.ok) throw new Error("Failed to restore folder");
     },
@@ -243,13 +284,14 @@ export function usePermanentDeleteFile() {
 
   return useMutation({
     mutationFn: async (fileId: number) => {
-      const res = await fetch(`/api/fs/${fileId}/permanent`, {
-        method: "DELETE",
+      const res = await fetch(buildUrl(api.fs.permanentDelete.path, { fileId }), {
+        method: api.fs.permanentDelete.method,
       });
       if (!res.ok) throw new Error("Failed to permanently delete file");
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [api.fs.trash.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.storageUsage.path] });
       toast({ title: "File permanently deleted" });
     },
     onError: (error: Error) => {
@@ -268,13 +310,14 @@ export function usePermanentDeleteFolder() {
 
   return useMutation({
     mutationFn: async (folderId: number) => {
-      const res = await fetch(`/api/fs/folders/${folderId}/permanent`, {
-        method: "DELETE",
+      const res = await fetch(buildUrl(api.fs.permanentDeleteFolder.path, { id: folderId }), {
+        method: api.fs.permanentDeleteFolder.method,
       });
       if (!res.ok) throw new Error("Failed to permanently delete folder");
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [api.fs.trash.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.storageUsage.path] });
       toast({ title: "Folder permanently deleted" });
     },
     onError: (error: Error) => {
@@ -286,3 +329,114 @@ export function usePermanentDeleteFolder() {
     },
   });
 }
+
+export function useFileVersions(fileId?: number) {
+  return useQuery<FileVersion[]>({
+    queryKey: [api.fs.versions.path, fileId],
+    queryFn: async () => {
+      const url = buildUrl(api.fs.versions.path, { id: fileId! });
+      const res = await fetch(url);
+      if (!res.ok) throw new Error("Failed to fetch versions");
+      return api.fs.versions.responses[200].parse(await res.json());
+    },
+    enabled: fileId !== undefined,
+  });
+}
+
+// Body of a text-like file for the preview drawer. Keyed on the blob path so a
+// new version is fetched fresh rather than served from cache.
+export function useFileText(file?: Pick<File, "id" | "path">) {
+  return useQuery<string>({
+    queryKey: [api.fs.view.path, file?.id, file?.path],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.fs.view.path, { fileId: file!.id }));
+      if (!res.ok) throw new Error("Failed to load file");
+      return await res.text();
+    },
+    enabled: file !== undefined,
+  });
+}
+
+export function useZipEntries(file?: Pick<File, "id" | "path">) {
+  return useQuery({
+    queryKey: [api.fs.zipEntries.path, file?.id, file?.path],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.fs.zipEntries.path, { id: file!.id }));
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to read archive");
+      }
+      return api.fs.zipEntries.responses[200].parse(await res.json());
+    },
+    enabled: file !== undefined,
+  });
+}
+
+export function useUploadVersion() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ fileId, file }: { fileId: number; file: globalThis.File }) => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const url = buildUrl(api.fs.uploadVersion.path, { id: fileId });
+      const res = await fetch(url, {
+        method: api.fs.uploadVersion.method,
+        body: formData,
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to upload new version");
+      }
+      return api.fs.uploadVersion.responses[201].parse(await res.json());
+    },
+    onSuccess: (version, { fileId }) => {
+      queryClient.invalidateQueries({ queryKey: [api.fs.versions.path, fileId] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.recent.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.storageUsage.path] });
+      toast({ title: "New version uploaded", description: `Version ${version.versionNumber}` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useRestoreVersion() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ fileId, versionId }: { fileId: number; versionId: number }) => {
+      const url = buildUrl(api.fs.restoreVersion.path, { id: fileId, versionId });
+      const res = await fetch(url, {
+        method: api.fs.restoreVersion.method,
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to restore version");
+      }
+      return await res.json();
+    },
+    onSuccess: (_, { fileId }) => {
+      queryClient.invalidateQueries({ queryKey: [api.fs.versions.path, fileId] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.recent.path] });
+      toast({ title: "Version restored" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
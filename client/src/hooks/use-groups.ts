@@ -0,0 +1,142 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { InsertGroup } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+export function useGroups() {
+  return useQuery({
+    queryKey: [api.groups.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.groups.list.path);
+      if (!res.ok) throw new Error("Failed to fetch groups");
+      return api.groups.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useGroupMembers(groupId: number | null) {
+  return useQuery({
+    queryKey: [api.groups.members.path, groupId],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.groups.members.path, { id: groupId! }));
+      if (!res.ok) throw new Error("Failed to fetch group members");
+      return api.groups.members.responses[200].parse(await res.json());
+    },
+    enabled: groupId !== null,
+  });
+}
+
+export function useSaveGroup() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id?: number; data: InsertGroup }) => {
+      const route = id ? api.groups.update : api.groups.create;
+      const res = await fetch(id ? buildUrl(route.path, { id }) : route.path, {
+        method: route.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to save group");
+      }
+      return await res.json();
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: [api.groups.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.groups.available.path] });
+      toast({ title: id ? "Group updated" : "Group created" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving group",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useDeleteGroup() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.groups.delete.path, { id }), {
+        method: api.groups.delete.method,
+      });
+      if (!res.ok) throw new Error("Failed to delete group");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.groups.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.groups.available.path] });
+      toast({ title: "Group deleted" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error deleting group",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useAddGroupMember() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ groupId, userId }: { groupId: number; userId: number }) => {
+      const res = await fetch(buildUrl(api.groups.addMember.path, { id: groupId }), {
+        method: api.groups.addMember.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId }),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to add member");
+      }
+    },
+    onSuccess: (_, { groupId }) => {
+      queryClient.invalidateQueries({ queryKey: [api.groups.members.path, groupId] });
+      queryClient.invalidateQueries({ queryKey: [api.groups.list.path] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error adding member",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useRemoveGroupMember() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ groupId, userId }: { groupId: number; userId: number }) => {
+      const res = await fetch(buildUrl(api.groups.removeMember.path, { id: groupId, userId }), {
+        method: api.groups.removeMember.method,
+      });
+      if (!res.ok) throw new Error("Failed to remove member");
+    },
+    onSuccess: (_, { groupId }) => {
+      queryClient.invalidateQueries({ queryKey: [api.groups.members.path, groupId] });
+      queryClient.invalidateQueries({ queryKey: [api.groups.list.path] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error removing member",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
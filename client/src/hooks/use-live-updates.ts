@@ -0,0 +1,67 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { api, liveUpdates } from "@shared/routes";
+import { useAuth } from "@/hooks/use-auth";
+
+// Reconnecting backs off from one second up to this
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+// The server closes with this once the session has ended; there's no point retrying
+const CLOSE_SIGNED_OUT = 4001;
+
+/**
+ * Keeps folder listings current while signed in. The server names the
+ * listings that someone (possibly this user, elsewhere) just changed, and
+ * those are fetched again.
+ */
+export function useLiveUpdates() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user && !user.twoFactorSetupRequired ? user.id : null;
+
+  useEffect(() => {
+    if (userId === null) return;
+
+    let socket: WebSocket | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let failures = 0;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${liveUpdates.path}`);
+
+      socket.onopen = () => {
+        // Changes made while we were disconnected were never announced
+        if (failures > 0) queryClient.invalidateQueries({ queryKey: [api.fs.list.path] });
+        failures = 0;
+      };
+
+      socket.onmessage = (message) => {
+        let data: unknown;
+        try {
+          data = JSON.parse(message.data);
+        } catch {
+          return;
+        }
+        const event = liveUpdates.event.safeParse(data);
+        if (!event.success) return;
+        for (const folderId of event.data.folderIds) {
+          queryClient.invalidateQueries({ queryKey: [api.fs.list.path, folderId === null ? "root" : String(folderId)] });
+        }
+      };
+
+      socket.onclose = (event) => {
+        if (stopped || event.code === CLOSE_SIGNED_OUT) return;
+        retryTimer = setTimeout(connect, Math.min(1000 * 2 ** failures, MAX_RECONNECT_DELAY_MS));
+        failures++;
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [userId, queryClient]);
+}
@@ -0,0 +1,46 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+import type { LoginPolicy } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+export function useLoginPolicy() {
+  return useQuery({
+    queryKey: [api.loginPolicy.get.path],
+    queryFn: async () => {
+      const res = await fetch(api.loginPolicy.get.path);
+      if (!res.ok) throw new Error("Failed to fetch sign-in policy");
+      return api.loginPolicy.get.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useUpdateLoginPolicy() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (policy: LoginPolicy) => {
+      const res = await fetch(api.loginPolicy.update.path, {
+        method: api.loginPolicy.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(policy),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update sign-in policy");
+      }
+      return api.loginPolicy.update.responses[200].parse(await res.json());
+    },
+    onSuccess: (policy) => {
+      queryClient.setQueryData([api.loginPolicy.get.path], policy);
+      toast({ title: "Sign-in protection updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating sign-in protection",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,102 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { useToast } from "@/hooks/use-toast";
+
+export function useStorageUsage() {
+  return useQuery({
+    queryKey: [api.fs.storageUsage.path],
+    queryFn: async () => {
+      const res = await fetch(api.fs.storageUsage.path);
+      if (!res.ok) throw new Error("Failed to fetch storage usage");
+      return api.fs.storageUsage.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useUserQuota(userId: number | null) {
+  return useQuery({
+    queryKey: [api.users.quota.path, userId],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.users.quota.path, { id: userId! }));
+      if (!res.ok) throw new Error("Failed to fetch quota");
+      return api.users.quota.responses[200].parse(await res.json());
+    },
+    enabled: userId !== null,
+  });
+}
+
+export function useSetUserQuota() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ userId, quotaBytes }: { userId: number; quotaBytes: number | null }) => {
+      const res = await fetch(buildUrl(api.users.setQuota.path, { id: userId }), {
+        method: api.users.setQuota.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ quotaBytes }),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update quota");
+      }
+      return api.users.setQuota.responses[200].parse(await res.json());
+    },
+    onSuccess: (_, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: [api.users.quota.path, userId] });
+      queryClient.invalidateQueries({ queryKey: [api.users.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.storageUsage.path] });
+      toast({ title: "Quota updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating quota",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useRoleQuotas() {
+  return useQuery({
+    queryKey: [api.quotas.roles.path],
+    queryFn: async () => {
+      const res = await fetch(api.quotas.roles.path);
+      if (!res.ok) throw new Error("Failed to fetch quotas");
+      return api.quotas.roles.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useSetRoleQuota() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ role, quotaBytes }: { role: string; quotaBytes: number | null }) => {
+      const res = await fetch(buildUrl(api.quotas.setRole.path, { role }), {
+        method: api.quotas.setRole.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ quotaBytes }),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update quota");
+      }
+      return api.quotas.setRole.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.quotas.roles.path] });
+      queryClient.invalidateQueries({ queryKey: [api.users.quota.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.storageUsage.path] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating quota",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,84 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { useToast } from "@/hooks/use-toast";
+
+// Without a userId these act on the signed-in user's own sessions; with one
+// they use the admin endpoints for that user
+const sessionsKey = (userId?: number) =>
+  userId === undefined ? [api.sessions.list.path] : [api.users.sessions.path, userId];
+
+export function useSessions(userId?: number | null) {
+  return useQuery({
+    queryKey: sessionsKey(userId ?? undefined),
+    queryFn: async () => {
+      const url = userId == null ? api.sessions.list.path : buildUrl(api.users.sessions.path, { id: userId });
+      const res = await fetch(url);
+      if (!res.ok) throw new Error("Failed to fetch sessions");
+      return api.sessions.list.responses[200].parse(await res.json());
+    },
+    enabled: userId !== null,
+    // Last-seen times move on their own; don't show a stale list
+    staleTime: 0,
+  });
+}
+
+export function useRevokeSession() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ userId, sessionId }: { userId?: number; sessionId: string }) => {
+      const url = userId === undefined
+        ? buildUrl(api.sessions.revoke.path, { id: sessionId })
+        : buildUrl(api.users.revokeSession.path, { id: userId, sessionId });
+      const res = await fetch(url, { method: api.sessions.revoke.method });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to sign out session");
+      }
+    },
+    onSuccess: (_, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: sessionsKey(userId) });
+      toast({ title: "Session signed out" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error signing out session",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useRevokeSessions() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ userId }: { userId?: number }) => {
+      const url = userId === undefined
+        ? api.sessions.revokeOthers.path
+        : buildUrl(api.users.revokeSessions.path, { id: userId });
+      const res = await fetch(url, { method: api.sessions.revokeOthers.method });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to sign out sessions");
+      }
+      return api.sessions.revokeOthers.responses[200].parse(await res.json());
+    },
+    onSuccess: ({ revoked }, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: sessionsKey(userId) });
+      toast({ title: revoked === 1 ? "1 session signed out" : `${revoked} sessions signed out` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error signing out sessions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api } from "@shared/routes";
-import { InsertUser, User } from "@shared/schema";
+import { api, buildUrl } from "@shared/routes";
+import { InsertUser, User, type UserRole, type UserStatus } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 
 export function useUsers() {
@@ -45,3 +45,197 @@ export function useCreateUser() {
     },
   });
 }
+
+export function useUpdateUser() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...changes }: { id: number; username?: string; role?: UserRole; status?: UserStatus }) => {
+      const res = await fetch(buildUrl(api.users.update.path, { id }), {
+        method: api.users.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update user");
+      }
+      return api.users.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.users.list.path] });
+      toast({ title: "User updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useSuspendUser() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, suspend }: { id: number; suspend: boolean }) => {
+      const route = suspend ? api.users.suspend : api.users.reactivate;
+      const res = await fetch(buildUrl(route.path, { id }), { method: route.method });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || `Failed to ${suspend ? "suspend" : "reactivate"} user`);
+      }
+      return route.responses[200].parse(await res.json());
+    },
+    onSuccess: (user: User) => {
+      queryClient.invalidateQueries({ queryKey: [api.users.list.path] });
+      toast({ title: user.status === "suspended" ? `${user.username} suspended` : `${user.username} reactivated` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error changing user status",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useResetPassword() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, password }: { id: number; password: string }) => {
+      const res = await fetch(buildUrl(api.users.resetPassword.path, { id }), {
+        method: api.users.resetPassword.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to reset password");
+      }
+      return api.users.resetPassword.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      toast({ title: "Password reset", description: "The user has been signed out everywhere" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error resetting password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useResetTwoFactor() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.users.resetTwoFactor.path, { id }), {
+        method: api.users.resetTwoFactor.method,
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to reset two-factor authentication");
+      }
+      return api.users.resetTwoFactor.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      toast({ title: "Two-factor reset", description: "The user can sign in with just their password" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error resetting two-factor",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useDeleteUser() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, transferTo }: { id: number; transferTo: number }) => {
+      const res = await fetch(buildUrl(api.users.delete.path, { id }), {
+        method: api.users.delete.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ transferTo }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to delete user");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.users.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.fs.storageUsage.path] });
+      toast({ title: "User deleted" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error deleting user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useLockouts() {
+  return useQuery({
+    queryKey: [api.users.lockouts.path],
+    queryFn: async () => {
+      const res = await fetch(api.users.lockouts.path);
+      if (!res.ok) throw new Error("Failed to fetch lockouts");
+      return api.users.lockouts.responses[200].parse(await res.json());
+    },
+    // Lockouts start and expire on their own
+    staleTime: 0,
+  });
+}
+
+export function useUnlockUser() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.users.unlock.path, { id }), {
+        method: api.users.unlock.method,
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to unlock account");
+      }
+      return api.users.unlock.responses[200].parse(await res.json());
+    },
+    onSuccess: ({ message }) => {
+      queryClient.invalidateQueries({ queryKey: [api.users.lockouts.path] });
+      toast({ title: message });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error unlocking account",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,160 @@
+import { api, buildUrl } from "@shared/routes";
+import type { File as StoredFile, UploadSession } from "@shared/schema";
+
+// 8 MB keeps each PATCH short enough that a dropped connection loses little work
+const CHUNK_SIZE = 8 * 1024 * 1024;
+const MAX_RETRIES = 5;
+const STORAGE_KEY = "fms-resumable-uploads";
+
+// Upload sessions survive a page reload by remembering which server session
+// belongs to which local file. A File object itself cannot be persisted, so the
+// user re-selects the same file and we match it by this fingerprint.
+type StoredUploads = Record<string, { id: string; name: string; size: number }>;
+
+function fingerprint(file: globalThis.File, folderId: number | null) {
+  return [folderId ?? "root", file.name, file.size, file.lastModified].join(":");
+}
+
+function readStoredUploads(): StoredUploads {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function writeStoredUploads(uploads: StoredUploads) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(uploads));
+}
+
+export function forgetResumableUpload(sessionId: string) {
+  const uploads = readStoredUploads();
+  for (const [key, entry] of Object.entries(uploads)) {
+    if (entry.id === sessionId) delete uploads[key];
+  }
+  writeStoredUploads(uploads);
+}
+
+export async function fetchPendingUploads(): Promise<UploadSession[]> {
+  const res = await fetch(api.fs.uploads.path);
+  if (!res.ok) throw new Error("Failed to fetch pending uploads");
+  return api.fs.uploads.responses[200].parse(await res.json());
+}
+
+export async function cancelResumableUpload(sessionId: string) {
+  const res = await fetch(buildUrl(api.fs.cancelUpload.path, { id: sessionId }), {
+    method: api.fs.cancelUpload.method,
+  });
+  if (!res.ok && res.status !== 404) throw new Error("Failed to cancel upload");
+  forgetResumableUpload(sessionId);
+}
+
+async function getServerOffset(sessionId: string): Promise<number | null> {
+  const res = await fetch(buildUrl(api.fs.uploadStatus.path, { id: sessionId }), {
+    method: api.fs.uploadStatus.method,
+    cache: "no-store",
+  });
+  if (!res.ok) return null;
+  return parseInt(res.headers.get("Upload-Offset") || "0", 10);
+}
+
+// The server refused the upload outright (over quota, bad name, ...) - retrying
+// or resuming won't help, so the message is worth showing as-is
+export class UploadRejectedError extends Error {}
+
+async function createSession(file: globalThis.File, folderId: number | null): Promise<string> {
+  const res = await fetch(api.fs.createUpload.path, {
+    method: api.fs.createUpload.method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      name: file.name,
+      size: file.size,
+      mimeType: file.type || undefined,
+      folderId,
+    }),
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new UploadRejectedError(error.message || "Failed to start upload");
+  }
+  const session = api.fs.createUpload.responses[201].parse(await res.json());
+  return session.id;
+}
+
+function sendChunk(sessionId: string, chunk: Blob, offset: number, onProgress: (sent: number) => void): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+
+    xhr.upload.addEventListener("progress", (e) => onProgress(e.loaded));
+    xhr.addEventListener("load", () => {
+      const serverOffset = parseInt(xhr.getResponseHeader("Upload-Offset") || "", 10);
+      if ((xhr.status === 204 || xhr.status === 409) && !isNaN(serverOffset)) {
+        // 409 means we were out of sync - carry on from wherever the server is
+        resolve(serverOffset);
+      } else {
+        reject(new Error(`Chunk upload failed (${xhr.status})`));
+      }
+    });
+    xhr.addEventListener("error", () => reject(new Error("Network error")));
+    xhr.addEventListener("abort", () => reject(new Error("Upload aborted")));
+
+    xhr.open(api.fs.uploadChunk.method, buildUrl(api.fs.uploadChunk.path, { id: sessionId }));
+    xhr.setRequestHeader("Upload-Offset", String(offset));
+    xhr.setRequestHeader("Content-Type", "application/offset+octet-stream");
+    xhr.send(chunk);
+  });
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Upload a single file in chunks, resuming a previous session for the same
+ * file and folder if one exists. Reports progress as bytes sent so far.
+ */
+export async function uploadResumable(
+  file: globalThis.File,
+  folderId: number | null,
+  onProgress: (bytesSent: number) => void,
+): Promise<StoredFile> {
+  const key = fingerprint(file, folderId);
+  const uploads = readStoredUploads();
+
+  let sessionId: string | null = uploads[key]?.id ?? null;
+  let offset = sessionId ? await getServerOffset(sessionId) : null;
+
+  if (sessionId === null || offset === null) {
+    sessionId = await createSession(file, folderId);
+    offset = 0;
+    writeStoredUploads({ ...readStoredUploads(), [key]: { id: sessionId, name: file.name, size: file.size } });
+  }
+
+  onProgress(offset);
+  let retries = 0;
+
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + CHUNK_SIZE);
+    const chunkStart = offset;
+    try {
+      offset = await sendChunk(sessionId, chunk, chunkStart, (sent) => onProgress(chunkStart + sent));
+      retries = 0;
+    } catch (err) {
+      if (++retries > MAX_RETRIES) throw err;
+      // Back off, then ask the server how much of the chunk actually landed
+      await wait(Math.min(1000 * 2 ** retries, 30000));
+      const serverOffset = await getServerOffset(sessionId).catch(() => null);
+      if (serverOffset !== null) offset = serverOffset;
+    }
+    onProgress(offset);
+  }
+
+  const res = await fetch(buildUrl(api.fs.completeUpload.path, { id: sessionId }), {
+    method: api.fs.completeUpload.method,
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new UploadRejectedError(error.message || "Failed to finalize upload");
+  }
+
+  forgetResumableUpload(sessionId);
+  return api.fs.completeUpload.responses[201].parse(await res.json());
+}
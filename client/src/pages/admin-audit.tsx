@@ -4,7 +4,7 @@ import { ViewToggle } from "@/components/view-toggle";
 import { LayoutShell } from "@/components/layout-shell";
 import { Skeleton } from "@/components/ui/skeleton";
 import { format } from "date-fns";
-import { Activity, File, Folder, User, Clock, MoreVertical, Eye, Filter } from "lucide-react";
+import { Activity, File, Folder, User, Clock, MoreVertical, Eye, Filter, KeyRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -42,6 +42,17 @@ export default function AuditPage() {
     return 'text-gray-600 bg-gray-50 border-gray-200';
   };
 
+  // Actions a script took with a personal API token
+  const renderToken = (log: { apiTokenName: string | null }) => log.apiTokenName && (
+    <span
+      className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-medium border text-slate-600 bg-slate-50 border-slate-200 shrink-0"
+      title="Made with an API token"
+    >
+      <KeyRound className="w-3 h-3" />
+      {log.apiTokenName}
+    </span>
+  );
+
   return (
     <LayoutShell>
       <div className="space-y-6">
@@ -86,6 +97,7 @@ export default function AuditPage() {
                         <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-mono font-medium border ${getActionColor(log.action)}`}>
                           {log.action.toUpperCase()}
                         </span>
+                        {renderToken(log)}
                       </div>
                       <p className="text-sm text-muted-foreground truncate" title={log.details || ""}>
                         {log.details || "-"}
@@ -111,6 +123,7 @@ export default function AuditPage() {
                   <span className={`inline-flex items-center px-1.5 py-0.5 rounded text-xs font-mono font-medium border shrink-0 ${getActionColor(log.action)}`}>
                     {log.action.toUpperCase()}
                   </span>
+                  {renderToken(log)}
                   <span className="text-sm text-muted-foreground truncate flex-1" title={log.details || ""}>
                     {log.details || "-"}
                   </span>
@@ -131,10 +144,11 @@ export default function AuditPage() {
               </div>
               {logs?.map((log) => (
                 <div key={log.id} className="grid grid-cols-12 gap-4 px-6 py-4 items-center hover:bg-muted/30 transition-colors group">
-                  <div className="col-span-3">
+                  <div className="col-span-3 flex flex-wrap items-center gap-2">
                     <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-mono font-medium border ${getActionColor(log.action)}`}>
                       {log.action.toUpperCase()}
                     </span>
+                    {renderToken(log)}
                   </div>
                   <div className="col-span-2 flex items-center gap-2 text-sm text-muted-foreground capitalize">
                     {getIcon(log.targetType, "sm")}
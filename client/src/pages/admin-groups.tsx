@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertGroupSchema, InsertGroup, GroupWithMembers } from "@shared/schema";
+import {
+  useGroups,
+  useGroupMembers,
+  useSaveGroup,
+  useDeleteGroup,
+  useAddGroupMember,
+  useRemoveGroupMember,
+} from "@/hooks/use-groups";
+import { useUsers } from "@/hooks/use-users";
+import { LayoutShell } from "@/components/layout-shell";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MoreVertical, Plus, User, UsersRound, X } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { format } from "date-fns";
+
+function GroupFormDialog({ group, open, onOpenChange }: {
+  group: GroupWithMembers | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const saveGroup = useSaveGroup();
+
+  const form = useForm<InsertGroup>({
+    resolver: zodResolver(insertGroupSchema),
+    values: {
+      name: group?.name ?? "",
+      description: group?.description ?? "",
+    },
+  });
+
+  function onSubmit(data: InsertGroup) {
+    saveGroup.mutate({ id: group?.id, data }, {
+      onSuccess: () => {
+        onOpenChange(false);
+        form.reset();
+      },
+    });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{group ? "Edit Group" : "New Group"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Finance" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Optional" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={saveGroup.isPending}>
+              {saveGroup.isPending ? "Saving..." : group ? "Save Changes" : "Create Group"}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function GroupMembersDialog({ group, onOpenChange }: {
+  group: GroupWithMembers | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { data: members, isLoading } = useGroupMembers(group?.id ?? null);
+  const { data: users } = useUsers();
+  const addMember = useAddGroupMember();
+  const removeMember = useRemoveGroupMember();
+  const [selectedUserId, setSelectedUserId] = useState("");
+
+  const candidates = users?.filter(u => !members?.some(m => m.id === u.id)) ?? [];
+
+  return (
+    <Dialog open={!!group} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Members of {group?.name}</DialogTitle>
+        </DialogHeader>
+        <div className="flex gap-2">
+          <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select a user" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map(u => (
+                <SelectItem key={u.id} value={String(u.id)}>{u.username}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            disabled={!selectedUserId || addMember.isPending}
+            onClick={() => {
+              if (!group) return;
+              addMember.mutate(
+                { groupId: group.id, userId: parseInt(selectedUserId) },
+                { onSuccess: () => setSelectedUserId("") },
+              );
+            }}
+          >
+            Add
+          </Button>
+        </div>
+        <div className="divide-y divide-border/50 max-h-80 overflow-y-auto">
+          {isLoading ? (
+            <Skeleton className="h-10 w-full" />
+          ) : members?.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic py-4 text-center">This group has no members.</p>
+          ) : (
+            members?.map(member => (
+              <div key={member.id} className="flex items-center gap-3 py-2">
+                <div className="w-7 h-7 rounded-full bg-primary/10 flex items-center justify-center text-primary shrink-0">
+                  <User className="w-3.5 h-3.5" />
+                </div>
+                <span className="text-sm font-medium flex-1 truncate">{member.username}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => group && removeMember.mutate({ groupId: group.id, userId: member.id })}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function GroupsPage() {
+  const { data: groups, isLoading } = useGroups();
+  const deleteGroup = useDeleteGroup();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<GroupWithMembers | null>(null);
+  const [membersGroup, setMembersGroup] = useState<GroupWithMembers | null>(null);
+  const [deletingGroup, setDeletingGroup] = useState<GroupWithMembers | null>(null);
+
+  const openForm = (group: GroupWithMembers | null) => {
+    setEditingGroup(group);
+    setFormOpen(true);
+  };
+
+  return (
+    <LayoutShell>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold font-display">Groups</h1>
+            <p className="text-muted-foreground">Share files with teams instead of individual users</p>
+          </div>
+          <Button className="gap-2" onClick={() => openForm(null)}>
+            <Plus className="w-4 h-4" />
+            New Group
+          </Button>
+        </div>
+
+        <div className="bg-card rounded-2xl border border-border shadow-sm overflow-hidden">
+          {isLoading ? (
+            <div className="p-6 space-y-4">
+              {[1, 2, 3].map((i) => <Skeleton key={i} className="h-12 w-full" />)}
+            </div>
+          ) : groups?.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-20 text-center">
+              <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mb-4">
+                <UsersRound className="w-8 h-8 text-muted-foreground/50" />
+              </div>
+              <h3 className="text-lg font-medium text-foreground">No groups yet</h3>
+              <p className="text-muted-foreground mt-1">Create a group to share with several users at once</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-border/50">
+              <div className="grid grid-cols-12 gap-4 px-6 py-3 bg-muted/30 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                <div className="col-span-4">Group</div>
+                <div className="col-span-4">Description</div>
+                <div className="col-span-2">Members</div>
+                <div className="col-span-2">Created</div>
+              </div>
+              {groups?.map((group) => (
+                <div key={group.id} className="grid grid-cols-12 gap-4 px-6 py-4 items-center hover:bg-muted/30 transition-colors group">
+                  <div className="col-span-4 flex items-center gap-3">
+                    <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center text-primary">
+                      <UsersRound className="w-4 h-4" />
+                    </div>
+                    <span className="font-medium truncate">{group.name}</span>
+                  </div>
+                  <div className="col-span-4 text-sm text-muted-foreground truncate">
+                    {group.description || "-"}
+                  </div>
+                  <div className="col-span-2 text-sm">
+                    <button className="hover:underline" onClick={() => setMembersGroup(group)}>
+                      {group.memberCount} member{group.memberCount === 1 ? "" : "s"}
+                    </button>
+                  </div>
+                  <div className="col-span-2 text-sm text-muted-foreground flex items-center justify-between">
+                    <span>{group.createdAt ? format(new Date(group.createdAt), "MMM d, yyyy") : "-"}</span>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <MoreVertical className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => setMembersGroup(group)}>Manage Members</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => openForm(group)}>Edit Group</DropdownMenuItem>
+                        <DropdownMenuItem className="text-destructive" onClick={() => setDeletingGroup(group)}>
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <GroupFormDialog group={editingGroup} open={formOpen} onOpenChange={setFormOpen} />
+      <GroupMembersDialog group={membersGroup} onOpenChange={(open) => !open && setMembersGroup(null)} />
+      <ConfirmDialog
+        open={!!deletingGroup}
+        onOpenChange={(open) => !open && setDeletingGroup(null)}
+        title="Delete Group"
+        description={`Delete "${deletingGroup?.name}"? Everything shared with this group will be unshared. Members keep their own accounts.`}
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={() => deletingGroup && deleteGroup.mutate(deletingGroup.id)}
+      />
+    </LayoutShell>
+  );
+}
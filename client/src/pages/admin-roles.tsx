@@ -0,0 +1,224 @@
+import { useEffect, useState } from "react";
+import { LayoutShell } from "@/components/layout-shell";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { KeyRound, LockKeyhole } from "lucide-react";
+import { useRoleCapabilities, useUpdateRoleCapabilities } from "@/hooks/use-capabilities";
+import { useLoginPolicy, useUpdateLoginPolicy } from "@/hooks/use-login-policy";
+import { useToast } from "@/hooks/use-toast";
+import { CAPABILITIES, USER_ROLES, loginPolicySchema, type Capability, type LoginPolicy, type RoleCapabilities, type UserRole } from "@shared/schema";
+
+const MB = 1024 * 1024;
+
+const CAPABILITY_LABELS: Record<Capability, { name: string; description: string }> = {
+  canShareExternally: { name: "Share externally", description: "Create public links that work without an account" },
+  canUploadArchive: { name: "Upload archives", description: "Upload zip files and extract them into folders" },
+  canViewAudit: { name: "View audit logs", description: "See who did what across the system" },
+  canManageUsers: { name: "Manage users", description: "Users, groups and storage quotas, for roles up to their own" },
+};
+
+const POLICY_FIELDS: { key: keyof LoginPolicy; label: string; description: string }[] = [
+  { key: "maxFailures", label: "Failures per username", description: "Wrong passwords or codes before the account is locked" },
+  { key: "maxIpFailures", label: "Failures per IP address", description: "Before every sign-in from that address is locked" },
+  { key: "lockoutMinutes", label: "Lockout (minutes)", description: "How long a lockout lasts; admins can unlock an account sooner" },
+];
+
+// Attempts are slowed down after a couple of failures; this decides when they stop altogether
+function LoginPolicySection() {
+  const { data: policy, isLoading } = useLoginPolicy();
+  const updatePolicy = useUpdateLoginPolicy();
+  const { toast } = useToast();
+  const [values, setValues] = useState<Record<keyof LoginPolicy, string>>({ maxFailures: "", maxIpFailures: "", lockoutMinutes: "" });
+
+  useEffect(() => {
+    if (!policy) return;
+    setValues({
+      maxFailures: String(policy.maxFailures),
+      maxIpFailures: String(policy.maxIpFailures),
+      lockoutMinutes: String(policy.lockoutMinutes),
+    });
+  }, [policy]);
+
+  const handleSave = () => {
+    const parsed = loginPolicySchema.safeParse({
+      maxFailures: Number(values.maxFailures),
+      maxIpFailures: Number(values.maxIpFailures),
+      lockoutMinutes: Number(values.lockoutMinutes),
+    });
+    if (!parsed.success) {
+      toast({ title: parsed.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+    updatePolicy.mutate(parsed.data);
+  };
+
+  return (
+    <div className="bg-card rounded-2xl border border-border shadow-sm p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <LockKeyhole className="w-5 h-5 text-muted-foreground" />
+          Sign-in Protection
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Repeated failed sign-ins are slowed down, then locked out for a while
+        </p>
+      </div>
+      {isLoading || !policy ? (
+        <Skeleton className="h-16 w-full" />
+      ) : (
+        <>
+          <div className="grid gap-4 sm:grid-cols-3">
+            {POLICY_FIELDS.map(({ key, label, description }) => (
+              <div key={key} className="grid gap-2">
+                <Label htmlFor={`policy-${key}`}>{label}</Label>
+                <Input
+                  id={`policy-${key}`}
+                  type="number"
+                  min={1}
+                  value={values[key]}
+                  onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+                />
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={updatePolicy.isPending}>Save</Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Superadmins always have everything, so their column is shown but locked
+// (apart from whether they need 2FA)
+const isLocked = (role: UserRole) => role === 'superadmin';
+
+export default function RolesPage() {
+  const { data: matrix, isLoading } = useRoleCapabilities();
+  const updateCapabilities = useUpdateRoleCapabilities();
+  const { toast } = useToast();
+  const [uploadLimits, setUploadLimits] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!matrix) return;
+    setUploadLimits(Object.fromEntries(USER_ROLES.map(role => {
+      const limit = matrix[role].maxUploadSize;
+      return [role, limit === null ? "" : String(Math.round(limit / MB))];
+    })));
+  }, [matrix]);
+
+  const save = (role: UserRole, changes: Partial<RoleCapabilities>) => {
+    if (!matrix) return;
+    updateCapabilities.mutate({ role, capabilities: { ...matrix[role], ...changes } }, {
+      onSuccess: () => toast({ title: "Capabilities updated", description: `Changes apply to every ${role} right away` }),
+    });
+  };
+
+  const saveUploadLimit = (role: UserRole) => {
+    if (!matrix) return;
+    const value = (uploadLimits[role] ?? "").trim();
+    const mb = Number(value);
+    if (value && (!Number.isInteger(mb) || mb <= 0)) {
+      toast({ title: "Enter a whole number of MB, or leave it empty", variant: "destructive" });
+      return;
+    }
+    const maxUploadSize = value ? mb * MB : null;
+    if (maxUploadSize !== matrix[role].maxUploadSize) save(role, { maxUploadSize });
+  };
+
+  return (
+    <LayoutShell>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold font-display flex items-center gap-2">
+            <KeyRound className="w-6 h-6 text-primary" />
+            Roles & Permissions
+          </h1>
+          <p className="text-muted-foreground">Choose what each role is allowed to do, and how sign-ins are protected</p>
+        </div>
+
+        <div className="bg-card rounded-2xl border border-border shadow-sm overflow-hidden">
+          {isLoading || !matrix ? (
+            <div className="p-6 space-y-4">
+              {[1, 2, 3, 4, 5].map((i) => <Skeleton key={i} className="h-12 w-full" />)}
+            </div>
+          ) : (
+            <div className="divide-y divide-border/50">
+              <div className="grid grid-cols-12 gap-4 px-6 py-3 bg-muted/30 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                <div className="col-span-4">Capability</div>
+                {USER_ROLES.map(role => (
+                  <div key={role} className="col-span-2 text-center">{role}</div>
+                ))}
+              </div>
+
+              {CAPABILITIES.map(capability => (
+                <div key={capability} className="grid grid-cols-12 gap-4 px-6 py-4 items-center">
+                  <div className="col-span-4">
+                    <p className="font-medium">{CAPABILITY_LABELS[capability].name}</p>
+                    <p className="text-xs text-muted-foreground">{CAPABILITY_LABELS[capability].description}</p>
+                  </div>
+                  {USER_ROLES.map(role => (
+                    <div key={role} className="col-span-2 flex justify-center">
+                      <Switch
+                        checked={matrix[role][capability]}
+                        disabled={isLocked(role) || updateCapabilities.isPending}
+                        onCheckedChange={(checked) => save(role, { [capability]: checked })}
+                        aria-label={`${CAPABILITY_LABELS[capability].name} for ${role}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))}
+
+              <div className="grid grid-cols-12 gap-4 px-6 py-4 items-center">
+                <div className="col-span-4">
+                  <p className="font-medium">Require two-factor</p>
+                  <p className="text-xs text-muted-foreground">Users without it must set it up at their next sign-in</p>
+                </div>
+                {USER_ROLES.map(role => (
+                  <div key={role} className="col-span-2 flex justify-center">
+                    <Switch
+                      checked={matrix[role].requireTwoFactor}
+                      disabled={updateCapabilities.isPending}
+                      onCheckedChange={(checked) => save(role, { requireTwoFactor: checked })}
+                      aria-label={`Require two-factor for ${role}`}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-12 gap-4 px-6 py-4 items-center">
+                <div className="col-span-4">
+                  <p className="font-medium">Max upload size (MB)</p>
+                  <p className="text-xs text-muted-foreground">Largest single file; leave empty for no limit</p>
+                </div>
+                {USER_ROLES.map(role => (
+                  <div key={role} className="col-span-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="No limit"
+                      className="text-center"
+                      disabled={isLocked(role)}
+                      value={uploadLimits[role] ?? ""}
+                      onChange={(e) => setUploadLimits(prev => ({ ...prev, [role]: e.target.value }))}
+                      onBlur={() => saveUploadLimit(role)}
+                      onKeyDown={(e) => e.key === "Enter" && saveUploadLimit(role)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <LoginPolicySection />
+      </div>
+    </LayoutShell>
+  );
+}
@@ -1,11 +1,15 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertUserSchema, InsertUser } from "@shared/schema";
-import { useUsers, useCreateUser } from "@/hooks/use-users";
+import { insertUserSchema, InsertUser, canManageRole, type User as UserRecord } from "@shared/schema";
+import { useUsers, useCreateUser, useSuspendUser, useResetTwoFactor, useLockouts, useUnlockUser } from "@/hooks/use-users";
+import { useAuth } from "@/hooks/use-auth";
 import { useViewMode } from "@/hooks/use-view-mode";
 import { ViewToggle } from "@/components/view-toggle";
 import { LayoutShell } from "@/components/layout-shell";
+import { UserQuotaDialog, RoleQuotasDialog } from "@/components/quota-dialog";
+import { EditUserDialog, ResetPasswordDialog, DeleteUserDialog, UserSessionsDialog } from "@/components/user-dialogs";
+import { ConfirmDialog } from "@/components/confirm-dialog";
 import {
   Dialog,
   DialogContent,
@@ -32,11 +36,12 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Shield, User, UserPlus, MoreVertical, Mail, Calendar } from "lucide-react";
+import { Plus, Shield, User, UserPlus, MoreVertical, Mail, Calendar, HardDrive, Lock } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { format } from "date-fns";
@@ -46,6 +51,19 @@ export default function UsersPage() {
   const [open, setOpen] = useState(false);
   const createUser = useCreateUser();
   const [viewMode, setViewMode] = useViewMode('users');
+  const [quotaUser, setQuotaUser] = useState<{ id: number; username: string } | null>(null);
+  const [roleQuotasOpen, setRoleQuotasOpen] = useState(false);
+  const [editUser, setEditUser] = useState<UserRecord | null>(null);
+  const [passwordUser, setPasswordUser] = useState<UserRecord | null>(null);
+  const [deleteUser, setDeleteUser] = useState<UserRecord | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<UserRecord | null>(null);
+  const { user: currentUser } = useAuth();
+  const suspendUser = useSuspendUser();
+  const resetTwoFactor = useResetTwoFactor();
+  const [twoFactorUser, setTwoFactorUser] = useState<UserRecord | null>(null);
+  const { data: lockouts } = useLockouts();
+  const unlockUser = useUnlockUser();
+  const lockedUntil = new Map(lockouts?.map(l => [l.userId, new Date(l.lockedUntil)]));
 
   const form = useForm<InsertUser>({
     resolver: zodResolver(insertUserSchema),
@@ -84,6 +102,62 @@ export default function UsersPage() {
     }
   };
 
+  // Shown next to the status while failed sign-ins keep the user out
+  const renderLockBadge = (user: UserRecord) => {
+    const until = lockedUntil.get(user.id);
+    if (!until) return null;
+    return (
+      <span
+        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border bg-amber-50 text-amber-700 border-amber-200"
+        title={`Too many failed sign-ins; locked until ${format(until, "HH:mm")}`}
+      >
+        <Lock className="w-3 h-3" />
+        Locked
+      </span>
+    );
+  };
+
+  // Shared by the grid, compact and list menus
+  const renderUserActions = (user: UserRecord) => {
+    const isSelf = user.id === currentUser?.id;
+    if (!canManageRole(currentUser?.role ?? "", user.role)) {
+      return (
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem disabled>Outranks your role</DropdownMenuItem>
+        </DropdownMenuContent>
+      );
+    }
+    return (
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => setEditUser(user)}>Edit User</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => setPasswordUser(user)}>Reset Password</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => setTwoFactorUser(user)}>Reset Two-Factor</DropdownMenuItem>
+        {lockedUntil.has(user.id) && (
+          <DropdownMenuItem onClick={() => unlockUser.mutate(user.id)}>Unlock Sign-in</DropdownMenuItem>
+        )}
+        <DropdownMenuItem onClick={() => setSessionsUser(user)}>Sessions</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => setQuotaUser(user)}>Storage Quota</DropdownMenuItem>
+        {!isSelf && (
+          <>
+            <DropdownMenuSeparator />
+            {user.status === 'suspended' ? (
+              <DropdownMenuItem onClick={() => suspendUser.mutate({ id: user.id, suspend: false })}>
+                Reactivate
+              </DropdownMenuItem>
+            ) : (
+              <DropdownMenuItem onClick={() => suspendUser.mutate({ id: user.id, suspend: true })}>
+                Suspend
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem className="text-destructive" onClick={() => setDeleteUser(user)}>
+              Delete User
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    );
+  };
+
   return (
     <LayoutShell>
       <div className="space-y-6">
@@ -94,6 +168,10 @@ export default function UsersPage() {
           </div>
           <div className="flex items-center gap-2">
             <ViewToggle view={viewMode} onViewChange={setViewMode} />
+            <Button variant="outline" className="gap-2" onClick={() => setRoleQuotasOpen(true)}>
+              <HardDrive className="w-4 h-4" />
+              Default Quotas
+            </Button>
             <Dialog open={open} onOpenChange={setOpen}>
               <DialogTrigger asChild>
                 <Button className="gap-2">
@@ -146,8 +224,8 @@ export default function UsersPage() {
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              <SelectItem value="admin">Admin</SelectItem>
-                              <SelectItem value="staff">Staff</SelectItem>
+                              {canManageRole(currentUser?.role ?? "", "admin") && <SelectItem value="admin">Admin</SelectItem>}
+                              {canManageRole(currentUser?.role ?? "", "staff") && <SelectItem value="staff">Staff</SelectItem>}
                               <SelectItem value="employee">Employee</SelectItem>
                             </SelectContent>
                           </Select>
@@ -193,11 +271,7 @@ export default function UsersPage() {
                           <MoreVertical className="w-4 h-4" />
                         </Button>
                       </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem>Edit User</DropdownMenuItem>
-                        <DropdownMenuItem>Reset Password</DropdownMenuItem>
-                        <DropdownMenuItem className="text-destructive">Deactivate</DropdownMenuItem>
-                      </DropdownMenuContent>
+                      {renderUserActions(user)}
                     </DropdownMenu>
                   </div>
                   <div className="flex flex-col items-center text-center">
@@ -213,6 +287,7 @@ export default function UsersPage() {
                       <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium capitalize border ${getStatusColor(user.status)}`}>
                         {user.status}
                       </span>
+                      {renderLockBadge(user)}
                     </div>
                     <p className="text-xs text-muted-foreground mt-3 flex items-center gap-1">
                       <Calendar className="w-3 h-3" />
@@ -240,6 +315,7 @@ export default function UsersPage() {
                   <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium capitalize border ${getStatusColor(user.status)} hidden sm:inline-flex`}>
                     {user.status}
                   </span>
+                  {renderLockBadge(user)}
                   <span className="text-xs text-muted-foreground hidden md:block">
                     {user.createdAt ? format(new Date(user.createdAt), "MMM d") : "-"}
                   </span>
@@ -249,10 +325,7 @@ export default function UsersPage() {
                         <MoreVertical className="w-4 h-4" />
                       </Button>
                     </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      <DropdownMenuItem>Edit</DropdownMenuItem>
-                      <DropdownMenuItem className="text-destructive">Deactivate</DropdownMenuItem>
-                    </DropdownMenuContent>
+                    {renderUserActions(user)}
                   </DropdownMenu>
                 </div>
               ))}
@@ -280,10 +353,11 @@ export default function UsersPage() {
                       {user.role}
                     </span>
                   </div>
-                  <div className="col-span-3">
+                  <div className="col-span-3 flex items-center gap-2">
                     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize border ${getStatusColor(user.status)}`}>
                       {user.status}
                     </span>
+                    {renderLockBadge(user)}
                   </div>
                   <div className="col-span-2 text-sm text-muted-foreground flex items-center justify-between">
                     <span>{user.createdAt ? format(new Date(user.createdAt), "MMM d, yyyy") : "-"}</span>
@@ -293,11 +367,7 @@ export default function UsersPage() {
                           <MoreVertical className="w-4 h-4" />
                         </Button>
                       </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem>Edit User</DropdownMenuItem>
-                        <DropdownMenuItem>Reset Password</DropdownMenuItem>
-                        <DropdownMenuItem className="text-destructive">Deactivate</DropdownMenuItem>
-                      </DropdownMenuContent>
+                      {renderUserActions(user)}
                     </DropdownMenu>
                   </div>
                 </div>
@@ -306,6 +376,22 @@ export default function UsersPage() {
           )}
         </div>
       </div>
+
+      <UserQuotaDialog user={quotaUser} onOpenChange={(open) => !open && setQuotaUser(null)} />
+      <RoleQuotasDialog open={roleQuotasOpen} onOpenChange={setRoleQuotasOpen} />
+      <EditUserDialog user={editUser} onOpenChange={(open) => !open && setEditUser(null)} />
+      <ResetPasswordDialog user={passwordUser} onOpenChange={(open) => !open && setPasswordUser(null)} />
+      <DeleteUserDialog user={deleteUser} onOpenChange={(open) => !open && setDeleteUser(null)} />
+      <UserSessionsDialog user={sessionsUser} onOpenChange={(open) => !open && setSessionsUser(null)} />
+      <ConfirmDialog
+        open={!!twoFactorUser}
+        onOpenChange={(open) => !open && setTwoFactorUser(null)}
+        title="Reset two-factor authentication?"
+        description={`${twoFactorUser?.username} will be able to sign in with just their password, and will have to set up two-factor again if their role requires it. Only do this if they've lost their authenticator and recovery codes.`}
+        confirmText="Reset Two-Factor"
+        variant="destructive"
+        onConfirm={() => twoFactorUser && resetTwoFactor.mutate(twoFactorUser.id)}
+      />
     </LayoutShell>
   );
 }
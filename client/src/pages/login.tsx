@@ -1,7 +1,8 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useAuth } from "@/hooks/use-auth";
+import { useState } from "react";
+import { useAuth, useVerifyTwoFactorMutation } from "@/hooks/use-auth";
 import { Redirect } from "wouter";
 import {
   Form,
@@ -13,15 +14,81 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { FileText, Lock, User } from "lucide-react";
+import { TotpInput } from "@/components/totp-input";
+import { FileText, Lock, User, ShieldCheck, ArrowLeft } from "lucide-react";
 
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
 });
 
+// Second step for accounts with 2FA
+function TwoFactorStep({ onBack }: { onBack: () => void }) {
+  const verifyMutation = useVerifyTwoFactorMutation();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const submit = (value = code) => {
+    if (!value.trim()) return;
+    verifyMutation.mutate(value, {
+      onError: (error) => {
+        setCode("");
+        // The password has to be entered again once the attempt has lapsed
+        if (/password again/.test(error.message)) onBack();
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-full bg-primary/10 text-primary flex items-center justify-center">
+          <ShieldCheck className="w-5 h-5" />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when setting up two-factor authentication."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      <form onSubmit={(e) => { e.preventDefault(); submit(); }} className="space-y-6">
+        {useRecoveryCode ? (
+          <Input
+            autoFocus
+            placeholder="xxxxx-xxxxx"
+            autoComplete="off"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+        ) : (
+          <TotpInput value={code} onChange={setCode} onComplete={submit} disabled={verifyMutation.isPending} />
+        )}
+
+        <Button type="submit" className="w-full py-6 text-base" disabled={!code.trim() || verifyMutation.isPending}>
+          {verifyMutation.isPending ? "Verifying..." : "Verify"}
+        </Button>
+      </form>
+
+      <div className="flex items-center justify-between text-sm">
+        <button type="button" className="flex items-center gap-1 text-muted-foreground hover:text-foreground" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4" /> Back
+        </button>
+        <button
+          type="button"
+          className="text-primary hover:underline"
+          onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(""); }}
+        >
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
 export default function LoginPage() {
   const { user, loginMutation } = useAuth();
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
   
   const form = useForm<z.infer<typeof loginSchema>>({
     resolver: zodResolver(loginSchema),
@@ -36,7 +103,11 @@ export default function LoginPage() {
   }
 
   function onSubmit(data: z.infer<typeof loginSchema>) {
-    loginMutation.mutate(data);
+    loginMutation.mutate(data, {
+      onSuccess: (result) => {
+        if ("twoFactorRequired" in result) setTwoFactorStep(true);
+      },
+    });
   }
 
   return (
@@ -72,63 +143,67 @@ export default function LoginPage() {
         <div className="w-full max-w-md space-y-8">
           <div className="text-center lg:text-left">
             <h2 className="text-3xl font-bold font-display tracking-tight text-foreground">
-              Sign in to your account
+              {twoFactorStep ? "Two-factor authentication" : "Sign in to your account"}
             </h2>
             <p className="mt-2 text-sm text-muted-foreground">
-              Please enter your credentials to access the system.
+              {twoFactorStep ? "One more step to confirm it's you." : "Please enter your credentials to access the system."}
             </p>
           </div>
 
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              <FormField
-                control={form.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Username</FormLabel>
-                    <FormControl>
-                      <div className="relative">
-                        <User className="absolute left-3 top-2.5 h-5 w-5 text-muted-foreground" />
-                        <Input className="pl-10" placeholder="Enter your username" {...field} />
-                      </div>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Password</FormLabel>
-                    <FormControl>
-                      <div className="relative">
-                        <Lock className="absolute left-3 top-2.5 h-5 w-5 text-muted-foreground" />
-                        <Input 
-                          type="password" 
-                          className="pl-10" 
-                          placeholder="Enter your password" 
-                          {...field} 
-                        />
-                      </div>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <Button 
-                type="submit" 
-                className="w-full py-6 text-base"
-                disabled={loginMutation.isPending}
-              >
-                {loginMutation.isPending ? "Signing in..." : "Sign in"}
-              </Button>
-            </form>
-          </Form>
+          {twoFactorStep ? (
+            <TwoFactorStep onBack={() => { setTwoFactorStep(false); form.resetField("password"); }} />
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <User className="absolute left-3 top-2.5 h-5 w-5 text-muted-foreground" />
+                          <Input className="pl-10" placeholder="Enter your username" {...field} />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <Lock className="absolute left-3 top-2.5 h-5 w-5 text-muted-foreground" />
+                          <Input 
+                            type="password" 
+                            className="pl-10" 
+                            placeholder="Enter your password" 
+                            {...field} 
+                          />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button 
+                  type="submit" 
+                  className="w-full py-6 text-base"
+                  disabled={loginMutation.isPending}
+                >
+                  {loginMutation.isPending ? "Signing in..." : "Sign in"}
+                </Button>
+              </form>
+            </Form>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useRoute } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { formatSize } from "@/lib/utils";
+import { api, buildUrl } from "@shared/routes";
+import type { PublicShare } from "@shared/schema";
+import { format } from "date-fns";
+import { ChevronRight, Download, Eye, FileText, Folder, Link2Off, Lock } from "lucide-react";
+
+export default function PublicSharePage() {
+  const [, params] = useRoute("/s/:token");
+  const token = params?.token ?? "";
+  const [folderId, setFolderId] = useState<number | null>(null);
+  const [password, setPassword] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const sharePath = buildUrl(api.publicShares.get.path, { token });
+
+  const { data: share, isLoading, error } = useQuery<PublicShare>({
+    queryKey: [sharePath, folderId],
+    queryFn: async () => {
+      const url = folderId ? `${sharePath}?folderId=${folderId}` : sharePath;
+      const res = await fetch(url);
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.message || "This link is not available");
+      }
+      return await res.json();
+    },
+    enabled: !!token,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(buildUrl(api.publicShares.unlock.path, { token }), {
+        method: api.publicShares.unlock.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.message || "Failed to unlock");
+      }
+    },
+    onSuccess: () => {
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: [sharePath] });
+    },
+    onError: (e) => {
+      toast({ title: e.message, variant: "destructive" });
+    },
+  });
+
+  const fileUrl = (route: { path: string }, fileId?: number) => {
+    const url = buildUrl(route.path, { token });
+    return fileId && share?.type === "folder" ? `${url}?fileId=${fileId}` : url;
+  };
+
+  const canDownload = !!share && !share.viewOnly && share.downloadsRemaining !== 0;
+
+  const renderEntryActions = (fileId?: number) => (
+    <div className="flex gap-2 shrink-0">
+      <Button variant="outline" size="sm" onClick={() => window.open(fileUrl(api.publicShares.view, fileId), "_blank")}>
+        <Eye className="w-4 h-4 mr-1" /> View
+      </Button>
+      {canDownload && (
+        <Button size="sm" onClick={() => window.open(fileUrl(api.publicShares.download, fileId), "_blank")}>
+          <Download className="w-4 h-4 mr-1" /> Download
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen w-full flex flex-col items-center bg-background p-4 sm:p-8">
+      <div className="w-full max-w-2xl space-y-6">
+        <div className="flex items-center gap-2 font-display text-xl font-bold">
+          <div className="bg-primary text-primary-foreground p-1.5 rounded-lg">
+            <FileText className="w-5 h-5" />
+          </div>
+          FMS
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-2/3" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : error || !share ? (
+          <div className="flex flex-col items-center text-center space-y-4 py-16">
+            <div className="w-20 h-20 bg-muted rounded-full flex items-center justify-center">
+              <Link2Off className="w-10 h-10 text-muted-foreground" />
+            </div>
+            <h1 className="text-2xl font-bold font-display">Link unavailable</h1>
+            <p className="text-muted-foreground">{(error as Error | null)?.message || "This link does not exist or has been revoked"}</p>
+          </div>
+        ) : share.requiresPassword ? (
+          <form
+            className="border rounded-xl p-6 space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              unlockMutation.mutate();
+            }}
+          >
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center">
+                <Lock className="w-5 h-5 text-muted-foreground" />
+              </div>
+              <div>
+                <h1 className="text-lg font-semibold">{share.name}</h1>
+                <p className="text-sm text-muted-foreground">This link is password protected</p>
+              </div>
+            </div>
+            <Input
+              type="password"
+              placeholder="Enter password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+            />
+            <Button type="submit" className="w-full" disabled={!password || unlockMutation.isPending}>
+              Unlock
+            </Button>
+          </form>
+        ) : (
+          <div className="border rounded-xl p-6 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <h1 className="text-lg font-semibold truncate">{share.name}</h1>
+                <p className="text-xs text-muted-foreground">
+                  {share.expiresAt ? `Expires ${format(new Date(share.expiresAt), "MMM d, yyyy HH:mm")}` : "Never expires"}
+                  {share.viewOnly && " • View only"}
+                  {share.downloadsRemaining !== null && !share.viewOnly && ` • ${share.downloadsRemaining} download(s) left`}
+                </p>
+              </div>
+              {share.type === "folder" && canDownload && (
+                <Button size="sm" onClick={() => window.open(buildUrl(api.publicShares.download.path, { token }), "_blank")}>
+                  <Download className="w-4 h-4 mr-1" /> Download all
+                </Button>
+              )}
+            </div>
+
+            {share.file && (
+              <div className="flex items-center gap-3 bg-muted/30 rounded-lg p-3">
+                <FileText className="w-8 h-8 text-slate-500 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{share.file.name}</p>
+                  <p className="text-xs text-muted-foreground">{formatSize(share.file.size)}</p>
+                </div>
+                {renderEntryActions()}
+              </div>
+            )}
+
+            {share.contents && (
+              <>
+                <div className="flex items-center gap-1 text-sm text-muted-foreground flex-wrap">
+                  {share.contents.breadcrumbs.map((crumb, idx) => (
+                    <span key={crumb.id} className="flex items-center gap-1">
+                      {idx > 0 && <ChevronRight className="w-3 h-3" />}
+                      <button
+                        className="hover:text-foreground hover:underline"
+                        onClick={() => setFolderId(idx === 0 ? null : crumb.id)}
+                      >
+                        {crumb.name}
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <div className="divide-y divide-border/50">
+                  {share.contents.folders.map((folder) => (
+                    <button
+                      key={`folder-${folder.id}`}
+                      className="w-full flex items-center gap-3 py-3 text-left hover:bg-muted/30"
+                      onClick={() => setFolderId(folder.id)}
+                    >
+                      <Folder className="w-5 h-5 text-blue-500 shrink-0" />
+                      <span className="text-sm font-medium truncate">{folder.name}</span>
+                    </button>
+                  ))}
+                  {share.contents.files.map((file) => (
+                    <div key={`file-${file.id}`} className="flex items-center gap-3 py-3">
+                      <FileText className="w-5 h-5 text-slate-500 shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{file.name}</p>
+                        <p className="text-xs text-muted-foreground">{formatSize(file.size)}</p>
+                      </div>
+                      {renderEntryActions(file.id)}
+                    </div>
+                  ))}
+                  {share.contents.folders.length === 0 && share.contents.files.length === 0 && (
+                    <p className="text-sm text-muted-foreground italic py-4 text-center">This folder is empty.</p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
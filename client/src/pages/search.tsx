@@ -0,0 +1,231 @@
+import { useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { LayoutShell } from "@/components/layout-shell";
+import { FileList } from "@/components/file-list";
+import { useSearchFiles, type SearchParams } from "@/hooks/use-fs";
+import { useAuth } from "@/hooks/use-auth";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, SearchX, X } from "lucide-react";
+import { SEARCH_TYPES, type SearchType } from "@shared/schema";
+import { api } from "@shared/routes";
+
+const TYPE_LABELS: Record<SearchType, string> = {
+  folder: "Folders",
+  document: "Documents",
+  spreadsheet: "Spreadsheets",
+  pdf: "PDFs",
+  image: "Images",
+  video: "Videos",
+  audio: "Audio",
+  archive: "Archives",
+};
+
+const MB = 1024 * 1024;
+
+// Every filter lives in the query string so results can be bookmarked and
+// the back button steps through earlier searches
+function parseParams(search: string): SearchParams {
+  const query = new URLSearchParams(search);
+  const number = (key: string) => {
+    const value = query.get(key);
+    return value && !isNaN(Number(value)) ? Number(value) : undefined;
+  };
+  const type = query.get("type") as SearchType | null;
+  return {
+    q: query.get("q") || "",
+    type: type && SEARCH_TYPES.includes(type) ? type : undefined,
+    ownerId: number("ownerId"),
+    from: query.get("from") || undefined,
+    to: query.get("to") || undefined,
+    minSize: number("minSize"),
+    maxSize: number("maxSize"),
+  };
+}
+
+function SearchResults() {
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const params = parseParams(search);
+  const { data, isLoading, error } = useSearchFiles(params);
+
+  const { data: owners = [] } = useQuery<{ id: number; username: string }[]>({
+    queryKey: [api.users.available.path],
+    queryFn: async () => {
+      const res = await fetch(api.users.available.path);
+      if (!res.ok) return [];
+      return await res.json();
+    },
+  });
+
+  const updateParams = (changes: Partial<Record<keyof SearchParams, string | number | undefined>>) => {
+    const query = new URLSearchParams(search);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === undefined || value === "") query.delete(key);
+      else query.set(key, String(value));
+    }
+    setLocation(`/search?${query}`);
+  };
+
+  const hasFilters = params.type || params.ownerId !== undefined || params.from || params.to ||
+    params.minSize !== undefined || params.maxSize !== undefined;
+
+  const filters = (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={params.type ?? "all"} onValueChange={(v) => updateParams({ type: v === "all" ? undefined : v })}>
+        <SelectTrigger className="w-[140px] h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Any type</SelectItem>
+          {SEARCH_TYPES.map(type => (
+            <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={params.ownerId !== undefined ? String(params.ownerId) : "anyone"}
+        onValueChange={(v) => updateParams({ ownerId: v === "anyone" ? undefined : v })}
+      >
+        <SelectTrigger className="w-[140px] h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="anyone">Any owner</SelectItem>
+          {user && <SelectItem value={String(user.id)}>Me</SelectItem>}
+          {owners.filter(o => o.id !== user?.id).map(o => (
+            <SelectItem key={o.id} value={String(o.id)}>{o.username}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        type="date"
+        className="w-[150px] h-9"
+        title="Created from"
+        value={params.from ?? ""}
+        onChange={(e) => updateParams({ from: e.target.value })}
+      />
+      <span className="text-muted-foreground text-sm">to</span>
+      <Input
+        type="date"
+        className="w-[150px] h-9"
+        title="Created until"
+        value={params.to ?? ""}
+        onChange={(e) => updateParams({ to: e.target.value })}
+      />
+      <Input
+        type="number"
+        min={0}
+        className="w-[110px] h-9"
+        placeholder="Min MB"
+        value={params.minSize !== undefined ? params.minSize / MB : ""}
+        onChange={(e) => updateParams({ minSize: e.target.value ? Math.round(Number(e.target.value) * MB) : undefined })}
+      />
+      <Input
+        type="number"
+        min={0}
+        className="w-[110px] h-9"
+        placeholder="Max MB"
+        value={params.maxSize !== undefined ? params.maxSize / MB : ""}
+        onChange={(e) => updateParams({ maxSize: e.target.value ? Math.round(Number(e.target.value) * MB) : undefined })}
+      />
+      {hasFilters && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => updateParams({ type: undefined, ownerId: undefined, from: undefined, to: undefined, minSize: undefined, maxSize: undefined })}
+        >
+          <X className="w-4 h-4 mr-1" /> Clear filters
+        </Button>
+      )}
+    </div>
+  );
+
+  if (!params.q.trim()) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-center">
+        <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mb-4">
+          <Search className="w-8 h-8 text-muted-foreground/50" />
+        </div>
+        <h3 className="text-lg font-medium text-foreground">Search your files</h3>
+        <p className="text-muted-foreground mt-1">Type in the search bar to find files by name, folder or content</p>
+      </div>
+    );
+  }
+
+  const title = (
+    <div>
+      <h1 className="text-2xl font-bold font-display">Results for "{params.q}"</h1>
+      <p className="text-muted-foreground text-sm">
+        {data ? `${data.folders.length + data.files.length} matches` : "Searching..."}
+      </p>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {title}
+        {filters}
+        <div className="space-y-2">
+          {[1, 2, 3, 4].map((i) => (
+            <Skeleton key={i} className="h-16 w-full rounded-xl" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-4">
+        {title}
+        {filters}
+        <div className="flex flex-col items-center justify-center text-center p-12 bg-card rounded-2xl border border-border">
+          <h3 className="text-lg font-semibold text-foreground">Search failed</h3>
+          <p className="text-muted-foreground mt-2">{error.message}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <FileList
+      folders={data!.folders}
+      files={data!.files}
+      viewKey="search"
+      leading={
+        <div className="space-y-4">
+          {title}
+          {filters}
+        </div>
+      }
+      emptyState={
+        <div className="flex flex-col items-center justify-center py-20 text-center">
+          <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mb-4">
+            <SearchX className="w-8 h-8 text-muted-foreground/50" />
+          </div>
+          <h3 className="text-lg font-medium text-foreground">No matches</h3>
+          <p className="text-muted-foreground mt-1">Try a different term or loosen the filters</p>
+        </div>
+      }
+    />
+  );
+}
+
+export default function SearchPage() {
+  return (
+    <LayoutShell>
+      <SearchResults />
+    </LayoutShell>
+  );
+}
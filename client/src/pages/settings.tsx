@@ -3,13 +3,17 @@ import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Settings, User, Shield, Bell, Moon, Sun } from "lucide-react";
+import { Settings, User, Shield, ShieldCheck, MonitorSmartphone, KeyRound, HardDrive, Copy, Bell, Moon, Sun } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { UserSettings } from "@shared/schema";
+import { api } from "@shared/routes";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { SessionList } from "@/components/session-list";
+import { ApiTokenSettings } from "@/components/api-token-settings";
 
 export default function SettingsPage() {
   const { user } = useAuth();
@@ -18,11 +22,12 @@ export default function SettingsPage() {
   const [currentPassword, setCurrentPassword] = useState("");
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
+  const davUrl = `${window.location.origin}/dav/`;
 
   const { data: settings, isLoading } = useQuery<UserSettings>({
-    queryKey: ['/api/user/settings'],
+    queryKey: [api.settings.get.path],
     queryFn: async () => {
-      const res = await fetch('/api/user/settings');
+      const res = await fetch(api.settings.get.path);
       if (!res.ok) throw new Error("Failed to fetch settings");
       return await res.json();
     }
@@ -30,8 +35,8 @@ export default function SettingsPage() {
 
   const updateSettings = useMutation({
     mutationFn: async (newSettings: Partial<UserSettings>) => {
-      const res = await fetch('/api/user/settings', {
-        method: 'PATCH',
+      const res = await fetch(api.settings.update.path, {
+        method: api.settings.update.method,
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(newSettings)
       });
@@ -39,7 +44,7 @@ export default function SettingsPage() {
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/user/settings'] });
+      queryClient.invalidateQueries({ queryKey: [api.settings.get.path] });
       toast({ title: "Settings updated" });
     },
     onError: () => {
@@ -52,8 +57,8 @@ export default function SettingsPage() {
       if (newPassword !== confirmPassword) {
         throw new Error("Passwords do not match");
       }
-      const res = await fetch('/api/user/password', {
-        method: 'PATCH',
+      const res = await fetch(api.auth.changePassword.path, {
+        method: api.auth.changePassword.method,
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ currentPassword, newPassword })
       });
@@ -200,6 +205,58 @@ export default function SettingsPage() {
                 </div>
               </div>
             </div>
+
+            {/* Two-Factor Section */}
+            <div className={`bg-card rounded-2xl border p-6 shadow-sm ${user?.twoFactorSetupRequired ? 'border-destructive' : 'border-border'}`}>
+              <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <ShieldCheck className="w-5 h-5 text-muted-foreground" />
+                Two-Factor Authentication
+              </h2>
+              <TwoFactorSettings />
+            </div>
+
+            {/* Sessions Section */}
+            <div className="bg-card rounded-2xl border border-border p-6 shadow-sm">
+              <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+                <MonitorSmartphone className="w-5 h-5 text-muted-foreground" />
+                Active Sessions
+              </h2>
+              <p className="text-sm text-muted-foreground mb-4">Devices signed in to your account</p>
+              <SessionList />
+            </div>
+
+            {/* API Tokens Section */}
+            <div className="bg-card rounded-2xl border border-border p-6 shadow-sm">
+              <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+                <KeyRound className="w-5 h-5 text-muted-foreground" />
+                API Tokens
+              </h2>
+              <p className="text-sm text-muted-foreground mb-4">Personal tokens for scripts and automated jobs</p>
+              <ApiTokenSettings />
+            </div>
+
+            {/* Network Drive Section */}
+            <div className="bg-card rounded-2xl border border-border p-6 shadow-sm">
+              <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+                <HardDrive className="w-5 h-5 text-muted-foreground" />
+                Network Drive
+              </h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                Open your files from a file manager or office app over WebDAV. Sign in with your username
+                and password, or with an API token as the password if your account uses two-factor authentication.
+              </p>
+              <div className="flex gap-2">
+                <Input readOnly value={davUrl} className="font-mono text-sm" />
+                <Button
+                  variant="outline"
+                  onClick={() => navigator.clipboard.writeText(davUrl)
+                    .then(() => toast({ title: "Address copied" }))
+                    .catch(() => toast({ title: "Could not copy the address", variant: "destructive" }))}
+                >
+                  <Copy className="w-4 h-4 mr-2" /> Copy
+                </Button>
+              </div>
+            </div>
           </div>
         </div>
       </div>
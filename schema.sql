@@ -12,12 +12,36 @@ CREATE TABLE IF NOT EXISTS users (
     password TEXT NOT NULL,
     role VARCHAR(50) NOT NULL DEFAULT 'employee', -- 'superadmin', 'admin', 'staff', 'employee'
     status VARCHAR(50) NOT NULL DEFAULT 'active', -- 'active', 'inactive', 'suspended'
+    quota_bytes BIGINT NULL, -- storage quota override; NULL = the role default
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     INDEX idx_users_username (username),
     INDEX idx_users_role (role),
     INDEX idx_users_status (status)
 ) COMMENT='User accounts with authentication credentials and role-based access control';
 
+-- =====================================================
+-- TABLE: role_quotas
+-- =====================================================
+CREATE TABLE IF NOT EXISTS role_quotas (
+    role VARCHAR(50) PRIMARY KEY,
+    quota_bytes BIGINT NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+) COMMENT='Default storage quota per role; roles without a row are unlimited';
+
+-- =====================================================
+-- TABLE: role_capabilities
+-- =====================================================
+CREATE TABLE IF NOT EXISTS role_capabilities (
+    role VARCHAR(50) PRIMARY KEY,
+    can_share_externally BOOLEAN NOT NULL,
+    can_upload_archive BOOLEAN NOT NULL,
+    can_view_audit BOOLEAN NOT NULL,
+    can_manage_users BOOLEAN NOT NULL,
+    max_upload_size BIGINT NULL, -- bytes per file; NULL = no limit
+    require_two_factor BOOLEAN NOT NULL DEFAULT FALSE,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+) COMMENT='What each role may do; roles without a row use the built-in defaults';
+
 -- =====================================================
 -- TABLE: user_settings
 -- =====================================================
@@ -39,6 +63,7 @@ CREATE TABLE IF NOT EXISTS folders (
     parent_id INT,
     owner_id INT,
     is_deleted BOOLEAN DEFAULT FALSE,
+    inherit_permissions BOOLEAN NOT NULL DEFAULT TRUE, -- FALSE breaks inheritance of parent folder grants
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     path TEXT,
     FOREIGN KEY (parent_id) REFERENCES folders(id) ON DELETE CASCADE,
@@ -56,25 +81,114 @@ CREATE TABLE IF NOT EXISTS files (
     id INT AUTO_INCREMENT PRIMARY KEY,
     name TEXT NOT NULL,
     folder_id INT,
-    size INT NOT NULL,
+    size BIGINT NOT NULL,
     mime_type VARCHAR(255) NOT NULL,
     path TEXT NOT NULL,
     created_by INT,
-    is_starred BOOLEAN DEFAULT FALSE,
     is_deleted BOOLEAN DEFAULT FALSE,
     deleted_at TIMESTAMP NULL, -- For trash retention policy
-    last_accessed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (folder_id) REFERENCES folders(id) ON DELETE CASCADE,
     FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
     INDEX idx_files_folder_id (folder_id),
     INDEX idx_files_created_by (created_by),
-    INDEX idx_files_is_starred (is_starred),
     INDEX idx_files_is_deleted (is_deleted),
-    INDEX idx_files_last_accessed (last_accessed_at DESC),
     INDEX idx_files_folder_deleted (folder_id, is_deleted)
 ) COMMENT='File metadata - actual files stored in filesystem';
 
+-- =====================================================
+-- TABLE: file_versions
+-- =====================================================
+CREATE TABLE IF NOT EXISTS file_versions (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    file_id INT NOT NULL,
+    version_number INT NOT NULL,
+    size BIGINT NOT NULL,
+    mime_type VARCHAR(255) NOT NULL,
+    path TEXT NOT NULL,
+    created_by INT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+    UNIQUE KEY uq_file_versions_file_version (file_id, version_number),
+    INDEX idx_file_versions_file_id (file_id)
+) COMMENT='Revision history for files - the highest version_number is the current content';
+
+-- =====================================================
+-- TABLE: file_contents
+-- =====================================================
+CREATE TABLE IF NOT EXISTS file_contents (
+    file_id INT PRIMARY KEY,
+    content MEDIUMTEXT NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE
+) COMMENT='Text extracted from txt/md/csv/pdf/docx files for full-text search';
+
+-- =====================================================
+-- TABLE: blobs
+-- =====================================================
+CREATE TABLE IF NOT EXISTS blobs (
+    hash VARCHAR(64) PRIMARY KEY,
+    path VARCHAR(512) NOT NULL,
+    size BIGINT NOT NULL,
+    ref_count INT NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_blobs_path (path)
+) COMMENT='Content-addressed file contents (SHA-256), shared by every file version with identical bytes';
+
+-- =====================================================
+-- TABLE: thumbnails
+-- =====================================================
+CREATE TABLE IF NOT EXISTS thumbnails (
+    blob_path VARCHAR(512) PRIMARY KEY,
+    path VARCHAR(512) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+) COMMENT='WebP previews of image/PDF/video blobs, stored in the blob store next to their source';
+
+-- =====================================================
+-- TABLE: upload_sessions
+-- =====================================================
+CREATE TABLE IF NOT EXISTS upload_sessions (
+    id VARCHAR(64) PRIMARY KEY,
+    user_id INT NOT NULL,
+    folder_id INT,
+    file_name TEXT NOT NULL,
+    mime_type VARCHAR(255) NOT NULL,
+    size BIGINT NOT NULL,
+    upload_offset BIGINT NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (folder_id) REFERENCES folders(id) ON DELETE CASCADE,
+    INDEX idx_upload_sessions_user_id (user_id)
+) COMMENT='In-progress resumable (chunked) uploads';
+
+-- =====================================================
+-- TABLE: groups
+-- =====================================================
+CREATE TABLE IF NOT EXISTS `groups` (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    name VARCHAR(255) NOT NULL UNIQUE,
+    description TEXT,
+    created_by INT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+) COMMENT='Named sets of users that files and folders can be shared with';
+
+-- =====================================================
+-- TABLE: group_members
+-- =====================================================
+CREATE TABLE IF NOT EXISTS group_members (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    group_id INT NOT NULL,
+    user_id INT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (group_id) REFERENCES `groups`(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE KEY uq_group_members_group_user (group_id, user_id),
+    INDEX idx_group_members_user (user_id)
+) COMMENT='Group membership';
+
 -- =====================================================
 -- TABLE: permissions
 -- =====================================================
@@ -82,19 +196,159 @@ CREATE TABLE IF NOT EXISTS permissions (
     id INT AUTO_INCREMENT PRIMARY KEY,
     file_id INT,
     folder_id INT,
-    user_id INT NOT NULL,
+    user_id INT, -- Either user_id or group_id is set
+    group_id INT,
     granted_by INT NOT NULL,
     access_level VARCHAR(20) NOT NULL DEFAULT 'view', -- 'view', 'edit'
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE,
     FOREIGN KEY (folder_id) REFERENCES folders(id) ON DELETE CASCADE,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (group_id) REFERENCES `groups`(id) ON DELETE CASCADE,
     FOREIGN KEY (granted_by) REFERENCES users(id) ON DELETE CASCADE,
     INDEX idx_permissions_user (user_id),
+    INDEX idx_permissions_group (group_id),
     INDEX idx_permissions_file (file_id),
     INDEX idx_permissions_folder (folder_id)
 ) COMMENT='Access Control List for sharing files and folders';
 
+-- =====================================================
+-- TABLE: share_links
+-- =====================================================
+CREATE TABLE IF NOT EXISTS share_links (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    token VARCHAR(64) NOT NULL,
+    file_id INT,
+    folder_id INT,
+    created_by INT NOT NULL,
+    expires_at TIMESTAMP NULL,
+    password_hash TEXT,
+    max_downloads INT,
+    download_count INT NOT NULL DEFAULT 0,
+    view_only BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE,
+    FOREIGN KEY (folder_id) REFERENCES folders(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE KEY uq_share_links_token (token),
+    INDEX idx_share_links_file (file_id),
+    INDEX idx_share_links_folder (folder_id)
+) COMMENT='Public tokenised links to files and folders for people without an account';
+
+-- =====================================================
+-- TABLE: user_stars
+-- =====================================================
+CREATE TABLE IF NOT EXISTS user_stars (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    user_id INT NOT NULL,
+    file_id INT, -- Either file_id or folder_id is set
+    folder_id INT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE,
+    FOREIGN KEY (folder_id) REFERENCES folders(id) ON DELETE CASCADE,
+    UNIQUE KEY user_stars_user_file (user_id, file_id),
+    UNIQUE KEY user_stars_user_folder (user_id, folder_id)
+) COMMENT='Per-user stars on files and folders';
+
+-- =====================================================
+-- TABLE: file_access
+-- =====================================================
+CREATE TABLE IF NOT EXISTS file_access (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    user_id INT NOT NULL,
+    file_id INT NOT NULL,
+    action VARCHAR(20) NOT NULL, -- 'view', 'download', 'rename', 'upload'
+    accessed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE,
+    UNIQUE KEY file_access_user_file (user_id, file_id),
+    INDEX file_access_user_accessed (user_id, accessed_at)
+) COMMENT='When each user last touched each file, for the Recent page';
+
+-- =====================================================
+-- TABLE: user_two_factor
+-- =====================================================
+CREATE TABLE IF NOT EXISTS user_two_factor (
+    user_id INT PRIMARY KEY,
+    secret VARCHAR(64) NOT NULL, -- base32 TOTP secret
+    last_used_step BIGINT NULL, -- last accepted 30s step, so codes can't be replayed
+    enabled_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+) COMMENT='Confirmed TOTP authenticators';
+
+-- =====================================================
+-- TABLE: recovery_codes
+-- =====================================================
+CREATE TABLE IF NOT EXISTS recovery_codes (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    user_id INT NOT NULL,
+    code_hash VARCHAR(64) NOT NULL, -- SHA-256 of the normalised code
+    used_at TIMESTAMP NULL,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE KEY recovery_codes_user_code (user_id, code_hash)
+) COMMENT='Single-use two-factor recovery codes';
+
+-- =====================================================
+-- TABLE: sessions
+-- =====================================================
+CREATE TABLE IF NOT EXISTS sessions (
+    sid VARCHAR(128) PRIMARY KEY, -- the cookie value; never sent to clients
+    public_id VARCHAR(32) NOT NULL UNIQUE, -- how clients refer to a session
+    user_id INT NULL, -- NULL until signed in
+    data TEXT NOT NULL, -- JSON session data
+    ip_address VARCHAR(45),
+    user_agent VARCHAR(255),
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_seen_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX sessions_user (user_id),
+    INDEX sessions_expires (expires_at)
+) COMMENT='Persistent login sessions, one row per browser';
+
+-- =====================================================
+-- TABLE: api_tokens
+-- =====================================================
+CREATE TABLE IF NOT EXISTS api_tokens (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    user_id INT NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    token_hash VARCHAR(64) NOT NULL UNIQUE, -- SHA-256 hex; the token itself is never stored
+    prefix VARCHAR(16) NOT NULL, -- start of the token, to tell them apart
+    scopes VARCHAR(100) NOT NULL, -- comma-separated: read, write, share, admin
+    expires_at TIMESTAMP NULL, -- NULL = never
+    last_used_at TIMESTAMP NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX api_tokens_user (user_id)
+) COMMENT='Personal access tokens for scripted API access';
+
+-- =====================================================
+-- TABLE: login_failures
+-- =====================================================
+CREATE TABLE IF NOT EXISTS login_failures (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    scope VARCHAR(10) NOT NULL, -- 'username', 'ip' or 'share_link'
+    `key` VARCHAR(255) NOT NULL, -- lower-cased username, the IP address, or the link id
+    failures INT NOT NULL DEFAULT 0,
+    last_failure_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    blocked_until TIMESTAMP NULL, -- backoff: no attempts before this
+    locked_until TIMESTAMP NULL, -- set once the failure limit is reached
+    UNIQUE KEY login_failures_scope_key (scope, `key`)
+) COMMENT='Current streak of failed sign-ins per username and per IP, and of wrong link passwords per link';
+
+-- =====================================================
+-- TABLE: login_policy
+-- =====================================================
+CREATE TABLE IF NOT EXISTS login_policy (
+    id INT PRIMARY KEY, -- always 1
+    max_failures INT NOT NULL, -- per username, before it is locked
+    max_ip_failures INT NOT NULL, -- per client IP, before it is locked
+    lockout_minutes INT NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+) COMMENT='Sign-in throttling settings; defaults apply until saved';
+
 -- =====================================================
 -- TABLE: audit_logs
 -- =====================================================
@@ -107,6 +361,8 @@ CREATE TABLE IF NOT EXISTS audit_logs (
     details TEXT,
     ip_address VARCHAR(45),
     user_agent VARCHAR(255),
+    api_token_id INT NULL, -- set when the action used a personal API token; no FK so it outlives the token
+    api_token_name VARCHAR(100) NULL, -- copied so the entry still reads right after revocation
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
     INDEX idx_audit_logs_user_id (user_id),
@@ -59,6 +59,20 @@ async function buildAll() {
     external: externals,
     logLevel: "info",
   });
+
+  // The command-line client ships as one self-contained file, runnable
+  // anywhere Node is installed without the rest of the app
+  console.log("building cli...");
+  await esbuild({
+    entryPoints: ["cli/index.ts"],
+    platform: "node",
+    bundle: true,
+    format: "cjs",
+    outfile: "dist/fms.cjs",
+    banner: { js: "#!/usr/bin/env node" },
+    minify: true,
+    logLevel: "info",
+  });
 }
 
 buildAll().catch((err) => {
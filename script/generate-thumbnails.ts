@@ -0,0 +1,44 @@
+import "dotenv/config";
+import { blobStore } from "../server/blob-store";
+import { canGenerateThumbnail, generateThumbnail, thumbnailKey } from "../server/thumbnails";
+import { storage } from "../server/storage";
+import { poolConnection } from "../server/db";
+
+// Renders thumbnails for files uploaded before thumbnails existed (or whose
+// generation failed at upload time, e.g. ffmpeg was missing).
+//
+//   npm run thumbnails:generate
+//
+// Safe to re-run: only blobs without a thumbnails row are processed.
+
+async function generateThumbnails() {
+  const candidates = (await storage.getFilesWithoutThumbnails())
+    .filter(file => canGenerateThumbnail(file.mimeType, file.size));
+  // Files sharing a blob share a thumbnail - render each blob once
+  const pending = Array.from(new Map(candidates.map(file => [file.path, file])).values());
+  console.log(`${pending.length} thumbnails to generate`);
+
+  let generated = 0;
+  let failed = 0;
+
+  for (const file of pending) {
+    try {
+      const image = await generateThumbnail(blobStore, file.path, file.mimeType, file.size);
+      if (!image) continue;
+      await storage.setThumbnail(file.path, await blobStore.putBuffer(image, thumbnailKey(file.path)));
+      generated++;
+    } catch (err) {
+      console.warn(`skipping ${file.id} (${file.name}):`, err instanceof Error ? err.message : err);
+      failed++;
+    }
+  }
+
+  console.log(`done: ${generated} generated, ${failed} failed`);
+}
+
+generateThumbnails()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => poolConnection.end());
@@ -0,0 +1,41 @@
+import "dotenv/config";
+import { blobStore, readBlob } from "../server/blob-store";
+import { canExtractText, extractText } from "../server/text-extract";
+import { storage } from "../server/storage";
+import { poolConnection } from "../server/db";
+
+// Extracts searchable text for files uploaded before content search existed
+// (or whose indexing failed at upload time).
+//
+//   npm run search:reindex
+//
+// Safe to re-run: only files without a file_contents row are processed.
+
+async function indexContent() {
+  const pending = (await storage.getUnindexedFiles())
+    .filter(file => canExtractText(file.name, file.mimeType, file.size));
+  console.log(`${pending.length} files to index`);
+
+  let indexed = 0;
+  let failed = 0;
+
+  for (const file of pending) {
+    try {
+      const text = await extractText(await readBlob(blobStore, file.path), file.name, file.mimeType);
+      await storage.setFileContent(file.id, text);
+      indexed++;
+    } catch (err) {
+      console.warn(`skipping ${file.id} (${file.name}):`, err instanceof Error ? err.message : err);
+      failed++;
+    }
+  }
+
+  console.log(`done: ${indexed} indexed, ${failed} failed`);
+}
+
+indexContent()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => poolConnection.end());
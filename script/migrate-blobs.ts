@@ -0,0 +1,67 @@
+import "dotenv/config";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { createBlobStore, LocalBlobStore } from "../server/blob-store";
+import { storage } from "../server/storage";
+import { poolConnection } from "../server/db";
+
+// Copies every stored blob onto the target driver and repoints the
+// files / file_versions rows at it.
+//
+//   npm run blobs:migrate -- --to s3
+//   npm run blobs:migrate -- --to local
+//
+// Safe to re-run: blobs already on the target are skipped, and a source blob is
+// only deleted once its rows point at the new copy.
+
+function parseTarget(): "local" | "s3" {
+  const index = process.argv.indexOf("--to");
+  const target = index >= 0 ? process.argv[index + 1] : undefined;
+  if (target !== "local" && target !== "s3") {
+    console.error("Usage: tsx script/migrate-blobs.ts --to <local|s3>");
+    process.exit(1);
+  }
+  return target;
+}
+
+async function migrateBlobs() {
+  const target = createBlobStore(parseTarget());
+  const source = target.name === "s3" ? new LocalBlobStore() : createBlobStore("s3");
+
+  const paths = await storage.listBlobPaths();
+  const pending = paths.filter(p => !target.handles(p));
+  console.log(`${paths.length} blobs referenced, ${pending.length} to migrate to ${target.name}`);
+
+  let migrated = 0;
+  let missing = 0;
+
+  for (const oldPath of pending) {
+    if (!source.handles(oldPath) || !await source.exists(oldPath)) {
+      console.warn(`skipping missing blob: ${oldPath}`);
+      missing++;
+      continue;
+    }
+
+    // Stage through a temp file so large blobs never sit in memory
+    const tempPath = path.join(os.tmpdir(), `fms-blob-${Date.now()}-${Math.round(Math.random() * 1E9)}`);
+    await pipeline(await source.createReadStream(oldPath), fs.createWriteStream(tempPath));
+
+    const newPath = await target.putFile(tempPath, path.basename(oldPath));
+    await storage.replaceBlobPath(oldPath, newPath);
+    await source.delete(oldPath);
+
+    migrated++;
+    console.log(`${oldPath} -> ${newPath}`);
+  }
+
+  console.log(`done: ${migrated} migrated, ${missing} missing`);
+}
+
+migrateBlobs()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => poolConnection.end());
@@ -0,0 +1,60 @@
+import "dotenv/config";
+import { sql } from "drizzle-orm";
+import { db, poolConnection } from "../server/db";
+
+// Moves the old global files.is_starred flags into per-user user_stars rows,
+// credited to each file's creator, then drops the column.
+//
+//   npm run stars:migrate
+//   npm run db:push
+//
+// Run it before db:push, which would otherwise drop is_starred (and the stars
+// with it). Safe to re-run: it does nothing once the column is gone.
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const [rows] = await db.execute(sql`
+    SELECT COUNT(*) AS count FROM information_schema.columns
+    WHERE table_schema = DATABASE() AND table_name = ${table} AND column_name = ${column}
+  `);
+  return Number((rows as unknown as { count: number }[])[0].count) > 0;
+}
+
+async function migrateStars() {
+  if (!await columnExists("files", "is_starred")) {
+    console.log("files.is_starred is already gone - nothing to migrate");
+    return;
+  }
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS user_stars (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      user_id INT NOT NULL,
+      file_id INT,
+      folder_id INT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (file_id) REFERENCES files(id) ON DELETE CASCADE,
+      FOREIGN KEY (folder_id) REFERENCES folders(id) ON DELETE CASCADE,
+      UNIQUE KEY user_stars_user_file (user_id, file_id),
+      UNIQUE KEY user_stars_user_folder (user_id, folder_id)
+    )
+  `);
+
+  // Files without a creator (their account was deleted) have nobody to keep the star for
+  const [result] = await db.execute(sql`
+    INSERT IGNORE INTO user_stars (user_id, file_id)
+    SELECT created_by, id FROM files
+    WHERE is_starred = TRUE AND created_by IS NOT NULL
+  `);
+  console.log(`${(result as unknown as { affectedRows: number }).affectedRows} stars migrated`);
+
+  await db.execute(sql`ALTER TABLE files DROP COLUMN is_starred`);
+  console.log("dropped files.is_starred");
+}
+
+migrateStars()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => poolConnection.end());
@@ -0,0 +1,53 @@
+import type { Request } from "express";
+import { createHash, randomBytes } from "crypto";
+import { API_TOKEN_SCOPES, type ApiToken, type ApiTokenInfo, type ApiTokenScope } from "@shared/schema";
+
+// Recognisable in logs and to secret scanners
+const TOKEN_PREFIX = "fms_";
+
+// The token a request was authenticated with, if it came in with one
+export type ActingToken = { id: number; name: string; scopes: ApiTokenScope[] };
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiToken?: ActingToken;
+    }
+  }
+}
+
+export function generateApiToken(): { token: string; tokenHash: string; prefix: string } {
+  const token = TOKEN_PREFIX + randomBytes(24).toString("base64url");
+  return { token, tokenHash: hashApiToken(token), prefix: token.slice(0, TOKEN_PREFIX.length + 6) };
+}
+
+// Where a client only has a password field (WebDAV), a token can go there instead
+export function looksLikeApiToken(secret: string): boolean {
+  return secret.startsWith(TOKEN_PREFIX);
+}
+
+// Tokens are long and random, so a plain hash is safe to store and look up by
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function parseScopes(scopes: string): ApiTokenScope[] {
+  return scopes.split(",").filter((scope): scope is ApiTokenScope => API_TOKEN_SCOPES.includes(scope as ApiTokenScope));
+}
+
+export function toApiTokenInfo(token: ApiToken): ApiTokenInfo {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: parseScopes(token.scopes),
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+    createdAt: token.createdAt,
+  };
+}
+
+// Spread into audit entries so actions taken by scripts show which token did them
+export function actingToken(req: Request) {
+  return { apiTokenId: req.apiToken?.id ?? null, apiTokenName: req.apiToken?.name ?? null };
+}
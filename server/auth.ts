@@ -1,11 +1,18 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
+import { z } from "zod";
 import { storage } from "./storage";
-import { User } from "@shared/schema";
+import { verifyTotp, hashRecoveryCode } from "./two-factor";
+import { MySqlSessionStore } from "./session-store";
+import { checkLoginThrottle, recordLoginFailure, clearLoginFailures, describeWait } from "./login-throttle";
+import { hashApiToken, parseScopes, type ActingToken } from "./api-tokens";
+import { api } from "@shared/routes";
+import { User, type AuthUser } from "@shared/schema";
 
 const scryptAsync = promisify(scrypt);
 
@@ -23,31 +30,157 @@ export async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Password checked, waiting for the second factor
+    pendingTwoFactor?: { userId: number; expiresAt: number; attempts: number };
+    // Signed in, but their role requires 2FA and they haven't set it up yet
+    twoFactorSetupRequired?: boolean;
+    // The device last seen using this session, shown in the sessions list
+    ipAddress?: string;
+    userAgent?: string;
+  }
+}
+
+// How long the second step may take, and how many wrong codes it tolerates,
+// before the password has to be entered again
+const TWO_FACTOR_TIMEOUT_MS = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+// Only this refusal counts towards throttling; a right password for a
+// suspended account, or a missing field, doesn't
+const INVALID_CREDENTIALS = "Invalid username or password";
+
+// Every request with a token would otherwise write its "last used" time
+const TOKEN_TOUCH_INTERVAL_MS = 60 * 1000;
+
+// WebSocket upgrades never reach Express, so they load the session through
+// the same middleware by hand
+let sessionParser: RequestHandler | undefined;
+
+// Sign a user out everywhere (optionally sparing one session, e.g. the admin's own)
+export async function destroyUserSessions(userId: number, keepSessionId?: string): Promise<void> {
+  await storage.deleteUserSessions(userId, keepSessionId);
+}
+
+function toAuthUser(req: Request, user: User): AuthUser {
+  const { password: _password, ...publicUser } = user;
+  return { ...publicUser, twoFactorSetupRequired: !!req.session.twoFactorSetupRequired };
+}
+
+// The owner a personal API token acts as, or undefined when the token is
+// unknown, expired, or its owner can no longer sign in
+export async function authenticateApiToken(token: string): Promise<{ user: User; apiToken: ActingToken } | undefined> {
+  const stored = await storage.getApiTokenByHash(hashApiToken(token));
+  if (!stored || (stored.expiresAt && stored.expiresAt <= new Date())) return undefined;
+  const user = await storage.getUser(stored.userId);
+  if (!user || user.status !== "active") return undefined;
+
+  if (!stored.lastUsedAt || Date.now() - stored.lastUsedAt.getTime() > TOKEN_TOUCH_INTERVAL_MS) {
+    await storage.touchApiToken(stored.id);
+  }
+  return { user, apiToken: { id: stored.id, name: stored.name, scopes: parseScopes(stored.scopes) } };
+}
+
+const audit = (req: Request, userId: number | null, action: string, details: string) =>
+  storage.createAuditLog({
+    userId,
+    action,
+    targetType: "user",
+    targetId: userId,
+    details,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+// Count a wrong password or code, and record any lockout it causes
+export async function failLogin(req: Request, username: string, userId: number | null, action: string, details: string): Promise<boolean> {
+  const locked = await recordLoginFailure(username, req.ip);
+  await audit(req, userId, action, details);
+  const { lockoutMinutes } = await storage.getLoginPolicy();
+  for (const { scope, failures } of locked) {
+    await audit(req, userId, "login_locked",
+      scope === "username"
+        ? `Sign-in for "${username}" locked for ${lockoutMinutes} min after ${failures} failures`
+        : `Sign-in from ${req.ip} locked for ${lockoutMinutes} min after ${failures} failures`);
+  }
+  return locked.length > 0;
+}
+
+/**
+ * The user signed in on the session behind a WebSocket upgrade request. Held
+ * to the same rules as the API: active, and 2FA set up where it's required.
+ */
+export async function authenticateUpgrade(req: IncomingMessage): Promise<{ user: User; sessionId: string } | undefined> {
+  if (!sessionParser) return undefined;
+  const request = req as Request;
+  await new Promise<void>((resolve, reject) =>
+    sessionParser!(request, {} as Response, (err?: unknown) => err ? reject(err) : resolve()));
+
+  const userId = (request.session as { passport?: { user?: number } } | undefined)?.passport?.user;
+  if (typeof userId !== "number" || request.session.twoFactorSetupRequired) return undefined;
+  const user = await storage.getUser(userId);
+  if (!user || user.status !== "active") return undefined;
+  return { user, sessionId: request.sessionID };
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "super_secret_key_123",
     resave: false,
     saveUninitialized: false,
-    store: undefined, // Memory store by default, good for dev
+    store: new MySqlSessionStore(),
     cookie: {
       secure: app.get("env") === "production",
     },
   };
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  sessionParser = session(sessionSettings);
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Remember which device is using each signed-in session. Only written when
+  // it changes, so most requests leave the session untouched.
+  app.use((req, _res, next) => {
+    if (req.isAuthenticated()) {
+      const userAgent = req.get('User-Agent');
+      if (req.session.ipAddress !== req.ip) req.session.ipAddress = req.ip;
+      if (req.session.userAgent !== userAgent) req.session.userAgent = userAgent;
+    }
+    next();
+  });
+
+  // Scripts sign in with a personal API token instead of a session. The token
+  // acts as its owner; the route guards limit it to the token's scopes.
+  app.use("/api", async (req, res, next) => {
+    const header = req.get("Authorization");
+    if (!header?.startsWith("Bearer ")) return next();
+    try {
+      const signIn = await authenticateApiToken(header.slice("Bearer ".length).trim());
+      if (!signIn) return res.status(401).json({ message: "Invalid or expired API token" });
+
+      req.user = signIn.user;
+      req.apiToken = signIn.apiToken;
+      next();
+    } catch (err) {
+      next(err);
+    }
+  });
+
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       try {
         const user = await storage.getUserByUsername(username);
         if (!user || !(await comparePasswords(password, user.password))) {
-          return done(null, false);
-        } else {
-          return done(null, user);
+          return done(null, false, { message: INVALID_CREDENTIALS });
+        }
+        // Only said once the password is right, so it doesn't reveal which accounts exist
+        if (user.status !== "active") {
+          return done(null, false, { message: `This account is ${user.status}. Contact an administrator.` });
         }
+        return done(null, user);
       } catch (err) {
         return done(err);
       }
@@ -57,26 +190,155 @@ export function setupAuth(app: Express) {
   passport.serializeUser((user, done) => done(null, (user as User).id));
   passport.deserializeUser(async (id: number, done) => {
     try {
+      // A user deleted or suspended since signing in loses the session
       const user = await storage.getUser(id);
-      done(null, user);
+      done(null, user && user.status === "active" ? user : false);
     } catch (err) {
       done(err);
     }
   });
 
-  app.post("/api/auth/login", passport.authenticate("local"), (req, res) => {
-    res.json(req.user);
+  // Start the real session. Whether 2FA setup is still owed is decided here,
+  // after req.login has regenerated the session.
+  const completeLogin = async (req: Request, res: Response, next: NextFunction, user: User) => {
+    try {
+      await clearLoginFailures(user.username);
+      const [capabilities, twoFactor] = await Promise.all([
+        storage.getRoleCapabilities(user.role),
+        storage.getTwoFactor(user.id),
+      ]);
+      req.login(user, (err) => {
+        if (err) return next(err);
+        req.session.twoFactorSetupRequired = capabilities.requireTwoFactor && !twoFactor;
+        req.session.ipAddress = req.ip;
+        req.session.userAgent = req.get('User-Agent');
+        res.json(toAuthUser(req, user));
+      });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  const refuseThrottled = (res: Response, retryAfter: number, lockedOut: boolean) => {
+    res.set("Retry-After", String(retryAfter));
+    res.status(429).json({
+      message: lockedOut
+        ? `Too many failed sign-ins. Try again in ${describeWait(retryAfter)}.`
+        : `Too many attempts. Wait ${describeWait(retryAfter)} and try again.`,
+      retryAfter,
+    });
+  };
+
+  app.post(api.auth.login.path, async (req, res, next) => {
+    const credentials = api.auth.login.input.safeParse(req.body);
+    if (!credentials.success) {
+      const issue = credentials.error.errors[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join('.') });
+    }
+    const username = credentials.data.username.slice(0, 255);
+    try {
+      const throttle = await checkLoginThrottle(username, req.ip);
+      if (!throttle.allowed) {
+        const user = await storage.getUserByUsername(username);
+        await audit(req, user?.id ?? null, "login_blocked", `Refused sign-in for "${username}": ${throttle.lockedOut ? "locked out" : "backing off"}`);
+        return refuseThrottled(res, throttle.retryAfter, throttle.lockedOut);
+      }
+    } catch (err) {
+      return next(err);
+    }
+
+    passport.authenticate("local", async (err: unknown, user: User | false, info?: { message?: string }) => {
+      if (err) return next(err);
+      if (!user) {
+        try {
+          if (info?.message === INVALID_CREDENTIALS) {
+            const known = await storage.getUserByUsername(username);
+            await failLogin(req, username, known?.id ?? null, "login_failure", `Wrong password for "${username}"`);
+          }
+          return res.status(401).json({ message: info?.message || INVALID_CREDENTIALS });
+        } catch (err) {
+          return next(err);
+        }
+      }
+      try {
+        if (!await storage.getTwoFactor(user.id)) return completeLogin(req, res, next, user);
+
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_TIMEOUT_MS, attempts: 0 };
+        res.json({ twoFactorRequired: true });
+      } catch (err) {
+        next(err);
+      }
+    })(req, res, next);
+  });
+
+  app.post(api.auth.verifyTwoFactor.path, async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in expired. Enter your password again." });
+      }
+
+      const { code } = api.auth.verifyTwoFactor.input.parse(req.body);
+      const user = await storage.getUser(pending.userId);
+      const twoFactor = await storage.getTwoFactor(pending.userId);
+      if (!user || user.status !== "active" || !twoFactor) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in expired. Enter your password again." });
+      }
+
+      const throttle = await checkLoginThrottle(user.username, req.ip);
+      if (!throttle.allowed) {
+        if (throttle.lockedOut) delete req.session.pendingTwoFactor;
+        await audit(req, user.id, "login_blocked", `Refused two-factor code for ${user.username}: ${throttle.lockedOut ? "locked out" : "backing off"}`);
+        return refuseThrottled(res, throttle.retryAfter, throttle.lockedOut);
+      }
+
+      // Six digits is an authenticator code; anything else is tried as a recovery code
+      let method: string | null = null;
+      if (/^\d{6}$/.test(code.replace(/\s/g, ""))) {
+        const step = verifyTotp(twoFactor.secret, code, twoFactor.lastUsedStep);
+        if (step !== null) {
+          await storage.setTwoFactorLastUsedStep(user.id, step);
+          method = "authenticator app";
+        }
+      } else if (await storage.useRecoveryCode(user.id, hashRecoveryCode(code))) {
+        method = "recovery code";
+      }
+
+      if (!method) {
+        pending.attempts++;
+        // Wrong codes count towards the account's lockout too, so starting
+        // over with the password doesn't buy unlimited guesses
+        const locked = await failLogin(req, user.username, user.id, "login_2fa_failure",
+          `Wrong two-factor code for ${user.username} (attempt ${pending.attempts})`);
+        const exhausted = locked || pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS;
+        if (exhausted) delete req.session.pendingTwoFactor;
+        return res.status(401).json({
+          message: exhausted ? "Too many wrong codes. Enter your password again." : "That code didn't work. Try again.",
+        });
+      }
+
+      delete req.session.pendingTwoFactor;
+      await audit(req, user.id, "login_2fa_success", `${user.username} signed in with a ${method}`);
+      await completeLogin(req, res, next, user);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      next(e);
+    }
   });
 
-  app.post("/api/auth/logout", (req, res, next) => {
+  app.post(api.auth.logout.path, (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
       res.sendStatus(200);
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get(api.auth.me.path, (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toAuthUser(req, req.user as User));
   });
 }
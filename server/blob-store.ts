@@ -0,0 +1,227 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  S3Client,
+  GetObjectCommand,
+  PutObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Where file contents live. `files.path` / `file_versions.path` hold a locator:
+// a plain relative path for the local disk ("uploads/123-report.pdf") or
+// "s3://bucket/key" for S3-compatible object storage.
+export interface BlobStore {
+  readonly name: "local" | "s3";
+  // Does this driver own the given locator?
+  handles(locator: string): boolean;
+  // Move a file that is already on local disk (multer temp file, finished
+  // chunked upload) into the store under `key`. The source file is consumed.
+  // Keys are content hashes, so an existing object with the same key already
+  // holds identical bytes.
+  putFile(localPath: string, key: string): Promise<string>;
+  putBuffer(data: Buffer, key: string): Promise<string>;
+  // Streams the whole blob, or only `range` when given
+  createReadStream(locator: string, range?: ByteRange): Promise<Readable>;
+  exists(locator: string): Promise<boolean>;
+  delete(locator: string): Promise<void>;
+}
+
+export const UPLOADS_DIR = "uploads";
+
+export function hashBuffer(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+export async function hashFile(localPath: string): Promise<string> {
+  const hash = createHash("sha256");
+  await pipeline(fs.createReadStream(localPath), hash);
+  return hash.digest("hex");
+}
+
+export class LocalBlobStore implements BlobStore {
+  readonly name = "local" as const;
+
+  constructor(private readonly root: string = UPLOADS_DIR) {
+    if (!fs.existsSync(root)) {
+      fs.mkdirSync(root, { recursive: true });
+    }
+  }
+
+  handles(locator: string): boolean {
+    return !locator.startsWith("s3://");
+  }
+
+  async putFile(localPath: string, key: string): Promise<string> {
+    const target = path.join(this.root, key);
+    if (fs.existsSync(target)) {
+      await fs.promises.unlink(localPath);
+    } else {
+      await fs.promises.rename(localPath, target);
+    }
+    return target;
+  }
+
+  async putBuffer(data: Buffer, key: string): Promise<string> {
+    const target = path.join(this.root, key);
+    if (!fs.existsSync(target)) {
+      await fs.promises.writeFile(target, data);
+    }
+    return target;
+  }
+
+  async createReadStream(locator: string, range?: ByteRange): Promise<Readable> {
+    return fs.createReadStream(locator, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async exists(locator: string): Promise<boolean> {
+    return fs.existsSync(locator);
+  }
+
+  async delete(locator: string): Promise<void> {
+    if (fs.existsSync(locator)) {
+      await fs.promises.unlink(locator);
+    }
+  }
+}
+
+export class S3BlobStore implements BlobStore {
+  readonly name = "s3" as const;
+  private readonly client: S3Client;
+
+  constructor(private readonly bucket: string, private readonly prefix: string = "") {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT, // e.g. http://localhost:9000 for MinIO
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== "false",
+      credentials: process.env.S3_ACCESS_KEY_ID ? {
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+      } : undefined,
+    });
+  }
+
+  handles(locator: string): boolean {
+    return locator.startsWith(`s3://${this.bucket}/`);
+  }
+
+  private toKey(locator: string) {
+    return locator.slice(`s3://${this.bucket}/`.length);
+  }
+
+  private toLocator(key: string) {
+    return `s3://${this.bucket}/${key}`;
+  }
+
+  async putFile(localPath: string, key: string): Promise<string> {
+    const { size } = await fs.promises.stat(localPath);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: this.prefix + key,
+      Body: fs.createReadStream(localPath),
+      ContentLength: size,
+    }));
+    await fs.promises.unlink(localPath);
+    return this.toLocator(this.prefix + key);
+  }
+
+  async putBuffer(data: Buffer, key: string): Promise<string> {
+    await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: this.prefix + key, Body: data }));
+    return this.toLocator(this.prefix + key);
+  }
+
+  async createReadStream(locator: string, range?: ByteRange): Promise<Readable> {
+    const result = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: this.toKey(locator),
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    }));
+    return result.Body as Readable;
+  }
+
+  async exists(locator: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.toKey(locator) }));
+      return true;
+    } catch (err: any) {
+      if (err?.$metadata?.httpStatusCode === 404 || err?.name === "NotFound") return false;
+      throw err;
+    }
+  }
+
+  async delete(locator: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.toKey(locator) }));
+  }
+}
+
+export function createBlobStore(driver: string): BlobStore {
+  if (driver === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set to use the s3 blob store");
+    }
+    return new S3BlobStore(process.env.S3_BUCKET, process.env.S3_PREFIX || "");
+  }
+  return new LocalBlobStore();
+}
+
+// Routes every locator to the driver that owns it, so rows written before a
+// backend switch (or mid-migration) keep working. New blobs go to `primary`.
+export class RoutingBlobStore implements BlobStore {
+  readonly name: "local" | "s3";
+
+  constructor(private readonly primary: BlobStore, private readonly others: BlobStore[]) {
+    this.name = primary.name;
+  }
+
+  private driverFor(locator: string): BlobStore {
+    const driver = [this.primary, ...this.others].find(d => d.handles(locator));
+    if (!driver) throw new Error(`No blob store configured for ${locator}`);
+    return driver;
+  }
+
+  handles(locator: string): boolean {
+    return [this.primary, ...this.others].some(d => d.handles(locator));
+  }
+
+  putFile(localPath: string, key: string) {
+    return this.primary.putFile(localPath, key);
+  }
+
+  putBuffer(data: Buffer, key: string) {
+    return this.primary.putBuffer(data, key);
+  }
+
+  createReadStream(locator: string, range?: ByteRange) {
+    return this.driverFor(locator).createReadStream(locator, range);
+  }
+
+  exists(locator: string) {
+    return this.driverFor(locator).exists(locator);
+  }
+
+  delete(locator: string) {
+    return this.driverFor(locator).delete(locator);
+  }
+}
+
+export async function readBlob(store: BlobStore, locator: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await store.createReadStream(locator)) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+const activeDriver = process.env.BLOB_STORE || "local";
+const fallbackDrivers = activeDriver === "s3" ? [new LocalBlobStore()] : (process.env.S3_BUCKET ? [createBlobStore("s3")] : []);
+
+export const blobStore: BlobStore = new RoutingBlobStore(createBlobStore(activeDriver), fallbackDrivers);
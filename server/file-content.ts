@@ -0,0 +1,91 @@
+import fs from "fs";
+import { storage } from "./storage";
+import { blobStore, readBlob, hashBuffer, hashFile } from "./blob-store";
+import { canExtractText, extractText } from "./text-extract";
+import { canGenerateThumbnail, generateThumbnail, thumbnailKey } from "./thumbnails";
+import type { User, StorageUsage, File as StoredFile } from "@shared/schema";
+
+// Blobs are content-addressed: identical bytes are stored once under their
+// SHA-256 and shared by every file that uploads them. The returned locator is
+// referenced (and ref-counted) by storage.createFile / addFileVersion.
+export async function storeFileContent(localPath: string): Promise<string> {
+  const hash = await hashFile(localPath);
+  const existing = await storage.getBlob(hash);
+  if (existing) {
+    await fs.promises.unlink(localPath);
+    return existing.path;
+  }
+  const { size } = await fs.promises.stat(localPath);
+  const blob = await storage.createBlob({ hash, size, path: await blobStore.putFile(localPath, hash) });
+  return blob.path;
+}
+
+export async function storeBufferContent(data: Buffer): Promise<string> {
+  const hash = hashBuffer(data);
+  const existing = await storage.getBlob(hash);
+  if (existing) return existing.path;
+  const blob = await storage.createBlob({ hash, size: data.length, path: await blobStore.putBuffer(data, hash) });
+  return blob.path;
+}
+
+export const formatMB = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export async function storageUsageFor(user: User): Promise<StorageUsage> {
+  const used = await storage.getUserStorageUsage(user.id);
+  const quota = await storage.getStorageQuota(user);
+  const percentage = quota === null ? null : quota === 0 ? 100 : Math.min(100, Math.round((used / quota) * 100));
+  return { used, quota, percentage };
+}
+
+// Quotas are checked before anything reaches the blob store, so an upload that
+// doesn't fit leaves nothing behind. Returns why it was refused, or null.
+export async function checkQuota(userId: number, incomingBytes: number): Promise<string | null> {
+  const user = await storage.getUser(userId);
+  if (!user) return null;
+  const { used, quota } = await storageUsageFor(user);
+  if (quota === null || used + incomingBytes <= quota) return null;
+  return `Storage quota exceeded: this upload needs ${formatMB(incomingBytes)} but only ${formatMB(Math.max(0, quota - used))} of ${formatMB(quota)} is left`;
+}
+
+// The uploader's role may cap the size of any single file. Returns why the
+// upload was refused, or null.
+export async function checkUploadSize(role: string, sizes: number[]): Promise<string | null> {
+  const { maxUploadSize } = await storage.getRoleCapabilities(role);
+  if (maxUploadSize === null || sizes.every(size => size <= maxUploadSize)) return null;
+  return `Files larger than ${formatMB(maxUploadSize)} can't be uploaded`;
+}
+
+// When the file's current content was written: its latest version, or the
+// upload itself for files from before versioning
+export async function contentModifiedAt(file: StoredFile): Promise<Date | null> {
+  const [latest] = await storage.getFileVersions(file.id);
+  return latest?.createdAt ?? file.createdAt;
+}
+
+// Keep the search index in step with a file's current content. Extraction runs
+// after the response has gone out, so a slow or unreadable document never
+// holds up an upload - it just won't match on content.
+function indexFileContent(file: StoredFile) {
+  (async () => {
+    const text = canExtractText(file.name, file.mimeType, file.size)
+      ? await extractText(await readBlob(blobStore, file.path), file.name, file.mimeType)
+      : null;
+    await storage.setFileContent(file.id, text);
+  })().catch(err => console.error(`Failed to index file ${file.id}:`, err));
+}
+
+// Thumbnails belong to the blob, so a restored version or a duplicate upload
+// reuses the one already rendered. Like indexing, this runs in the background.
+function generateFileThumbnail(file: StoredFile) {
+  (async () => {
+    if (!canGenerateThumbnail(file.mimeType, file.size) || await storage.getThumbnail(file.path)) return;
+    const image = await generateThumbnail(blobStore, file.path, file.mimeType, file.size);
+    if (image) await storage.setThumbnail(file.path, await blobStore.putBuffer(image, thumbnailKey(file.path)));
+  })().catch(err => console.error(`Failed to generate thumbnail for file ${file.id}:`, err));
+}
+
+// Background work for a file whose current content was just stored
+export function processFileContent(file: StoredFile) {
+  indexFileContent(file);
+  generateFileThumbnail(file);
+}
@@ -13,15 +13,20 @@ declare module "http" {
   }
 }
 
+// WebDAV request bodies are file contents (or XML), which the DAV handler
+// reads itself, so the form and JSON parsers leave them alone
+const skipDav = (parser: express.RequestHandler): express.RequestHandler =>
+  (req, res, next) => /^\/dav(\/|$)/.test(req.path) ? next() : parser(req, res, next);
+
 app.use(
-  express.json({
+  skipDav(express.json({
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
-  }),
+  })),
 );
 
-app.use(express.urlencoded({ extended: false }));
+app.use(skipDav(express.urlencoded({ extended: false })));
 
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -0,0 +1,138 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { authenticateUpgrade } from "./auth";
+import { liveUpdates, type FolderEvent } from "@shared/routes";
+import type { FolderEventType, Permission } from "@shared/schema";
+
+// Pings find connections a proxy or a sleeping laptop dropped without closing
+// them; the same pass closes sockets whose session has ended since
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// In the range left to applications. The client doesn't reconnect after it.
+const CLOSE_SIGNED_OUT = 4001;
+
+interface LiveConnection {
+  socket: WebSocket;
+  userId: number;
+  sessionId: string;
+  alive: boolean;
+}
+
+const connections = new Set<LiveConnection>();
+
+type Grant = Pick<Permission, "userId" | "groupId">;
+
+export interface FolderChange {
+  type: FolderEventType;
+  // Folders whose listing changed. null is the top level of ownerId's files.
+  folderIds: (number | null)[];
+  ownerId: number | null;
+  // The item itself: anyone it's shared with directly sees it at their top level
+  item?: { type: "file" | "folder"; id: number };
+  // Grants just made or removed: their holders' top level changes with them
+  grants?: Grant[];
+}
+
+async function granteeIds(grants: Grant[]): Promise<Set<number>> {
+  const ids = new Set<number>();
+  for (const grant of grants) {
+    if (grant.userId !== null) ids.add(grant.userId);
+    if (grant.groupId !== null) {
+      for (const member of await storage.getGroupMembers(grant.groupId)) ids.add(member.id);
+    }
+  }
+  return ids;
+}
+
+async function deliver(change: FolderChange) {
+  if (connections.size === 0) return;
+
+  const grants = change.item ? await storage.getPermissions(change.item.id, change.item.type) : [];
+  const topLevel = await granteeIds([...grants, ...(change.grants ?? [])]);
+  const folderIds = Array.from(new Set(change.folderIds));
+
+  // Access is worked out once per user, however many tabs they have open
+  const byUser = new Map<number, LiveConnection[]>();
+  connections.forEach(connection => {
+    byUser.set(connection.userId, [...(byUser.get(connection.userId) ?? []), connection]);
+  });
+
+  for (const [userId, userConnections] of Array.from(byUser)) {
+    const visible: (number | null)[] = [];
+    for (const folderId of folderIds) {
+      const sees = folderId === null
+        ? userId === change.ownerId
+        : await storage.checkAccess(folderId, "folder", userId, "view");
+      if (sees) visible.push(folderId);
+    }
+    if (topLevel.has(userId) && !visible.includes(null)) visible.push(null);
+    if (visible.length === 0) continue;
+
+    const event: FolderEvent = { type: change.type, folderIds: visible };
+    const message = JSON.stringify(event);
+    for (const { socket } of userConnections) {
+      if (socket.readyState === WebSocket.OPEN) socket.send(message);
+    }
+  }
+}
+
+/**
+ * Tell the connected users who can see an affected folder that its listing
+ * changed. The change has already been made, so a failure here is only logged.
+ */
+export function publishFolderChange(change: FolderChange): void {
+  deliver(change).catch(err => console.error("Live update error:", err));
+}
+
+// Signing out, or being signed out by an admin, removes the session row
+async function closeEndedSessions() {
+  for (const connection of Array.from(connections)) {
+    const session = await storage.getSession(connection.sessionId);
+    if (!session || session.userId !== connection.userId) {
+      connection.socket.close(CLOSE_SIGNED_OUT, "Signed out");
+    }
+  }
+}
+
+export function setupLiveUpdates(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req, socket, head) => {
+    // Other upgrades (Vite's HMR in development) are left to their own handlers
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== liveUpdates.path) return;
+    socket.on("error", () => socket.destroy());
+
+    try {
+      const signIn = await authenticateUpgrade(req);
+      if (!signIn) {
+        socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const connection: LiveConnection = { socket: ws, userId: signIn.user.id, sessionId: signIn.sessionId, alive: true };
+        connections.add(connection);
+        ws.on("pong", () => { connection.alive = true; });
+        ws.on("close", () => connections.delete(connection));
+        ws.on("error", () => ws.terminate());
+      });
+    } catch (err) {
+      console.error("Live update sign-in error:", err);
+      socket.destroy();
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    connections.forEach(connection => {
+      if (!connection.alive) {
+        connection.socket.terminate();
+        return;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    });
+    closeEndedSessions().catch(err => console.error("Live update session check error:", err));
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+}
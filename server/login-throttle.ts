@@ -0,0 +1,108 @@
+import { storage } from "./storage";
+import type { LoginFailureScope } from "@shared/schema";
+
+// After the second failure in a row each attempt has to wait, doubling from
+// one second up to this
+const MAX_BACKOFF_SECONDS = 60;
+
+function backoffSeconds(failures: number): number {
+  return failures < 2 ? 0 : Math.min(2 ** (failures - 2), MAX_BACKOFF_SECONDS);
+}
+
+// Throttling is by the name typed, whether or not such a user exists, so
+// lockouts don't reveal which accounts are real
+export const usernameKey = (username: string) => username.trim().toLowerCase();
+
+type ThrottleKey = { scope: LoginFailureScope; key: string };
+
+function keysFor(username: string, ip: string | undefined): ThrottleKey[] {
+  const keys: ThrottleKey[] = [{ scope: "username", key: usernameKey(username) }];
+  if (ip) keys.push({ scope: "ip", key: ip });
+  return keys;
+}
+
+// A public link's password is guessed at the link, from wherever, so it is
+// counted like a username: per link as well as per IP
+function shareLinkKeysFor(linkId: number, ip: string | undefined): ThrottleKey[] {
+  const keys: ThrottleKey[] = [{ scope: "share_link", key: String(linkId) }];
+  if (ip) keys.push({ scope: "ip", key: ip });
+  return keys;
+}
+
+export type LoginThrottle =
+  | { allowed: true }
+  | { allowed: false; retryAfter: number; lockedOut: boolean };
+
+// When several keys are held back, the longer wait wins
+async function checkThrottle(keys: ThrottleKey[]): Promise<LoginThrottle> {
+  const now = Date.now();
+  let result: LoginThrottle = { allowed: true };
+  for (const row of await storage.getLoginFailures(keys)) {
+    const lockedUntil = row.lockedUntil?.getTime() ?? 0;
+    const until = Math.max(row.blockedUntil?.getTime() ?? 0, lockedUntil);
+    if (until <= now) continue;
+    const retryAfter = Math.ceil((until - now) / 1000);
+    if (result.allowed || retryAfter > result.retryAfter) {
+      result = { allowed: false, retryAfter, lockedOut: lockedUntil > now };
+    }
+  }
+  return result;
+}
+
+// Count a failed attempt against each key. Returns the scopes that this
+// failure has just locked, so the caller can record it.
+async function recordFailure(keys: ThrottleKey[]): Promise<{ scope: LoginFailureScope; failures: number }[]> {
+  const policy = await storage.getLoginPolicy();
+  const lockoutMs = policy.lockoutMinutes * 60 * 1000;
+  const resetBefore = new Date(Date.now() - lockoutMs);
+  const locked: { scope: LoginFailureScope; failures: number }[] = [];
+
+  for (const { scope, key } of keys) {
+    const row = await storage.recordLoginFailure(scope, key, resetBefore);
+    const now = Date.now();
+    const limit = scope === "ip" ? policy.maxIpFailures : policy.maxFailures;
+    const alreadyLocked = (row.lockedUntil?.getTime() ?? 0) > now;
+    const backoff = backoffSeconds(row.failures);
+
+    if (row.failures >= limit) {
+      await storage.setLoginBlock(row.id, null, new Date(now + lockoutMs));
+      if (!alreadyLocked) locked.push({ scope, failures: row.failures });
+    } else {
+      await storage.setLoginBlock(row.id, backoff ? new Date(now + backoff * 1000) : null, null);
+    }
+  }
+  return locked;
+}
+
+// May this username try to sign in from this IP right now?
+export async function checkLoginThrottle(username: string, ip: string | undefined): Promise<LoginThrottle> {
+  return await checkThrottle(keysFor(username, ip));
+}
+
+export async function recordLoginFailure(username: string, ip: string | undefined): Promise<{ scope: LoginFailureScope; failures: number }[]> {
+  return await recordFailure(keysFor(username, ip));
+}
+
+export async function checkShareLinkThrottle(linkId: number, ip: string | undefined): Promise<LoginThrottle> {
+  return await checkThrottle(shareLinkKeysFor(linkId, ip));
+}
+
+export async function recordShareLinkFailure(linkId: number, ip: string | undefined): Promise<{ scope: LoginFailureScope; failures: number }[]> {
+  return await recordFailure(shareLinkKeysFor(linkId, ip));
+}
+
+// A successful sign-in ends the username's streak. The IP's is left alone,
+// so one valid account can't be used to reset it.
+export async function clearLoginFailures(username: string): Promise<boolean> {
+  return await storage.clearLoginFailures("username", usernameKey(username));
+}
+
+export async function clearShareLinkFailures(linkId: number): Promise<boolean> {
+  return await storage.clearLoginFailures("share_link", String(linkId));
+}
+
+export function describeWait(seconds: number): string {
+  if (seconds < 60) return seconds === 1 ? "1 second" : `${seconds} seconds`;
+  const minutes = Math.ceil(seconds / 60);
+  return minutes === 1 ? "1 minute" : `${minutes} minutes`;
+}
@@ -0,0 +1,149 @@
+import type { Express } from "express";
+import { STATUS_CODES } from "http";
+import swaggerUi from "swagger-ui-express";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { api } from "@shared/routes";
+
+// Interactive docs for the REST API, generated from the `api` contract in
+// shared/routes.ts so they can't drift from what the server accepts
+const DOCS_PATH = "/api/docs";
+
+// An entry of the contract, with the optional hints it carries for docs
+interface Route {
+  method: string;
+  path: string;
+  input?: z.ZodTypeAny;
+  params?: z.AnyZodObject;
+  multipart?: { field: string; multiple: boolean };
+  rawBody?: string;
+  responses: Record<number, z.ZodTypeAny>;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+// Reachable without signing in
+const PUBLIC_GROUPS = new Set(["publicShares", "docs"]);
+const PUBLIC_ROUTES = new Set(["auth.login", "auth.verifyTwoFactor"]);
+
+// Unknown keys are dropped by zod rather than refused, so objects stay open
+const jsonSchema = (schema: z.ZodTypeAny): JsonSchema =>
+  zodToJsonSchema(schema, { target: "openApi3", $refStrategy: "none", removeAdditionalStrategy: "strict" }) as JsonSchema;
+
+const binary = { type: "string", format: "binary" };
+
+// "renameFile" -> "Rename file"
+const summaryOf = (name: string) => {
+  const words = name.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Path parameters are ids unless the route says otherwise
+function pathParameters(route: Route) {
+  return Array.from(route.path.matchAll(/:(\w+)/g), ([, name]) => {
+    const declared = route.params?.shape[name];
+    const schema = declared ? jsonSchema(declared) : /^(id|\w+Id)$/.test(name) ? { type: "integer" } : { type: "string" };
+    return { name, in: "path", required: true, schema };
+  });
+}
+
+// Reads take their input from the query string; everything else from the body
+function queryParameters(route: Route) {
+  if (!route.input || !["GET", "HEAD"].includes(route.method)) return [];
+  let input = route.input;
+  while (input instanceof z.ZodOptional) input = input.unwrap();
+  if (!(input instanceof z.ZodObject)) return [];
+  return Object.entries(input.shape as Record<string, z.ZodTypeAny>).map(([name, schema]) => ({
+    name,
+    in: "query",
+    required: !schema.isOptional(),
+    schema: jsonSchema(schema),
+  }));
+}
+
+function requestBody(route: Route) {
+  if (route.rawBody) {
+    return { required: true, content: { [route.rawBody]: { schema: binary } } };
+  }
+  if (route.multipart) {
+    const { field, multiple } = route.multipart;
+    const fields = route.input ? jsonSchema(route.input) : { type: "object", properties: {} };
+    const properties = fields.properties as Record<string, unknown>;
+    return {
+      required: true,
+      content: {
+        "multipart/form-data": {
+          schema: {
+            ...fields,
+            properties: { ...properties, [field]: multiple ? { type: "array", items: binary } : binary },
+            required: [...(fields.required as string[] | undefined ?? []), field],
+          },
+        },
+      },
+    };
+  }
+  if (!route.input || ["GET", "HEAD"].includes(route.method)) return undefined;
+  return { required: true, content: { "application/json": { schema: jsonSchema(route.input) } } };
+}
+
+function responses(route: Route) {
+  const documented: Record<string, unknown> = {};
+  for (const [status, schema] of Object.entries(route.responses)) {
+    const description = STATUS_CODES[status] ?? status;
+    documented[status] = schema instanceof z.ZodVoid
+      ? { description }
+      : { description, content: { "application/json": { schema: jsonSchema(schema) } } };
+  }
+  // Downloads and previews answer with the file itself
+  if (!Object.keys(route.responses).some(status => status.startsWith("2"))) {
+    documented["200"] = { description: "File content", content: { "application/octet-stream": { schema: binary } } };
+  }
+  return documented;
+}
+
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const [group, routes] of Object.entries(api as unknown as Record<string, Record<string, Route>>)) {
+    for (const [name, route] of Object.entries(routes)) {
+      const isPublic = PUBLIC_GROUPS.has(group) || PUBLIC_ROUTES.has(`${group}.${name}`);
+      const path = route.path.replace(/:(\w+)/g, "{$1}");
+      paths[path] ??= {};
+      paths[path][route.method.toLowerCase()] = {
+        operationId: `${group}.${name}`,
+        summary: summaryOf(name),
+        tags: [group],
+        parameters: [...pathParameters(route), ...queryParameters(route)],
+        requestBody: requestBody(route),
+        responses: responses(route),
+        ...(isPublic ? { security: [] } : {}),
+      };
+    }
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "File Management System API",
+      version: process.env.npm_package_version || "1.0.0",
+      description: "Sign in through the web app, or send a personal API token (Settings > API Tokens) as a Bearer token.",
+    },
+    servers: [{ url: "/" }],
+    components: {
+      securitySchemes: {
+        apiToken: { type: "http", scheme: "bearer" },
+        session: { type: "apiKey", in: "cookie", name: "connect.sid" },
+      },
+    },
+    security: [{ apiToken: [] }, { session: [] }],
+    paths,
+  };
+}
+
+export function setupApiDocs(app: Express) {
+  const document = buildOpenApiDocument();
+  app.get(api.docs.spec.path, (_req, res) => res.json(document));
+  app.use(DOCS_PATH, swaggerUi.serve, swaggerUi.setup(undefined, {
+    customSiteTitle: "FMS API",
+    swaggerOptions: { url: api.docs.spec.path },
+  }));
+}
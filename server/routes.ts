@@ -1,20 +1,39 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, hashPassword, comparePasswords } from "./auth";
+import { setupAuth, hashPassword, comparePasswords, destroyUserSessions } from "./auth";
+import { setupWebDav } from "./webdav";
+import { setupApiDocs } from "./openapi";
+import { setupLiveUpdates, publishFolderChange } from "./live-updates";
+import { clearLoginFailures, checkShareLinkThrottle, recordShareLinkFailure, clearShareLinkFailures, describeWait } from "./login-throttle";
+import { generateApiToken, toApiTokenInfo, actingToken } from "./api-tokens";
 import { api } from "@shared/routes";
 import { z } from "zod";
-import { insertUserSchema, insertFolderSchema, insertPermissionSchema, User } from "@shared/schema";
+import { insertPermissionSchema, previewKind, User, USER_ROLES, ALL_CAPABILITIES, canManageRole, type Capability, type ApiTokenScope, type UserRole, type StorageUsage, type UserQuota, type ShareLink, type ShareLinkInfo, type PublicShare, type ZipEntry, type LoginSession, type SessionInfo, type File as StoredFile } from "@shared/schema";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
 import AdmZip from "adm-zip";
 import archiver from "archiver"; // Note: Need to install archiver
-import { pipeline } from "stream";
+import { pipeline, Transform } from "stream";
 import { promisify } from "util";
+import { randomBytes } from "crypto";
+import { blobStore, readBlob, UPLOADS_DIR } from "./blob-store";
+import { storeFileContent, storeBufferContent, formatMB, storageUsageFor, checkQuota, checkUploadSize, contentModifiedAt, processFileContent } from "./file-content";
+import { sendBlob, blobETag, isRangeContinuation } from "./send-blob";
+import { generateTotpSecret, verifyTotp, totpUri, totpQrCode, generateRecoveryCodes, hashRecoveryCode } from "./two-factor";
 
 const pipe = promisify(pipeline);
 
+declare module "express-session" {
+  interface SessionData {
+    // Public share links the visitor has entered the password for
+    unlockedShareLinks?: string[];
+    // 2FA enrollment in progress: the secret shown as a QR code, not yet confirmed
+    pendingTotpSecret?: string;
+  }
+}
+
 // Extend Express Request to include user
 declare global {
   namespace Express {
@@ -28,12 +47,21 @@ declare global {
   }
 }
 
-// Ensure uploads directory exists
-const UPLOADS_DIR = "uploads";
+// Multer and chunked uploads stage incoming bytes on local disk before they are
+// handed to the blob store
 if (!fs.existsSync(UPLOADS_DIR)) {
   fs.mkdirSync(UPLOADS_DIR);
 }
 
+// Partially received chunked uploads live here until they are finalized
+const PARTIAL_UPLOADS_DIR = path.join(UPLOADS_DIR, "partial");
+if (!fs.existsSync(PARTIAL_UPLOADS_DIR)) {
+  fs.mkdirSync(PARTIAL_UPLOADS_DIR);
+}
+
+// Archives are read fully into memory to list their entries
+const MAX_ZIP_LISTING_BYTES = 200 * 1024 * 1024;
+
 // Multer storage configuration
 const multerStorage = multer.diskStorage({
   destination: function (req, file, cb) {
@@ -47,12 +75,25 @@ const multerStorage = multer.diskStorage({
 
 const upload = multer({ storage: multerStorage });
 
+async function userQuotaFor(user: User): Promise<UserQuota> {
+  const roleQuota = (await storage.getRoleQuotas()).find(q => q.role === user.role);
+  return { ...await storageUsageFor(user), quotaBytes: user.quotaBytes, roleQuota: roleQuota?.quotaBytes ?? null };
+}
+
+// Multer has already staged these on local disk; drop them when refusing the upload
+function discardUploads(uploaded: Express.Multer.File[]) {
+  for (const file of uploaded) fs.rmSync(file.path, { force: true });
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
   // Setup Auth (Session + Passport)
   setupAuth(app);
+  setupWebDav(app);
+  setupApiDocs(app);
+  setupLiveUpdates(httpServer);
 
   // === SEEDING SUPERADMIN ===
   const superAdminUsername = "hussain";
@@ -69,41 +110,792 @@ export async function registerRoutes(
     console.log("Superadmin seeded.");
   }
 
-  // Middleware to check auth
+  // Requests made with a personal API token are limited to its scopes on top
+  // of the owner's own rights; browser sessions aren't limited.
+  const tokenLacks = (req: any, scope: ApiTokenScope) => !!req.apiToken && !req.apiToken.scopes.includes(scope);
+  const methodScope = (req: any): ApiTokenScope => (req.method === 'GET' || req.method === 'HEAD') ? 'read' : 'write';
+  const refuseScope = (res: any, scope: ApiTokenScope) =>
+    res.status(403).json({ message: `This API token doesn't have the ${scope} scope` });
+
+  // Middleware to check auth. Signed in is enough for the user's own account
+  // settings; everything else also waits until 2FA is set up, where the
+  // user's role requires it.
+  const requireSignedIn = (req: any, res: any, next: any) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Unauthorized" });
+    if (tokenLacks(req, methodScope(req))) return refuseScope(res, methodScope(req));
+    next();
+  };
+
+  // Passwords, 2FA, sessions and tokens themselves can only be managed from a
+  // browser, so a leaked token can't be used to take the account over
+  const requireBrowserSession = (req: any, res: any, next: any) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Unauthorized" });
+    if (req.apiToken) return res.status(403).json({ message: "Not available with an API token" });
+    next();
+  };
+
   const requireAuth = (req: any, res: any, next: any) => {
-    if (req.isAuthenticated()) return next();
-    res.status(401).json({ message: "Unauthorized" });
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Unauthorized" });
+    if (req.session.twoFactorSetupRequired) {
+      return res.status(403).json({ message: "Set up two-factor authentication to continue" });
+    }
+    if (tokenLacks(req, methodScope(req))) return refuseScope(res, methodScope(req));
+    next();
+  };
+
+  // Sharing with users and managing share links takes the share scope alone
+  const requireSharing = (req: any, res: any, next: any) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Unauthorized" });
+    if (req.session.twoFactorSetupRequired) {
+      return res.status(403).json({ message: "Set up two-factor authentication to continue" });
+    }
+    if (tokenLacks(req, 'share')) return refuseScope(res, 'share');
+    next();
+  };
+
+  const CAPABILITY_SCOPES: Record<Capability, ApiTokenScope> = {
+    canShareExternally: 'share',
+    canUploadArchive: 'write',
+    canViewAudit: 'admin',
+    canManageUsers: 'admin',
+  };
+
+  // What a role may do is configured per role in the database (see roleCapabilities)
+  const requireCapability = (capability: Capability) => async (req: any, res: any, next: any) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Unauthorized" });
+    if (req.session.twoFactorSetupRequired) return res.status(403).json({ message: "Forbidden" });
+    if (tokenLacks(req, CAPABILITY_SCOPES[capability])) return refuseScope(res, CAPABILITY_SCOPES[capability]);
+    try {
+      const capabilities = await storage.getRoleCapabilities(req.user.role);
+      if (capabilities[capability]) return next();
+      res.status(403).json({ message: "Forbidden" });
+    } catch (e) {
+      next(e);
+    }
   };
 
-  const requireAdmin = (req: any, res: any, next: any) => {
-    if (req.isAuthenticated() && (req.user.role === 'admin' || req.user.role === 'superadmin')) return next();
+  const requireSuperadmin = (req: any, res: any, next: any) => {
+    if (tokenLacks(req, 'admin')) return refuseScope(res, 'admin');
+    if (req.isAuthenticated() && req.user.role === 'superadmin' && !req.session.twoFactorSetupRequired) return next();
     res.status(403).json({ message: "Forbidden" });
   };
 
   // === USERS ===
-  app.get(api.users.list.path, requireAdmin, async (req, res) => {
+  app.get(api.users.list.path, requireCapability('canManageUsers'), async (req, res) => {
     const users = await storage.getUsers();
     res.json(users);
   });
 
-  app.post(api.users.create.path, requireAdmin, async (req, res) => {
+  const canManageUser = (actor: Express.User, target: User) => canManageRole(actor.role, target.role);
+
+  // Sessions are identified by their public id; the sid is the cookie itself
+  const toSessionInfo = (session: LoginSession, currentSid: string): SessionInfo => ({
+    id: session.publicId,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.sid === currentSid,
+  });
+
+  app.post(api.users.create.path, requireCapability('canManageUsers'), async (req, res) => {
     try {
-      const data = insertUserSchema.parse(req.body);
+      const data = api.users.create.input.parse(req.body);
+      const role = data.role ?? 'employee';
+      if (!canManageRole(req.user!.role, role)) {
+        return res.status(403).json({ message: `You can't create ${role} users` });
+      }
       // Hash password
       const hashedPassword = await hashPassword(data.password);
       const user = await storage.createUser({ ...data, password: hashedPassword });
       res.status(201).json(user);
     } catch (e) {
       if (e instanceof z.ZodError) {
-        res.status(400).json(e.errors);
-      } else {
-        res.status(500).json({ message: "Server Error" });
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      res.status(500).json({ message: "Server Error" });
+    }
+  });
+
+  app.patch(api.users.update.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: userId } = api.users.update.params.parse(req.params);
+      const changes = api.users.update.input.parse(req.body);
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!canManageUser(req.user!, user) || (changes.role && !canManageRole(req.user!.role, changes.role))) {
+        return res.status(403).json({ message: "You can't manage users above your own role" });
+      }
+      // Admins can't lock themselves out
+      if (userId === req.user!.id && ((changes.role && changes.role !== user.role) || (changes.status && changes.status !== 'active'))) {
+        return res.status(400).json({ message: "You can't change your own role or status" });
+      }
+      if (changes.username && changes.username !== user.username && await storage.getUserByUsername(changes.username)) {
+        return res.status(400).json({ message: "Username already taken", field: "username" });
+      }
+
+      const updated = await storage.updateUser(userId, changes);
+      if (changes.status && changes.status !== 'active') await destroyUserSessions(userId);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "update_user",
+        targetType: "user",
+        targetId: userId,
+        details: `Updated user ${user.username}: ${Object.entries(changes).map(([key, value]) => `${key}=${value}`).join(", ") || "no changes"}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json(updated);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Update user error:", e);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  app.post(api.users.suspend.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: userId } = api.users.suspend.params.parse(req.params);
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!canManageUser(req.user!, user)) return res.status(403).json({ message: "You can't manage users above your own role" });
+      if (userId === req.user!.id) return res.status(400).json({ message: "You can't suspend yourself" });
+
+      const updated = await storage.updateUser(userId, { status: 'suspended' });
+      await destroyUserSessions(userId);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "suspend_user",
+        targetType: "user",
+        targetId: userId,
+        details: `Suspended user ${user.username}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json(updated);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Suspend user error:", e);
+      res.status(500).json({ message: "Failed to suspend user" });
+    }
+  });
+
+  app.post(api.users.reactivate.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: userId } = api.users.reactivate.params.parse(req.params);
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!canManageUser(req.user!, user)) return res.status(403).json({ message: "You can't manage users above your own role" });
+
+      const updated = await storage.updateUser(userId, { status: 'active' });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "reactivate_user",
+        targetType: "user",
+        targetId: userId,
+        details: `Reactivated user ${user.username}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json(updated);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Reactivate user error:", e);
+      res.status(500).json({ message: "Failed to reactivate user" });
+    }
+  });
+
+  app.post(api.users.resetPassword.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: userId } = api.users.resetPassword.params.parse(req.params);
+      const { password } = api.users.resetPassword.input.parse(req.body);
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!canManageUser(req.user!, user)) return res.status(403).json({ message: "You can't manage users above your own role" });
+
+      await storage.updateUserPassword(userId, await hashPassword(password));
+      // Whoever knew the old password is signed out (the admin keeps their own session)
+      await destroyUserSessions(userId, req.sessionID);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "reset_password",
+        targetType: "user",
+        targetId: userId,
+        details: `Reset password for ${user.username}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json({ message: "Password reset" });
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Reset password error:", e);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  app.post(api.users.resetTwoFactor.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: userId } = api.users.resetTwoFactor.params.parse(req.params);
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!canManageUser(req.user!, user)) return res.status(403).json({ message: "You can't manage users above your own role" });
+
+      await storage.disableTwoFactor(userId);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "reset_2fa",
+        targetType: "user",
+        targetId: userId,
+        details: `Reset two-factor authentication for ${user.username}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json({ message: "Two-factor authentication reset" });
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Reset two-factor error:", e);
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  app.get(api.users.lockouts.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      res.json(await storage.getAccountLockouts());
+    } catch (e) {
+      console.error("List lockouts error:", e);
+      res.status(500).json({ message: "Failed to fetch lockouts" });
+    }
+  });
+
+  app.post(api.users.unlock.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: userId } = api.users.unlock.params.parse(req.params);
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!canManageUser(req.user!, user)) return res.status(403).json({ message: "You can't manage users above your own role" });
+
+      // Only the username's streak; IP lockouts run their course
+      if (!await clearLoginFailures(user.username)) {
+        return res.json({ message: "Account was not locked" });
+      }
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "unlock_user",
+        targetType: "user",
+        targetId: userId,
+        details: `Unlocked sign-in for ${user.username}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json({ message: "Account unlocked" });
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Unlock user error:", e);
+      res.status(500).json({ message: "Failed to unlock account" });
+    }
+  });
+
+  app.get(api.users.sessions.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: userId } = api.users.sessions.params.parse(req.params);
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!canManageUser(req.user!, user)) return res.status(403).json({ message: "You can't manage users above your own role" });
+
+      const sessions = await storage.getUserSessions(user.id);
+      res.json(sessions.map(session => toSessionInfo(session, req.sessionID)));
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("List user sessions error:", e);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete(api.users.revokeSession.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: userId } = api.users.revokeSession.params.parse(req.params);
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!canManageUser(req.user!, user)) return res.status(403).json({ message: "You can't manage users above your own role" });
+
+      const sid = await storage.deleteUserSession(userId, req.params.sessionId);
+      if (!sid) return res.status(404).json({ message: "Session not found" });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "revoke_session",
+        targetType: "user",
+        targetId: userId,
+        details: `Signed ${user.username} out of one session`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.status(204).send();
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Revoke user session error:", e);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  app.delete(api.users.revokeSessions.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: userId } = api.users.revokeSessions.params.parse(req.params);
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!canManageUser(req.user!, user)) return res.status(403).json({ message: "You can't manage users above your own role" });
+
+      // Don't sign the admin out of the session they're using to do this
+      const revoked = await storage.deleteUserSessions(userId, userId === req.user!.id ? req.sessionID : undefined);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "revoke_sessions",
+        targetType: "user",
+        targetId: userId,
+        details: `Signed ${user.username} out of ${revoked} session(s)`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json({ revoked });
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Revoke user sessions error:", e);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  app.delete(api.users.delete.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: userId } = api.users.delete.params.parse(req.params);
+      const { transferTo } = api.users.delete.input.parse(req.body);
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!canManageUser(req.user!, user)) return res.status(403).json({ message: "You can't manage users above your own role" });
+      if (userId === req.user!.id) return res.status(400).json({ message: "You can't delete yourself" });
+
+      const recipient = await storage.getUser(transferTo);
+      if (!recipient || recipient.id === userId) {
+        return res.status(400).json({ message: "Choose another user to receive the files", field: "transferTo" });
+      }
+      if (recipient.status !== 'active') {
+        return res.status(400).json({ message: "Files can only be transferred to an active user", field: "transferTo" });
+      }
+
+      // Half-finished uploads die with the account
+      const sessions = await storage.getUploadSessions(userId);
+      await destroyUserSessions(userId);
+      await storage.deleteUser(userId, recipient.id);
+      for (const session of sessions) {
+        fs.rmSync(path.join(PARTIAL_UPLOADS_DIR, session.id), { force: true });
+      }
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "delete_user",
+        targetType: "user",
+        targetId: userId,
+        details: `Deleted user ${user.username}; files and folders transferred to ${recipient.username}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.status(204).send();
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Delete user error:", e);
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  app.get(api.users.quota.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: userId } = api.users.quota.params.parse(req.params);
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!canManageUser(req.user!, user)) return res.status(403).json({ message: "You can't manage users above your own role" });
+      res.json(await userQuotaFor(user));
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Get quota error:", e);
+      res.status(500).json({ message: "Failed to fetch quota" });
+    }
+  });
+
+  app.put(api.users.setQuota.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: userId } = api.users.setQuota.params.parse(req.params);
+      const { quotaBytes } = api.users.setQuota.input.parse(req.body);
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!canManageUser(req.user!, user)) return res.status(403).json({ message: "You can't manage users above your own role" });
+
+      await storage.updateUserQuota(userId, quotaBytes);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "update_quota",
+        targetType: "user",
+        targetId: userId,
+        details: `Set storage quota of ${user.username} to ${quotaBytes === null ? "the role default" : formatMB(quotaBytes)}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json(await userQuotaFor({ ...user, quotaBytes }));
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Set quota error:", e);
+      res.status(500).json({ message: "Failed to update quota" });
+    }
+  });
+
+  // === QUOTAS ===
+  app.get(api.quotas.roles.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      res.json(await storage.getRoleQuotas());
+    } catch (e) {
+      console.error("List role quotas error:", e);
+      res.status(500).json({ message: "Failed to fetch quotas" });
+    }
+  });
+
+  app.put(api.quotas.setRole.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const role = req.params.role;
+      if (!(USER_ROLES as readonly string[]).includes(role)) {
+        return res.status(400).json({ message: "Unknown role" });
+      }
+      const { quotaBytes } = api.quotas.setRole.input.parse(req.body);
+      await storage.setRoleQuota(role, quotaBytes);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "update_role_quota",
+        targetType: "role",
+        targetId: null,
+        details: `Set default storage quota for ${role} to ${quotaBytes === null ? "unlimited" : formatMB(quotaBytes)}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json(await storage.getRoleQuotas());
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Set role quota error:", e);
+      res.status(500).json({ message: "Failed to update quota" });
+    }
+  });
+
+  // === CAPABILITIES ===
+  app.get(api.capabilities.mine.path, requireSignedIn, async (req, res) => {
+    try {
+      res.json(await storage.getRoleCapabilities(req.user!.role));
+    } catch (e) {
+      console.error("Get capabilities error:", e);
+      res.status(500).json({ message: "Failed to fetch capabilities" });
+    }
+  });
+
+  app.get(api.capabilities.list.path, requireSuperadmin, async (req, res) => {
+    try {
+      res.json(await storage.getAllRoleCapabilities());
+    } catch (e) {
+      console.error("List capabilities error:", e);
+      res.status(500).json({ message: "Failed to fetch capabilities" });
+    }
+  });
+
+  app.put(api.capabilities.update.path, requireSuperadmin, async (req, res) => {
+    try {
+      const role = req.params.role as UserRole;
+      if (!USER_ROLES.includes(role)) {
+        return res.status(400).json({ message: "Unknown role" });
+      }
+      const input = api.capabilities.update.input.parse(req.body);
+      // Superadmins always have every capability; only their 2FA requirement is stored
+      const capabilities = role === 'superadmin' ? { ...ALL_CAPABILITIES, requireTwoFactor: input.requireTwoFactor } : input;
+      await storage.setRoleCapabilities(role, capabilities);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "update_role_capabilities",
+        targetType: "role",
+        targetId: null,
+        details: `Updated capabilities for ${role}: ${Object.entries(capabilities).map(([key, value]) => `${key}=${value}`).join(", ")}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json(await storage.getAllRoleCapabilities());
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Update capabilities error:", e);
+      res.status(500).json({ message: "Failed to update capabilities" });
+    }
+  });
+
+  app.get(api.loginPolicy.get.path, requireSuperadmin, async (req, res) => {
+    try {
+      res.json(await storage.getLoginPolicy());
+    } catch (e) {
+      console.error("Get login policy error:", e);
+      res.status(500).json({ message: "Failed to fetch sign-in policy" });
+    }
+  });
+
+  app.put(api.loginPolicy.update.path, requireSuperadmin, async (req, res) => {
+    try {
+      const policy = api.loginPolicy.update.input.parse(req.body);
+      await storage.setLoginPolicy(policy);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "update_login_policy",
+        targetType: "system",
+        targetId: null,
+        details: `Sign-in lockout after ${policy.maxFailures} failures per username / ${policy.maxIpFailures} per IP, for ${policy.lockoutMinutes} min`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json(policy);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Update login policy error:", e);
+      res.status(500).json({ message: "Failed to update sign-in policy" });
+    }
+  });
+
+  // === GROUPS ===
+  app.get(api.groups.list.path, requireCapability('canManageUsers'), async (req, res) => {
+    const groups = await storage.getGroups();
+    res.json(groups);
+  });
+
+  // Everyone can pick a group when sharing, but only sees names
+  app.get(api.groups.available.path, requireAuth, async (req, res) => {
+    const groups = await storage.getGroups();
+    res.json(groups.map(g => ({ id: g.id, name: g.name })));
+  });
+
+  app.post(api.groups.create.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const data = api.groups.create.input.parse(req.body);
+      const group = await storage.createGroup({ ...data, createdBy: req.user!.id });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "create_group",
+        targetType: "group",
+        targetId: group.id,
+        details: `Created group ${group.name}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.status(201).json(group);
+    } catch (e: any) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      if (e?.code === 'ER_DUP_ENTRY') {
+        return res.status(400).json({ message: "A group with this name already exists", field: "name" });
+      }
+      console.error("Create group error:", e);
+      res.status(500).json({ message: "Failed to create group" });
+    }
+  });
+
+  app.patch(api.groups.update.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: groupId } = api.groups.update.params.parse(req.params);
+      const data = api.groups.update.input.parse(req.body);
+      const group = await storage.updateGroup(groupId, data);
+      if (!group) return res.status(404).json({ message: "Group not found" });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "update_group",
+        targetType: "group",
+        targetId: groupId,
+        details: `Updated group ${group.name}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json(group);
+    } catch (e: any) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      if (e?.code === 'ER_DUP_ENTRY') {
+        return res.status(400).json({ message: "A group with this name already exists", field: "name" });
+      }
+      console.error("Update group error:", e);
+      res.status(500).json({ message: "Failed to update group" });
+    }
+  });
+
+  app.delete(api.groups.delete.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: groupId } = api.groups.delete.params.parse(req.params);
+      const group = await storage.getGroup(groupId);
+      if (!group) return res.status(404).json({ message: "Group not found" });
+
+      await storage.deleteGroup(groupId);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "delete_group",
+        targetType: "group",
+        targetId: groupId,
+        details: `Deleted group ${group.name} and its permissions`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.sendStatus(204);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
       }
+      console.error("Delete group error:", e);
+      res.status(500).json({ message: "Failed to delete group" });
+    }
+  });
+
+  app.get(api.groups.members.path, requireCapability('canManageUsers'), async (req, res) => {
+    const params = api.groups.members.params.safeParse(req.params);
+    if (!params.success) return res.status(400).json({ message: "Invalid group ID", field: "id" });
+    const groupId = params.data.id;
+    const group = await storage.getGroup(groupId);
+    if (!group) return res.status(404).json({ message: "Group not found" });
+
+    const members = await storage.getGroupMembers(groupId);
+    res.json(members);
+  });
+
+  app.post(api.groups.addMember.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: groupId } = api.groups.addMember.params.parse(req.params);
+      const { userId } = api.groups.addMember.input.parse(req.body);
+
+      const group = await storage.getGroup(groupId);
+      const member = await storage.getUser(userId);
+      if (!group || !member) return res.status(404).json({ message: "Group or user not found" });
+
+      await storage.addGroupMember(groupId, userId);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "add_group_member",
+        targetType: "group",
+        targetId: groupId,
+        details: `Added ${member.username} to group ${group.name}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.sendStatus(204);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: "userId is required" });
+      }
+      console.error("Add group member error:", e);
+      res.status(500).json({ message: "Failed to add member" });
+    }
+  });
+
+  app.delete(api.groups.removeMember.path, requireCapability('canManageUsers'), async (req, res) => {
+    try {
+      const { id: groupId, userId } = api.groups.removeMember.params.parse(req.params);
+      await storage.removeGroupMember(groupId, userId);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "remove_group_member",
+        targetType: "group",
+        targetId: groupId,
+        details: `Removed user ${userId} from group ${groupId}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.sendStatus(204);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Remove group member error:", e);
+      res.status(500).json({ message: "Failed to remove member" });
     }
   });
 
   // === USER SETTINGS ===
-  app.get('/api/user/settings', requireAuth, async (req, res) => {
+  app.get(api.settings.get.path, requireSignedIn, async (req, res) => {
     try {
       const settings = await storage.getUserSettings(req.user!.id);
       res.json(settings || {});
@@ -112,21 +904,22 @@ export async function registerRoutes(
     }
   });
 
-  app.patch('/api/user/settings', requireAuth, async (req, res) => {
+  app.patch(api.settings.update.path, requireSignedIn, async (req, res) => {
     try {
-      const settings = await storage.updateUserSettings(req.user!.id, req.body);
+      const changes = api.settings.update.input.parse(req.body);
+      const settings = await storage.updateUserSettings(req.user!.id, changes);
       res.json(settings);
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       res.status(500).json({ message: "Failed to update settings" });
     }
   });
 
-  app.patch('/api/user/password', requireAuth, async (req, res) => {
+  app.patch(api.auth.changePassword.path, requireBrowserSession, async (req, res) => {
     try {
-      const { currentPassword, newPassword } = req.body;
-      if (!currentPassword || !newPassword) {
-        return res.status(400).json({ message: "Current and new passwords are required" });
-      }
+      const { currentPassword, newPassword } = api.auth.changePassword.input.parse(req.body);
 
       // Verify current password
       const user = await storage.getUser(req.user!.id);
@@ -140,14 +933,290 @@ export async function registerRoutes(
 
       res.json({ message: "Password updated successfully" });
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       res.status(500).json({ message: "Failed to update password" });
     }
   });
 
+
+  // === TWO-FACTOR AUTHENTICATION ===
+  app.get(api.twoFactor.status.path, requireBrowserSession, async (req, res) => {
+    try {
+      const [twoFactor, capabilities, recoveryCodesRemaining] = await Promise.all([
+        storage.getTwoFactor(req.user!.id),
+        storage.getRoleCapabilities(req.user!.role),
+        storage.countRecoveryCodes(req.user!.id),
+      ]);
+      res.json({ enabled: !!twoFactor, required: capabilities.requireTwoFactor, recoveryCodesRemaining });
+    } catch (e) {
+      console.error("Two-factor status error:", e);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  app.post(api.twoFactor.setup.path, requireBrowserSession, async (req, res) => {
+    try {
+      if (await storage.getTwoFactor(req.user!.id)) {
+        return res.status(400).json({ message: "Two-factor authentication is already on" });
+      }
+      const secret = generateTotpSecret();
+      req.session.pendingTotpSecret = secret;
+      const otpauthUrl = totpUri(secret, req.user!.username);
+      res.json({ secret, otpauthUrl, qrCode: await totpQrCode(otpauthUrl) });
+    } catch (e) {
+      console.error("Two-factor setup error:", e);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post(api.twoFactor.enable.path, requireBrowserSession, async (req, res) => {
+    try {
+      const { code } = api.twoFactor.enable.input.parse(req.body);
+      const secret = req.session.pendingTotpSecret;
+      if (!secret) return res.status(400).json({ message: "Start two-factor setup first" });
+
+      const step = verifyTotp(secret, code);
+      if (step === null) {
+        return res.status(400).json({ message: "That code didn't match. Check your device's clock and try again.", field: "code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.enableTwoFactor(req.user!.id, secret, step, recoveryCodes.map(hashRecoveryCode));
+      delete req.session.pendingTotpSecret;
+      delete req.session.twoFactorSetupRequired;
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "enable_2fa",
+        targetType: "user",
+        targetId: req.user!.id,
+        details: `${req.user!.username} turned on two-factor authentication`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      // The only time the codes are ever shown
+      res.json({ recoveryCodes });
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Enable two-factor error:", e);
+      res.status(500).json({ message: "Failed to turn on two-factor authentication" });
+    }
+  });
+
+  app.post(api.twoFactor.disable.path, requireBrowserSession, async (req, res) => {
+    try {
+      const { password } = api.twoFactor.disable.input.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !(await comparePasswords(password, user.password))) {
+        return res.status(400).json({ message: "Incorrect password", field: "password" });
+      }
+      if ((await storage.getRoleCapabilities(user.role)).requireTwoFactor) {
+        return res.status(400).json({ message: "Your role requires two-factor authentication" });
+      }
+
+      await storage.disableTwoFactor(user.id);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "disable_2fa",
+        targetType: "user",
+        targetId: user.id,
+        details: `${user.username} turned off two-factor authentication`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json({ message: "Two-factor authentication turned off" });
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Disable two-factor error:", e);
+      res.status(500).json({ message: "Failed to turn off two-factor authentication" });
+    }
+  });
+
+  app.get(api.sessions.list.path, requireBrowserSession, async (req, res) => {
+    try {
+      const sessions = await storage.getUserSessions(req.user!.id);
+      res.json(sessions.map(session => toSessionInfo(session, req.sessionID)));
+    } catch (e) {
+      console.error("List sessions error:", e);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete(api.sessions.revokeOthers.path, requireBrowserSession, async (req, res) => {
+    try {
+      const revoked = await storage.deleteUserSessions(req.user!.id, req.sessionID);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "revoke_sessions",
+        targetType: "user",
+        targetId: req.user!.id,
+        details: `${req.user!.username} signed out of ${revoked} other session(s)`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json({ revoked });
+    } catch (e) {
+      console.error("Revoke sessions error:", e);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  app.delete(api.sessions.revoke.path, requireBrowserSession, async (req, res) => {
+    try {
+      const current = await storage.getSession(req.sessionID);
+      if (current?.publicId === req.params.id) {
+        return res.status(400).json({ message: "Sign out to end the session you're using" });
+      }
+
+      const sid = await storage.deleteUserSession(req.user!.id, req.params.id);
+      if (!sid) return res.status(404).json({ message: "Session not found" });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "revoke_session",
+        targetType: "user",
+        targetId: req.user!.id,
+        details: `${req.user!.username} signed out of another session`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.status(204).send();
+    } catch (e) {
+      console.error("Revoke session error:", e);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  app.get(api.apiTokens.list.path, requireBrowserSession, async (req, res) => {
+    try {
+      const tokens = await storage.getUserApiTokens(req.user!.id);
+      res.json(tokens.map(toApiTokenInfo));
+    } catch (e) {
+      console.error("List API tokens error:", e);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post(api.apiTokens.create.path, requireBrowserSession, async (req, res) => {
+    try {
+      if (req.session.twoFactorSetupRequired) {
+        return res.status(403).json({ message: "Set up two-factor authentication to continue" });
+      }
+      const { name, scopes, expiresInDays } = api.apiTokens.create.input.parse(req.body);
+      const { token, tokenHash, prefix } = generateApiToken();
+      const apiToken = await storage.createApiToken({
+        userId: req.user!.id,
+        name,
+        tokenHash,
+        prefix,
+        scopes: Array.from(new Set(scopes)).join(","),
+        expiresAt: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "create_api_token",
+        targetType: "user",
+        targetId: req.user!.id,
+        details: `Created API token "${name}" (${prefix}…) with ${scopes.join(", ")} access${expiresInDays === null ? "" : `, expiring in ${expiresInDays} days`}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.status(201).json({ token, apiToken: toApiTokenInfo(apiToken) });
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Create API token error:", e);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete(api.apiTokens.revoke.path, requireBrowserSession, async (req, res) => {
+    try {
+      const { id: tokenId } = api.apiTokens.revoke.params.parse(req.params);
+      const token = await storage.deleteApiToken(req.user!.id, tokenId);
+      if (!token) return res.status(404).json({ message: "API token not found" });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "revoke_api_token",
+        targetType: "user",
+        targetId: req.user!.id,
+        details: `Revoked API token "${token.name}" (${token.prefix}…)`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.status(204).send();
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Revoke API token error:", e);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+
+  app.post(api.twoFactor.regenerateRecoveryCodes.path, requireBrowserSession, async (req, res) => {
+    try {
+      const { password } = api.twoFactor.regenerateRecoveryCodes.input.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !(await comparePasswords(password, user.password))) {
+        return res.status(400).json({ message: "Incorrect password", field: "password" });
+      }
+      if (!await storage.getTwoFactor(user.id)) {
+        return res.status(400).json({ message: "Two-factor authentication is off" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(user.id, recoveryCodes.map(hashRecoveryCode));
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "regenerate_recovery_codes",
+        targetType: "user",
+        targetId: user.id,
+        details: `${user.username} replaced their recovery codes`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.json({ recoveryCodes });
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Regenerate recovery codes error:", e);
+      res.status(500).json({ message: "Failed to generate recovery codes" });
+    }
+  });
   // === FILE SYSTEM ===
   app.get(api.fs.list.path, requireAuth, async (req, res) => {
     if (!req.user) return res.status(401).json({ message: "Unauthorized" });
-    const folderIdParam = req.query.folderId as string | undefined;
+    const query = api.fs.list.input.safeParse(req.query);
+    if (!query.success) return res.status(400).json({ message: "Invalid folder ID" });
+    const folderIdParam = query.data?.folderId;
     let folderId: number | null = null;
     let breadcrumbs: { id: number, name: string }[] = [];
 
@@ -161,6 +1230,9 @@ export async function registerRoutes(
       if (folderId === 0) {
         folderId = null;
       } else {
+        const canView = await storage.checkAccess(folderId, 'folder', req.user!.id, 'view');
+        if (!canView) return res.status(403).json({ message: "No permission to view this folder" });
+
         // Build breadcrumbs recursively
         let currentId: number | null = folderId;
         const crumbs = [];
@@ -178,141 +1250,14 @@ export async function registerRoutes(
         breadcrumbs.push({ id: 0, name: "My Files" }); // Root
         breadcrumbs.push(...crumbs);
       }
-    } else {
-      breadcrumbs.push({ id: 0, name: "My Files" });
-    }
-
-    let folders = await storage.getFoldersWithPermissions(folderId, req.user!.id);
-    let files = await storage.getFilesWithPermissions(folderId, req.user!.id);
-
-    // Auto-extract ZIP files in this folder
-    const zipFiles = files.filter(f =>
-      f.mimeType === 'application/zip' ||
-      f.mimeType === 'application/x-zip-compressed' ||
-      f.name.toLowerCase().endsWith('.zip')
-    );
-
-    for (const zipFile of zipFiles) {
-      try {
-        // Check if already extracted (by looking for a folder with zip name minus extension)
-        const zipFolderName = zipFile.name.replace(/\.zip$/i, '');
-        const existingFolder = folders.find(f => f.name === zipFolderName);
-
-        if (!existingFolder && fs.existsSync(zipFile.path)) {
-          console.log(`Auto-extracting ZIP: ${zipFile.name}`);
-
-          const zip = new AdmZip(zipFile.path);
-          const zipEntries = zip.getEntries();
-
-          // Create root folder for extracted content
-          const extractedFolder = await storage.createFolder({
-            name: zipFolderName,
-            parentId: folderId,
-            ownerId: req.user!.id
-          });
-
-          // Helper to get or create nested folders
-          const folderCache: Record<string, number> = { "": extractedFolder.id };
-          const getOrCreateFolder = async (pathStr: string): Promise<number> => {
-            if (!pathStr || pathStr === ".") return extractedFolder.id;
-
-            pathStr = pathStr.replace(/\\/g, "/").replace(/\/$/, "");
-            if (folderCache[pathStr]) return folderCache[pathStr];
-
-            const parts = pathStr.split("/");
-            let parentId = extractedFolder.id;
-
-            for (let i = 0; i < parts.length; i++) {
-              const subPath = parts.slice(0, i + 1).join("/");
-              if (folderCache[subPath]) {
-                parentId = folderCache[subPath];
-                continue;
-              }
-
-              const newFolder = await storage.createFolder({
-                name: parts[i],
-                parentId,
-                ownerId: req.user!.id
-              });
-              folderCache[subPath] = newFolder.id;
-              parentId = newFolder.id;
-            }
-            return parentId;
-          };
-
-          // Extract each entry
-          for (const entry of zipEntries) {
-            if (entry.isDirectory) {
-              await getOrCreateFolder(entry.entryName);
-              continue;
-            }
-
-            const relativePath = entry.entryName;
-            const folderPath = path.dirname(relativePath);
-            const targetFolderId = await getOrCreateFolder(folderPath);
-
-            // Extract file to uploads dir
-            const uniqueName = Date.now() + '-' + Math.round(Math.random() * 1E9) + '-' + entry.name;
-            const diskPath = path.join(UPLOADS_DIR, uniqueName);
-            fs.writeFileSync(diskPath, entry.getData());
-
-            // Determine mime type
-            let mimeType = "application/octet-stream";
-            const ext = path.extname(entry.name).toLowerCase();
-            const mimeMap: Record<string, string> = {
-              '.pdf': 'application/pdf',
-              '.doc': 'application/msword',
-              '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-              '.xls': 'application/vnd.ms-excel',
-              '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-              '.png': 'image/png',
-              '.jpg': 'image/jpeg',
-              '.jpeg': 'image/jpeg',
-              '.gif': 'image/gif',
-              '.txt': 'text/plain',
-              '.html': 'text/html',
-              '.css': 'text/css',
-              '.js': 'application/javascript',
-              '.json': 'application/json',
-            };
-            if (mimeMap[ext]) mimeType = mimeMap[ext];
-
-            await storage.createFile({
-              name: entry.name,
-              folderId: targetFolderId,
-              size: entry.header.size,
-              mimeType,
-              path: diskPath,
-              createdBy: req.user!.id,
-            });
-          }
-
-          // Delete the original ZIP file after extraction
-          await storage.permanentDeleteFile(zipFile.id);
-          if (fs.existsSync(zipFile.path)) {
-            fs.unlinkSync(zipFile.path);
-          }
-
-          await storage.createAuditLog({
-            userId: req.user!.id,
-            action: "auto_extract_zip",
-            targetType: "file",
-            targetId: zipFile.id,
-            details: `Auto-extracted ZIP ${zipFile.name} into folder ${zipFolderName}`,
-            ipAddress: req.ip,
-            userAgent: req.get('User-Agent')
-          });
-
-          // Refresh folder and file lists
-          folders = await storage.getFoldersWithPermissions(folderId, req.user!.id);
-          files = await storage.getFilesWithPermissions(folderId, req.user!.id);
-        }
-      } catch (zipErr) {
-        console.error(`Failed to auto-extract ZIP ${zipFile.name}:`, zipErr);
-        // Continue with other files, don't fail the whole request
-      }
+    } else {
+      breadcrumbs.push({ id: 0, name: "My Files" });
     }
 
+    // Listing only reads; archives stay as they are until someone chooses to extract them
+    const folders = await storage.getFoldersWithPermissions(folderId, req.user!.id);
+    const files = await storage.getFilesWithPermissions(folderId, req.user!.id);
+
     // Enrich folders with size (direct children only for now)
     const foldersWithSize = await Promise.all(folders.map(async (f) => {
       const size = await storage.getFolderSize(f.id);
@@ -327,7 +1272,8 @@ export async function registerRoutes(
         targetId: folderId,
         details: `Viewed folder ${folderId ?? "root"}`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
     }
 
@@ -336,7 +1282,13 @@ export async function registerRoutes(
 
   app.post(api.fs.createFolder.path, requireAuth, async (req, res) => {
     try {
-      const data = insertFolderSchema.parse(req.body);
+      const data = api.fs.createFolder.input.parse(req.body);
+
+      if (data.parentId) {
+        const canEdit = await storage.checkAccess(data.parentId, 'folder', req.user!.id, 'edit');
+        if (!canEdit) return res.status(403).json({ message: "No permission to create folders here" });
+      }
+
       const folder = await storage.createFolder({ ...data, ownerId: req.user!.id });
 
       await storage.createAuditLog({
@@ -346,47 +1298,65 @@ export async function registerRoutes(
         targetId: folder.id,
         details: `Created folder ${folder.name}`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      publishFolderChange({ type: 'created', folderIds: [folder.parentId], ownerId: folder.ownerId });
 
       res.status(201).json(folder);
     } catch (e) {
-      res.status(400).json({ message: "Invalid data" });
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Create folder error:", e);
+      res.status(500).json({ message: "Failed to create folder" });
     }
   });
 
   // === FILE UPLOAD (Bulk, Folder, Archive) ===
 
   // 1. Bulk File Upload (Flat)
-  app.post('/api/fs/upload', requireAuth, upload.array('files'), async (req, res) => {
+  app.post(api.fs.upload.path, requireAuth, upload.array(api.fs.upload.multipart.field), async (req, res) => {
     try {
       if (!req.files || (req.files as Express.Multer.File[]).length === 0) {
         return res.status(400).json({ message: "No files uploaded" });
       }
 
-      const folderIdParam = req.body.folderId;
-      const folderId = folderIdParam ? parseInt(folderIdParam) : null;
+      const folderId = api.fs.upload.input.parse(req.body).folderId ?? null;
+
+      const uploadedFiles = req.files as Express.Multer.File[];
 
       // Check permissions if uploading to a folder
       if (folderId !== null) {
         const canEdit = await storage.checkAccess(folderId, 'folder', req.user!.id, 'edit');
-        if (!canEdit) return res.status(403).json({ message: "No permission to upload here" });
+        if (!canEdit) {
+          discardUploads(uploadedFiles);
+          return res.status(403).json({ message: "No permission to upload here" });
+        }
+      }
+
+      const quotaError = await checkUploadSize(req.user!.role, uploadedFiles.map(f => f.size))
+        ?? await checkQuota(req.user!.id, uploadedFiles.reduce((sum, f) => sum + f.size, 0));
+      if (quotaError) {
+        discardUploads(uploadedFiles);
+        return res.status(413).json({ message: quotaError });
       }
 
-      const uploadedFiles = req.files as Express.Multer.File[];
       const results = [];
 
       for (const file of uploadedFiles) {
         const fileData = {
           name: file.originalname,
-          folderId: isNaN(folderId!) ? null : folderId,
+          folderId,
           size: file.size,
           mimeType: file.mimetype,
-          path: file.path,
+          path: await storeFileContent(file.path),
           createdBy: req.user!.id,
         };
 
         const createdFile = await storage.createFile(fileData);
+        processFileContent(createdFile);
+        await storage.recordFileAccess(req.user!.id, createdFile.id, 'upload');
         results.push(createdFile);
       }
 
@@ -397,39 +1367,56 @@ export async function registerRoutes(
         targetId: folderId,
         details: `Uploaded ${results.length} files`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      publishFolderChange({ type: 'created', folderIds: [folderId], ownerId: req.user!.id });
 
       res.status(201).json(results);
     } catch (e) {
+      // Files already stored were moved away; the rest are still staged
+      discardUploads((req.files as Express.Multer.File[] | undefined) ?? []);
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       console.error("Upload error:", e);
       res.status(500).json({ message: "Upload failed" });
     }
   });
 
   // 2. Folder Upload (Recursive)
-  app.post('/api/fs/upload-folder', requireAuth, upload.array('files'), async (req, res) => {
+  app.post(api.fs.uploadFolder.path, requireAuth, upload.array(api.fs.uploadFolder.multipart.field), async (req, res) => {
     try {
       const uploadedFiles = req.files as Express.Multer.File[];
-      const paths = req.body.paths; // Array of paths corresponding to files
-      const rootFolderIdParam = req.body.folderId;
-      const rootFolderId = rootFolderIdParam ? parseInt(rootFolderIdParam) : null;
+      const { folderId, paths: pathsArray } = api.fs.uploadFolder.input.parse(req.body);
+      const rootFolderId = folderId ?? null;
 
       if (rootFolderId !== null) {
         const canEdit = await storage.checkAccess(rootFolderId, 'folder', req.user!.id, 'edit');
-        if (!canEdit) return res.status(403).json({ message: "No permission to upload here" });
+        if (!canEdit) {
+          discardUploads(uploadedFiles ?? []);
+          return res.status(403).json({ message: "No permission to upload here" });
+        }
       }
 
-      // Map paths to files if paths is string (single) or array
-      const pathsArray = Array.isArray(paths) ? paths : [paths];
-
       if (!uploadedFiles || uploadedFiles.length === 0) {
         return res.status(400).json({ message: "No files uploaded" });
       }
+      if (pathsArray.length !== uploadedFiles.length) {
+        discardUploads(uploadedFiles);
+        return res.status(400).json({ message: "Every file needs a path", field: "paths" });
+      }
+
+      const quotaError = await checkUploadSize(req.user!.role, uploadedFiles.map(f => f.size))
+        ?? await checkQuota(req.user!.id, uploadedFiles.reduce((sum, f) => sum + f.size, 0));
+      if (quotaError) {
+        discardUploads(uploadedFiles);
+        return res.status(413).json({ message: quotaError });
+      }
 
       // Helper to find or create folder path
       const folderCache = new Map<string, number | null>(); // path -> folderId
-      folderCache.set("", isNaN(rootFolderId!) ? null : rootFolderId);
+      folderCache.set("", rootFolderId);
 
       const getOrCreateFolder = async (pathStr: string): Promise<number | null> => {
         if (pathStr === "" || pathStr === ".") return folderCache.get("")!;
@@ -465,14 +1452,16 @@ export async function registerRoutes(
 
         const targetFolderId = await getOrCreateFolder(folderPath);
 
-        await storage.createFile({
+        const createdFile = await storage.createFile({
           name: file.originalname, // Name is just filename
           folderId: targetFolderId,
           size: file.size,
           mimeType: file.mimetype,
-          path: file.path,
+          path: await storeFileContent(file.path),
           createdBy: req.user!.id,
         });
+        processFileContent(createdFile);
+        await storage.recordFileAccess(req.user!.id, createdFile.id, 'upload');
       }
 
       await storage.createAuditLog({
@@ -482,27 +1471,36 @@ export async function registerRoutes(
         targetId: rootFolderId,
         details: `Uploaded folder structure with ${uploadedFiles.length} files`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      publishFolderChange({ type: 'created', folderIds: [rootFolderId], ownerId: req.user!.id });
 
       res.status(201).json({ message: "Folder uploaded" });
     } catch (e) {
+      // Files already stored were moved away; the rest are still staged
+      discardUploads((req.files as Express.Multer.File[] | undefined) ?? []);
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       console.error("Folder upload error:", e);
       res.status(500).json({ message: "Folder upload failed" });
     }
   });
 
   // 3. Archive Upload & Extract
-  app.post('/api/fs/upload-archive', requireAuth, upload.single('archive'), async (req, res) => {
+  app.post(api.fs.uploadArchive.path, requireCapability('canUploadArchive'), upload.single(api.fs.uploadArchive.multipart.field), async (req, res) => {
     try {
       if (!req.file) return res.status(400).json({ message: "No archive uploaded" });
 
-      const folderIdParam = req.body.folderId;
-      const rootFolderId = folderIdParam ? parseInt(folderIdParam) : null;
+      const rootFolderId = api.fs.uploadArchive.input.parse(req.body).folderId ?? null;
 
       if (rootFolderId !== null) {
         const canEdit = await storage.checkAccess(rootFolderId, 'folder', req.user!.id, 'edit');
-        if (!canEdit) return res.status(403).json({ message: "No permission to upload here" });
+        if (!canEdit) {
+          discardUploads([req.file]);
+          return res.status(403).json({ message: "No permission to upload here" });
+        }
       }
 
       // Recursive Extraction Function
@@ -597,9 +1595,7 @@ export async function registerRoutes(
           }
 
           // Normal file processing
-          const uniqueName = Date.now() + '-' + Math.round(Math.random() * 1E9) + '-' + fileName;
-          const diskPath = path.join(UPLOADS_DIR, uniqueName);
-          fs.writeFileSync(diskPath, entry.getData());
+          const blobPath = await storeBufferContent(entry.getData());
 
           // Determine mime type (basic)
           let mimeType = "application/octet-stream";
@@ -618,19 +1614,41 @@ export async function registerRoutes(
           };
           if (mimeMap[ext]) mimeType = mimeMap[ext];
 
-          await storage.createFile({
+          const createdFile = await storage.createFile({
             name: fileName,
             folderId: targetFolderId,
             size: entry.header.size,
             mimeType,
-            path: diskPath,
+            path: blobPath,
             createdBy: req.user!.id,
           });
+          processFileContent(createdFile);
+          await storage.recordFileAccess(req.user!.id, createdFile.id, 'upload');
         }
       };
 
+      // What extraction will store: every file, with nested zips counted by
+      // their contents (they are unpacked, not kept)
+      const extractedSize = (zip: AdmZip): number => zip.getEntries().reduce((sum, entry) => {
+        if (entry.isDirectory) return sum;
+        if (path.basename(entry.name).toLowerCase().endsWith('.zip')) {
+          try {
+            return sum + extractedSize(new AdmZip(entry.getData()));
+          } catch {
+            return sum;
+          }
+        }
+        return sum + entry.header.size;
+      }, 0);
+
       // Start processing the uploaded root zip
       const rootZip = new AdmZip(req.file.path);
+      const quotaError = await checkUploadSize(req.user!.role, [req.file.size])
+        ?? await checkQuota(req.user!.id, extractedSize(rootZip));
+      if (quotaError) {
+        discardUploads([req.file]);
+        return res.status(413).json({ message: quotaError });
+      }
       await processZip(rootZip, rootFolderId);
 
       // Cleanup uploaded zip
@@ -643,95 +1661,597 @@ export async function registerRoutes(
         targetId: rootFolderId,
         details: `Uploaded and extracted archive (recursive) ${req.file.originalname}`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      publishFolderChange({ type: 'created', folderIds: [rootFolderId], ownerId: req.user!.id });
 
       res.status(201).json({ message: "Archive extracted recursively" });
     } catch (e) {
+      if (req.file) discardUploads([req.file]);
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       console.error("Archive error:", e);
       res.status(500).json({ message: "Archive processing failed" });
     }
   });
 
-  // === FILE VIEW/DOWNLOAD ===
-  app.get('/api/fs/:fileId/view', requireAuth, async (req, res) => {
+  // 4. Resumable (Chunked) Upload
+  // tus-style protocol: create a session, PATCH chunks at Upload-Offset,
+  // HEAD to ask how many bytes arrived, then complete into a regular file.
+  const getPartialUploadSize = (sessionId: string) => {
+    const partPath = path.join(PARTIAL_UPLOADS_DIR, sessionId);
+    return fs.existsSync(partPath) ? fs.statSync(partPath).size : 0;
+  };
+
+  app.get(api.fs.uploads.path, requireAuth, async (req, res) => {
     try {
-      const fileId = parseInt(req.params.fileId);
-      const file = await storage.getFile(fileId);
+      const sessions = await storage.getUploadSessions(req.user!.id);
+      res.json(sessions.map(session => ({ ...session, offset: getPartialUploadSize(session.id) })));
+    } catch (e) {
+      console.error("List uploads error:", e);
+      res.status(500).json({ message: "Failed to fetch uploads" });
+    }
+  });
 
-      if (!file) {
-        return res.status(404).json({ message: "File not found" });
+  app.post(api.fs.createUpload.path, requireAuth, async (req, res) => {
+    try {
+      const data = api.fs.createUpload.input.parse(req.body);
+      const folderId = data.folderId ?? null;
+
+      if (folderId !== null) {
+        const canEdit = await storage.checkAccess(folderId, 'folder', req.user!.id, 'edit');
+        if (!canEdit) return res.status(403).json({ message: "No permission to upload here" });
       }
 
-      if (!fs.existsSync(file.path)) {
-        return res.status(404).json({ message: "File content not found on server" });
+      // Refuse up front rather than after the last chunk has arrived
+      const quotaError = await checkUploadSize(req.user!.role, [data.size]) ?? await checkQuota(req.user!.id, data.size);
+      if (quotaError) return res.status(413).json({ message: quotaError });
+
+      const id = randomBytes(16).toString("hex");
+      fs.writeFileSync(path.join(PARTIAL_UPLOADS_DIR, id), "");
+
+      const session = await storage.createUploadSession({
+        id,
+        userId: req.user!.id,
+        folderId,
+        fileName: data.name,
+        mimeType: data.mimeType || "application/octet-stream",
+        size: data.size,
+        offset: 0,
+      });
+
+      res.setHeader('Location', `${api.fs.createUpload.path}/${id}`);
+      res.setHeader('Upload-Offset', '0');
+      res.status(201).json(session);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid upload request" });
+      }
+      console.error("Create upload error:", e);
+      res.status(500).json({ message: "Failed to start upload" });
+    }
+  });
+
+  app.head(api.fs.uploadStatus.path, requireAuth, async (req, res) => {
+    const session = await storage.getUploadSession(req.params.id);
+    if (!session || session.userId !== req.user!.id) return res.sendStatus(404);
+
+    res.setHeader('Upload-Offset', String(getPartialUploadSize(session.id)));
+    res.setHeader('Upload-Length', String(session.size));
+    res.setHeader('Cache-Control', 'no-store');
+    res.sendStatus(200);
+  });
+
+  app.patch(api.fs.uploadChunk.path, requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getUploadSession(req.params.id);
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Upload not found" });
       }
 
+      // The bytes on disk are the source of truth - a dropped request may have written part of a chunk
+      const currentOffset = getPartialUploadSize(session.id);
+      const clientOffset = parseInt(req.get('Upload-Offset') || "", 10);
+      if (clientOffset !== currentOffset) {
+        res.setHeader('Upload-Offset', String(currentOffset));
+        return res.status(409).json({ message: "Upload offset mismatch" });
+      }
+
+      // The quota was checked against the declared size, so a chunk has to say
+      // how big it is and may not run past the end
+      const declaredLength = req.get('Content-Length');
+      if (!declaredLength || !/^\d+$/.test(declaredLength) || req.get('Transfer-Encoding')) {
+        return res.status(411).json({ message: "Chunks need a Content-Length" });
+      }
+      const chunkLength = parseInt(declaredLength, 10);
+      if (currentOffset + chunkLength > session.size) {
+        return res.status(413).json({ message: "Chunk exceeds declared upload size" });
+      }
+
+      const partPath = path.join(PARTIAL_UPLOADS_DIR, session.id);
+      let received = 0;
+      let overflowed = false;
+      let interrupted = false;
+      const limit = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          received += chunk.length;
+          if (received > chunkLength) {
+            overflowed = true;
+            return callback(new Error("Chunk longer than its Content-Length"));
+          }
+          callback(null, chunk);
+        },
+      });
+
+      try {
+        await pipe(req, limit, fs.createWriteStream(partPath, { flags: 'a' }));
+      } catch (err) {
+        if (!overflowed) {
+          // Client went away mid-chunk; keep what arrived so it can resume from there
+          interrupted = true;
+          console.warn(`Chunk for upload ${session.id} interrupted`);
+        }
+      }
+
+      // A chunk that isn't the length it claimed is dropped whole
+      if (overflowed || (!interrupted && received !== chunkLength)) {
+        fs.truncateSync(partPath, currentOffset);
+        res.setHeader('Upload-Offset', String(currentOffset));
+        res.setHeader('Connection', 'close');
+        return res.status(overflowed ? 413 : 400).json({ message: "Chunk doesn't match its Content-Length" });
+      }
+
+      const newOffset = getPartialUploadSize(session.id);
+      await storage.updateUploadSessionOffset(session.id, newOffset);
+
+      // A request that has been read to the end counts as destroyed, so ask
+      // whether it broke off rather than checking req.destroyed
+      if (!res.headersSent && !interrupted) {
+        res.setHeader('Upload-Offset', String(newOffset));
+        res.sendStatus(204);
+      }
+    } catch (e) {
+      console.error("Upload chunk error:", e);
+      if (!res.headersSent) res.status(500).json({ message: "Chunk upload failed" });
+    }
+  });
+
+  app.post(api.fs.completeUpload.path, requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getUploadSession(req.params.id);
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      const received = getPartialUploadSize(session.id);
+      if (received !== session.size) {
+        res.setHeader('Upload-Offset', String(received));
+        return res.status(409).json({ message: `Upload incomplete (${received} of ${session.size} bytes)` });
+      }
+
+      // Permissions may have changed while the upload was in flight
+      if (session.folderId !== null) {
+        const canEdit = await storage.checkAccess(session.folderId, 'folder', req.user!.id, 'edit');
+        if (!canEdit) return res.status(403).json({ message: "No permission to upload here" });
+      }
+
+      // Other uploads may have used up the quota meanwhile. The session is kept,
+      // so the upload can still be completed once space is freed.
+      const quotaError = await checkQuota(req.user!.id, session.size);
+      if (quotaError) return res.status(413).json({ message: quotaError });
+
+      const blobPath = await storeFileContent(path.join(PARTIAL_UPLOADS_DIR, session.id));
+
+      const createdFile = await storage.createFile({
+        name: session.fileName,
+        folderId: session.folderId,
+        size: session.size,
+        mimeType: session.mimeType,
+        path: blobPath,
+        createdBy: req.user!.id,
+      });
+      processFileContent(createdFile);
+      await storage.recordFileAccess(req.user!.id, createdFile.id, 'upload');
+      await storage.deleteUploadSession(session.id);
+
       await storage.createAuditLog({
         userId: req.user!.id,
-        action: "view_file",
+        action: "upload_resumable",
         targetType: "file",
-        targetId: file.id,
-        details: `Viewed file ${file.name}`,
+        targetId: createdFile.id,
+        details: `Uploaded ${createdFile.name} (${createdFile.size} bytes, resumable)`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      publishFolderChange({ type: 'created', folderIds: [createdFile.folderId], ownerId: createdFile.createdBy });
+
+      res.status(201).json(createdFile);
+    } catch (e) {
+      console.error("Complete upload error:", e);
+      res.status(500).json({ message: "Failed to finalize upload" });
+    }
+  });
+
+  app.delete(api.fs.cancelUpload.path, requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getUploadSession(req.params.id);
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      const partPath = path.join(PARTIAL_UPLOADS_DIR, session.id);
+      if (fs.existsSync(partPath)) fs.unlinkSync(partPath);
+      await storage.deleteUploadSession(session.id);
+
+      res.sendStatus(204);
+    } catch (e) {
+      console.error("Cancel upload error:", e);
+      res.status(500).json({ message: "Failed to cancel upload" });
+    }
+  });
+
+  // === FILE VIEW/DOWNLOAD ===
+  app.get(api.fs.view.path, requireAuth, async (req, res) => {
+    try {
+      const { fileId } = api.fs.view.params.parse(req.params);
+      const file = await storage.getFile(fileId);
+
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      // View access covers what the preview drawer can show, and the preview is
+      // the whole file: a view-only grantee gets these bytes, just not as a
+      // download. Anything else, and archives (their entries are listed
+      // instead), is a download in all but name.
+      const kind = previewKind(file);
+      const required = kind === 'none' || kind === 'zip' ? 'download' : 'view';
+      const canView = await storage.checkAccess(fileId, 'file', req.user!.id, required);
+      if (!canView) return res.status(403).json({ message: required === 'download' ? "No permission to download" : "No permission to view" });
+
+      if (!await blobStore.exists(file.path)) {
+        return res.status(404).json({ message: "File content not found on server" });
+      }
+
+      // A video seeking fetches many ranges - log the view once
+      if (!isRangeContinuation(req)) {
+        await storage.recordFileAccess(req.user!.id, file.id, 'view');
+        await storage.createAuditLog({
+          userId: req.user!.id,
+          action: "view_file",
+          targetType: "file",
+          targetId: file.id,
+          details: `Viewed file ${file.name}`,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+          ...actingToken(req)
+        });
+      }
 
       // Send file inline for viewing
-      res.setHeader('Content-Type', file.mimeType);
-      res.setHeader('Content-Disposition', `inline; filename="${file.name}"`);
-      fs.createReadStream(file.path).pipe(res);
+      await sendBlob(req, res, {
+        locator: file.path,
+        size: file.size,
+        mimeType: file.mimeType,
+        fileName: file.name,
+        disposition: "inline",
+        lastModified: await contentModifiedAt(file),
+      });
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       console.error("View error:", e);
       res.status(500).json({ message: "View failed" });
     }
   });
 
-  app.get('/api/fs/:fileId/download', requireAuth, async (req, res) => {
+  app.get(api.fs.download.path, requireAuth, async (req, res) => {
     try {
-      const fileId = parseInt(req.params.fileId);
+      const { fileId } = api.fs.download.params.parse(req.params);
       const file = await storage.getFile(fileId);
 
       if (!file) {
         return res.status(404).json({ message: "File not found" });
       }
 
-      // Check if file exists on disk
-      if (!fs.existsSync(file.path)) {
+      // Viewing is not enough - raw bytes as an attachment need download access
+      const canDownload = await storage.checkAccess(fileId, 'file', req.user!.id, 'download');
+      if (!canDownload) return res.status(403).json({ message: "No permission to download" });
+
+      // Check if file content exists in the blob store
+      if (!await blobStore.exists(file.path)) {
+        return res.status(404).json({ message: "File content not found on server" });
+      }
+
+      // Resuming an interrupted download isn't a new download
+      if (!isRangeContinuation(req)) {
+        await storage.recordFileAccess(req.user!.id, file.id, 'download');
+        await storage.createAuditLog({
+          userId: req.user!.id,
+          action: "download",
+          targetType: "file",
+          targetId: file.id,
+          details: `Downloaded file ${file.name}`,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+          ...actingToken(req)
+        });
+      }
+
+      await sendBlob(req, res, {
+        locator: file.path,
+        size: file.size,
+        mimeType: file.mimeType,
+        fileName: file.name,
+        disposition: "attachment",
+        lastModified: await contentModifiedAt(file),
+      });
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Download error:", e);
+      res.status(500).json({ message: "Download failed" });
+    }
+  });
+
+  // Lists an archive's entries for the preview drawer without extracting anything to disk
+  app.get(api.fs.zipEntries.path, requireAuth, async (req, res) => {
+    try {
+      const { id: fileId } = api.fs.zipEntries.params.parse(req.params);
+      const file = await storage.getFile(fileId);
+      if (!file) return res.status(404).json({ message: "File not found" });
+
+      const canView = await storage.checkAccess(fileId, 'file', req.user!.id, 'view');
+      if (!canView) return res.status(403).json({ message: "No permission to view" });
+
+      if (file.size > MAX_ZIP_LISTING_BYTES) {
+        return res.status(413).json({ message: "Archive is too large to preview" });
+      }
+      if (!await blobStore.exists(file.path)) {
         return res.status(404).json({ message: "File content not found on server" });
       }
 
+      let entries: ZipEntry[];
+      try {
+        entries = new AdmZip(await readBlob(blobStore, file.path)).getEntries().map(entry => ({
+          name: entry.entryName,
+          size: entry.header.size,
+          compressedSize: entry.header.compressedSize,
+          isDirectory: entry.isDirectory,
+          modifiedAt: entry.header.time.toISOString(),
+        }));
+      } catch {
+        return res.status(400).json({ message: "Not a valid ZIP archive" });
+      }
+
+      res.json(entries);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Zip entries error:", e);
+      res.status(500).json({ message: "Failed to read archive" });
+    }
+  });
+
+  app.get(api.fs.thumbnail.path, requireAuth, async (req, res) => {
+    try {
+      const { fileId } = api.fs.thumbnail.params.parse(req.params);
+      const file = await storage.getFile(fileId);
+      if (!file) return res.status(404).json({ message: "File not found" });
+
+      const canView = await storage.checkAccess(fileId, 'file', req.user!.id, 'view');
+      if (!canView) return res.status(403).json({ message: "No permission to view" });
+
+      const thumbnail = await storage.getThumbnail(file.path);
+      if (!thumbnail) return res.status(404).json({ message: "No thumbnail for this file" });
+
+      // The thumbnail locator is content-addressed, so it changes exactly when
+      // the file gets new content. Browsers revalidate on every use and get a
+      // 304 until then.
+      const etag = blobETag(thumbnail.path);
+      res.setHeader('Cache-Control', 'private, no-cache');
+      res.setHeader('ETag', etag);
+      if (req.get('If-None-Match') === etag) return res.sendStatus(304);
+
+      res.setHeader('Content-Type', 'image/webp');
+      (await blobStore.createReadStream(thumbnail.path)).pipe(res);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Thumbnail error:", e);
+      res.status(500).json({ message: "Failed to load thumbnail" });
+    }
+  });
+
+  // === FILE VERSIONS ===
+  app.get(api.fs.versions.path, requireAuth, async (req, res) => {
+    try {
+      const { id: fileId } = api.fs.versions.params.parse(req.params);
+      const file = await storage.getFile(fileId);
+      if (!file) return res.status(404).json({ message: "File not found" });
+
+      const canView = await storage.checkAccess(fileId, 'file', req.user!.id, 'view');
+      if (!canView) return res.status(403).json({ message: "No permission to view versions" });
+
+      const versions = await storage.getFileVersions(fileId);
+      res.json(versions);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("List versions error:", e);
+      res.status(500).json({ message: "Failed to fetch versions" });
+    }
+  });
+
+  app.post(api.fs.uploadVersion.path, requireAuth, upload.single(api.fs.uploadVersion.multipart.field), async (req, res) => {
+    try {
+      const { id: fileId } = api.fs.uploadVersion.params.parse(req.params);
+      if (!req.file) return res.status(400).json({ message: "No file uploaded" });
+
+      const canEdit = await storage.checkAccess(fileId, 'file', req.user!.id, 'edit');
+      if (!canEdit) {
+        fs.unlinkSync(req.file.path);
+        return res.status(403).json({ message: "No permission to upload a new version" });
+      }
+
+      const file = await storage.getFile(fileId);
+      if (!file) {
+        fs.unlinkSync(req.file.path);
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      // Every version counts against the file owner's quota, whoever uploads it
+      const quotaError = await checkUploadSize(req.user!.role, [req.file.size])
+        ?? (file.createdBy !== null ? await checkQuota(file.createdBy, req.file.size) : null);
+      if (quotaError) {
+        fs.unlinkSync(req.file.path);
+        return res.status(413).json({ message: quotaError });
+      }
+
+      const version = await storage.addFileVersion(fileId, {
+        size: req.file.size,
+        mimeType: req.file.mimetype,
+        path: await storeFileContent(req.file.path),
+        createdBy: req.user!.id,
+      });
+      if (!version) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      processFileContent((await storage.getFile(fileId))!);
+      await storage.recordFileAccess(req.user!.id, fileId, 'upload');
+
       await storage.createAuditLog({
         userId: req.user!.id,
-        action: "download",
+        action: "upload_version",
         targetType: "file",
-        targetId: file.id,
-        details: `Downloaded file ${file.name}`,
+        targetId: fileId,
+        details: `Uploaded version ${version.versionNumber} (${req.file.originalname})`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      publishFolderChange({ type: 'updated', folderIds: [file.folderId], ownerId: file.createdBy, item: { type: 'file', id: fileId } });
 
-      res.download(file.path, file.name);
+      res.status(201).json(version);
     } catch (e) {
-      console.error("Download error:", e);
+      // Whatever went wrong, the staged upload goes (storing it moves it away first)
+      if (req.file) fs.rmSync(req.file.path, { force: true });
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Upload version error:", e);
+      res.status(500).json({ message: "Upload failed" });
+    }
+  });
+
+  app.get(api.fs.downloadVersion.path, requireAuth, async (req, res) => {
+    try {
+      const { id: fileId, versionId } = api.fs.downloadVersion.params.parse(req.params);
+
+      const canDownload = await storage.checkAccess(fileId, 'file', req.user!.id, 'download');
+      if (!canDownload) return res.status(403).json({ message: "No permission to download" });
+
+      const file = await storage.getFile(fileId);
+      const version = await storage.getFileVersion(fileId, versionId);
+      if (!file || !version) return res.status(404).json({ message: "Version not found" });
+
+      if (!await blobStore.exists(version.path)) {
+        return res.status(404).json({ message: "File content not found on server" });
+      }
+
+      if (!isRangeContinuation(req)) {
+        await storage.createAuditLog({
+          userId: req.user!.id,
+          action: "download_version",
+          targetType: "file",
+          targetId: fileId,
+          details: `Downloaded version ${version.versionNumber} of ${file.name}`,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+          ...actingToken(req)
+        });
+      }
+
+      await sendBlob(req, res, {
+        locator: version.path,
+        size: version.size,
+        mimeType: version.mimeType,
+        fileName: file.name,
+        disposition: "attachment",
+        lastModified: version.createdAt,
+      });
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Download version error:", e);
       res.status(500).json({ message: "Download failed" });
     }
   });
 
+  app.post(api.fs.restoreVersion.path, requireAuth, async (req, res) => {
+    try {
+      const { id: fileId, versionId } = api.fs.restoreVersion.params.parse(req.params);
+
+      const canEdit = await storage.checkAccess(fileId, 'file', req.user!.id, 'edit');
+      if (!canEdit) return res.status(403).json({ message: "No permission to restore versions" });
+
+      const file = await storage.getFile(fileId);
+      const version = await storage.getFileVersion(fileId, versionId);
+      if (!file || !version) return res.status(404).json({ message: "Version not found" });
+
+      // A restore adds a new version, so it counts against the owner's quota like an upload
+      const quotaError = file.createdBy !== null ? await checkQuota(file.createdBy, version.size) : null;
+      if (quotaError) return res.status(413).json({ message: quotaError });
+
+      const updated = await storage.restoreFileVersion(fileId, versionId, req.user!.id);
+      if (!updated) return res.status(404).json({ message: "File not found" });
+      processFileContent(updated);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "restore_version",
+        targetType: "file",
+        targetId: fileId,
+        details: `Restored version ${version.versionNumber} of ${updated.name}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+      publishFolderChange({ type: 'updated', folderIds: [updated.folderId], ownerId: updated.createdBy, item: { type: 'file', id: fileId } });
+
+      res.json(updated);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Restore version error:", e);
+      res.status(500).json({ message: "Restore failed" });
+    }
+  });
+
   // === FILE/FOLDER OPERATIONS (Rename, Move) ===
 
   // Rename File
-  app.patch('/api/fs/files/:id/rename', requireAuth, async (req, res) => {
+  app.patch(api.fs.renameFile.path, requireAuth, async (req, res) => {
     try {
-      const fileId = parseInt(req.params.id);
-      const { name } = req.body;
-      if (!name) return res.status(400).json({ message: "Name is required" });
+      const { id: fileId } = api.fs.renameFile.params.parse(req.params);
+      const { name } = api.fs.renameFile.input.parse(req.body);
 
       const canEdit = await storage.checkAccess(fileId, 'file', req.user!.id, 'edit');
       if (!canEdit) return res.status(403).json({ message: "No permission to rename" });
 
       const updated = await storage.renameFile(fileId, name);
       if (!updated) return res.status(404).json({ message: "File not found" });
+      await storage.recordFileAccess(req.user!.id, fileId, 'rename');
 
       await storage.createAuditLog({
         userId: req.user!.id,
@@ -740,20 +2260,24 @@ export async function registerRoutes(
         targetId: fileId,
         details: `Renamed file to ${name}`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      publishFolderChange({ type: 'renamed', folderIds: [updated.folderId], ownerId: updated.createdBy, item: { type: 'file', id: fileId } });
       res.json(updated);
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: "Name is required", field: "name" });
+      }
       res.status(500).json({ message: "Rename failed" });
     }
   });
 
   // Rename Folder
-  app.patch('/api/fs/folders/:id/rename', requireAuth, async (req, res) => {
+  app.patch(api.fs.renameFolder.path, requireAuth, async (req, res) => {
     try {
-      const folderId = parseInt(req.params.id);
-      const { name } = req.body;
-      if (!name) return res.status(400).json({ message: "Name is required" });
+      const { id: folderId } = api.fs.renameFolder.params.parse(req.params);
+      const { name } = api.fs.renameFolder.input.parse(req.body);
 
       const canEdit = await storage.checkAccess(folderId, 'folder', req.user!.id, 'edit');
       if (!canEdit) return res.status(403).json({ message: "No permission to rename" });
@@ -768,19 +2292,24 @@ export async function registerRoutes(
         targetId: folderId,
         details: `Renamed folder to ${name}`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      publishFolderChange({ type: 'renamed', folderIds: [updated.parentId], ownerId: updated.ownerId, item: { type: 'folder', id: folderId } });
       res.json(updated);
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: "Name is required", field: "name" });
+      }
       res.status(500).json({ message: "Rename failed" });
     }
   });
 
   // Move File
-  app.patch('/api/fs/files/:id/move', requireAuth, async (req, res) => {
+  app.patch(api.fs.moveFile.path, requireAuth, async (req, res) => {
     try {
-      const fileId = parseInt(req.params.id);
-      const { folderId } = req.body; // target folder id (can be null for root)
+      const { id: fileId } = api.fs.moveFile.params.parse(req.params);
+      const { folderId } = api.fs.moveFile.input.parse(req.body); // null moves it to the root
 
       const canEditSource = await storage.checkAccess(fileId, 'file', req.user!.id, 'edit');
       if (!canEditSource) return res.status(403).json({ message: "No permission to move file" });
@@ -790,8 +2319,14 @@ export async function registerRoutes(
         if (!canEditDest) return res.status(403).json({ message: "No permission to move to destination" });
       }
 
+      // Otherwise an editor could move it into a folder of their own and own it
+      if (!await storage.checkAccess(fileId, 'file', req.user!.id, 'owner') && !await storage.moveKeepsOwners(fileId, 'file', folderId)) {
+        return res.status(403).json({ message: "Only an owner can move this out of its owner's folders" });
+      }
+
+      const previous = await storage.getFile(fileId);
       const updated = await storage.moveFile(fileId, folderId);
-      if (!updated) return res.status(404).json({ message: "File not found" });
+      if (!previous || !updated) return res.status(404).json({ message: "File not found" });
 
       await storage.createAuditLog({
         userId: req.user!.id,
@@ -800,19 +2335,24 @@ export async function registerRoutes(
         targetId: fileId,
         details: `Moved file to folder ${folderId ?? "root"}`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      publishFolderChange({ type: 'moved', folderIds: [previous.folderId, updated.folderId], ownerId: updated.createdBy, item: { type: 'file', id: fileId } });
       res.json(updated);
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       res.status(500).json({ message: "Move failed" });
     }
   });
 
   // Move Folder
-  app.patch('/api/fs/folders/:id/move', requireAuth, async (req, res) => {
+  app.patch(api.fs.moveFolder.path, requireAuth, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const { parentId } = req.body; // target parent folder id
+      const { id } = api.fs.moveFolder.params.parse(req.params);
+      const { parentId } = api.fs.moveFolder.input.parse(req.body); // null moves it to the root
 
       const canEditSource = await storage.checkAccess(id, 'folder', req.user!.id, 'edit');
       if (!canEditSource) return res.status(403).json({ message: "No permission to move folder" });
@@ -822,8 +2362,14 @@ export async function registerRoutes(
         if (!canEditDest) return res.status(403).json({ message: "No permission to move to destination" });
       }
 
+      // Otherwise an editor could move it into a folder of their own and own it
+      if (!await storage.checkAccess(id, 'folder', req.user!.id, 'owner') && !await storage.moveKeepsOwners(id, 'folder', parentId)) {
+        return res.status(403).json({ message: "Only an owner can move this out of its owner's folders" });
+      }
+
+      const previous = await storage.getFolder(id);
       const updated = await storage.moveFolder(id, parentId);
-      if (!updated) return res.status(404).json({ message: "Folder not found or invalid move" });
+      if (!previous || !updated) return res.status(404).json({ message: "Folder not found or invalid move" });
 
       await storage.createAuditLog({
         userId: req.user!.id,
@@ -832,17 +2378,55 @@ export async function registerRoutes(
         targetId: id,
         details: `Moved folder to ${parentId ?? "root"}`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      publishFolderChange({ type: 'moved', folderIds: [previous.parentId, updated.parentId], ownerId: updated.ownerId, item: { type: 'folder', id } });
       res.json(updated);
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       res.status(500).json({ message: "Move failed" });
     }
   });
 
-  app.delete('/api/fs/folders/:id', requireAuth, async (req, res) => {
+  // Break / Restore Permission Inheritance
+  app.patch(api.fs.setInheritance.path, requireSharing, async (req, res) => {
+    try {
+      const { id: folderId } = api.fs.setInheritance.params.parse(req.params);
+      const { inheritPermissions } = api.fs.setInheritance.input.parse(req.body);
+
+      const accessLevel = await storage.getEffectiveAccess(folderId, 'folder', req.user!.id);
+      if (accessLevel !== 'owner') return res.status(403).json({ message: "Only owner can change inheritance" });
+
+      const updated = await storage.setFolderInheritance(folderId, inheritPermissions);
+      if (!updated) return res.status(404).json({ message: "Folder not found" });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: inheritPermissions ? "restore_inheritance" : "break_inheritance",
+        targetType: "folder",
+        targetId: folderId,
+        details: inheritPermissions
+          ? `Folder ${folderId} inherits permissions from its parent again`
+          : `Folder ${folderId} no longer inherits permissions from its parent`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+      res.json(updated);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: "inheritPermissions must be a boolean" });
+      }
+      res.status(500).json({ message: "Failed to update inheritance" });
+    }
+  });
+
+  app.delete(api.fs.deleteFolder.path, requireAuth, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
+      const { id } = api.fs.deleteFolder.params.parse(req.params);
       const folder = await storage.getFolder(id);
       if (!folder) return res.status(404).json({ message: "Folder not found" });
 
@@ -856,8 +2440,10 @@ export async function registerRoutes(
           targetId: id,
           details: `Deleted folder ${id}`,
           ipAddress: req.ip,
-          userAgent: req.get('User-Agent')
+          userAgent: req.get('User-Agent'),
+          ...actingToken(req)
         });
+        publishFolderChange({ type: 'deleted', folderIds: [folder.parentId], ownerId: folder.ownerId, item: { type: 'folder', id } });
       } else {
         // Not Owner - Unshare if edit
         const canEdit = await storage.checkAccess(id, 'folder', req.user!.id, 'edit');
@@ -871,20 +2457,25 @@ export async function registerRoutes(
           targetId: id,
           details: `Removed self from folder share ${id}`,
           ipAddress: req.ip,
-          userAgent: req.get('User-Agent')
+          userAgent: req.get('User-Agent'),
+          ...actingToken(req)
         });
+        publishFolderChange({ type: 'unshared', folderIds: [], ownerId: folder.ownerId, grants: [{ userId: req.user!.id, groupId: null }] });
       }
       res.sendStatus(204);
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       console.error("Delete folder error:", e);
       res.status(500).json({ message: "Delete failed" });
     }
   });
 
   // === DOWNLOAD AS ZIP ===
-  app.get('/api/fs/folders/:id/download', requireAuth, async (req, res) => {
+  app.get(api.fs.downloadFolder.path, requireAuth, async (req, res) => {
     try {
-      const folderId = parseInt(req.params.id);
+      const { id: folderId } = api.fs.downloadFolder.params.parse(req.params);
       const canDownload = await storage.checkAccess(folderId, 'folder', req.user!.id, 'download');
       if (!canDownload) return res.status(403).json({ message: "No permission to download" });
 
@@ -905,12 +2496,15 @@ export async function registerRoutes(
         const files = await storage.getFiles(currentFolderId, req.user!.id);
 
         for (const file of files) {
-          if (fs.existsSync(file.path)) {
-            archive.file(file.path, { name: path.join(archivePath, file.name) });
+          if (await blobStore.exists(file.path)) {
+            archive.append(await blobStore.createReadStream(file.path), { name: path.join(archivePath, file.name) });
           }
         }
 
         for (const subFolder of subFolders) {
+          // Subfolders that break inheritance may be off limits even though the parent is not
+          const canDownload = await storage.checkAccess(subFolder.id, 'folder', req.user!.id, 'download');
+          if (!canDownload) continue;
           await addFolderToArchive(subFolder.id, path.join(archivePath, subFolder.name));
         }
       };
@@ -925,10 +2519,14 @@ export async function registerRoutes(
         targetId: folderId,
         details: `Downloaded folder ${folder.name} as zip`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
 
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       console.error("Zip generation failed:", e);
       if (!res.headersSent) {
         res.status(500).json({ message: "Failed to generate zip" });
@@ -937,10 +2535,9 @@ export async function registerRoutes(
   });
 
   // === BULK DOWNLOAD (Multiple files and folders) ===
-  app.get('/api/fs/bulk-download', requireAuth, async (req, res) => {
+  app.get(api.fs.bulkDownload.path, requireAuth, async (req, res) => {
     try {
-      const fileIds = (req.query.fileIds as string[] || []).map(id => parseInt(id)).filter(id => !isNaN(id));
-      const folderIds = (req.query.folderIds as string[] || []).map(id => parseInt(id)).filter(id => !isNaN(id));
+      const { fileIds, folderIds } = api.fs.bulkDownload.input.parse(req.query);
 
       if (fileIds.length === 0 && folderIds.length === 0) {
         return res.status(400).json({ message: "No items specified for download" });
@@ -960,8 +2557,8 @@ export async function registerRoutes(
         if (!canDownload) continue; // Skip forbidden items
 
         const file = await storage.getFile(fileId);
-        if (file && fs.existsSync(file.path)) {
-          archive.file(file.path, { name: file.name });
+        if (file && await blobStore.exists(file.path)) {
+          archive.append(await blobStore.createReadStream(file.path), { name: file.name });
         }
       }
 
@@ -971,12 +2568,15 @@ export async function registerRoutes(
         const files = await storage.getFiles(currentFolderId, req.user!.id);
 
         for (const file of files) {
-          if (fs.existsSync(file.path)) {
-            archive.file(file.path, { name: path.join(archivePath, file.name) });
+          if (await blobStore.exists(file.path)) {
+            archive.append(await blobStore.createReadStream(file.path), { name: path.join(archivePath, file.name) });
           }
         }
 
         for (const subFolder of subFolders) {
+          // Subfolders that break inheritance may be off limits even though the parent is not
+          const canDownload = await storage.checkAccess(subFolder.id, 'folder', req.user!.id, 'download');
+          if (!canDownload) continue;
           await addFolderToArchive(subFolder.id, path.join(archivePath, subFolder.name));
         }
       };
@@ -1001,10 +2601,14 @@ export async function registerRoutes(
         targetType: "file",
         details: `Bulk downloaded ${fileIds.length} files and ${folderIds.length} folders`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
 
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: "fileIds and folderIds must be numbers" });
+      }
       console.error("Bulk download failed:", e);
       if (!res.headersSent) {
         res.status(500).json({ message: "Failed to create bulk download" });
@@ -1014,21 +2618,48 @@ export async function registerRoutes(
 
   // === FILE OPERATIONS - ADDITIONAL ===
   app.get(api.fs.recent.path, requireAuth, async (req, res) => {
-    const files = await storage.getRecentFiles(req.user!.id);
-    await storage.createAuditLog({
-      userId: req.user!.id,
-      action: "view_recent",
-      targetType: "folder",
-      details: "Viewed recent files",
-      ipAddress: req.ip,
-      userAgent: req.get('User-Agent')
-    });
-    res.json(files);
+    try {
+      const page = api.fs.recent.input.parse(req.query);
+      const recent = await storage.getRecentFiles(req.user!.id, page);
+      if (page.offset === 0) {
+        await storage.createAuditLog({
+          userId: req.user!.id,
+          action: "view_recent",
+          targetType: "folder",
+          details: "Viewed recent files",
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+          ...actingToken(req)
+        });
+      }
+      res.json(recent);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Recent files error:", e);
+      res.status(500).json({ message: "Failed to fetch recent files" });
+    }
   });
 
   app.get(api.fs.starred.path, requireAuth, async (req, res) => {
     const files = await storage.getStarredFiles(req.user!.id);
-    res.json(files);
+    const folders = await storage.getStarredFolders(req.user!.id);
+    res.json({ files, folders });
+  });
+
+  app.get(api.fs.search.path, requireAuth, async (req, res) => {
+    try {
+      const query = api.fs.search.input.parse(req.query);
+      const results = await storage.search(req.user!.id, query);
+      res.json(results);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Search error:", e);
+      res.status(500).json({ message: "Search failed" });
+    }
   });
 
   app.get(api.fs.trash.path, requireAuth, async (req, res) => {
@@ -1046,20 +2677,45 @@ export async function registerRoutes(
 
   app.patch(api.fs.toggleStar.path, requireAuth, async (req, res) => {
     try {
-      const fileId = parseInt(req.params.fileId);
-      const file = await storage.toggleStar(fileId);
-      if (!file) {
-        return res.status(404).json({ message: "File not found" });
+      const { fileId } = api.fs.toggleStar.params.parse(req.params);
+      const file = await storage.getFile(fileId);
+      if (!file) return res.status(404).json({ message: "File not found" });
+
+      const canView = await storage.checkAccess(fileId, 'file', req.user!.id, 'view');
+      if (!canView) return res.status(403).json({ message: "No permission" });
+
+      const starred = await storage.toggleStar(fileId, 'file', req.user!.id);
+      res.json({ starred });
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
       }
-      res.json(file);
+      res.status(400).json({ message: "Invalid request" });
+    }
+  });
+
+  app.patch(api.fs.toggleFolderStar.path, requireAuth, async (req, res) => {
+    try {
+      const { id: folderId } = api.fs.toggleFolderStar.params.parse(req.params);
+      const folder = await storage.getFolder(folderId);
+      if (!folder) return res.status(404).json({ message: "Folder not found" });
+
+      const canView = await storage.checkAccess(folderId, 'folder', req.user!.id, 'view');
+      if (!canView) return res.status(403).json({ message: "No permission" });
+
+      const starred = await storage.toggleStar(folderId, 'folder', req.user!.id);
+      res.json({ starred });
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       res.status(400).json({ message: "Invalid request" });
     }
   });
 
   app.delete(api.fs.delete.path, requireAuth, async (req, res) => {
     try {
-      const fileId = parseInt(req.params.fileId);
+      const { fileId } = api.fs.delete.params.parse(req.params);
       const file = await storage.getFile(fileId);
       if (!file) return res.status(404).json({ message: "File not found" });
 
@@ -1073,8 +2729,10 @@ export async function registerRoutes(
           targetId: fileId,
           details: `Deleted file ${fileId} (moved to trash)`,
           ipAddress: req.ip,
-          userAgent: req.get('User-Agent')
+          userAgent: req.get('User-Agent'),
+          ...actingToken(req)
         });
+        publishFolderChange({ type: 'deleted', folderIds: [file.folderId], ownerId: file.createdBy, item: { type: 'file', id: fileId } });
       } else {
         // Not Owner - Check if has Edit permission to "Unshare"
         const canEdit = await storage.checkAccess(fileId, 'file', req.user!.id, 'edit');
@@ -1089,11 +2747,16 @@ export async function registerRoutes(
           targetId: fileId,
           details: `Removed self from file share ${fileId}`,
           ipAddress: req.ip,
-          userAgent: req.get('User-Agent')
+          userAgent: req.get('User-Agent'),
+          ...actingToken(req)
         });
+        publishFolderChange({ type: 'unshared', folderIds: [], ownerId: file.createdBy, grants: [{ userId: req.user!.id, groupId: null }] });
       }
       res.sendStatus(204);
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       res.status(400).json({ message: "Invalid request" });
     }
   });
@@ -1103,12 +2766,12 @@ export async function registerRoutes(
   // If I unshare, the row is gone from permissions. It is NOT in files table as deleted.
   // So it won't show in my trash. That's correct.
 
-  app.post('/api/fs/:fileId/restore', requireAuth, async (req, res) => {
+  app.post(api.fs.restore.path, requireAuth, async (req, res) => {
     // ... (Keep existing logic, but maybe add ownership check?)
     // For now, let's leave restore as is, it updates 'isDeleted'. 
     // Only owner can soft-delete, so only owner can restore.
     try {
-      const fileId = parseInt(req.params.fileId);
+      const { fileId } = api.fs.restore.params.parse(req.params);
       const file = await storage.getFile(fileId);
       if (!file) return res.status(404).json({ message: "File not found" });
       if (file.createdBy !== req.user!.id) return res.status(403).json({ message: "Only owner can restore" });
@@ -1121,19 +2784,23 @@ export async function registerRoutes(
         targetId: fileId,
         details: `Restored file ${fileId} from trash`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      publishFolderChange({ type: 'restored', folderIds: [file.folderId], ownerId: file.createdBy, item: { type: 'file', id: fileId } });
       res.sendStatus(200);
     } catch (e) { res.status(400).json({ message: "Invalid request" }); }
   });
 
-  app.post('/api/fs/folders/:id/restore', requireAuth, async (req, res) => {
+  app.post(api.fs.restoreFolder.path, requireAuth, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const canEdit = await storage.checkAccess(id, 'folder', req.user!.id, 'edit');
+      const { id } = api.fs.restoreFolder.params.parse(req.params);
       // Even if it's trash, check if we own it or have edit rights
+      const canEdit = await storage.checkAccess(id, 'folder', req.user!.id, 'edit');
+      if (!canEdit) return res.status(403).json({ message: "No permission to restore" });
 
       await storage.restoreFolder(id);
+      const folder = await storage.getFolder(id);
       await storage.createAuditLog({
         userId: req.user!.id,
         action: "restore_folder",
@@ -1141,29 +2808,37 @@ export async function registerRoutes(
         targetId: id,
         details: `Restored folder ${id} from trash`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      if (folder) {
+        publishFolderChange({ type: 'restored', folderIds: [folder.parentId], ownerId: folder.ownerId, item: { type: 'folder', id } });
+      }
       res.sendStatus(200);
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       res.status(500).json({ message: "Restore failed" });
     }
   });
 
-  app.delete('/api/fs/:fileId/permanent', requireAuth, async (req, res) => {
+  app.delete(api.fs.permanentDelete.path, requireAuth, async (req, res) => {
     try {
-      const fileId = parseInt(req.params.fileId);
-      // Get file info first to delete from disk
-      const file = await storage.getFile(fileId);
+      const { fileId } = api.fs.permanentDelete.params.parse(req.params);
+      const isOwner = await storage.checkAccess(fileId, 'file', req.user!.id, 'owner');
+      if (!isOwner) return res.status(403).json({ message: "Only owner can delete permanently" });
 
-      if (file && fs.existsSync(file.path)) {
+      // Remove from DB, then delete the current content and every older version from the blob store
+      const blobPaths = await storage.permanentDeleteFile(fileId);
+      for (const blobPath of blobPaths) {
         try {
-          fs.unlinkSync(file.path);
+          await blobStore.delete(blobPath);
         } catch (err) {
-          console.error("Error deleting file from disk:", err);
+          console.error("Error deleting file from blob store:", err);
         }
       }
 
-      await storage.permanentDeleteFile(fileId);
       await storage.createAuditLog({
         userId: req.user!.id,
         action: "permanent_delete_file",
@@ -1171,31 +2846,38 @@ export async function registerRoutes(
         targetId: fileId,
         details: `Permanently deleted file ${fileId}`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
       res.sendStatus(204);
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       res.status(400).json({ message: "Invalid request" });
     }
   });
 
-  app.delete('/api/fs/folders/:id/permanent', requireAuth, async (req, res) => {
+  app.delete(api.fs.permanentDeleteFolder.path, requireAuth, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const canEdit = await storage.checkAccess(id, 'folder', req.user!.id, 'edit');
-      if (!canEdit) return res.status(403).json({ message: "No permission to delete" });
+      const { id } = api.fs.permanentDeleteFolder.params.parse(req.params);
+      const isOwner = await storage.checkAccess(id, 'folder', req.user!.id, 'owner');
+      if (!isOwner) return res.status(403).json({ message: "Only owner can delete permanently" });
+
+      // Only from the trash; a live folder has to be deleted first
+      const folder = await storage.getFolder(id);
+      if (!folder) return res.status(404).json({ message: "Folder not found" });
+      if (!folder.isDeleted) return res.status(400).json({ message: "Only folders in the trash can be deleted permanently" });
 
       // Recursively delete from DB and get all deleted files
-      const deletedFiles = await storage.permanentDeleteFolder(id);
+      const { files: deletedFiles, blobPaths } = await storage.permanentDeleteFolder(id);
 
-      // Delete from disk
-      for (const file of deletedFiles) {
-        if (file.path && fs.existsSync(file.path)) {
-          try {
-            fs.unlinkSync(file.path);
-          } catch (err) {
-            console.error(`Failed to delete file from disk: ${file.path}`, err);
-          }
+      // Delete from the blob store (including older versions)
+      for (const blobPath of blobPaths) {
+        try {
+          await blobStore.delete(blobPath);
+        } catch (err) {
+          console.error(`Failed to delete blob: ${blobPath}`, err);
         }
       }
 
@@ -1206,26 +2888,31 @@ export async function registerRoutes(
         targetId: id,
         details: `Permanently deleted folder ${id} and ${deletedFiles.length} files`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
       res.sendStatus(204);
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       console.error("Permanent delete folder error:", e);
       res.status(500).json({ message: "Delete failed" });
     }
   });
 
   app.get(api.fs.storageUsage.path, requireAuth, async (req, res) => {
-    const { used, total } = await storage.calculateStorageUsage();
+    const user = await storage.getUser(req.user!.id);
+    const { logical, physical } = await storage.calculateStorageUsage();
     res.json({
-      used,
-      total,
-      percentage: Math.round((used / total) * 100)
+      ...await storageUsageFor(user!),
+      logical,
+      physical,
     });
   });
 
   // === AUDIT LOGS ===
-  app.get(api.audit.list.path, requireAdmin, async (req, res) => {
+  app.get(api.audit.list.path, requireCapability('canViewAudit'), async (req, res) => {
     const logs = await storage.getAuditLogs();
     res.json(logs);
   });
@@ -1233,9 +2920,12 @@ export async function registerRoutes(
   // === PERMISSIONS ===
 
   // Share (Grant Permission)
-  app.post('/api/fs/share', requireAuth, async (req, res) => {
+  app.post(api.fs.share.path, requireSharing, async (req, res) => {
     try {
-      const { targetId, targetType, userId, accessLevel } = req.body;
+      const { targetId, targetType, userId, groupId, accessLevel } = api.fs.share.input.parse(req.body);
+      if (!userId === !groupId) {
+        return res.status(400).json({ message: "Share with either a user or a group" });
+      }
 
       // Verify ownership
       const hasAccess = await storage.checkAccess(targetId, targetType, req.user!.id, 'edit');
@@ -1252,7 +2942,8 @@ export async function registerRoutes(
       await storage.createPermission({
         fileId: targetType === 'file' ? targetId : null,
         folderId: targetType === 'folder' ? targetId : null,
-        userId,
+        userId: userId ?? null,
+        groupId: groupId ?? null,
         grantedBy: req.user!.id,
         accessLevel
       });
@@ -1262,29 +2953,29 @@ export async function registerRoutes(
         action: "grant_permission",
         targetType,
         targetId,
-        details: `Shared ${targetType} ${targetId} with user ${userId} as ${accessLevel}`,
+        details: `Shared ${targetType} ${targetId} with ${userId ? `user ${userId}` : `group ${groupId}`} as ${accessLevel}`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      publishFolderChange({ type: 'shared', folderIds: [], ownerId: req.user!.id, grants: [{ userId: userId ?? null, groupId: groupId ?? null }] });
 
       res.status(201).json({ message: "Shared successfully" });
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       console.error(e);
       res.status(500).json({ message: "Share failed" });
     }
   });
 
   // Share Multiple Items (Multi-select share)
-  app.post('/api/fs/share-multiple', requireAuth, async (req, res) => {
+  app.post(api.fs.shareMultiple.path, requireSharing, async (req, res) => {
     try {
-      const { items, userId, accessLevel } = req.body as {
-        items: { id: number; type: 'file' | 'folder' }[];
-        userId: number;
-        accessLevel: 'view' | 'edit' | 'download';
-      };
-
-      if (!items || items.length === 0) {
-        return res.status(400).json({ message: "No items to share" });
+      const { items, userId, groupId, accessLevel } = api.fs.shareMultiple.input.parse(req.body);
+      if (!userId === !groupId) {
+        return res.status(400).json({ message: "Share with either a user or a group" });
       }
 
       let sharedCount = 0;
@@ -1310,7 +3001,8 @@ export async function registerRoutes(
           await storage.createPermission({
             fileId: item.type === 'file' ? item.id : null,
             folderId: item.type === 'folder' ? item.id : null,
-            userId,
+            userId: userId ?? null,
+            groupId: groupId ?? null,
             grantedBy: req.user!.id,
             accessLevel
           });
@@ -1325,10 +3017,14 @@ export async function registerRoutes(
         action: "grant_permission_multiple",
         targetType: "multiple",
         targetId: null,
-        details: `Shared ${sharedCount} items with user ${userId} as ${accessLevel}`,
+        details: `Shared ${sharedCount} items with ${userId ? `user ${userId}` : `group ${groupId}`} as ${accessLevel}`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
+      if (sharedCount > 0) {
+        publishFolderChange({ type: 'shared', folderIds: [], ownerId: req.user!.id, grants: [{ userId: userId ?? null, groupId: groupId ?? null }] });
+      }
 
       if (errors.length > 0 && sharedCount === 0) {
         return res.status(403).json({ message: errors.join('; ') });
@@ -1340,15 +3036,19 @@ export async function registerRoutes(
         errors: errors.length > 0 ? errors : undefined
       });
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
       console.error(e);
       res.status(500).json({ message: "Multi-share failed" });
     }
   });
 
   // Get Permissions
-  app.get('/api/fs/:type/:id/permissions', requireAuth, async (req, res) => {
-    const { type, id } = req.params;
-    const targetId = parseInt(id);
+  app.get(api.fs.permissions.path, requireSharing, async (req, res) => {
+    const params = api.fs.permissions.params.safeParse(req.params);
+    if (!params.success) return res.status(400).json({ message: "Invalid ID" });
+    const { type, id: targetId } = params.data;
     const targetType = type === 'files' ? 'file' : 'folder';
 
     // Check if user is owner (only owner sees permissions list)
@@ -1360,18 +3060,24 @@ export async function registerRoutes(
       if (!folder || folder.ownerId !== req.user!.id) return res.status(403).json({ message: "Forbidden" });
     }
 
+    // Grantees are named, nothing more: the full user row includes the password hash
     const perms = await storage.getPermissions(targetId, targetType);
-    res.json(perms);
+    res.json(perms.map(p => ({ ...p, user: p.user && { id: p.user.id, username: p.user.username } })));
   });
 
   // Revoke Permission
-  app.delete('/api/fs/share/:permissionId', requireAuth, async (req, res) => {
+  app.delete(api.fs.unshare.path, requireSharing, async (req, res) => {
     try {
-      const permissionId = parseInt(req.params.permissionId);
-      // Verify the requestor is the one who granted it (or owner)
-      // MVP: Just delete it if it exists and we are the owner of the object.
-      // Ideally we fetch permission, check object owner.
-      // For simplicity, we just delete.
+      const { permissionId } = api.fs.unshare.params.parse(req.params);
+      const permission = await storage.getPermission(permissionId);
+      if (!permission) return res.status(404).json({ message: "Permission not found" });
+
+      // Only the owner of the shared item may revoke access to it
+      const isOwner = permission.fileId
+        ? await storage.checkAccess(permission.fileId, 'file', req.user!.id, 'owner')
+        : await storage.checkAccess(permission.folderId!, 'folder', req.user!.id, 'owner');
+      if (!isOwner) return res.status(403).json({ message: "Only owner can revoke access" });
+
       await storage.deletePermission(permissionId);
 
       await storage.createAuditLog({
@@ -1381,18 +3087,422 @@ export async function registerRoutes(
         targetId: permissionId,
         details: `Revoked permission ${permissionId}`,
         ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+      publishFolderChange({ type: 'unshared', folderIds: [], ownerId: req.user!.id, grants: [permission] });
+
+      res.sendStatus(204);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      res.status(500).json({ message: "Revoke failed" });
+    }
+  });
+
+  // === SHARE LINKS ===
+
+  const toShareLinkInfo = ({ passwordHash, ...link }: ShareLink): ShareLinkInfo => ({
+    ...link,
+    hasPassword: !!passwordHash,
+  });
+
+  const isOwnerOf = async (targetId: number, targetType: 'file' | 'folder', userId: number) => {
+    if (targetType === 'file') {
+      const file = await storage.getFile(targetId);
+      return !!file && file.createdBy === userId;
+    }
+    const folder = await storage.getFolder(targetId);
+    return !!folder && folder.ownerId === userId;
+  };
+
+  // List links (owner only, like the permissions list)
+  app.get(api.shareLinks.list.path, requireSharing, async (req, res) => {
+    const params = api.shareLinks.list.params.safeParse(req.params);
+    if (!params.success) return res.status(400).json({ message: "Invalid ID", field: "id" });
+    const targetId = params.data.id;
+    const targetType = req.params.type === 'files' ? 'file' : 'folder';
+
+    if (!await isOwnerOf(targetId, targetType, req.user!.id)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const links = await storage.getShareLinks(targetId, targetType);
+    res.json(links.map(toShareLinkInfo));
+  });
+
+  app.post(api.shareLinks.create.path, requireCapability('canShareExternally'), async (req, res) => {
+    try {
+      const data = api.shareLinks.create.input.parse(req.body);
+
+      if (!await isOwnerOf(data.targetId, data.targetType, req.user!.id)) {
+        return res.status(403).json({ message: "Only owner can create share links" });
+      }
+
+      const link = await storage.createShareLink({
+        token: randomBytes(24).toString('base64url'),
+        fileId: data.targetType === 'file' ? data.targetId : null,
+        folderId: data.targetType === 'folder' ? data.targetId : null,
+        createdBy: req.user!.id,
+        expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+        passwordHash: data.password ? await hashPassword(data.password) : null,
+        maxDownloads: data.maxDownloads ?? null,
+        viewOnly: data.viewOnly ?? false,
+      });
+
+      const restrictions = [
+        link.expiresAt && `expires ${link.expiresAt.toISOString()}`,
+        link.passwordHash && 'password protected',
+        link.maxDownloads && `max ${link.maxDownloads} downloads`,
+        link.viewOnly && 'view only',
+      ].filter(Boolean);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "create_share_link",
+        targetType: data.targetType,
+        targetId: data.targetId,
+        details: `Created public link ${link.id}${restrictions.length ? ` (${restrictions.join(', ')})` : ''}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      res.status(201).json(toShareLinkInfo(link));
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Create share link error:", e);
+      res.status(500).json({ message: "Failed to create share link" });
+    }
+  });
+
+  app.delete(api.shareLinks.revoke.path, requireSharing, async (req, res) => {
+    try {
+      const { id: linkId } = api.shareLinks.revoke.params.parse(req.params);
+      const link = await storage.getShareLink(linkId);
+      if (!link) return res.status(404).json({ message: "Share link not found" });
+      if (link.createdBy !== req.user!.id) return res.status(403).json({ message: "Only owner can revoke share links" });
+
+      await storage.deleteShareLink(linkId);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "revoke_share_link",
+        targetType: link.fileId ? "file" : "folder",
+        targetId: link.fileId ?? link.folderId,
+        details: `Revoked public link ${linkId}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
       });
 
       res.sendStatus(204);
     } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: e.errors[0].message, field: e.errors[0].path.join('.') });
+      }
+      console.error("Revoke share link error:", e);
       res.status(500).json({ message: "Revoke failed" });
     }
   });
 
+  // === PUBLIC SHARE ACCESS (no login) ===
+
+  // Look up a link and make sure it may still be used. Sends the error response
+  // and returns null when it may not.
+  const resolveShareLink = async (req: any, res: any, { allowLocked = false } = {}): Promise<ShareLink | null> => {
+    const link = await storage.getShareLinkByToken(req.params.token);
+    const target = link?.fileId ? await storage.getFile(link.fileId) : link?.folderId ? await storage.getFolder(link.folderId) : undefined;
+    if (!link || !target || target.isDeleted) {
+      res.status(404).json({ message: "This link does not exist or has been revoked" });
+      return null;
+    }
+    if (link.expiresAt && link.expiresAt.getTime() < Date.now()) {
+      res.status(410).json({ message: "This link has expired" });
+      return null;
+    }
+    const unlocked = !link.passwordHash || (req.session.unlockedShareLinks || []).includes(link.token);
+    if (!unlocked && !allowLocked) {
+      res.status(401).json({ message: "Password required" });
+      return null;
+    }
+    return link;
+  };
+
+  // Is this folder the shared one or inside it? Unlike isFolderWithin, a
+  // trashed folder on the way up cuts off everything below it.
+  const isInSharedFolder = async (folderId: number | null, sharedFolderId: number) => {
+    const visited = new Set<number>();
+    let currentId = folderId;
+    while (currentId !== null && !visited.has(currentId)) {
+      visited.add(currentId);
+      const folder = await storage.getFolder(currentId);
+      if (!folder || folder.isDeleted) return false;
+      if (folder.id === sharedFolderId) return true;
+      currentId = folder.parentId;
+    }
+    return false;
+  };
+
+  // The file a request refers to: the linked file itself, or (for folder links)
+  // a ?fileId= somewhere inside the linked folder
+  const resolveSharedFile = async (link: ShareLink, fileIdParam: unknown) => {
+    if (link.fileId) return await storage.getFile(link.fileId);
+    const file = await storage.getFile(parseInt(String(fileIdParam)));
+    if (!file || file.isDeleted || !await isInSharedFolder(file.folderId, link.folderId!)) return undefined;
+    return file;
+  };
+
+  const toPublicEntry = (file: { id: number; name: string; size: number; mimeType: string }) => ({
+    id: file.id,
+    name: file.name,
+    size: file.size,
+    mimeType: file.mimeType,
+  });
+
+  app.get(api.publicShares.get.path, async (req, res) => {
+    try {
+      const link = await resolveShareLink(req, res, { allowLocked: true });
+      if (!link) return;
+
+      const file = link.fileId ? await storage.getFile(link.fileId) : undefined;
+      const folder = link.folderId ? await storage.getFolder(link.folderId) : undefined;
+      const requiresPassword = !!link.passwordHash && !(req.session.unlockedShareLinks || []).includes(link.token);
+
+      const share: PublicShare = {
+        name: file?.name ?? folder!.name,
+        type: file ? 'file' : 'folder',
+        viewOnly: link.viewOnly,
+        expiresAt: link.expiresAt ? link.expiresAt.toISOString() : null,
+        downloadsRemaining: link.maxDownloads === null ? null : Math.max(link.maxDownloads - link.downloadCount, 0),
+        requiresPassword,
+      };
+
+      if (!requiresPassword) {
+        if (file) {
+          share.file = toPublicEntry(file);
+        } else {
+          const { folderId } = api.publicShares.get.input.parse(req.query) ?? {};
+          const currentId = folderId ? parseInt(folderId) : link.folderId!;
+          if (!await isInSharedFolder(currentId, link.folderId!)) {
+            return res.status(404).json({ message: "Folder not found" });
+          }
+
+          // Breadcrumbs stop at the shared folder - visitors never see above it
+          const breadcrumbs: { id: number; name: string }[] = [];
+          let crumbId: number | null = currentId;
+          while (crumbId !== null) {
+            const crumb = await storage.getFolder(crumbId);
+            if (!crumb) break;
+            breadcrumbs.unshift({ id: crumb.id, name: crumb.name });
+            crumbId = crumb.id === link.folderId ? null : crumb.parentId;
+          }
+
+          const subFolders = await storage.getFolders(currentId, link.createdBy);
+          const folderFiles = await storage.getFiles(currentId, link.createdBy);
+          share.contents = {
+            folders: subFolders.map(f => ({ id: f.id, name: f.name })),
+            files: folderFiles.map(toPublicEntry),
+            breadcrumbs,
+          };
+        }
+      }
+
+      res.json(share);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid folder ID", field: "folderId" });
+      }
+      console.error("Public share error:", e);
+      res.status(500).json({ message: "Failed to open link" });
+    }
+  });
+
+  app.post(api.publicShares.unlock.path, async (req, res) => {
+    try {
+      const link = await resolveShareLink(req, res, { allowLocked: true });
+      if (!link) return;
+
+      const { password } = api.publicShares.unlock.input.parse(req.body);
+
+      // Wrong guesses are held back like sign-ins, per link and per IP
+      const throttle = await checkShareLinkThrottle(link.id, req.ip);
+      if (!throttle.allowed) {
+        res.set("Retry-After", String(throttle.retryAfter));
+        return res.status(429).json({
+          message: `Too many wrong passwords. Try again in ${describeWait(throttle.retryAfter)}.`,
+          retryAfter: throttle.retryAfter,
+        });
+      }
+
+      if (link.passwordHash && !(await comparePasswords(password, link.passwordHash))) {
+        const locked = await recordShareLinkFailure(link.id, req.ip);
+        await storage.createAuditLog({
+          userId: req.user?.id ?? null,
+          action: "share_link_password_failed",
+          targetType: link.fileId ? "file" : "folder",
+          targetId: link.fileId ?? link.folderId,
+          details: `Wrong password for public link ${link.id}`,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+          ...actingToken(req)
+        });
+        const { lockoutMinutes } = await storage.getLoginPolicy();
+        for (const { scope, failures } of locked) {
+          await storage.createAuditLog({
+            userId: req.user?.id ?? null,
+            action: "share_link_locked",
+            targetType: link.fileId ? "file" : "folder",
+            targetId: link.fileId ?? link.folderId,
+            details: scope === "share_link"
+              ? `Password for public link ${link.id} locked for ${lockoutMinutes} min after ${failures} failures`
+              : `Passwords and sign-ins from ${req.ip} locked for ${lockoutMinutes} min after ${failures} failures`,
+            ipAddress: req.ip,
+            userAgent: req.get('User-Agent'),
+            ...actingToken(req)
+          });
+        }
+        return res.status(401).json({ message: "Incorrect password" });
+      }
+
+      if (link.passwordHash) await clearShareLinkFailures(link.id);
+
+      req.session.unlockedShareLinks = [...(req.session.unlockedShareLinks || []), link.token];
+      res.json({ message: "Unlocked" });
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: "Password is required" });
+      }
+      console.error("Unlock share error:", e);
+      res.status(500).json({ message: "Failed to unlock link" });
+    }
+  });
+
+  app.get(api.publicShares.view.path, async (req, res) => {
+    try {
+      const link = await resolveShareLink(req, res);
+      if (!link) return;
+
+      const { fileId } = api.publicShares.view.input.parse(req.query);
+      const file = await resolveSharedFile(link, fileId);
+      if (!file || !await blobStore.exists(file.path)) return res.status(404).json({ message: "File not found" });
+
+      // Only what the preview can show. Anything else is a download, which a
+      // view-only link refuses and every other link counts against its limit.
+      const kind = previewKind(file);
+      if (kind === 'none' || kind === 'zip') {
+        return res.status(403).json({ message: link.viewOnly ? "This link is view only" : "This file can only be downloaded" });
+      }
+
+      if (!isRangeContinuation(req)) {
+        await storage.createAuditLog({
+          userId: req.user?.id ?? null,
+          action: "share_link_view",
+          targetType: "file",
+          targetId: file.id,
+          details: `Viewed ${file.name} via public link ${link.id}`,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+          ...actingToken(req)
+        });
+      }
+
+      await sendBlob(req, res, {
+        locator: file.path,
+        size: file.size,
+        mimeType: file.mimeType,
+        fileName: file.name,
+        disposition: "inline",
+        lastModified: await contentModifiedAt(file),
+      });
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid file ID", field: "fileId" });
+      }
+      console.error("Public view error:", e);
+      res.status(500).json({ message: "Failed to view file" });
+    }
+  });
+
+  app.get(api.publicShares.download.path, async (req, res) => {
+    try {
+      const link = await resolveShareLink(req, res);
+      if (!link) return;
+      if (link.viewOnly) return res.status(403).json({ message: "This link is view only" });
+
+      // A folder link without ?fileId= downloads the whole folder as a zip
+      const { fileId } = api.publicShares.download.input.parse(req.query);
+      const wholeFolder = !!link.folderId && fileId === undefined;
+      const file = wholeFolder ? undefined : await resolveSharedFile(link, fileId);
+      if (!wholeFolder && (!file || !await blobStore.exists(file.path))) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      if (!await storage.consumeShareLinkDownload(link.id)) {
+        return res.status(410).json({ message: "This link has reached its download limit" });
+      }
+
+      const folder = wholeFolder ? await storage.getFolder(link.folderId!) : undefined;
+      await storage.createAuditLog({
+        userId: req.user?.id ?? null,
+        action: "share_link_download",
+        targetType: file ? "file" : "folder",
+        targetId: file ? file.id : link.folderId,
+        details: `Downloaded ${file ? file.name : `${folder!.name}.zip`} via public link ${link.id}`,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        ...actingToken(req)
+      });
+
+      if (file) {
+        // Every response here consumed one download from the link's limit, so
+        // no ranges - otherwise one "download" could be fetched in pieces forever
+        await sendBlob(req, res, {
+          locator: file.path,
+          size: file.size,
+          mimeType: file.mimeType,
+          fileName: file.name,
+          disposition: "attachment",
+          lastModified: await contentModifiedAt(file),
+          allowRanges: false,
+        });
+        return;
+      }
+
+      const archive = archiver('zip', { zlib: { level: 9 } });
+      res.attachment(`${folder!.name}.zip`);
+      archive.pipe(res);
+
+      const addFolderToArchive = async (currentFolderId: number, archivePath: string) => {
+        for (const file of await storage.getFiles(currentFolderId, link.createdBy)) {
+          if (await blobStore.exists(file.path)) {
+            archive.append(await blobStore.createReadStream(file.path), { name: path.join(archivePath, file.name) });
+          }
+        }
+        for (const subFolder of await storage.getFolders(currentFolderId, link.createdBy)) {
+          await addFolderToArchive(subFolder.id, path.join(archivePath, subFolder.name));
+        }
+      };
+
+      await addFolderToArchive(link.folderId!, "");
+      await archive.finalize();
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid file ID", field: "fileId" });
+      }
+      console.error("Public download error:", e);
+      if (!res.headersSent) res.status(500).json({ message: "Download failed" });
+    }
+  });
+
   // Search Users for sharing
-  app.get('/api/users/search', requireAuth, async (req, res) => {
-    const query = req.query.q as string;
+  app.get(api.users.search.path, requireAuth, async (req, res) => {
+    const parsed = api.users.search.input.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ message: "q is required", field: "q" });
+    const query = parsed.data.q;
     if (!query) return res.json([]);
     const allUsers = await storage.getUsers();
     const filtered = allUsers.filter(u =>
@@ -1402,7 +3512,7 @@ export async function registerRoutes(
   });
 
   // Get all available users for sharing (excluding current user)
-  app.get('/api/users/available', requireAuth, async (req, res) => {
+  app.get(api.users.available.path, requireAuth, async (req, res) => {
     try {
       const allUsers = await storage.getUsers();
       console.log('All users from DB:', allUsers.map(u => ({ id: u.id, username: u.username, status: u.status })));
@@ -0,0 +1,115 @@
+import type { Request, Response } from "express";
+import { createHash } from "crypto";
+import { blobStore, type ByteRange } from "./blob-store";
+
+export interface BlobResponse {
+  locator: string;
+  size: number;
+  mimeType: string;
+  fileName: string;
+  disposition: "inline" | "attachment";
+  lastModified?: Date | null;
+  // Partial responses let a client fetch a file piecemeal. Turn them off
+  // where every response has to count as one whole download.
+  allowRanges?: boolean;
+}
+
+// Locators are content-addressed (a new version is a new locator), so the
+// locator itself identifies the bytes. Hashed to keep the header ASCII.
+export function blobETag(locator: string): string {
+  return `"${createHash("sha1").update(locator).digest("base64url")}"`;
+}
+
+// RFC 6266 with an RFC 5987 `filename*` for the exact UTF-8 name, plus a
+// plain ASCII `filename` for clients that don't understand it
+export function contentDisposition(type: "inline" | "attachment", fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  const encoded = encodeURIComponent(fileName)
+    .replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// Inline content is rendered on our own origin. Media and PDFs are shown as
+// they are; anything a browser might run (HTML, SVG, scripts) only as text.
+function inlineContentType(mimeType: string): string {
+  const renderable = /^(image\/(?!svg)|video\/|audio\/)/.test(mimeType) || mimeType === "application/pdf";
+  return renderable ? mimeType : "text/plain; charset=utf-8";
+}
+
+// True for a Range request that doesn't start at the beginning: a video
+// seeking or a download resuming, rather than someone opening the file again
+export function isRangeContinuation(req: Request): boolean {
+  const match = /^bytes=(\d*)-/.exec(req.get("Range") || "");
+  return !!match && match[1] !== "0";
+}
+
+// If-Range: only honour the Range if the client's copy is still current,
+// otherwise it gets the whole (changed) file
+function ifRangeMatches(req: Request, etag: string, lastModified?: Date | null): boolean {
+  const ifRange = req.get("If-Range");
+  if (!ifRange) return true;
+  if (ifRange.includes('"')) return ifRange === etag;
+  const since = Date.parse(ifRange);
+  return !!lastModified && !isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+}
+
+/**
+ * Stream a blob as the response to a GET/HEAD, honouring conditional
+ * (If-None-Match / If-Modified-Since) and Range requests.
+ */
+export async function sendBlob(req: Request, res: Response, blob: BlobResponse): Promise<void> {
+  const etag = blobETag(blob.locator);
+  const allowRanges = blob.allowRanges !== false;
+
+  res.setHeader("Content-Type", blob.disposition === "inline" ? inlineContentType(blob.mimeType) : blob.mimeType);
+  // The type is whatever the uploader's browser said; don't let ours guess a riskier one
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("Content-Disposition", contentDisposition(blob.disposition, blob.fileName));
+  res.setHeader("ETag", etag);
+  if (blob.lastModified) res.setHeader("Last-Modified", blob.lastModified.toUTCString());
+  // Access can be revoked at any time, so shared caches stay out and the
+  // browser revalidates (cheaply, via the ETag) before reusing its copy
+  res.setHeader("Cache-Control", "private, no-cache");
+  res.setHeader("Accept-Ranges", allowRanges ? "bytes" : "none");
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  let range: ByteRange | undefined;
+  if (allowRanges && blob.size > 0 && req.get("Range") && ifRangeMatches(req, etag, blob.lastModified)) {
+    const ranges = req.range(blob.size, { combine: true });
+    if (ranges === -1) {
+      res.setHeader("Content-Range", `bytes */${blob.size}`);
+      res.status(416).end();
+      return;
+    }
+    // Malformed headers are ignored and multipart/byteranges isn't worth
+    // supporting - both just get the whole file
+    if (ranges !== -2 && ranges && ranges.type === "bytes" && ranges.length === 1) {
+      range = { start: ranges[0].start, end: ranges[0].end };
+    }
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${blob.size}`);
+    res.setHeader("Content-Length", range.end - range.start + 1);
+  } else {
+    res.setHeader("Content-Length", blob.size);
+  }
+
+  if (req.method === "HEAD" || blob.size === 0) {
+    res.end();
+    return;
+  }
+
+  const stream = await blobStore.createReadStream(blob.locator, range);
+  // Headers are already out; all we can do is cut the connection short
+  stream.on("error", (err) => {
+    console.error(`Error streaming ${blob.locator}:`, err);
+    res.destroy(err);
+  });
+  stream.pipe(res);
+}
@@ -0,0 +1,74 @@
+import session from "express-session";
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+
+// Sessions without a cookie expiry (browser-session cookies) are still
+// dropped from the table after this long
+const DEFAULT_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+// Every request touches its session; only write "last seen" this often
+const TOUCH_INTERVAL_MS = 60 * 1000;
+const PRUNE_INTERVAL_MS = 15 * 60 * 1000;
+
+type StoredSessionData = session.SessionData & { passport?: { user?: number } };
+
+function expiryOf(data: session.SessionData): Date {
+  const expires = data.cookie?.expires;
+  return expires ? new Date(expires) : new Date(Date.now() + DEFAULT_TTL_MS);
+}
+
+// express-session store backed by the `sessions` table, so sign-ins survive a
+// restart and can be listed and revoked per user
+export class MySqlSessionStore extends session.Store {
+  private lastTouched = new Map<string, number>();
+
+  constructor() {
+    super();
+    const timer = setInterval(() => {
+      const cutoff = Date.now() - TOUCH_INTERVAL_MS;
+      this.lastTouched.forEach((at, sid) => { if (at < cutoff) this.lastTouched.delete(sid); });
+      storage.deleteExpiredSessions().catch(err => console.error("Failed to prune sessions:", err));
+    }, PRUNE_INTERVAL_MS);
+    timer.unref();
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+    storage.getSession(sid)
+      .then(row => callback(null, row ? JSON.parse(row.data) : null))
+      .catch(err => callback(err));
+  }
+
+  set(sid: string, data: session.SessionData, callback?: (err?: any) => void): void {
+    const stored = data as StoredSessionData;
+    this.lastTouched.set(sid, Date.now());
+    storage.saveSession({
+      sid,
+      publicId: randomBytes(16).toString("hex"),
+      userId: stored.passport?.user ?? null,
+      data: JSON.stringify(data),
+      ipAddress: data.ipAddress ?? null,
+      userAgent: data.userAgent?.slice(0, 255) ?? null,
+      expiresAt: expiryOf(data),
+    })
+      .then(() => callback?.())
+      .catch(err => callback?.(err));
+  }
+
+  touch(sid: string, data: session.SessionData, callback?: (err?: any) => void): void {
+    const last = this.lastTouched.get(sid);
+    if (last !== undefined && Date.now() - last < TOUCH_INTERVAL_MS) {
+      callback?.();
+      return;
+    }
+    this.lastTouched.set(sid, Date.now());
+    storage.touchSession(sid, expiryOf(data))
+      .then(() => callback?.())
+      .catch(err => callback?.(err));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    this.lastTouched.delete(sid);
+    storage.deleteSession(sid)
+      .then(() => callback?.())
+      .catch(err => callback?.(err));
+  }
+}
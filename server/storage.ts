@@ -1,10 +1,37 @@
-import { users, userSettings, folders, files, auditLogs, permissions as permissionsTable, type User, type InsertUser, type UserSettings, type InsertUserSettings, type Folder, type InsertFolder, type File, type InsertFile, type AuditLog, type InsertAuditLog, type Permission, type InsertPermission } from "@shared/schema";
+import { users, roleQuotas, roleCapabilities, userTwoFactor, recoveryCodes, userSettings, folders, files, fileVersions, fileContents, blobs, thumbnails, uploadSessions, auditLogs, permissions as permissionsTable, groups, groupMembers, shareLinks, userStars, fileAccess, sessions, loginFailures, loginPolicy, apiTokens, type User, type InsertUser, type RoleQuota, type RoleCapabilities, type UserRole, type UserTwoFactor, type LoginSession, type LoginFailure, type LoginFailureScope, type LoginPolicy, type AccountLockout, type ApiToken, type UserSettings, type InsertUserSettings, type Folder, type InsertFolder, type File, type InsertFile, type FileVersion, type Blob, type InsertBlob, type Thumbnail, type UploadSession, type InsertUploadSession, type AuditLog, type InsertAuditLog, type Permission, type InsertPermission, type Group, type InsertGroup, type GroupWithMembers, type ShareLink, type InsertShareLink, type AccessLevel, type SearchRequest, type SearchType, type SearchResults, type SearchFileResult, type SearchFolderResult, type FileAccessAction, type RecentFile, type RecentFiles, hasAccess, maxAccess, USER_ROLES, ALL_CAPABILITIES, DEFAULT_ROLE_CAPABILITIES, DEFAULT_LOGIN_POLICY } from "@shared/schema";
 import { db } from "./db";
-import { eq, isNull, and, or, inArray } from "drizzle-orm";
+import { eq, ne, isNull, and, or, inArray, desc, asc, sql, count, like, gte, lte, type SQL } from "drizzle-orm";
 
 // Extended types with permission info
-export type FileWithPermission = File & { isOwner: boolean; accessLevel: 'owner' | 'view' | 'download' | 'edit' };
-export type FolderWithPermission = Folder & { isOwner: boolean; accessLevel: 'owner' | 'view' | 'download' | 'edit' };
+export type FileWithPermission = File & { isOwner: boolean; accessLevel: AccessLevel };
+export type FolderWithPermission = Folder & { isOwner: boolean; accessLevel: AccessLevel };
+
+// Only this many matches per kind are returned; access checks run on a larger candidate set
+const SEARCH_RESULT_LIMIT = 100;
+const SEARCH_CANDIDATE_LIMIT = 500;
+
+function escapeLike(term: string) {
+  return term.replace(/[\\%_]/g, ch => `\\${ch}`);
+}
+
+function mimeTypeFilter(type: SearchType): SQL | undefined {
+  switch (type) {
+    case 'pdf': return eq(files.mimeType, 'application/pdf');
+    case 'image': return like(files.mimeType, 'image/%');
+    case 'video': return like(files.mimeType, 'video/%');
+    case 'audio': return like(files.mimeType, 'audio/%');
+    case 'spreadsheet': return or(like(files.mimeType, '%spreadsheet%'), like(files.mimeType, '%excel%'), eq(files.mimeType, 'text/csv'));
+    case 'document': return or(
+      and(like(files.mimeType, 'text/%'), sql`${files.mimeType} <> 'text/csv'`),
+      like(files.mimeType, '%wordprocessing%'),
+      like(files.mimeType, '%msword%'),
+      like(files.mimeType, '%opendocument.text%'),
+      eq(files.mimeType, 'application/rtf'),
+    );
+    case 'archive': return or(like(files.mimeType, '%zip%'), like(files.mimeType, '%tar%'), like(files.mimeType, '%rar%'), like(files.mimeType, '%7z%'));
+    default: return undefined;
+  }
+}
 
 export interface IStorage {
   // Users
@@ -15,6 +42,8 @@ export interface IStorage {
   getUserSettings(userId: number): Promise<UserSettings | undefined>;
   updateUserSettings(userId: number, settings: Partial<InsertUserSettings>): Promise<UserSettings>;
   updateUserPassword(userId: number, hashedPassword: string): Promise<void>;
+  updateUser(userId: number, changes: Partial<Pick<User, 'username' | 'role' | 'status'>>): Promise<User | undefined>;
+  deleteUser(userId: number, transferToId: number): Promise<void>;
 
   // Folders
   getFolder(id: number): Promise<Folder | undefined>;
@@ -23,10 +52,11 @@ export interface IStorage {
   createFolder(folder: InsertFolder): Promise<Folder>;
   renameFolder(folderId: number, newName: string): Promise<Folder | undefined>;
   moveFolder(folderId: number, targetFolderId: number | null): Promise<Folder | undefined>;
+  setFolderInheritance(folderId: number, inheritPermissions: boolean): Promise<Folder | undefined>;
   deleteFolder(folderId: number, userId: number): Promise<void>;
   restoreFolder(folderId: number): Promise<void>;
   restoreFolder(folderId: number): Promise<void>;
-  permanentDeleteFolder(folderId: number): Promise<File[]>;
+  permanentDeleteFolder(folderId: number): Promise<{ files: File[]; blobPaths: string[] }>;
   getFolderSize(folderId: number): Promise<number>;
   getFolderSize(folderId: number): Promise<number>;
 
@@ -35,18 +65,96 @@ export interface IStorage {
   getFiles(folderId: number | null, userId: number): Promise<File[]>;
   getFilesWithPermissions(folderId: number | null, userId: number): Promise<FileWithPermission[]>;
   createFile(file: InsertFile): Promise<File>;
-  getRecentFiles(userId: number): Promise<File[]>;
-  getStarredFiles(userId: number): Promise<File[]>;
+  recordFileAccess(userId: number, fileId: number, action: FileAccessAction): Promise<void>;
+  getRecentFiles(userId: number, page: { limit: number; offset: number }): Promise<RecentFiles>;
+  getStarredFiles(userId: number): Promise<FileWithPermission[]>;
+  getStarredFolders(userId: number): Promise<FolderWithPermission[]>;
   getTrashFiles(userId: number): Promise<File[]>;
   getTrashFolders(userId: number): Promise<Folder[]>;
-  toggleStar(fileId: number): Promise<File | undefined>;
+  toggleStar(targetId: number, targetType: 'file' | 'folder', userId: number): Promise<boolean>;
   deleteFile(fileId: number, userId: number): Promise<void>;
   restoreFile(fileId: number): Promise<void>;
-  permanentDeleteFile(fileId: number): Promise<void>;
+  permanentDeleteFile(fileId: number): Promise<string[]>;
   renameFile(fileId: number, newName: string): Promise<File | undefined>;
   moveFile(fileId: number, targetFolderId: number | null): Promise<File | undefined>;
 
-  calculateStorageUsage(): Promise<{ used: number; total: number }>;
+  // Search
+  setFileContent(fileId: number, content: string | null): Promise<void>;
+  getUnindexedFiles(): Promise<File[]>;
+  search(userId: number, query: SearchRequest): Promise<SearchResults>;
+
+  // File Versions
+  getFileVersions(fileId: number): Promise<FileVersion[]>;
+  getFileVersion(fileId: number, versionId: number): Promise<FileVersion | undefined>;
+  addFileVersion(fileId: number, version: { size: number; mimeType: string; path: string; createdBy: number }): Promise<FileVersion | undefined>;
+  restoreFileVersion(fileId: number, versionId: number, userId: number): Promise<File | undefined>;
+
+  // Resumable Uploads
+  createUploadSession(session: InsertUploadSession): Promise<UploadSession>;
+  getUploadSession(id: string): Promise<UploadSession | undefined>;
+  getUploadSessions(userId: number): Promise<UploadSession[]>;
+  updateUploadSessionOffset(id: string, offset: number): Promise<void>;
+  deleteUploadSession(id: string): Promise<void>;
+
+  // Blob Storage
+  getBlob(hash: string): Promise<Blob | undefined>;
+  createBlob(blob: InsertBlob): Promise<Blob>;
+  listBlobPaths(): Promise<string[]>;
+  replaceBlobPath(oldPath: string, newPath: string): Promise<void>;
+
+  // Thumbnails
+  getThumbnail(blobPath: string): Promise<Thumbnail | undefined>;
+  setThumbnail(blobPath: string, path: string): Promise<void>;
+  getFilesWithoutThumbnails(): Promise<File[]>;
+
+  calculateStorageUsage(): Promise<{ logical: number; physical: number }>;
+
+  // Quotas
+  getUserStorageUsage(userId: number): Promise<number>;
+  getStorageQuota(user: User): Promise<number | null>;
+  updateUserQuota(userId: number, quotaBytes: number | null): Promise<void>;
+  getRoleQuotas(): Promise<RoleQuota[]>;
+  setRoleQuota(role: string, quotaBytes: number | null): Promise<void>;
+
+  // Role capabilities
+  getRoleCapabilities(role: string): Promise<RoleCapabilities>;
+  getAllRoleCapabilities(): Promise<Record<UserRole, RoleCapabilities>>;
+  setRoleCapabilities(role: UserRole, capabilities: RoleCapabilities): Promise<void>;
+
+  // Two-factor authentication
+  getTwoFactor(userId: number): Promise<UserTwoFactor | undefined>;
+  enableTwoFactor(userId: number, secret: string, usedStep: number, codeHashes: string[]): Promise<void>;
+  disableTwoFactor(userId: number): Promise<void>;
+  setTwoFactorLastUsedStep(userId: number, step: number): Promise<void>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countRecoveryCodes(userId: number): Promise<number>;
+
+  // Login sessions
+  getSession(sid: string): Promise<LoginSession | undefined>;
+  saveSession(session: Omit<LoginSession, 'createdAt' | 'lastSeenAt'>): Promise<void>;
+  touchSession(sid: string, expiresAt: Date): Promise<void>;
+  deleteSession(sid: string): Promise<void>;
+  deleteExpiredSessions(): Promise<number>;
+  getUserSessions(userId: number): Promise<LoginSession[]>;
+  deleteUserSession(userId: number, publicId: string): Promise<string | undefined>;
+  deleteUserSessions(userId: number, keepSid?: string): Promise<number>;
+
+  // Sign-in throttling
+  getLoginPolicy(): Promise<LoginPolicy>;
+  setLoginPolicy(policy: LoginPolicy): Promise<void>;
+  getLoginFailures(entries: { scope: LoginFailureScope; key: string }[]): Promise<LoginFailure[]>;
+  recordLoginFailure(scope: LoginFailureScope, key: string, resetBefore: Date): Promise<LoginFailure>;
+  setLoginBlock(id: number, blockedUntil: Date | null, lockedUntil: Date | null): Promise<void>;
+  clearLoginFailures(scope: LoginFailureScope, key: string): Promise<boolean>;
+  getAccountLockouts(): Promise<AccountLockout[]>;
+
+  // API tokens
+  createApiToken(token: Omit<ApiToken, 'id' | 'lastUsedAt' | 'createdAt'>): Promise<ApiToken>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getUserApiTokens(userId: number): Promise<ApiToken[]>;
+  touchApiToken(id: number): Promise<void>;
+  deleteApiToken(userId: number, id: number): Promise<ApiToken | undefined>;
 
   // Audit
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
@@ -54,10 +162,43 @@ export interface IStorage {
 
   // Permissions
   createPermission(perm: InsertPermission): Promise<Permission>;
+  getPermission(id: number): Promise<Permission | undefined>;
   deletePermission(id: number): Promise<void>;
-  getPermissions(targetId: number, targetType: 'file' | 'folder'): Promise<(Permission & { user: User })[]>;
-  checkAccess(targetId: number, targetType: 'file' | 'folder', userId: number, requiredLevel: 'view' | 'download' | 'edit'): Promise<boolean>;
+  getPermissions(targetId: number, targetType: 'file' | 'folder'): Promise<(Permission & { user: User | null; group: Group | null })[]>;
+  checkAccess(targetId: number, targetType: 'file' | 'folder', userId: number, requiredLevel: AccessLevel): Promise<boolean>;
+  getEffectiveAccess(targetId: number, targetType: 'file' | 'folder', userId: number): Promise<AccessLevel | null>;
   removePermission(targetId: number, targetType: 'file' | 'folder', userId: number): Promise<boolean>;
+  isFolderWithin(folderId: number | null, ancestorId: number): Promise<boolean>;
+  moveKeepsOwners(targetId: number, targetType: 'file' | 'folder', targetFolderId: number | null): Promise<boolean>;
+
+  // Groups
+  getGroups(): Promise<GroupWithMembers[]>;
+  getGroup(id: number): Promise<Group | undefined>;
+  createGroup(group: InsertGroup & { createdBy: number }): Promise<Group>;
+  updateGroup(id: number, group: Partial<InsertGroup>): Promise<Group | undefined>;
+  deleteGroup(id: number): Promise<void>;
+  getGroupMembers(groupId: number): Promise<User[]>;
+  addGroupMember(groupId: number, userId: number): Promise<void>;
+  removeGroupMember(groupId: number, userId: number): Promise<void>;
+  getUserGroupIds(userId: number): Promise<number[]>;
+
+  // Share Links
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  getShareLink(id: number): Promise<ShareLink | undefined>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  getShareLinks(targetId: number, targetType: 'file' | 'folder'): Promise<ShareLink[]>;
+  deleteShareLink(id: number): Promise<void>;
+  consumeShareLinkDownload(id: number): Promise<boolean>;
+}
+
+// Superadmins can always do everything, so nobody can lock the system out of
+// its own settings - only whether they need 2FA is configurable. Unknown roles
+// get the least privileged defaults.
+function resolveCapabilities(role: string, row?: typeof roleCapabilities.$inferSelect): RoleCapabilities {
+  if (role === 'superadmin') return { ...ALL_CAPABILITIES, requireTwoFactor: row?.requireTwoFactor ?? false };
+  if (!row) return DEFAULT_ROLE_CAPABILITIES[role as UserRole] ?? DEFAULT_ROLE_CAPABILITIES.employee;
+  const { role: _role, updatedAt: _updatedAt, ...capabilities } = row;
+  return capabilities;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -100,6 +241,36 @@ export class DatabaseStorage implements IStorage {
     await db.update(users).set({ password: hashedPassword }).where(eq(users.id, userId));
   }
 
+  async updateUser(userId: number, changes: Partial<Pick<User, 'username' | 'role' | 'status'>>): Promise<User | undefined> {
+    if (Object.keys(changes).length > 0) {
+      await db.update(users).set(changes).where(eq(users.id, userId));
+    }
+    return this.getUser(userId);
+  }
+
+  // Everything the user owns (trash included) moves to transferToId, along
+  // with the share grants and links they handed out. Grants *to* the user,
+  // their settings and personal state go with the account.
+  async deleteUser(userId: number, transferToId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(files).set({ createdBy: transferToId }).where(eq(files.createdBy, userId));
+      await tx.update(files).set({ deletedBy: transferToId }).where(eq(files.deletedBy, userId));
+      await tx.update(folders).set({ ownerId: transferToId }).where(eq(folders.ownerId, userId));
+      await tx.update(folders).set({ deletedBy: transferToId }).where(eq(folders.deletedBy, userId));
+      await tx.update(fileVersions).set({ createdBy: null }).where(eq(fileVersions.createdBy, userId));
+
+      await tx.update(permissionsTable).set({ grantedBy: transferToId }).where(eq(permissionsTable.grantedBy, userId));
+      await tx.delete(permissionsTable).where(eq(permissionsTable.userId, userId));
+      await tx.update(shareLinks).set({ createdBy: transferToId }).where(eq(shareLinks.createdBy, userId));
+      await tx.update(groups).set({ createdBy: null }).where(eq(groups.createdBy, userId));
+
+      await tx.update(auditLogs).set({ userId: null }).where(eq(auditLogs.userId, userId));
+      await tx.delete(userSettings).where(eq(userSettings.userId, userId));
+      // Stars, recent access, group memberships and upload sessions cascade
+      await tx.delete(users).where(eq(users.id, userId));
+    });
+  }
+
   async getFolder(id: number): Promise<Folder | undefined> {
     const [folder] = await db.select().from(folders).where(eq(folders.id, id));
     return folder;
@@ -109,7 +280,7 @@ export class DatabaseStorage implements IStorage {
     // 1. Get folders shared explicitly with user
     const sharedFolders = await db.select({ folderId: permissionsTable.folderId })
       .from(permissionsTable)
-      .where(and(eq(permissionsTable.userId, userId), isNull(permissionsTable.fileId)));
+      .where(and(await this.granteeFilter(userId), isNull(permissionsTable.fileId)));
 
     const sharedFolderIds = sharedFolders.map(p => p.folderId).filter((id): id is number => id !== null);
 
@@ -136,11 +307,12 @@ export class DatabaseStorage implements IStorage {
       accessLevel: permissionsTable.accessLevel
     })
       .from(permissionsTable)
-      .where(and(eq(permissionsTable.userId, userId), isNull(permissionsTable.fileId)));
+      .where(and(await this.granteeFilter(userId), isNull(permissionsTable.fileId)));
 
-    const permissionMap = new Map<number, string>();
+    // A user can hold several grants on one item (directly and via groups) - keep the highest
+    const permissionMap = new Map<number, AccessLevel>();
     userPermissions.forEach(p => {
-      if (p.folderId) permissionMap.set(p.folderId, p.accessLevel);
+      if (p.folderId) permissionMap.set(p.folderId, maxAccess(permissionMap.get(p.folderId) ?? null, p.accessLevel as AccessLevel)!);
     });
 
     const sharedFolderIds = userPermissions.map(p => p.folderId).filter((id): id is number => id !== null);
@@ -161,15 +333,19 @@ export class DatabaseStorage implements IStorage {
       folderList = await db.select().from(folders).where(and(eq(folders.parentId, parentId), eq(folders.isDeleted, false)));
     }
 
-    // Add permission info to each folder
-    return folderList.map(folder => {
+    // Access granted on the parent (or above) flows down into subfolders unless they break inheritance.
+    // Owning an enclosing folder always carries through.
+    const parentAccess = parentId === null ? null : await this.getEffectiveAccess(parentId, 'folder', userId);
+
+    // Add permission info to each folder. A subfolder that breaks inheritance
+    // and grants the user nothing itself is out of reach, so it isn't listed.
+    return folderList.flatMap(folder => {
       const isOwner = folder.ownerId === userId;
-      const sharedAccessLevel = permissionMap.get(folder.id);
-      const accessLevel: 'owner' | 'view' | 'download' | 'edit' = isOwner
-        ? 'owner'
-        : (sharedAccessLevel as 'view' | 'download' | 'edit') || 'view';
+      const sharedAccessLevel = permissionMap.get(folder.id) ?? null;
+      const inheritedAccessLevel = folder.inheritPermissions || parentAccess === 'owner' ? parentAccess : null;
+      const accessLevel = isOwner ? 'owner' : maxAccess(sharedAccessLevel, inheritedAccessLevel);
 
-      return { ...folder, isOwner, accessLevel };
+      return accessLevel ? [{ ...folder, isOwner, accessLevel }] : [];
     });
   }
 
@@ -187,7 +363,7 @@ export class DatabaseStorage implements IStorage {
   async getFiles(folderId: number | null, userId: number): Promise<File[]> {
     const sharedFiles = await db.select({ fileId: permissionsTable.fileId })
       .from(permissionsTable)
-      .where(and(eq(permissionsTable.userId, userId), isNull(permissionsTable.folderId)));
+      .where(and(await this.granteeFilter(userId), isNull(permissionsTable.folderId)));
 
     const sharedFileIds = sharedFiles.map(p => p.fileId).filter((id): id is number => id !== null);
 
@@ -212,11 +388,12 @@ export class DatabaseStorage implements IStorage {
       accessLevel: permissionsTable.accessLevel
     })
       .from(permissionsTable)
-      .where(and(eq(permissionsTable.userId, userId), isNull(permissionsTable.folderId)));
+      .where(and(await this.granteeFilter(userId), isNull(permissionsTable.folderId)));
 
-    const permissionMap = new Map<number, string>();
+    // A user can hold several grants on one item (directly and via groups) - keep the highest
+    const permissionMap = new Map<number, AccessLevel>();
     userPermissions.forEach(p => {
-      if (p.fileId) permissionMap.set(p.fileId, p.accessLevel);
+      if (p.fileId) permissionMap.set(p.fileId, maxAccess(permissionMap.get(p.fileId) ?? null, p.accessLevel as AccessLevel)!);
     });
 
     const sharedFileIds = userPermissions.map(p => p.fileId).filter((id): id is number => id !== null);
@@ -235,52 +412,75 @@ export class DatabaseStorage implements IStorage {
       fileList = await db.select().from(files).where(and(eq(files.folderId, folderId), eq(files.isDeleted, false)));
     }
 
-    // Add permission info to each file
-    return fileList.map(file => {
+    // Files always inherit whatever access the user has on their folder
+    const folderAccess = folderId === null ? null : await this.getEffectiveAccess(folderId, 'folder', userId);
+
+    // Add permission info to each file, leaving out any the user can't reach
+    return fileList.flatMap(file => {
       const isOwner = file.createdBy === userId;
-      const sharedAccessLevel = permissionMap.get(file.id);
-      const accessLevel: 'owner' | 'view' | 'download' | 'edit' = isOwner
-        ? 'owner'
-        : (sharedAccessLevel as 'view' | 'download' | 'edit') || 'view';
+      const sharedAccessLevel = permissionMap.get(file.id) ?? null;
+      const accessLevel = isOwner ? 'owner' : maxAccess(sharedAccessLevel, folderAccess);
 
-      return { ...file, isOwner, accessLevel };
+      return accessLevel ? [{ ...file, isOwner, accessLevel }] : [];
     });
   }
 
-  async getRecentFiles(userId: number): Promise<File[]> {
-    // Show owned or shared files
-    const sharedFiles = await db.select({ fileId: permissionsTable.fileId })
-      .from(permissionsTable)
-      .where(and(eq(permissionsTable.userId, userId), isNull(permissionsTable.folderId)));
-    const sharedFileIds = sharedFiles.map(p => p.fileId).filter((id): id is number => id !== null);
+  async recordFileAccess(userId: number, fileId: number, action: FileAccessAction): Promise<void> {
+    await db.insert(fileAccess)
+      .values({ userId, fileId, action })
+      .onDuplicateKeyUpdate({ set: { action, accessedAt: new Date() } });
+  }
 
-    const conditions = [
-      and(eq(files.createdBy, userId), eq(files.isDeleted, false))
-    ];
-    if (sharedFileIds.length > 0) {
-      conditions.push(and(inArray(files.id, sharedFileIds), eq(files.isDeleted, false)));
+  // Newest first. Files the user can no longer reach are dropped from the
+  // page, so a page can come back short; nextOffset still moves past them.
+  async getRecentFiles(userId: number, { limit, offset }: { limit: number; offset: number }): Promise<RecentFiles> {
+    const rows = await db.select({ file: files, action: fileAccess.action, accessedAt: fileAccess.accessedAt })
+      .from(fileAccess)
+      .innerJoin(files, eq(fileAccess.fileId, files.id))
+      .where(and(eq(fileAccess.userId, userId), eq(files.isDeleted, false)))
+      .orderBy(desc(fileAccess.accessedAt), desc(fileAccess.id))
+      .limit(limit + 1)
+      .offset(offset);
+
+    const hasMore = rows.length > limit;
+    const result: RecentFile[] = [];
+    for (const { file, action, accessedAt } of rows.slice(0, limit)) {
+      const accessLevel = await this.getEffectiveAccess(file.id, 'file', userId);
+      if (accessLevel) result.push({ ...file, accessLevel, lastAction: action as FileAccessAction, accessedAt });
     }
-
-    return await db.select().from(files)
-      .where(or(...conditions))
-      .orderBy(files.lastAccessedAt)
-      .limit(10);
+    return { files: result, nextOffset: hasMore ? offset + limit : null };
   }
 
-  async getStarredFiles(userId: number): Promise<File[]> {
-    const sharedFiles = await db.select({ fileId: permissionsTable.fileId })
-      .from(permissionsTable)
-      .where(and(eq(permissionsTable.userId, userId), isNull(permissionsTable.folderId)));
-    const sharedFileIds = sharedFiles.map(p => p.fileId).filter((id): id is number => id !== null);
-
-    const conditions = [
-      and(eq(files.createdBy, userId), eq(files.isStarred, true), eq(files.isDeleted, false))
-    ];
-    if (sharedFileIds.length > 0) {
-      conditions.push(and(inArray(files.id, sharedFileIds), eq(files.isStarred, true), eq(files.isDeleted, false)));
+  // Starred items the user can still reach; stars on things they've since
+  // lost access to are kept but not listed
+  async getStarredFiles(userId: number): Promise<FileWithPermission[]> {
+    const starred = await db.select({ file: files })
+      .from(userStars)
+      .innerJoin(files, eq(userStars.fileId, files.id))
+      .where(and(eq(userStars.userId, userId), eq(files.isDeleted, false)))
+      .orderBy(desc(userStars.createdAt));
+
+    const result: FileWithPermission[] = [];
+    for (const { file } of starred) {
+      const accessLevel = await this.getEffectiveAccess(file.id, 'file', userId);
+      if (accessLevel) result.push({ ...file, isOwner: file.createdBy === userId, accessLevel });
     }
+    return result;
+  }
 
-    return await db.select().from(files).where(or(...conditions));
+  async getStarredFolders(userId: number): Promise<FolderWithPermission[]> {
+    const starred = await db.select({ folder: folders })
+      .from(userStars)
+      .innerJoin(folders, eq(userStars.folderId, folders.id))
+      .where(and(eq(userStars.userId, userId), eq(folders.isDeleted, false)))
+      .orderBy(desc(userStars.createdAt));
+
+    const result: FolderWithPermission[] = [];
+    for (const { folder } of starred) {
+      const accessLevel = await this.getEffectiveAccess(folder.id, 'folder', userId);
+      if (accessLevel) result.push({ ...folder, isOwner: folder.ownerId === userId, accessLevel });
+    }
+    return result;
   }
 
   async getTrashFiles(userId: number): Promise<File[]> {
@@ -303,15 +503,21 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
-  async toggleStar(fileId: number): Promise<File | undefined> {
-    const [file] = await db.select().from(files).where(eq(files.id, fileId));
-    if (!file) return undefined;
-
-    await db.update(files)
-      .set({ isStarred: !file.isStarred })
-      .where(eq(files.id, fileId));
+  // Returns whether the item is starred afterwards
+  async toggleStar(targetId: number, targetType: 'file' | 'folder', userId: number): Promise<boolean> {
+    const target = targetType === 'file' ? eq(userStars.fileId, targetId) : eq(userStars.folderId, targetId);
+    const [existing] = await db.select().from(userStars).where(and(eq(userStars.userId, userId), target));
+    if (existing) {
+      await db.delete(userStars).where(eq(userStars.id, existing.id));
+      return false;
+    }
 
-    return (await this.getFile(fileId));
+    await db.insert(userStars).values({
+      userId,
+      fileId: targetType === 'file' ? targetId : null,
+      folderId: targetType === 'folder' ? targetId : null,
+    });
+    return true;
   }
 
   async deleteFile(fileId: number, userId: number): Promise<void> {
@@ -322,8 +528,13 @@ export class DatabaseStorage implements IStorage {
     await db.update(files).set({ isDeleted: false, deletedAt: null, deletedBy: null }).where(eq(files.id, fileId));
   }
 
-  async permanentDeleteFile(fileId: number): Promise<void> {
+  async permanentDeleteFile(fileId: number): Promise<string[]> {
+    // Release every blob (current content + older versions) before the rows go away
+    const file = await this.getFile(fileId);
+    const blobPaths = await this.releaseBlobs(file ? [file] : []);
+
     await db.delete(files).where(eq(files.id, fileId));
+    return blobPaths;
   }
 
   async renameFile(fileId: number, newName: string): Promise<File | undefined> {
@@ -340,6 +551,152 @@ export class DatabaseStorage implements IStorage {
     return (await this.getFile(fileId))!;
   }
 
+  async setFileContent(fileId: number, content: string | null): Promise<void> {
+    if (content === null) {
+      await db.delete(fileContents).where(eq(fileContents.fileId, fileId));
+      return;
+    }
+    await db.insert(fileContents).values({ fileId, content }).onDuplicateKeyUpdate({ set: { content } });
+  }
+
+  async getUnindexedFiles(): Promise<File[]> {
+    const rows = await db.select({ file: files })
+      .from(files)
+      .leftJoin(fileContents, eq(fileContents.fileId, files.id))
+      .where(and(isNull(fileContents.fileId), eq(files.isDeleted, false)));
+    return rows.map(r => r.file);
+  }
+
+  async search(userId: number, query: SearchRequest): Promise<SearchResults> {
+    const pattern = `%${escapeLike(query.q)}%`;
+
+    // Folder paths are resolved in memory from a single pass over the tree. A
+    // null path means the folder sits inside a deleted one and is hidden.
+    const allFolders = await db.select({
+      id: folders.id, name: folders.name, parentId: folders.parentId, isDeleted: folders.isDeleted,
+      ownerId: folders.ownerId, inheritPermissions: folders.inheritPermissions,
+    }).from(folders);
+    const folderById = new Map(allFolders.map(f => [f.id, f]));
+    const pathCache = new Map<number, string | null>();
+    const folderPath = (id: number): string | null => {
+      if (pathCache.has(id)) return pathCache.get(id)!;
+      const names: string[] = [];
+      const visited = new Set<number>();
+      let current = folderById.get(id);
+      let hidden = false;
+      while (current && !visited.has(current.id)) {
+        visited.add(current.id);
+        if (current.isDeleted) hidden = true;
+        names.unshift(current.name);
+        current = current.parentId !== null ? folderById.get(current.parentId) : undefined;
+      }
+      const result = hidden ? null : names.join('/');
+      pathCache.set(id, result);
+      return result;
+    };
+
+    // A query containing a slash ("finance/2024") also matches everything under a folder whose path contains it
+    const term = query.q.toLowerCase();
+    const pathFolderIds = query.q.includes('/')
+      ? allFolders.filter(f => folderPath(f.id)?.toLowerCase().includes(term)).map(f => f.id)
+      : [];
+
+    // Access follows the same rules as getEffectiveAccess, worked out from the
+    // tree above and the user's grants rather than a few queries per candidate
+    const grants = await db.select({ fileId: permissionsTable.fileId, folderId: permissionsTable.folderId, accessLevel: permissionsTable.accessLevel })
+      .from(permissionsTable).where(await this.granteeFilter(userId));
+    const fileGrants = new Map<number, AccessLevel>();
+    const folderGrants = new Map<number, AccessLevel>();
+    for (const p of grants) {
+      if (p.fileId) fileGrants.set(p.fileId, maxAccess(fileGrants.get(p.fileId) ?? null, p.accessLevel as AccessLevel)!);
+      if (p.folderId) folderGrants.set(p.folderId, maxAccess(folderGrants.get(p.folderId) ?? null, p.accessLevel as AccessLevel)!);
+    }
+    const accessCache = new Map<number, AccessLevel | null>();
+    const folderAccess = (id: number | null): AccessLevel | null => {
+      if (id === null) return null;
+      if (accessCache.has(id)) return accessCache.get(id)!;
+      let level: AccessLevel | null = null;
+      let inheriting = true;
+      const visited = new Set<number>();
+      let current = folderById.get(id);
+      while (current && !visited.has(current.id)) {
+        visited.add(current.id);
+        if (current.ownerId === userId) {
+          level = 'owner';
+          break;
+        }
+        if (inheriting) {
+          level = maxAccess(level, folderGrants.get(current.id) ?? null);
+          if (!current.inheritPermissions) inheriting = false;
+        }
+        current = current.parentId !== null ? folderById.get(current.parentId) : undefined;
+      }
+      accessCache.set(id, level);
+      return level;
+    };
+
+    // Folders
+    const folderResults: SearchFolderResult[] = [];
+    const includeFolders = (!query.type || query.type === 'folder') && query.minSize === undefined && query.maxSize === undefined;
+    if (includeFolders) {
+      const candidates = await db.select().from(folders).where(and(
+        eq(folders.isDeleted, false),
+        or(like(folders.name, pattern), pathFolderIds.length > 0 ? inArray(folders.id, pathFolderIds) : undefined),
+        query.ownerId !== undefined ? eq(folders.ownerId, query.ownerId) : undefined,
+        query.from ? gte(folders.createdAt, query.from) : undefined,
+        query.to ? lte(folders.createdAt, query.to) : undefined,
+      )).orderBy(asc(folders.name)).limit(SEARCH_CANDIDATE_LIMIT);
+
+      for (const folder of candidates) {
+        if (folderResults.length >= SEARCH_RESULT_LIMIT) break;
+        const fullPath = folderPath(folder.id);
+        if (fullPath === null) continue;
+        const accessLevel = folderAccess(folder.id);
+        if (!accessLevel) continue;
+        const location = folder.parentId !== null ? folderPath(folder.parentId) ?? '' : '';
+        folderResults.push({ ...folder, accessLevel, location });
+      }
+    }
+
+    // Files - matched on name, extracted text, or folder path
+    const fileResults: SearchFileResult[] = [];
+    if (query.type !== 'folder') {
+      const snippet = sql<string | null>`CASE WHEN LOCATE(${query.q}, ${fileContents.content}) > 0
+        THEN SUBSTRING(${fileContents.content}, GREATEST(LOCATE(${query.q}, ${fileContents.content}) - 60, 1), 200)
+        END`;
+      const candidates = await db.select({ file: files, snippet })
+        .from(files)
+        .leftJoin(fileContents, eq(fileContents.fileId, files.id))
+        .where(and(
+          eq(files.isDeleted, false),
+          or(
+            like(files.name, pattern),
+            like(fileContents.content, pattern),
+            pathFolderIds.length > 0 ? inArray(files.folderId, pathFolderIds) : undefined,
+          ),
+          query.type ? mimeTypeFilter(query.type) : undefined,
+          query.ownerId !== undefined ? eq(files.createdBy, query.ownerId) : undefined,
+          query.from ? gte(files.createdAt, query.from) : undefined,
+          query.to ? lte(files.createdAt, query.to) : undefined,
+          query.minSize !== undefined ? gte(files.size, query.minSize) : undefined,
+          query.maxSize !== undefined ? lte(files.size, query.maxSize) : undefined,
+        ))
+        .orderBy(desc(files.createdAt))
+        .limit(SEARCH_CANDIDATE_LIMIT);
+
+      for (const { file, snippet } of candidates) {
+        if (fileResults.length >= SEARCH_RESULT_LIMIT) break;
+        const location = file.folderId !== null ? folderPath(file.folderId) : '';
+        if (location === null) continue;
+        const accessLevel = file.createdBy === userId ? 'owner' : maxAccess(fileGrants.get(file.id) ?? null, folderAccess(file.folderId));
+        if (!accessLevel) continue;
+        fileResults.push({ ...file, accessLevel, location, snippet });
+      }
+    }
+
+    return { folders: folderResults, files: fileResults };
+  }
+
   async renameFolder(folderId: number, newName: string): Promise<Folder | undefined> {
     const [folder] = await db.select().from(folders).where(eq(folders.id, folderId));
     if (!folder) return undefined;
@@ -348,17 +705,23 @@ export class DatabaseStorage implements IStorage {
   }
 
   async moveFolder(folderId: number, targetFolderId: number | null): Promise<Folder | undefined> {
-    const [folder] = await db.select().from(folders).where(eq(folders.id, folderId));
+    const folder = await this.getFolder(folderId);
     if (!folder) return undefined;
 
     // Prevent moving folder into itself or its children
-    if (folderId === targetFolderId) return undefined;
-    // (A full cycle check would be ideal here but for now simple check)
+    if (targetFolderId !== null && await this.isFolderWithin(targetFolderId, folderId)) return undefined;
 
     await db.update(folders).set({ parentId: targetFolderId }).where(eq(folders.id, folderId));
     return (await this.getFolder(folderId))!;
   }
 
+  async setFolderInheritance(folderId: number, inheritPermissions: boolean): Promise<Folder | undefined> {
+    const folder = await this.getFolder(folderId);
+    if (!folder) return undefined;
+    await db.update(folders).set({ inheritPermissions }).where(eq(folders.id, folderId));
+    return (await this.getFolder(folderId))!;
+  }
+
   async deleteFolder(folderId: number, userId: number): Promise<void> {
     // Soft delete the folder
     await db.update(folders).set({ isDeleted: true, deletedAt: new Date(), deletedBy: userId }).where(eq(folders.id, folderId));
@@ -374,20 +737,23 @@ export class DatabaseStorage implements IStorage {
     await db.update(folders).set({ isDeleted: false, deletedAt: null, deletedBy: null }).where(eq(folders.id, folderId));
   }
 
-  async permanentDeleteFolder(folderId: number): Promise<File[]> {
+  async permanentDeleteFolder(folderId: number): Promise<{ files: File[]; blobPaths: string[] }> {
     const allFiles: File[] = [];
+    const blobPaths: string[] = [];
 
-    // 1. Get direct children files
+    // 1. Get direct children files (and release their version blobs)
     const directFiles = await db.select().from(files).where(eq(files.folderId, folderId));
     allFiles.push(...directFiles);
+    blobPaths.push(...await this.releaseBlobs(directFiles));
 
     // 2. Get direct children folders
     const childFolders = await db.select().from(folders).where(eq(folders.parentId, folderId));
 
     // 3. Recurse
     for (const child of childFolders) {
-      const subFiles = await this.permanentDeleteFolder(child.id);
-      allFiles.push(...subFiles);
+      const sub = await this.permanentDeleteFolder(child.id);
+      allFiles.push(...sub.files);
+      blobPaths.push(...sub.blobPaths);
     }
 
     // 4. Delete files in this folder from DB
@@ -396,7 +762,91 @@ export class DatabaseStorage implements IStorage {
     // 5. Delete this folder
     await db.delete(folders).where(eq(folders.id, folderId));
 
-    return allFiles;
+    return { files: allFiles, blobPaths };
+  }
+
+  // Drop the references held by the given files (about to be deleted) and
+  // return the blobs that nothing points at any more
+  private async releaseBlobs(fileList: File[]): Promise<string[]> {
+    if (fileList.length === 0) return [];
+    const versions = await db.select({ fileId: fileVersions.fileId, path: fileVersions.path })
+      .from(fileVersions)
+      .where(inArray(fileVersions.fileId, fileList.map(f => f.id)));
+
+    // Files from before versioning have no history rows, only their current content
+    const versioned = new Set(versions.map(v => v.fileId));
+    const refs = new Map<string, number>();
+    [...versions, ...fileList.filter(f => !versioned.has(f.id))]
+      .forEach(row => refs.set(row.path, (refs.get(row.path) || 0) + 1));
+
+    const orphaned: string[] = [];
+    for (const [path, count] of Array.from(refs)) {
+      await db.update(blobs).set({ refCount: sql`${blobs.refCount} - ${count}` }).where(eq(blobs.path, path));
+      const [blob] = await db.select().from(blobs).where(eq(blobs.path, path));
+
+      // Blobs stored before deduplication are untracked and belong to a single file
+      if (!blob || blob.refCount <= 0) {
+        if (blob) await db.delete(blobs).where(eq(blobs.hash, blob.hash));
+        orphaned.push(path);
+
+        // Its thumbnail goes with it
+        const [thumbnail] = await db.select().from(thumbnails).where(eq(thumbnails.blobPath, path));
+        if (thumbnail) {
+          await db.delete(thumbnails).where(eq(thumbnails.blobPath, path));
+          orphaned.push(thumbnail.path);
+        }
+      }
+    }
+    return orphaned;
+  }
+
+  private async retainBlob(path: string): Promise<void> {
+    await db.update(blobs).set({ refCount: sql`${blobs.refCount} + 1` }).where(eq(blobs.path, path));
+  }
+
+  // Blob Storage Implementation
+  async getBlob(hash: string): Promise<Blob | undefined> {
+    const [blob] = await db.select().from(blobs).where(eq(blobs.hash, hash));
+    return blob;
+  }
+
+  async createBlob(blob: InsertBlob): Promise<Blob> {
+    // Two uploads of the same new content can race here - the first one wins
+    await db.insert(blobs).values({ ...blob, refCount: 0 }).onDuplicateKeyUpdate({ set: { hash: blob.hash } });
+    return (await this.getBlob(blob.hash))!;
+  }
+
+  async listBlobPaths(): Promise<string[]> {
+    const current = await db.selectDistinct({ path: files.path }).from(files);
+    const versions = await db.selectDistinct({ path: fileVersions.path }).from(fileVersions);
+    const previews = await db.select({ path: thumbnails.path }).from(thumbnails);
+    return Array.from(new Set([...current, ...versions, ...previews].map(row => row.path)));
+  }
+
+  async replaceBlobPath(oldPath: string, newPath: string): Promise<void> {
+    await db.update(files).set({ path: newPath }).where(eq(files.path, oldPath));
+    await db.update(fileVersions).set({ path: newPath }).where(eq(fileVersions.path, oldPath));
+    await db.update(blobs).set({ path: newPath }).where(eq(blobs.path, oldPath));
+    await db.update(thumbnails).set({ blobPath: newPath }).where(eq(thumbnails.blobPath, oldPath));
+    await db.update(thumbnails).set({ path: newPath }).where(eq(thumbnails.path, oldPath));
+  }
+
+  // Thumbnails Implementation
+  async getThumbnail(blobPath: string): Promise<Thumbnail | undefined> {
+    const [thumbnail] = await db.select().from(thumbnails).where(eq(thumbnails.blobPath, blobPath));
+    return thumbnail;
+  }
+
+  async setThumbnail(blobPath: string, path: string): Promise<void> {
+    await db.insert(thumbnails).values({ blobPath, path }).onDuplicateKeyUpdate({ set: { path } });
+  }
+
+  async getFilesWithoutThumbnails(): Promise<File[]> {
+    const rows = await db.select({ file: files })
+      .from(files)
+      .leftJoin(thumbnails, eq(thumbnails.blobPath, files.path))
+      .where(and(isNull(thumbnails.blobPath), eq(files.isDeleted, false)));
+    return rows.map(r => r.file);
   }
 
   async getFolderSize(folderId: number): Promise<number> {
@@ -409,18 +859,379 @@ export class DatabaseStorage implements IStorage {
     return result.reduce((sum, row) => sum + (row.total || 0), 0);
   }
 
-  async calculateStorageUsage(): Promise<{ used: number; total: number }> {
-    const result = await db.select({
-      total: files.size
-    }).from(files).where(eq(files.isDeleted, false));
-    const used = result.reduce((sum, row) => sum + (row.total || 0), 0);
-    return { used, total: 10 * 1024 * 1024 * 1024 }; // 10GB total
+  async calculateStorageUsage(): Promise<{ logical: number; physical: number }> {
+    const current = await db.select({
+      fileId: files.id,
+      path: files.path,
+      size: files.size,
+      isDeleted: files.isDeleted
+    }).from(files);
+
+    const versions = await db.select({
+      fileId: fileVersions.fileId,
+      path: fileVersions.path,
+      size: fileVersions.size,
+      isDeleted: files.isDeleted
+    })
+      .from(fileVersions)
+      .innerJoin(files, eq(fileVersions.fileId, files.id));
+
+    const versioned = new Set(versions.map(v => v.fileId));
+    const refs = [...versions, ...current.filter(f => !versioned.has(f.fileId))];
+
+    // Logical: what users have stored outside the trash, every copy and revision counted
+    const logical = refs.filter(row => !row.isDeleted).reduce((sum, row) => sum + (row.size || 0), 0);
+
+    // Physical: what the blob store actually holds - deduplicated content counts
+    // once, and trashed files still occupy space until permanently deleted
+    const sizes = new Map<string, number>();
+    refs.forEach(row => sizes.set(row.path, row.size || 0));
+    const physical = Array.from(sizes.values()).reduce((sum, size) => sum + size, 0);
+
+    return { logical, physical };
+  }
+
+  // Quotas Implementation
+  async getUserStorageUsage(userId: number): Promise<number> {
+    // A user is charged for every revision of the files they own, trashed or
+    // not, at full size - deduplication is the server's saving, not theirs
+    const [versioned] = await db.select({ total: sql<string>`COALESCE(SUM(${fileVersions.size}), 0)` })
+      .from(fileVersions)
+      .innerJoin(files, eq(fileVersions.fileId, files.id))
+      .where(eq(files.createdBy, userId));
+
+    // Files from before versioning have no history rows, only their current content
+    const [unversioned] = await db.select({ total: sql<string>`COALESCE(SUM(${files.size}), 0)` })
+      .from(files)
+      .leftJoin(fileVersions, eq(fileVersions.fileId, files.id))
+      .where(and(eq(files.createdBy, userId), isNull(fileVersions.id)));
+
+    return Number(versioned.total) + Number(unversioned.total);
+  }
+
+  async getStorageQuota(user: User): Promise<number | null> {
+    if (user.quotaBytes !== null) return user.quotaBytes;
+    const [roleQuota] = await db.select().from(roleQuotas).where(eq(roleQuotas.role, user.role));
+    return roleQuota?.quotaBytes ?? null;
+  }
+
+  async updateUserQuota(userId: number, quotaBytes: number | null): Promise<void> {
+    await db.update(users).set({ quotaBytes }).where(eq(users.id, userId));
+  }
+
+  async getRoleQuotas(): Promise<RoleQuota[]> {
+    return await db.select().from(roleQuotas);
+  }
+
+  async setRoleQuota(role: string, quotaBytes: number | null): Promise<void> {
+    if (quotaBytes === null) {
+      await db.delete(roleQuotas).where(eq(roleQuotas.role, role));
+      return;
+    }
+    await db.insert(roleQuotas).values({ role, quotaBytes }).onDuplicateKeyUpdate({ set: { quotaBytes } });
+  }
+
+  async getRoleCapabilities(role: string): Promise<RoleCapabilities> {
+    const [row] = await db.select().from(roleCapabilities).where(eq(roleCapabilities.role, role));
+    return resolveCapabilities(role, row);
+  }
+
+  async getAllRoleCapabilities(): Promise<Record<UserRole, RoleCapabilities>> {
+    const rows = await db.select().from(roleCapabilities);
+    return Object.fromEntries(
+      USER_ROLES.map(role => [role, resolveCapabilities(role, rows.find(r => r.role === role))])
+    ) as Record<UserRole, RoleCapabilities>;
+  }
+
+  async setRoleCapabilities(role: UserRole, capabilities: RoleCapabilities): Promise<void> {
+    await db.insert(roleCapabilities).values({ role, ...capabilities }).onDuplicateKeyUpdate({ set: capabilities });
+  }
+
+  async getTwoFactor(userId: number): Promise<UserTwoFactor | undefined> {
+    const [twoFactor] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return twoFactor;
+  }
+
+  async enableTwoFactor(userId: number, secret: string, usedStep: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.insert(userTwoFactor).values({ userId, secret, lastUsedStep: usedStep })
+        .onDuplicateKeyUpdate({ set: { secret, lastUsedStep: usedStep, enabledAt: new Date() } });
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  async disableTwoFactor(userId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    });
+  }
+
+  async setTwoFactorLastUsedStep(userId: number, step: number): Promise<void> {
+    await db.update(userTwoFactor).set({ lastUsedStep: step }).where(eq(userTwoFactor.userId, userId));
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  // Marks the code used in the same statement that checks it, so two
+  // simultaneous sign-ins can't both spend it
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const [result] = await db.update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(eq(recoveryCodes.userId, userId), eq(recoveryCodes.codeHash, codeHash), isNull(recoveryCodes.usedAt)));
+    return (result as any).affectedRows > 0;
+  }
+
+  async countRecoveryCodes(userId: number): Promise<number> {
+    const [row] = await db.select({ total: count() })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return row.total;
+  }
+
+  async getSession(sid: string): Promise<LoginSession | undefined> {
+    const [session] = await db.select().from(sessions)
+      .where(and(eq(sessions.sid, sid), gte(sessions.expiresAt, new Date())));
+    return session;
+  }
+
+  // The public id is only set when the row is first created, so it stays
+  // stable for the life of the session
+  async saveSession(session: Omit<LoginSession, 'createdAt' | 'lastSeenAt'>): Promise<void> {
+    const { sid: _sid, publicId: _publicId, ...changes } = session;
+    await db.insert(sessions).values(session)
+      .onDuplicateKeyUpdate({ set: { ...changes, lastSeenAt: new Date() } });
+  }
+
+  async touchSession(sid: string, expiresAt: Date): Promise<void> {
+    await db.update(sessions).set({ expiresAt, lastSeenAt: new Date() }).where(eq(sessions.sid, sid));
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.sid, sid));
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const [result] = await db.delete(sessions).where(lte(sessions.expiresAt, new Date()));
+    return (result as any).affectedRows;
+  }
+
+  async getUserSessions(userId: number): Promise<LoginSession[]> {
+    return await db.select().from(sessions)
+      .where(and(eq(sessions.userId, userId), gte(sessions.expiresAt, new Date())))
+      .orderBy(desc(sessions.lastSeenAt));
+  }
+
+  // Returns the sid of the session removed, so the caller can tell whether it
+  // was the one making the request
+  async deleteUserSession(userId: number, publicId: string): Promise<string | undefined> {
+    const [session] = await db.select({ sid: sessions.sid }).from(sessions)
+      .where(and(eq(sessions.userId, userId), eq(sessions.publicId, publicId)));
+    if (!session) return undefined;
+    await db.delete(sessions).where(eq(sessions.sid, session.sid));
+    return session.sid;
+  }
+
+  async deleteUserSessions(userId: number, keepSid?: string): Promise<number> {
+    const [result] = await db.delete(sessions).where(and(
+      eq(sessions.userId, userId),
+      keepSid ? ne(sessions.sid, keepSid) : undefined
+    ));
+    return (result as any).affectedRows;
+  }
+
+  async getLoginPolicy(): Promise<LoginPolicy> {
+    const [row] = await db.select().from(loginPolicy).where(eq(loginPolicy.id, 1));
+    if (!row) return DEFAULT_LOGIN_POLICY;
+    const { id: _id, updatedAt: _updatedAt, ...policy } = row;
+    return policy;
+  }
+
+  async setLoginPolicy(policy: LoginPolicy): Promise<void> {
+    await db.insert(loginPolicy).values({ id: 1, ...policy }).onDuplicateKeyUpdate({ set: policy });
+  }
+
+  async getLoginFailures(entries: { scope: LoginFailureScope; key: string }[]): Promise<LoginFailure[]> {
+    if (entries.length === 0) return [];
+    return await db.select().from(loginFailures)
+      .where(or(...entries.map(({ scope, key }) => and(eq(loginFailures.scope, scope), eq(loginFailures.key, key)))));
+  }
+
+  // Counted in one statement so simultaneous attempts can't lose a failure.
+  // A streak whose last failure is older than `resetBefore` starts again at 1.
+  async recordLoginFailure(scope: LoginFailureScope, key: string, resetBefore: Date): Promise<LoginFailure> {
+    await db.insert(loginFailures).values({ scope, key, failures: 1 }).onDuplicateKeyUpdate({
+      set: {
+        failures: sql`IF(${loginFailures.lastFailureAt} < ${resetBefore}, 1, ${loginFailures.failures} + 1)`,
+        lastFailureAt: new Date(),
+      },
+    });
+    const [row] = await db.select().from(loginFailures)
+      .where(and(eq(loginFailures.scope, scope), eq(loginFailures.key, key)));
+    return row;
+  }
+
+  async setLoginBlock(id: number, blockedUntil: Date | null, lockedUntil: Date | null): Promise<void> {
+    await db.update(loginFailures).set({ blockedUntil, lockedUntil }).where(eq(loginFailures.id, id));
+  }
+
+  async clearLoginFailures(scope: LoginFailureScope, key: string): Promise<boolean> {
+    const [result] = await db.delete(loginFailures)
+      .where(and(eq(loginFailures.scope, scope), eq(loginFailures.key, key)));
+    return (result as any).affectedRows > 0;
+  }
+
+  async getAccountLockouts(): Promise<AccountLockout[]> {
+    const rows = await db.select({
+      userId: users.id,
+      failures: loginFailures.failures,
+      lockedUntil: loginFailures.lockedUntil,
+    })
+      .from(loginFailures)
+      .innerJoin(users, sql`${loginFailures.key} = LOWER(${users.username})`)
+      .where(and(eq(loginFailures.scope, 'username'), gte(loginFailures.lockedUntil, new Date())));
+    return rows.map(row => ({ ...row, lockedUntil: row.lockedUntil! }));
+  }
+
+  async createApiToken(token: Omit<ApiToken, 'id' | 'lastUsedAt' | 'createdAt'>): Promise<ApiToken> {
+    const [result] = await db.insert(apiTokens).values(token);
+    const id = (result as any).insertId;
+    const [created] = await db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return created;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getUserApiTokens(userId: number): Promise<ApiToken[]> {
+    return await db.select().from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+  }
+
+  // Scoped to the owner, so one user can't revoke another's token by id
+  async deleteApiToken(userId: number, id: number): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)));
+    if (!token) return undefined;
+    await db.delete(apiTokens).where(eq(apiTokens.id, id));
+    return token;
   }
 
   async createFile(insertFile: InsertFile): Promise<File> {
     const [result] = await db.insert(files).values(insertFile);
     const id = (result as any).insertId;
-    return (await this.getFile(id))!;
+    const file = (await this.getFile(id))!;
+
+    // Every file starts its history at version 1
+    await db.insert(fileVersions).values({
+      fileId: file.id,
+      versionNumber: 1,
+      size: file.size,
+      mimeType: file.mimeType,
+      path: file.path,
+      createdBy: file.createdBy,
+    });
+    await this.retainBlob(file.path);
+
+    return file;
+  }
+
+  // File Versions Implementation
+  async getFileVersions(fileId: number): Promise<FileVersion[]> {
+    return await db.select().from(fileVersions)
+      .where(eq(fileVersions.fileId, fileId))
+      .orderBy(desc(fileVersions.versionNumber));
+  }
+
+  async getFileVersion(fileId: number, versionId: number): Promise<FileVersion | undefined> {
+    const [version] = await db.select().from(fileVersions)
+      .where(and(eq(fileVersions.id, versionId), eq(fileVersions.fileId, fileId)));
+    return version;
+  }
+
+  async addFileVersion(fileId: number, version: { size: number; mimeType: string; path: string; createdBy: number }): Promise<FileVersion | undefined> {
+    const file = await this.getFile(fileId);
+    if (!file) return undefined;
+
+    let history = await this.getFileVersions(fileId);
+    if (history.length === 0) {
+      // Files uploaded before versioning existed have no history yet - record their content as version 1
+      await db.insert(fileVersions).values({
+        fileId,
+        versionNumber: 1,
+        size: file.size,
+        mimeType: file.mimeType,
+        path: file.path,
+        createdBy: file.createdBy,
+      });
+      history = await this.getFileVersions(fileId);
+    }
+
+    const [result] = await db.insert(fileVersions).values({
+      fileId,
+      versionNumber: history[0].versionNumber + 1,
+      ...version,
+    });
+    const id = (result as any).insertId;
+    await this.retainBlob(version.path);
+
+    // The files row always mirrors the latest version
+    await db.update(files)
+      .set({ size: version.size, mimeType: version.mimeType, path: version.path })
+      .where(eq(files.id, fileId));
+
+    const [created] = await db.select().from(fileVersions).where(eq(fileVersions.id, id));
+    return created;
+  }
+
+  async restoreFileVersion(fileId: number, versionId: number, userId: number): Promise<File | undefined> {
+    const version = await this.getFileVersion(fileId, versionId);
+    if (!version) return undefined;
+
+    // Restoring never rewrites history: the old content becomes a new latest version
+    await this.addFileVersion(fileId, {
+      size: version.size,
+      mimeType: version.mimeType,
+      path: version.path,
+      createdBy: userId,
+    });
+    return await this.getFile(fileId);
+  }
+
+  // Resumable Uploads Implementation
+  async createUploadSession(session: InsertUploadSession): Promise<UploadSession> {
+    await db.insert(uploadSessions).values(session);
+    return (await this.getUploadSession(session.id))!;
+  }
+
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    const [session] = await db.select().from(uploadSessions).where(eq(uploadSessions.id, id));
+    return session;
+  }
+
+  async getUploadSessions(userId: number): Promise<UploadSession[]> {
+    return await db.select().from(uploadSessions).where(eq(uploadSessions.userId, userId));
+  }
+
+  async updateUploadSessionOffset(id: string, offset: number): Promise<void> {
+    await db.update(uploadSessions).set({ offset }).where(eq(uploadSessions.id, id));
+  }
+
+  async deleteUploadSession(id: string): Promise<void> {
+    await db.delete(uploadSessions).where(eq(uploadSessions.id, id));
   }
 
   async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
@@ -443,25 +1254,32 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async getPermission(id: number): Promise<Permission | undefined> {
+    const [perm] = await db.select().from(permissionsTable).where(eq(permissionsTable.id, id));
+    return perm;
+  }
+
   async deletePermission(id: number): Promise<void> {
     await db.delete(permissionsTable).where(eq(permissionsTable.id, id));
   }
 
-  async getPermissions(targetId: number, targetType: 'file' | 'folder'): Promise<(Permission & { user: User })[]> {
-    // Select permissions and join with users to get username
+  async getPermissions(targetId: number, targetType: 'file' | 'folder'): Promise<(Permission & { user: User | null; group: Group | null })[]> {
+    // Select permissions and join with users / groups to get the grantee's name
     const result = await db.select({
       permission: permissionsTable,
-      user: users
+      user: users,
+      group: groups
     })
       .from(permissionsTable)
-      .innerJoin(users, eq(permissionsTable.userId, users.id))
+      .leftJoin(users, eq(permissionsTable.userId, users.id))
+      .leftJoin(groups, eq(permissionsTable.groupId, groups.id))
       .where(
         targetType === 'file'
           ? eq(permissionsTable.fileId, targetId)
           : eq(permissionsTable.folderId, targetId)
       );
 
-    return result.map(r => ({ ...r.permission, user: r.user }));
+    return result.map(r => ({ ...r.permission, user: r.user, group: r.group }));
   }
 
   async removePermission(targetId: number, targetType: 'file' | 'folder', userId: number): Promise<boolean> {
@@ -474,34 +1292,196 @@ export class DatabaseStorage implements IStorage {
     return (result as any).affectedRows > 0;
   }
 
-  async checkAccess(targetId: number, targetType: 'file' | 'folder', userId: number, requiredLevel: 'view' | 'download' | 'edit'): Promise<boolean> {
-    // 1. Check Ownership
+  async checkAccess(targetId: number, targetType: 'file' | 'folder', userId: number, requiredLevel: AccessLevel): Promise<boolean> {
+    return hasAccess(await this.getEffectiveAccess(targetId, targetType, userId), requiredLevel);
+  }
+
+  async getEffectiveAccess(targetId: number, targetType: 'file' | 'folder', userId: number): Promise<AccessLevel | null> {
+    let accessLevel: AccessLevel | null = null;
+    let folderId: number | null = targetId;
+
+    // 1. A file's own ownership / direct permission, then continue from its folder
     if (targetType === 'file') {
       const file = await this.getFile(targetId);
-      if (file?.createdBy === userId) return true;
-    } else {
-      const folder = await this.getFolder(targetId);
-      if (folder?.ownerId === userId) return true;
+      if (!file) return null;
+      if (file.createdBy === userId) return 'owner';
+      accessLevel = await this.getDirectAccess(targetId, 'file', userId);
+      folderId = file.folderId;
     }
 
-    // 2. Check Direct Permission
-    const [perm] = await db.select().from(permissionsTable).where(
-      and(
-        eq(permissionsTable.userId, userId),
-        targetType === 'file' ? eq(permissionsTable.fileId, targetId) : eq(permissionsTable.folderId, targetId)
-      )
-    );
-
-    if (perm) {
-      if (requiredLevel === 'view') return true;
-      if (requiredLevel === 'edit' && perm.accessLevel === 'edit') return true;
+    // 2. Walk up the folder chain, keeping the highest grant found. Owning any
+    // enclosing folder means owning its contents. A folder that breaks
+    // inheritance still honours its own grants but blocks those from above.
+    let inheriting = true;
+    const visited = new Set<number>();
+    while (folderId !== null && !visited.has(folderId)) {
+      visited.add(folderId);
+      const folder = await this.getFolder(folderId);
+      if (!folder) break;
+      if (folder.ownerId === userId) return 'owner';
+      if (inheriting) {
+        accessLevel = maxAccess(accessLevel, await this.getDirectAccess(folder.id, 'folder', userId));
+        if (!folder.inheritPermissions) inheriting = false;
+      }
+      folderId = folder.parentId;
     }
 
-    // 3. Check Parent Folder Permission (Recursion needed? Or assume passed from Route?)
-    // For strict check, we should traverse up. 
-    // MVP: Direct permission or Owner only.
+    return accessLevel;
+  }
+
+  // The highest grant on this item itself, to the user or to one of their groups
+  private async getDirectAccess(targetId: number, targetType: 'file' | 'folder', userId: number): Promise<AccessLevel | null> {
+    const groupIds = await this.getUserGroupIds(userId);
+    return (await this.getPermissions(targetId, targetType))
+      .filter(p => p.userId === userId || (p.groupId !== null && groupIds.includes(p.groupId)))
+      .reduce<AccessLevel | null>((level, p) => maxAccess(level, p.accessLevel as AccessLevel), null);
+  }
+
+
+  async isFolderWithin(folderId: number | null, ancestorId: number): Promise<boolean> {
+    // Walk up the parent chain; the visited set guards against corrupt cycles
+    const visited = new Set<number>();
+    let currentId = folderId;
+    while (currentId !== null && !visited.has(currentId)) {
+      if (currentId === ancestorId) return true;
+      visited.add(currentId);
+      const folder = await this.getFolder(currentId);
+      currentId = folder?.parentId ?? null;
+    }
     return false;
   }
+
+  // Owning a folder means owning everything below it, so moving an item can
+  // hand it to new owners or take it from old ones. Does this move do neither?
+  async moveKeepsOwners(targetId: number, targetType: 'file' | 'folder', targetFolderId: number | null): Promise<boolean> {
+    const item = targetType === 'file' ? await this.getFile(targetId) : await this.getFolder(targetId);
+    if (!item) return false;
+    const ownerId = 'createdBy' in item ? item.createdBy : item.ownerId;
+    const parentId = 'createdBy' in item ? item.folderId : item.parentId;
+
+    const ownersUnder = async (folderId: number | null) => {
+      const owners = new Set<number | null>([ownerId]);
+      const visited = new Set<number>();
+      while (folderId !== null && !visited.has(folderId)) {
+        visited.add(folderId);
+        const folder = await this.getFolder(folderId);
+        if (!folder) break;
+        owners.add(folder.ownerId);
+        folderId = folder.parentId;
+      }
+      return owners;
+    };
+
+    const before = await ownersUnder(parentId);
+    const after = await ownersUnder(targetFolderId);
+    return before.size === after.size && Array.from(after).every(id => before.has(id));
+  }
+
+  // Groups Implementation
+  async getGroups(): Promise<GroupWithMembers[]> {
+    const result = await db.select({ group: groups, memberCount: count(groupMembers.id) })
+      .from(groups)
+      .leftJoin(groupMembers, eq(groupMembers.groupId, groups.id))
+      .groupBy(groups.id)
+      .orderBy(asc(groups.name));
+    return result.map(r => ({ ...r.group, memberCount: Number(r.memberCount) }));
+  }
+
+  async getGroup(id: number): Promise<Group | undefined> {
+    const [group] = await db.select().from(groups).where(eq(groups.id, id));
+    return group;
+  }
+
+  async createGroup(group: InsertGroup & { createdBy: number }): Promise<Group> {
+    const [result] = await db.insert(groups).values(group);
+    const id = (result as any).insertId;
+    return (await this.getGroup(id))!;
+  }
+
+  async updateGroup(id: number, group: Partial<InsertGroup>): Promise<Group | undefined> {
+    const existing = await this.getGroup(id);
+    if (!existing) return undefined;
+    await db.update(groups).set(group).where(eq(groups.id, id));
+    return (await this.getGroup(id))!;
+  }
+
+  async deleteGroup(id: number): Promise<void> {
+    // Members and grants to the group go with it (ON DELETE CASCADE)
+    await db.delete(groups).where(eq(groups.id, id));
+  }
+
+  async getGroupMembers(groupId: number): Promise<User[]> {
+    const result = await db.select({ user: users })
+      .from(groupMembers)
+      .innerJoin(users, eq(groupMembers.userId, users.id))
+      .where(eq(groupMembers.groupId, groupId))
+      .orderBy(asc(users.username));
+    return result.map(r => r.user);
+  }
+
+  async addGroupMember(groupId: number, userId: number): Promise<void> {
+    const [existing] = await db.select().from(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)));
+    if (existing) return;
+    await db.insert(groupMembers).values({ groupId, userId });
+  }
+
+  async removeGroupMember(groupId: number, userId: number): Promise<void> {
+    await db.delete(groupMembers).where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)));
+  }
+
+  async getUserGroupIds(userId: number): Promise<number[]> {
+    const memberships = await db.select({ groupId: groupMembers.groupId })
+      .from(groupMembers)
+      .where(eq(groupMembers.userId, userId));
+    return memberships.map(m => m.groupId);
+  }
+
+  // Permission rows that apply to a user: granted to them directly or to any of their groups
+  private async granteeFilter(userId: number) {
+    const groupIds = await this.getUserGroupIds(userId);
+    return groupIds.length > 0
+      ? or(eq(permissionsTable.userId, userId), inArray(permissionsTable.groupId, groupIds))!
+      : eq(permissionsTable.userId, userId);
+  }
+
+  // Share Links Implementation
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    const [result] = await db.insert(shareLinks).values(link);
+    const id = (result as any).insertId;
+    return (await this.getShareLink(id))!;
+  }
+
+  async getShareLink(id: number): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.id, id));
+    return link;
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    return link;
+  }
+
+  async getShareLinks(targetId: number, targetType: 'file' | 'folder'): Promise<ShareLink[]> {
+    return await db.select().from(shareLinks)
+      .where(targetType === 'file' ? eq(shareLinks.fileId, targetId) : eq(shareLinks.folderId, targetId))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async deleteShareLink(id: number): Promise<void> {
+    await db.delete(shareLinks).where(eq(shareLinks.id, id));
+  }
+
+  async consumeShareLinkDownload(id: number): Promise<boolean> {
+    // Single conditional UPDATE so concurrent downloads cannot overshoot the limit
+    const [result] = await db.update(shareLinks)
+      .set({ downloadCount: sql`${shareLinks.downloadCount} + 1` })
+      .where(and(
+        eq(shareLinks.id, id),
+        or(isNull(shareLinks.maxDownloads), sql`${shareLinks.downloadCount} < ${shareLinks.maxDownloads}`)
+      ));
+    return (result as any).affectedRows > 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
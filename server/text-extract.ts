@@ -0,0 +1,85 @@
+import path from "path";
+import AdmZip from "adm-zip";
+import { PDFParse } from "pdf-parse";
+
+// Larger files are not worth holding in memory just to index them
+export const MAX_EXTRACT_BYTES = 25 * 1024 * 1024;
+// file_contents.content is a MEDIUMTEXT (16 MB); stay well below it
+const MAX_TEXT_LENGTH = 1_000_000;
+
+const PLAIN_TEXT_EXTENSIONS = [".txt", ".md", ".markdown", ".csv"];
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+type ExtractorKind = "text" | "pdf" | "docx";
+
+function extractorFor(name: string, mimeType: string): ExtractorKind | null {
+  const ext = path.extname(name).toLowerCase();
+  if (PLAIN_TEXT_EXTENSIONS.includes(ext) || ["text/plain", "text/markdown", "text/csv"].includes(mimeType)) return "text";
+  if (ext === ".pdf" || mimeType === "application/pdf") return "pdf";
+  if (ext === ".docx" || mimeType === DOCX_MIME) return "docx";
+  return null;
+}
+
+export function canExtractText(name: string, mimeType: string, size: number): boolean {
+  return size <= MAX_EXTRACT_BYTES && extractorFor(name, mimeType) !== null;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+// A .docx is a zip; the body text lives in word/document.xml as <w:t> runs
+function extractDocx(data: Buffer): string {
+  const entry = new AdmZip(data).getEntry("word/document.xml");
+  if (!entry) return "";
+  const xml = entry.getData().toString("utf8")
+    .replace(/<\/w:p>/g, "\n")
+    .replace(/<w:tab\/>/g, "\t")
+    .replace(/<w:br\/>/g, "\n")
+    .replace(/<[^>]+>/g, "");
+  return decodeXmlEntities(xml);
+}
+
+async function extractPdf(data: Buffer): Promise<string> {
+  // pdf.js may take ownership of the bytes it is given - hand it a copy, not a
+  // view into a possibly pooled Buffer
+  const parser = new PDFParse({ data: new Uint8Array(data) });
+  try {
+    const result = await parser.getText();
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Pull searchable plain text out of a file's content. Returns null for
+ * formats we don't index; throws if a supported file can't be parsed.
+ */
+export async function extractText(data: Buffer, name: string, mimeType: string): Promise<string | null> {
+  const kind = extractorFor(name, mimeType);
+  if (!kind || data.length > MAX_EXTRACT_BYTES) return null;
+
+  let text: string;
+  switch (kind) {
+    case "text":
+      text = data.toString("utf8");
+      break;
+    case "pdf":
+      text = await extractPdf(data);
+      break;
+    case "docx":
+      text = extractDocx(data);
+      break;
+  }
+
+  // Collapse runs of whitespace so snippets and LIKE matches aren't thrown off by layout
+  return text.replace(/[ \t\f\v\r]+/g, " ").replace(/\n\s*\n+/g, "\n").trim().slice(0, MAX_TEXT_LENGTH);
+}
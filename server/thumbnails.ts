@@ -0,0 +1,110 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawn } from "child_process";
+import { pipeline } from "stream/promises";
+import sharp from "sharp";
+import { PDFParse } from "pdf-parse";
+import { type BlobStore, readBlob } from "./blob-store";
+
+// Longest edge of a thumbnail; the grid shows them at roughly half this size
+export const THUMBNAIL_SIZE = 320;
+// Images and PDFs are decoded in memory - don't try it on huge ones
+const MAX_IN_MEMORY_BYTES = 50 * 1024 * 1024;
+// How much of a remote video is fetched for its frame. Streamable files keep
+// their index up front, so the opening seconds are all in here.
+const VIDEO_PREFIX_BYTES = 64 * 1024 * 1024;
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+
+type ThumbnailKind = "image" | "pdf" | "video";
+
+function thumbnailKind(mimeType: string, size: number): ThumbnailKind | null {
+  if (mimeType === "image/svg+xml") return null; // Rasterizing untrusted SVG isn't worth the risk
+  if (mimeType.startsWith("image/")) return size <= MAX_IN_MEMORY_BYTES ? "image" : null;
+  if (mimeType === "application/pdf") return size <= MAX_IN_MEMORY_BYTES ? "pdf" : null;
+  if (mimeType.startsWith("video/")) return "video";
+  return null;
+}
+
+export function canGenerateThumbnail(mimeType: string, size: number): boolean {
+  return thumbnailKind(mimeType, size) !== null;
+}
+
+function toThumbnail(image: Buffer | Uint8Array): Promise<Buffer> {
+  return sharp(image)
+    .rotate() // Honour EXIF orientation from phone cameras
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 75 })
+    .toBuffer();
+}
+
+async function renderPdfPage(data: Buffer): Promise<Uint8Array> {
+  const parser = new PDFParse({ data: new Uint8Array(data) });
+  try {
+    const result = await parser.getScreenshot({ partial: [1], desiredWidth: THUMBNAIL_SIZE * 2, imageDataUrl: false });
+    if (!result.pages.length) throw new Error("PDF has no pages");
+    return result.pages[0].data;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+function runFfmpeg(args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(FFMPEG_PATH, args, { stdio: ["ignore", "pipe", "ignore"] });
+    const chunks: Buffer[] = [];
+    ffmpeg.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.on("error", reject);
+    ffmpeg.on("close", (code) => {
+      if (code === 0) resolve(Buffer.concat(chunks));
+      else reject(new Error(`ffmpeg exited with code ${code}`));
+    });
+  });
+}
+
+async function firstFrame(videoPath: string): Promise<Buffer> {
+  const frameAt = async (seconds: number) =>
+    runFfmpeg(["-ss", String(seconds), "-i", videoPath, "-frames:v", "1", "-f", "image2pipe", "-vcodec", "png", "-"]);
+
+  // A second in skips the black lead-in most clips start with; very short
+  // clips have nothing there, so fall back to the first frame
+  const frame = await frameAt(1);
+  return frame.length ? frame : await frameAt(0);
+}
+
+// ffmpeg needs a seekable input. A local blob already is one; anything else
+// has its opening stretch staged on local disk first.
+async function grabVideoFrame(store: BlobStore, locator: string, size: number): Promise<Buffer> {
+  if (store.name === "local") return firstFrame(locator);
+
+  const tempPath = path.join(os.tmpdir(), `fms-thumb-${Date.now()}-${Math.round(Math.random() * 1E9)}`);
+  try {
+    const range = size > VIDEO_PREFIX_BYTES ? { start: 0, end: VIDEO_PREFIX_BYTES - 1 } : undefined;
+    await pipeline(await store.createReadStream(locator, range), fs.createWriteStream(tempPath));
+    return await firstFrame(tempPath);
+  } finally {
+    await fs.promises.rm(tempPath, { force: true });
+  }
+}
+
+/**
+ * Render a WebP thumbnail for a blob. Returns null for content we don't
+ * thumbnail; throws if a supported file can't be decoded.
+ */
+export async function generateThumbnail(store: BlobStore, locator: string, mimeType: string, size: number): Promise<Buffer | null> {
+  switch (thumbnailKind(mimeType, size)) {
+    case "image":
+      return toThumbnail(await readBlob(store, locator));
+    case "pdf":
+      return toThumbnail(await renderPdfPage(await readBlob(store, locator)));
+    case "video":
+      return toThumbnail(await grabVideoFrame(store, locator, size));
+    default:
+      return null;
+  }
+}
+
+// Thumbnails sit next to their source blob: "<hash>" -> "<hash>.thumb.webp"
+export function thumbnailKey(blobLocator: string): string {
+  return `${path.posix.basename(blobLocator)}.thumb.webp`;
+}
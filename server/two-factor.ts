@@ -0,0 +1,112 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+
+// RFC 6238 TOTP with the parameters every authenticator app defaults to:
+// HMAC-SHA1, 6 digits, 30 second steps
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the neighbouring steps too, to allow for clock drift on the phone
+const DRIFT_STEPS = 1;
+const ISSUER = "FMS";
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of Array.from(data)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const char of Array.from(encoded.replace(/=+$/, "").toUpperCase())) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac("sha1", key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return code.toString().padStart(DIGITS, "0");
+}
+
+export function currentStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Check a code against a secret. Returns the time step it matched so the
+ * caller can remember it (a step at or before `lastUsedStep` is refused, which
+ * stops a code being used twice), or null if it doesn't match.
+ */
+export function verifyTotp(secret: string, code: string, lastUsedStep: number | null = null): number | null {
+  const supplied = code.replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(supplied)) return null;
+
+  const key = base32Decode(secret);
+  const now = currentStep();
+  for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(supplied))) return step;
+  }
+  return null;
+}
+
+// What authenticator apps read from the QR code
+export function totpUri(secret: string, username: string): string {
+  const label = `${encodeURIComponent(ISSUER)}:${encodeURIComponent(username)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+export function totpQrCode(uri: string): Promise<string> {
+  return QRCode.toDataURL(uri, { margin: 1, width: 220 });
+}
+
+// "k7m2q-x9d4w": easy to read out and type, with 50 bits of randomness
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Codes are random enough that a plain hash is safe to store. Case, dashes
+// and spaces are ignored so a code typed however the user likes still matches.
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(code.replace(/[\s-]/g, "").toLowerCase()).digest("hex");
+}
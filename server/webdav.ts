@@ -0,0 +1,874 @@
+import express, { type Express, type Request, type Response } from "express";
+import fs from "fs";
+import path from "path";
+import { randomBytes, randomUUID } from "crypto";
+import { pipeline } from "stream/promises";
+import { storage, type FileWithPermission, type FolderWithPermission } from "./storage";
+import { comparePasswords, authenticateApiToken, failLogin } from "./auth";
+import { checkLoginThrottle, clearLoginFailures, describeWait } from "./login-throttle";
+import { actingToken, looksLikeApiToken } from "./api-tokens";
+import { blobStore, UPLOADS_DIR } from "./blob-store";
+import { sendBlob, blobETag, isRangeContinuation } from "./send-blob";
+import { storeFileContent, checkQuota, checkUploadSize, contentModifiedAt, processFileContent } from "./file-content";
+import { publishFolderChange } from "./live-updates";
+import type { File as StoredFile, Folder, User } from "@shared/schema";
+
+// File managers and office tools mount the tree from here as a network drive
+const DAV_ROOT = "/dav";
+
+const ALLOWED_METHODS = "OPTIONS, PROPFIND, GET, HEAD, PUT, MKCOL, MOVE, COPY, DELETE, LOCK, UNLOCK";
+// With an API token these need the read scope; everything else changes something
+const READ_METHODS = new Set(["GET", "HEAD", "PROPFIND"]);
+
+// Clients ask for long locks and refresh them; cap them so a crashed editor
+// doesn't keep a file locked for long
+const DEFAULT_LOCK_SECONDS = 10 * 60;
+const MAX_LOCK_SECONDS = 60 * 60;
+const MAX_XML_BODY_BYTES = 64 * 1024;
+
+// A path is resolved by name, one segment at a time, the way the file browser
+// walks it: the root is "My Files" (own items plus items shared with the user)
+type DavResource =
+  | { type: "root" }
+  | { type: "folder"; folder: FolderWithPermission }
+  | { type: "file"; file: FileWithPermission };
+
+interface DavContext {
+  req: Request;
+  res: Response;
+  user: User;
+  segments: string[];
+}
+
+// What a lock is held on. Paths differ between users - each sees what is shared
+// with them at their own root - so a lock goes by the item itself, and a name
+// that doesn't exist yet by the folder it would be created in.
+interface LockTarget {
+  key: string; // "file:<id>", "folder:<id>" or "new:<parent>/<name>"
+  parent: string; // "folder:<id>", or "root:<owner id>" at the top level
+  name: string;
+  // The folder it is in - or, for a folder, itself. null at the top level.
+  within: number | null;
+  // Only for a folder: what a lock on it with Depth: infinity reaches into
+  folderId?: number;
+}
+
+// Locks only coordinate clients - they live in memory and are lost on a
+// restart. They hold off other users; a user's own clients share their locks.
+interface DavLock {
+  token: string;
+  target: LockTarget;
+  // As the locking user sees it, for the lock root they're shown
+  path: string;
+  userId: number;
+  owner: string;
+  scope: "exclusive" | "shared";
+  depth: "0" | "infinity";
+  expiresAt: number;
+}
+
+const locks = new Map<string, DavLock>();
+
+function fail(res: Response, status: number, message: string) {
+  if (status === 405) res.setHeader("Allow", ALLOWED_METHODS);
+  res.status(status).type("text/plain").send(message);
+}
+
+function challenge(res: Response, message: string) {
+  res.setHeader("WWW-Authenticate", 'Basic realm="FMS", charset="UTF-8"');
+  fail(res, 401, message);
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+// Undefined for a path that isn't valid percent-encoding
+function parseSegments(pathname: string): string[] | undefined {
+  try {
+    return pathname.split("/").filter(Boolean).map(segment => decodeURIComponent(segment));
+  } catch {
+    return undefined;
+  }
+}
+
+const pathKey = (segments: string[]) => segments.join("/");
+
+function hrefFor(segments: string[], collection: boolean): string {
+  const encoded = segments.map(segment => encodeURIComponent(segment)).join("/");
+  return `${DAV_ROOT}/${encoded}${collection && segments.length > 0 ? "/" : ""}`;
+}
+
+// Sign in on every request: basic auth with a password, or an API token as
+// the basic-auth password or a bearer token. Sends the refusal itself.
+async function authenticate(req: Request, res: Response): Promise<User | undefined> {
+  const header = req.get("Authorization") ?? "";
+
+  let token: string | undefined;
+  if (header.startsWith("Bearer ")) {
+    token = header.slice("Bearer ".length).trim();
+  } else if (header.startsWith("Basic ")) {
+    const credentials = Buffer.from(header.slice("Basic ".length), "base64").toString("utf8");
+    const separator = credentials.indexOf(":");
+    if (separator < 0) {
+      challenge(res, "Sign in with your username and password or an API token");
+      return undefined;
+    }
+    const username = credentials.slice(0, separator);
+    const password = credentials.slice(separator + 1);
+    // The username is ignored alongside a token; the token says who it is
+    if (!looksLikeApiToken(password)) return await passwordSignIn(req, res, username.slice(0, 255), password);
+    token = password;
+  } else {
+    challenge(res, "Sign in with your username and password or an API token");
+    return undefined;
+  }
+
+  const signIn = await authenticateApiToken(token);
+  if (!signIn) {
+    challenge(res, "Invalid or expired API token");
+    return undefined;
+  }
+  req.user = signIn.user;
+  req.apiToken = signIn.apiToken;
+  return signIn.user;
+}
+
+// Passwords here count towards the same sign-in throttling as the login form.
+// Accounts with two-factor authentication have to use a token instead, as a
+// password alone would get around the second factor.
+async function passwordSignIn(req: Request, res: Response, username: string, password: string): Promise<User | undefined> {
+  const throttle = await checkLoginThrottle(username, req.ip);
+  if (!throttle.allowed) {
+    res.setHeader("Retry-After", String(throttle.retryAfter));
+    fail(res, 429, `Too many failed sign-ins. Try again in ${describeWait(throttle.retryAfter)}.`);
+    return undefined;
+  }
+
+  const user = await storage.getUserByUsername(username);
+  if (!user || !(await comparePasswords(password, user.password))) {
+    await failLogin(req, username, user?.id ?? null, "login_failure", `Wrong password for "${username}" (WebDAV)`);
+    challenge(res, "Invalid username or password");
+    return undefined;
+  }
+  if (user.status !== "active") {
+    challenge(res, `This account is ${user.status}. Contact an administrator.`);
+    return undefined;
+  }
+
+  const [capabilities, twoFactor] = await Promise.all([
+    storage.getRoleCapabilities(user.role),
+    storage.getTwoFactor(user.id),
+  ]);
+  if (twoFactor || capabilities.requireTwoFactor) {
+    challenge(res, "This account uses two-factor authentication. Sign in with an API token as the password instead.");
+    return undefined;
+  }
+
+  await clearLoginFailures(user.username);
+  req.user = user;
+  return user;
+}
+
+async function resolve(userId: number, segments: string[]): Promise<DavResource | undefined> {
+  let resource: DavResource = { type: "root" };
+  for (const name of segments) {
+    if (resource.type === "file") return undefined;
+    const parentId: number | null = resource.type === "root" ? null : resource.folder.id;
+
+    // Where a folder and a file share a name, the folder wins
+    const folder: FolderWithPermission | undefined = (await storage.getFoldersWithPermissions(parentId, userId)).find(f => f.name === name);
+    if (folder) {
+      resource = { type: "folder", folder };
+      continue;
+    }
+    const file: FileWithPermission | undefined = (await storage.getFilesWithPermissions(parentId, userId)).find(f => f.name === name);
+    if (!file) return undefined;
+    resource = { type: "file", file };
+  }
+  return resource;
+}
+
+// The folder an item created under this collection goes into
+const folderIdOf = (collection: DavResource) => collection.type === "folder" ? collection.folder.id : null;
+
+async function canAccess(resource: DavResource, userId: number, level: "view" | "download" | "edit" | "owner"): Promise<boolean> {
+  if (resource.type === "root") return true;
+  return resource.type === "folder"
+    ? await storage.checkAccess(resource.folder.id, "folder", userId, level)
+    : await storage.checkAccess(resource.file.id, "file", userId, level);
+}
+
+function auditEntry(req: Request, action: string, targetType: "file" | "folder", targetId: number | null, details: string) {
+  return storage.createAuditLog({
+    userId: req.user!.id,
+    action,
+    targetType,
+    targetId,
+    details,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    ...actingToken(req)
+  });
+}
+
+// === Locks ===
+
+function activeLocks(): DavLock[] {
+  const now = Date.now();
+  locks.forEach((lock, token) => { if (lock.expiresAt <= now) locks.delete(token); });
+  return Array.from(locks.values());
+}
+
+function parentTarget(folderId: number | null, ownerId: number | null): string {
+  return folderId !== null ? `folder:${folderId}` : `root:${ownerId}`;
+}
+
+// Undefined for the root, which can't be locked
+function resourceTarget(resource: DavResource): LockTarget | undefined {
+  if (resource.type === "file") {
+    const { file } = resource;
+    return { key: `file:${file.id}`, parent: parentTarget(file.folderId, file.createdBy), name: file.name, within: file.folderId };
+  }
+  if (resource.type === "folder") {
+    const { folder } = resource;
+    return { key: `folder:${folder.id}`, parent: parentTarget(folder.parentId, folder.ownerId), name: folder.name, within: folder.id, folderId: folder.id };
+  }
+  return undefined;
+}
+
+// A name that doesn't exist yet; at the top level it would be the user's own
+function newTarget(parent: DavResource, name: string, userId: number): LockTarget | undefined {
+  if (parent.type === "file") return undefined;
+  const folderId = folderIdOf(parent);
+  const parentKey = parentTarget(folderId, userId);
+  return { key: `new:${parentKey}/${name}`, parent: parentKey, name, within: folderId };
+}
+
+async function lockTarget(userId: number, segments: string[]): Promise<LockTarget | undefined> {
+  const resource = await resolve(userId, segments);
+  if (resource) return resourceTarget(resource);
+  const parent = await resolve(userId, segments.slice(0, -1));
+  return parent && newTarget(parent, segments[segments.length - 1], userId);
+}
+
+// Is the target inside this folder (or the folder itself)?
+async function isWithin(target: LockTarget, folderId: number): Promise<boolean> {
+  return target.within !== null && await storage.isFolderWithin(target.within, folderId);
+}
+
+async function lockCovers(lock: DavLock, target: LockTarget): Promise<boolean> {
+  if (lock.target.key === target.key) return true;
+  // A lock taken on a name before it was created holds the item written there
+  const eitherNew = lock.target.key.startsWith("new:") || target.key.startsWith("new:");
+  if (eitherNew && lock.target.parent === target.parent && lock.target.name === target.name) return true;
+  return lock.depth === "infinity" && lock.target.folderId !== undefined && await isWithin(target, lock.target.folderId);
+}
+
+async function locksCovering(target: LockTarget): Promise<DavLock[]> {
+  const covering: DavLock[] = [];
+  for (const lock of activeLocks()) {
+    if (await lockCovers(lock, target)) covering.push(lock);
+  }
+  return covering;
+}
+
+// Another user's lock on this item - or, for a folder being moved or
+// deleted, on anything inside it
+async function lockedByOthers(userId: number, target: LockTarget | undefined, withContents = false): Promise<boolean> {
+  if (!target) return false;
+  for (const lock of activeLocks()) {
+    if (lock.userId === userId) continue;
+    if (await lockCovers(lock, target)) return true;
+    if (withContents && target.folderId !== undefined && await isWithin(lock.target, target.folderId)) return true;
+  }
+  return false;
+}
+
+// Locks don't follow a resource that is moved or deleted
+async function releaseLocks(target: LockTarget | undefined) {
+  if (!target) return;
+  for (const lock of activeLocks()) {
+    if (lock.target.key === target.key || (target.folderId !== undefined && await isWithin(lock.target, target.folderId))) {
+      locks.delete(lock.token);
+    }
+  }
+}
+
+function lockTimeout(header: string | undefined): number {
+  const match = /Second-(\d+)/i.exec(header ?? "");
+  if (match) return Math.min(parseInt(match[1]), MAX_LOCK_SECONDS);
+  return /Infinite/i.test(header ?? "") ? MAX_LOCK_SECONDS : DEFAULT_LOCK_SECONDS;
+}
+
+// Lock tokens a client quotes in its If header to refresh a lock it holds
+function submittedLockTokens(req: Request): string[] {
+  return Array.from((req.get("If") ?? "").matchAll(/<(opaquelocktoken:[^>]+)>/g), match => match[1]);
+}
+
+function activeLockXml(lock: DavLock): string {
+  return `<D:activelock>` +
+    `<D:locktype><D:write/></D:locktype>` +
+    `<D:lockscope><D:${lock.scope}/></D:lockscope>` +
+    `<D:depth>${lock.depth}</D:depth>` +
+    (lock.owner ? `<D:owner>${escapeXml(lock.owner)}</D:owner>` : "") +
+    `<D:timeout>Second-${Math.max(0, Math.ceil((lock.expiresAt - Date.now()) / 1000))}</D:timeout>` +
+    `<D:locktoken><D:href>${lock.token}</D:href></D:locktoken>` +
+    `<D:lockroot><D:href>${escapeXml(hrefFor(lock.path ? lock.path.split("/") : [], false))}</D:href></D:lockroot>` +
+    `</D:activelock>`;
+}
+
+const SUPPORTED_LOCK = `<D:supportedlock>` +
+  `<D:lockentry><D:lockscope><D:exclusive/></D:lockscope><D:locktype><D:write/></D:locktype></D:lockentry>` +
+  `<D:lockentry><D:lockscope><D:shared/></D:lockscope><D:locktype><D:write/></D:locktype></D:lockentry>` +
+  `</D:supportedlock>`;
+
+async function readXmlBody(req: Request): Promise<string> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk.toString();
+    if (body.length > MAX_XML_BODY_BYTES) throw Object.assign(new Error("Request body too large"), { status: 413 });
+  }
+  return body;
+}
+
+// === Properties ===
+
+async function describe(resource: DavResource, segments: string[]): Promise<string> {
+  const collection = resource.type !== "file";
+  const props: string[] = [];
+
+  if (resource.type === "root") {
+    props.push(`<D:displayname>My Files</D:displayname>`, `<D:resourcetype><D:collection/></D:resourcetype>`);
+  } else if (resource.type === "folder") {
+    const { folder } = resource;
+    props.push(`<D:displayname>${escapeXml(folder.name)}</D:displayname>`, `<D:resourcetype><D:collection/></D:resourcetype>`);
+    if (folder.createdAt) {
+      props.push(`<D:creationdate>${folder.createdAt.toISOString()}</D:creationdate>`,
+        `<D:getlastmodified>${folder.createdAt.toUTCString()}</D:getlastmodified>`);
+    }
+  } else {
+    const { file } = resource;
+    const modifiedAt = await contentModifiedAt(file);
+    props.push(
+      `<D:displayname>${escapeXml(file.name)}</D:displayname>`,
+      `<D:resourcetype/>`,
+      `<D:getcontentlength>${file.size}</D:getcontentlength>`,
+      `<D:getcontenttype>${escapeXml(file.mimeType)}</D:getcontenttype>`,
+      `<D:getetag>${escapeXml(blobETag(file.path))}</D:getetag>`,
+    );
+    if (file.createdAt) props.push(`<D:creationdate>${file.createdAt.toISOString()}</D:creationdate>`);
+    if (modifiedAt) props.push(`<D:getlastmodified>${modifiedAt.toUTCString()}</D:getlastmodified>`);
+  }
+
+  const target = resourceTarget(resource);
+  const held = target ? await locksCovering(target) : [];
+  props.push(SUPPORTED_LOCK, `<D:lockdiscovery>${held.map(activeLockXml).join("")}</D:lockdiscovery>`);
+
+  return `<D:response><D:href>${escapeXml(hrefFor(segments, collection))}</D:href>` +
+    `<D:propstat><D:prop>${props.join("")}</D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>`;
+}
+
+function sendXml(res: Response, status: number, body: string) {
+  res.status(status).type("application/xml; charset=utf-8").send(`<?xml version="1.0" encoding="utf-8"?>\n${body}`);
+}
+
+// === Methods ===
+
+// Depth: infinity is answered as Depth: 1, as most servers do
+async function propfind({ req, res, user, segments }: DavContext) {
+  const resource = await resolve(user.id, segments);
+  if (!resource) return fail(res, 404, "Not found");
+  if (!await canAccess(resource, user.id, "view")) return fail(res, 403, "No permission to view this");
+
+  const responses = [await describe(resource, segments)];
+  if (req.get("Depth") !== "0" && resource.type !== "file") {
+    const parentId = folderIdOf(resource);
+    for (const folder of await storage.getFoldersWithPermissions(parentId, user.id)) {
+      responses.push(await describe({ type: "folder", folder }, [...segments, folder.name]));
+    }
+    for (const file of await storage.getFilesWithPermissions(parentId, user.id)) {
+      responses.push(await describe({ type: "file", file }, [...segments, file.name]));
+    }
+  }
+  sendXml(res, 207, `<D:multistatus xmlns:D="DAV:">${responses.join("")}</D:multistatus>`);
+}
+
+async function get({ req, res, user, segments }: DavContext) {
+  const resource = await resolve(user.id, segments);
+  if (!resource) return fail(res, 404, "Not found");
+  if (resource.type !== "file") return fail(res, 405, "Folders can't be downloaded. List them with PROPFIND.");
+
+  const { file } = resource;
+  // Viewing is not enough - raw bytes need download access
+  if (!await storage.checkAccess(file.id, "file", user.id, "download")) return fail(res, 403, "No permission to download");
+  if (!await blobStore.exists(file.path)) return fail(res, 404, "File content not found on server");
+
+  // Clients probe with HEAD and resume with ranges; neither is a new download
+  if (req.method === "GET" && !isRangeContinuation(req)) {
+    await storage.recordFileAccess(user.id, file.id, 'download');
+    await auditEntry(req, "download", "file", file.id, `Downloaded file ${file.name}`);
+  }
+
+  await sendBlob(req, res, {
+    locator: file.path,
+    size: file.size,
+    mimeType: file.mimeType,
+    fileName: file.name,
+    disposition: "attachment",
+    lastModified: await contentModifiedAt(file),
+  });
+}
+
+// Office tools and file managers often send no type, or a generic one
+function mimeTypeFor(name: string, contentType: string | undefined): string {
+  const sent = contentType?.split(";")[0].trim().toLowerCase();
+  if (sent && sent !== "application/octet-stream") return sent;
+  return express.static.mime.lookup(name) || "application/octet-stream";
+}
+
+async function refuseUpload(user: User, quotaUserId: number | null, size: number): Promise<string | null> {
+  return await checkUploadSize(user.role, [size]) ?? (quotaUserId !== null ? await checkQuota(quotaUserId, size) : null);
+}
+
+// A new file, or a new version of an existing one
+async function put({ req, res, user, segments }: DavContext) {
+  if (segments.length === 0) return fail(res, 405, "Can't write to the root");
+  const name = segments[segments.length - 1];
+
+  const existing = await resolve(user.id, segments);
+  if (existing && existing.type !== "file") return fail(res, 405, "A folder with this name already exists");
+  const parent = existing ? undefined : await resolve(user.id, segments.slice(0, -1));
+  if (!existing && (!parent || parent.type === "file")) return fail(res, 409, "The folder to upload into doesn't exist");
+  if (await lockedByOthers(user.id, existing ? resourceTarget(existing) : newTarget(parent!, name, user.id))) {
+    return fail(res, 423, "Locked by another user");
+  }
+
+  if (existing ? !await storage.checkAccess(existing.file.id, "file", user.id, "edit") : !await canAccess(parent!, user.id, "edit")) {
+    return fail(res, 403, existing ? "No permission to upload a new version" : "No permission to upload here");
+  }
+
+  // Every version counts against the file owner's quota, whoever uploads it
+  const quotaUserId = existing ? existing.file.createdBy : user.id;
+  const declared = parseInt(req.get("Content-Length") ?? "", 10);
+  if (!isNaN(declared)) {
+    const refusal = await refuseUpload(user, quotaUserId, declared);
+    if (refusal) return fail(res, 413, refusal);
+  }
+
+  const tempPath = path.join(UPLOADS_DIR, `${Date.now()}-${randomBytes(6).toString("hex")}-dav`);
+  try {
+    await pipeline(req, fs.createWriteStream(tempPath));
+  } catch (e) {
+    fs.rmSync(tempPath, { force: true });
+    throw e;
+  }
+
+  // Chunked requests don't say their size up front
+  const { size } = await fs.promises.stat(tempPath);
+  const refusal = await refuseUpload(user, quotaUserId, size);
+  if (refusal) {
+    fs.rmSync(tempPath, { force: true });
+    return fail(res, 413, refusal);
+  }
+  const mimeType = mimeTypeFor(name, req.get("Content-Type"));
+
+  if (existing) {
+    const version = await storage.addFileVersion(existing.file.id, {
+      size,
+      mimeType,
+      path: await storeFileContent(tempPath),
+      createdBy: user.id,
+    });
+    if (!version) return fail(res, 404, "File not found");
+    processFileContent((await storage.getFile(existing.file.id))!);
+    await storage.recordFileAccess(user.id, existing.file.id, 'upload');
+    await auditEntry(req, "upload_version", "file", existing.file.id, `Uploaded version ${version.versionNumber} (${name})`);
+    publishFolderChange({ type: "updated", folderIds: [existing.file.folderId], ownerId: existing.file.createdBy, item: { type: "file", id: existing.file.id } });
+    return res.sendStatus(204);
+  }
+
+  const folderId = folderIdOf(parent!);
+  const createdFile = await storage.createFile({
+    name,
+    folderId,
+    size,
+    mimeType,
+    path: await storeFileContent(tempPath),
+    createdBy: user.id,
+  });
+  processFileContent(createdFile);
+  await storage.recordFileAccess(user.id, createdFile.id, 'upload');
+  await auditEntry(req, "upload_bulk", "folder", folderId, `Uploaded 1 files`);
+  publishFolderChange({ type: "created", folderIds: [folderId], ownerId: user.id });
+  res.sendStatus(201);
+}
+
+async function mkcol({ req, res, user, segments }: DavContext) {
+  if (segments.length === 0) return fail(res, 405, "The root already exists");
+  if (parseInt(req.get("Content-Length") ?? "0", 10) > 0 || req.get("Transfer-Encoding")) {
+    return fail(res, 415, "MKCOL doesn't take a request body");
+  }
+  if (await resolve(user.id, segments)) return fail(res, 405, "Something with this name already exists");
+
+  const parent = await resolve(user.id, segments.slice(0, -1));
+  if (!parent || parent.type === "file") return fail(res, 409, "The parent folder doesn't exist");
+  if (!await canAccess(parent, user.id, "edit")) return fail(res, 403, "No permission to create folders here");
+  const name = segments[segments.length - 1];
+  if (await lockedByOthers(user.id, newTarget(parent, name, user.id))) return fail(res, 423, "Locked by another user");
+
+  const folder = await storage.createFolder({ name, parentId: folderIdOf(parent), ownerId: user.id });
+  await auditEntry(req, "create_folder", "folder", folder.id, `Created folder ${folder.name}`);
+  publishFolderChange({ type: "created", folderIds: [folder.parentId], ownerId: folder.ownerId });
+  res.sendStatus(201);
+}
+
+// As in the file browser: owners move the item to the trash, anyone else with
+// edit access takes themselves off the share. False when they may do neither.
+async function removeResource(req: Request, user: User, resource: DavResource): Promise<boolean> {
+  if (resource.type === "file") {
+    const { file } = resource;
+    if (file.createdBy === user.id) {
+      await storage.deleteFile(file.id, user.id);
+      await auditEntry(req, "delete_file", "file", file.id, `Deleted file ${file.id} (moved to trash)`);
+      publishFolderChange({ type: "deleted", folderIds: [file.folderId], ownerId: file.createdBy, item: { type: "file", id: file.id } });
+      return true;
+    }
+    if (!await storage.checkAccess(file.id, "file", user.id, "edit")) return false;
+    await storage.removePermission(file.id, "file", user.id);
+    await auditEntry(req, "unshare_file", "file", file.id, `Removed self from file share ${file.id}`);
+    publishFolderChange({ type: "unshared", folderIds: [], ownerId: file.createdBy, grants: [{ userId: user.id, groupId: null }] });
+    return true;
+  }
+
+  if (resource.type === "folder") {
+    const { folder } = resource;
+    if (folder.ownerId === user.id) {
+      await storage.deleteFolder(folder.id, user.id);
+      await auditEntry(req, "delete_folder", "folder", folder.id, `Deleted folder ${folder.id}`);
+      publishFolderChange({ type: "deleted", folderIds: [folder.parentId], ownerId: folder.ownerId, item: { type: "folder", id: folder.id } });
+      return true;
+    }
+    if (!await storage.checkAccess(folder.id, "folder", user.id, "edit")) return false;
+    await storage.removePermission(folder.id, "folder", user.id);
+    await auditEntry(req, "unshare_folder", "folder", folder.id, `Removed self from folder share ${folder.id}`);
+    publishFolderChange({ type: "unshared", folderIds: [], ownerId: folder.ownerId, grants: [{ userId: user.id, groupId: null }] });
+    return true;
+  }
+
+  return false;
+}
+
+async function remove({ req, res, user, segments }: DavContext) {
+  const resource = await resolve(user.id, segments);
+  if (!resource) return fail(res, 404, "Not found");
+  if (resource.type === "root") return fail(res, 403, "The root can't be deleted");
+  const target = resourceTarget(resource);
+  if (await lockedByOthers(user.id, target, true)) return fail(res, 423, "Locked by another user");
+
+  if (!await removeResource(req, user, resource)) return fail(res, 403, "No permission to delete");
+  await releaseLocks(target);
+  res.sendStatus(204);
+}
+
+// The Destination header is a full URL or an absolute path under DAV_ROOT
+function destinationOf(req: Request): string[] | undefined {
+  const header = req.get("Destination");
+  if (!header) return undefined;
+  let pathname: string;
+  try {
+    pathname = new URL(header, `http://${req.get("Host") ?? "localhost"}`).pathname;
+  } catch {
+    return undefined;
+  }
+  if (pathname !== DAV_ROOT && !pathname.startsWith(`${DAV_ROOT}/`)) return undefined;
+  return parseSegments(pathname.slice(DAV_ROOT.length));
+}
+
+const sameResource = (a: DavResource, b: DavResource) =>
+  (a.type === "file" && b.type === "file" && a.file.id === b.file.id) ||
+  (a.type === "folder" && b.type === "folder" && a.folder.id === b.folder.id);
+
+interface FolderTree {
+  folder: Folder;
+  files: StoredFile[];
+  children: FolderTree[];
+  size: number;
+}
+
+// Everything under a folder that the user may download. Subfolders that stop
+// inheriting permissions can be out of reach, and are left out.
+async function collectTree(folder: Folder, userId: number, depth: "0" | "infinity"): Promise<FolderTree> {
+  const tree: FolderTree = { folder, files: [], children: [], size: 0 };
+  if (depth === "0") return tree;
+
+  tree.files = await storage.getFiles(folder.id, userId);
+  tree.size = tree.files.reduce((sum, file) => sum + file.size, 0);
+  for (const child of await storage.getFolders(folder.id, userId)) {
+    if (!await storage.checkAccess(child.id, "folder", userId, "download")) continue;
+    const subtree = await collectTree(child, userId, depth);
+    tree.children.push(subtree);
+    tree.size += subtree.size;
+  }
+  return tree;
+}
+
+// Copies share the originals' blobs, so only the database rows are new.
+// Returns how many files were copied.
+async function copyTree(tree: FolderTree, name: string, parentId: number | null, userId: number): Promise<number> {
+  const folder = await storage.createFolder({ name, parentId, ownerId: userId });
+  let copied = 0;
+  for (const file of tree.files) {
+    processFileContent(await storage.createFile({
+      name: file.name,
+      folderId: folder.id,
+      size: file.size,
+      mimeType: file.mimeType,
+      path: file.path,
+      createdBy: userId,
+    }));
+    copied++;
+  }
+  for (const child of tree.children) {
+    copied += await copyTree(child, child.folder.name, folder.id, userId);
+  }
+  return copied;
+}
+
+// Moves and/or renames; the caller has checked access. Returns why it failed, or null.
+async function moveResource(req: Request, user: User, source: DavResource, sourceSegments: string[], parent: DavResource, destination: string[]): Promise<string | null> {
+  const name = destination[destination.length - 1];
+  const folderId = folderIdOf(parent);
+  const moving = pathKey(sourceSegments.slice(0, -1)) !== pathKey(destination.slice(0, -1));
+
+  if (source.type === "file") {
+    const { file } = source;
+    if (moving) {
+      if (!await storage.moveFile(file.id, folderId)) return "File not found";
+      await auditEntry(req, "move_file", "file", file.id, `Moved file to folder ${folderId ?? "root"}`);
+    }
+    if (name !== file.name) {
+      await storage.renameFile(file.id, name);
+      await storage.recordFileAccess(user.id, file.id, 'rename');
+      await auditEntry(req, "rename_file", "file", file.id, `Renamed file to ${name}`);
+    }
+    publishFolderChange({ type: moving ? "moved" : "renamed", folderIds: [file.folderId, folderId], ownerId: file.createdBy, item: { type: "file", id: file.id } });
+  } else if (source.type === "folder") {
+    const { folder } = source;
+    if (moving) {
+      if (!await storage.moveFolder(folder.id, folderId)) return "Folder not found or invalid move";
+      await auditEntry(req, "move_folder", "folder", folder.id, `Moved folder to ${folderId ?? "root"}`);
+    }
+    if (name !== folder.name) {
+      await storage.renameFolder(folder.id, name);
+      await auditEntry(req, "rename_folder", "folder", folder.id, `Renamed folder to ${name}`);
+    }
+    publishFolderChange({ type: moving ? "moved" : "renamed", folderIds: [folder.parentId, folderId], ownerId: folder.ownerId, item: { type: "folder", id: folder.id } });
+  }
+  return null;
+}
+
+// The copy is a new item of the user's own, counted against their quota. The
+// caller has checked access. Returns why it was refused, or null.
+async function copyResource(req: Request, user: User, source: DavResource, parent: DavResource, destination: string[]): Promise<string | null> {
+  const name = destination[destination.length - 1];
+  const folderId = folderIdOf(parent);
+
+  if (source.type === "file") {
+    const { file } = source;
+    const quotaError = await checkQuota(user.id, file.size);
+    if (quotaError) return quotaError;
+
+    const copy = await storage.createFile({
+      name,
+      folderId,
+      size: file.size,
+      mimeType: file.mimeType,
+      path: file.path,
+      createdBy: user.id,
+    });
+    processFileContent(copy);
+    await auditEntry(req, "copy_file", "file", copy.id, `Copied file ${file.id} to ${name}`);
+    publishFolderChange({ type: "created", folderIds: [folderId], ownerId: user.id });
+  } else if (source.type === "folder") {
+    const { folder } = source;
+    const tree = await collectTree(folder, user.id, req.get("Depth") === "0" ? "0" : "infinity");
+    const quotaError = await checkQuota(user.id, tree.size);
+    if (quotaError) return quotaError;
+
+    const copied = await copyTree(tree, name, folderId, user.id);
+    await auditEntry(req, "copy_folder", "folder", folder.id, `Copied folder ${folder.id} to ${name} (${copied} files)`);
+    publishFolderChange({ type: "created", folderIds: [folderId], ownerId: user.id });
+  }
+  return null;
+}
+
+async function transfer({ req, res, user, segments }: DavContext, mode: "move" | "copy") {
+  const source = await resolve(user.id, segments);
+  if (!source) return fail(res, 404, "Not found");
+  if (source.type === "root") return fail(res, 403, `The root can't be ${mode === "move" ? "moved" : "copied"}`);
+
+  const destination = destinationOf(req);
+  if (!destination) return fail(res, 400, "Missing or invalid Destination header");
+  if (destination.length === 0) return fail(res, 403, "Can't replace the root");
+  const sourceKey = pathKey(segments);
+  const destinationKey = pathKey(destination);
+  if (destinationKey === sourceKey) return fail(res, 403, "Source and destination are the same");
+
+  const parent = await resolve(user.id, destination.slice(0, -1));
+  if (!parent || parent.type === "file") return fail(res, 409, "The destination folder doesn't exist");
+  if (source.type === "folder" && (destinationKey.startsWith(`${sourceKey}/`) ||
+    (parent.type === "folder" && await storage.isFolderWithin(parent.folder.id, source.folder.id)))) {
+    return fail(res, 403, "A folder can't be put inside itself");
+  }
+
+  // Moving takes edit access on the item; copying only needs its bytes
+  if (!await canAccess(source, user.id, mode === "move" ? "edit" : "download")) {
+    return fail(res, 403, mode === "move" ? "No permission to move" : "No permission to copy");
+  }
+  if (!await canAccess(parent, user.id, "edit")) return fail(res, 403, "No permission to move to destination");
+  // Otherwise an editor could move it into a folder of their own and own it
+  if (mode === "move" && !await canAccess(source, user.id, "owner") &&
+    !await storage.moveKeepsOwners(source.type === "file" ? source.file.id : source.folder.id, source.type, folderIdOf(parent))) {
+    return fail(res, 403, "Only an owner can move this out of its owner's folders");
+  }
+
+  const existing = await resolve(user.id, destination);
+  const sourceTarget = resourceTarget(source);
+  const destinationTarget = existing ? resourceTarget(existing) : newTarget(parent, destination[destination.length - 1], user.id);
+  if ((mode === "move" && await lockedByOthers(user.id, sourceTarget, true)) || await lockedByOthers(user.id, destinationTarget, true)) {
+    return fail(res, 423, "Locked by another user");
+  }
+
+  if (existing && !sameResource(existing, source)) {
+    if ((req.get("Overwrite") ?? "T").toUpperCase() === "F") return fail(res, 412, "The destination already exists");
+    if (!await removeResource(req, user, existing)) return fail(res, 403, "No permission to replace the destination");
+    await releaseLocks(destinationTarget);
+  }
+
+  if (mode === "move") {
+    const refusal = await moveResource(req, user, source, segments, parent, destination);
+    if (refusal) return fail(res, 404, refusal);
+    await releaseLocks(sourceTarget);
+  } else {
+    const refusal = await copyResource(req, user, source, parent, destination);
+    if (refusal) return fail(res, 413, refusal);
+  }
+  res.sendStatus(existing ? 204 : 201);
+}
+
+async function lock({ req, res, user, segments }: DavContext) {
+  // Locking everything a user can see would hold off everyone it's shared with
+  if (segments.length === 0) return fail(res, 403, "The root can't be locked");
+  const timeout = lockTimeout(req.get("Timeout"));
+  const body = await readXmlBody(req);
+
+  // An empty body refreshes a lock the client already holds
+  if (!body.trim()) {
+    const tokens = submittedLockTokens(req);
+    const target = await lockTarget(user.id, segments);
+    const held = target && (await locksCovering(target)).find(l => tokens.includes(l.token) && l.userId === user.id);
+    if (!held) return fail(res, 412, "No matching lock to refresh");
+    held.expiresAt = Date.now() + timeout * 1000;
+    return sendXml(res, 200, `<D:prop xmlns:D="DAV:"><D:lockdiscovery>${activeLockXml(held)}</D:lockdiscovery></D:prop>`);
+  }
+
+  // Clients lock a name before writing to it, so the resource may not exist yet
+  let target: LockTarget | undefined;
+  const resource = await resolve(user.id, segments);
+  if (resource) {
+    if (!await canAccess(resource, user.id, "edit")) return fail(res, 403, "No permission to lock this");
+    target = resourceTarget(resource);
+  } else {
+    const parent = await resolve(user.id, segments.slice(0, -1));
+    if (!parent || parent.type === "file") return fail(res, 409, "The parent folder doesn't exist");
+    if (!await canAccess(parent, user.id, "edit")) return fail(res, 403, "No permission to lock this");
+    target = newTarget(parent, segments[segments.length - 1], user.id);
+  }
+  if (!target) return fail(res, 403, "The root can't be locked");
+
+  const scope = /<(?:[\w-]+:)?shared\b/.test(body) ? "shared" : "exclusive";
+  const depth = req.get("Depth") === "0" ? "0" : "infinity";
+  for (const l of activeLocks()) {
+    if (l.userId === user.id || (l.scope === "shared" && scope === "shared")) continue;
+    if (await lockCovers(l, target) || (depth === "infinity" && target.folderId !== undefined && await isWithin(l.target, target.folderId))) {
+      return fail(res, 423, "Locked by another user");
+    }
+  }
+
+  // Kept as plain text; the client's markup may use namespaces we don't declare
+  const ownerMatch = /<(?:[\w-]+:)?owner\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?owner>/.exec(body);
+  const newLock: DavLock = {
+    token: `opaquelocktoken:${randomUUID()}`,
+    target,
+    path: pathKey(segments),
+    userId: user.id,
+    owner: ownerMatch ? ownerMatch[1].replace(/<[^>]*>/g, "").trim().slice(0, 255) : "",
+    scope,
+    depth,
+    expiresAt: Date.now() + timeout * 1000,
+  };
+  locks.set(newLock.token, newLock);
+
+  res.setHeader("Lock-Token", `<${newLock.token}>`);
+  sendXml(res, 200, `<D:prop xmlns:D="DAV:"><D:lockdiscovery>${activeLockXml(newLock)}</D:lockdiscovery></D:prop>`);
+}
+
+async function unlock({ req, res, user, segments }: DavContext) {
+  const token = (req.get("Lock-Token") ?? "").trim().replace(/^<|>$/g, "");
+  const held = activeLocks().find(l => l.token === token);
+  const target = await lockTarget(user.id, segments);
+  if (!held || held.userId !== user.id || !target || !await lockCovers(held, target)) {
+    return fail(res, 409, "No such lock on this resource");
+  }
+  locks.delete(held.token);
+  res.sendStatus(204);
+}
+
+const HANDLERS: Record<string, (context: DavContext) => Promise<unknown>> = {
+  PROPFIND: propfind,
+  GET: get,
+  HEAD: get,
+  PUT: put,
+  MKCOL: mkcol,
+  DELETE: remove,
+  MOVE: context => transfer(context, "move"),
+  COPY: context => transfer(context, "copy"),
+  LOCK: lock,
+  UNLOCK: unlock,
+};
+
+// WebDAV (RFC 4918, classes 1 and 2) over the same folders and files as the
+// file browser, with the same access checks and audit entries
+export function setupWebDav(app: Express) {
+  app.use(DAV_ROOT, async (req, res) => {
+    // Clients discover the server before they send credentials
+    if (req.method === "OPTIONS") {
+      res.setHeader("DAV", "1, 2");
+      res.setHeader("Allow", ALLOWED_METHODS);
+      res.setHeader("MS-Author-Via", "DAV");
+      return res.sendStatus(200);
+    }
+
+    try {
+      const handler = HANDLERS[req.method];
+      if (!handler) return fail(res, 405, `${req.method} isn't supported`);
+
+      const segments = parseSegments(req.path);
+      if (!segments) return fail(res, 400, "Malformed path");
+
+      const user = await authenticate(req, res);
+      if (!user) return;
+
+      const scope = READ_METHODS.has(req.method) ? "read" : "write";
+      if (req.apiToken && !req.apiToken.scopes.includes(scope)) {
+        return fail(res, 403, `This API token doesn't have the ${scope} scope`);
+      }
+
+      await handler({ req, res, user, segments });
+    } catch (e: any) {
+      console.error("WebDAV error:", e);
+      if (!res.headersSent) fail(res, e?.status ?? 500, e?.status ? e.message : "WebDAV request failed");
+    }
+  });
+}
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { insertUserSchema, insertFolderSchema, insertFileSchema, users, folders, files, auditLogs } from './schema';
+import { insertUserSchema, insertFolderSchema, insertFileSchema, insertGroupSchema, insertUserSettingsSchema, users, groups, folders, files, fileVersions, uploadSessions, auditLogs, type ShareLinkInfo, type PublicShare, type GroupWithMembers, type SearchResults, type ZipEntry, type RecentFiles, type AccessLevel, type RoleQuota, type UserQuota, type RoleCapabilities, type UserRole, type AuthUser, type LoginResponse, type TwoFactorStatus, type TwoFactorSetup, type SessionInfo, type AccountLockout, type ApiTokenInfo, type Permission, type Group, type UserSettings, roleCapabilitiesSchema, createApiTokenSchema, loginPolicySchema, SEARCH_TYPES, USER_ROLES, USER_STATUSES, FOLDER_EVENT_TYPES } from './schema';
 
 export const errorSchemas = {
   validation: z.object({
@@ -15,8 +15,31 @@ export const errorSchemas = {
   unauthorized: z.object({
     message: z.string(),
   }),
+  // Sign-in throttling; `retryAfter` is in seconds, as in the Retry-After header
+  tooManyRequests: z.object({
+    message: z.string(),
+    retryAfter: z.number(),
+  }),
 };
 
+// Query strings and multipart fields arrive as text: ids are coerced, and a
+// parameter given once is a string where one given twice is an array
+const optionalId = z.preprocess(
+  value => value === '' ? undefined : value,
+  z.coerce.number().int().positive().optional(),
+);
+const repeated = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  value => value === undefined ? [] : [value].flat(),
+  z.array(item),
+);
+// Path parameters arrive as text too
+const pathId = z.coerce.number().int().positive();
+const idParams = z.object({ id: pathId });
+const fileIdParams = z.object({ fileId: pathId });
+const shareTarget = z.enum(['file', 'folder']);
+// Ownership is never granted - it comes from creating the item
+const grantableAccessLevel = z.enum(['view', 'download', 'edit']);
+
 export const api = {
   auth: {
     login: {
@@ -27,8 +50,25 @@ export const api = {
         password: z.string(),
       }),
       responses: {
-        200: z.custom<typeof users.$inferSelect>(),
+        200: z.custom<LoginResponse>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        429: errorSchemas.tooManyRequests,
+      },
+    },
+    // Second step for users with 2FA: a code from their authenticator app,
+    // or one of their recovery codes
+    verifyTwoFactor: {
+      method: 'POST' as const,
+      path: '/api/auth/login/two-factor',
+      input: z.object({
+        code: z.string().trim().min(1, "Enter your code"),
+      }),
+      responses: {
+        200: z.custom<AuthUser>(),
+        400: errorSchemas.validation,
         401: errorSchemas.unauthorized,
+        429: errorSchemas.tooManyRequests,
       },
     },
     logout: {
@@ -42,7 +82,20 @@ export const api = {
       method: 'GET' as const,
       path: '/api/user',
       responses: {
-        200: z.custom<typeof users.$inferSelect>(),
+        200: z.custom<AuthUser>(),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    changePassword: {
+      method: 'PATCH' as const,
+      path: '/api/user/password',
+      input: z.object({
+        currentPassword: z.string().min(1, "Enter your current password"),
+        newPassword: z.string().min(6, "Password must be at least 6 characters"),
+      }),
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
         401: errorSchemas.unauthorized,
       },
     },
@@ -66,91 +119,1087 @@ export const api = {
         403: errorSchemas.unauthorized,
       },
     },
-  },
-  fs: {
-    list: {
-      method: 'GET' as const,
-      path: '/api/fs',
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/users/:id',
+      params: idParams,
       input: z.object({
-        folderId: z.string().optional(),
-      }).optional(),
+        username: z.string().trim().min(1, "Username is required").max(255).optional(),
+        role: z.enum(USER_ROLES).optional(),
+        status: z.enum(USER_STATUSES).optional(),
+      }),
       responses: {
-        200: z.object({
-          folders: z.array(z.custom<typeof folders.$inferSelect>()),
-          files: z.array(z.custom<typeof files.$inferSelect>()),
-          breadcrumbs: z.array(z.object({ id: z.number(), name: z.string() })),
-        }),
+        200: z.custom<typeof users.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
       },
     },
-    recent: {
+    suspend: {
+      method: 'POST' as const,
+      path: '/api/users/:id/suspend',
+      params: idParams,
+      responses: {
+        200: z.custom<typeof users.$inferSelect>(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    reactivate: {
+      method: 'POST' as const,
+      path: '/api/users/:id/reactivate',
+      params: idParams,
+      responses: {
+        200: z.custom<typeof users.$inferSelect>(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    resetPassword: {
+      method: 'POST' as const,
+      path: '/api/users/:id/reset-password',
+      params: idParams,
+      input: z.object({
+        password: z.string().min(6, "Password must be at least 6 characters"),
+      }),
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    // For a user who lost their authenticator: they sign in with just a
+    // password again (and re-enroll, if their role requires 2FA)
+    resetTwoFactor: {
+      method: 'POST' as const,
+      path: '/api/users/:id/reset-two-factor',
+      params: idParams,
+      responses: {
+        200: z.object({ message: z.string() }),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    // Other users whose name contains `q`, for picking who to share with
+    search: {
       method: 'GET' as const,
-      path: '/api/fs/recent',
+      path: '/api/users/search',
+      input: z.object({
+        q: z.string(),
+      }),
       responses: {
-        200: z.array(z.custom<typeof files.$inferSelect>()),
+        200: z.array(z.object({ id: z.number(), username: z.string() })),
+        400: errorSchemas.validation,
       },
     },
-    starred: {
+    // Every other user, for the share dialog and the search owner filter
+    available: {
       method: 'GET' as const,
-      path: '/api/fs/starred',
+      path: '/api/users/available',
       responses: {
-        200: z.array(z.custom<typeof files.$inferSelect>()),
+        200: z.array(z.object({ id: z.number(), username: z.string() })),
       },
     },
-    trash: {
+    // Usernames locked out by failed sign-ins right now
+    lockouts: {
       method: 'GET' as const,
-      path: '/api/fs/trash',
+      path: '/api/users/lockouts',
       responses: {
-        200: z.object({
-          files: z.array(z.custom<typeof files.$inferSelect>()),
-          folders: z.array(z.custom<typeof folders.$inferSelect>()),
-        }),
+        200: z.array(z.custom<AccountLockout>()),
+        403: errorSchemas.unauthorized,
       },
     },
-    createFolder: {
+    unlock: {
       method: 'POST' as const,
-      path: '/api/fs/folder',
-      input: insertFolderSchema,
+      path: '/api/users/:id/unlock',
+      params: idParams,
       responses: {
-        201: z.custom<typeof folders.$inferSelect>(),
+        200: z.object({ message: z.string() }),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    sessions: {
+      method: 'GET' as const,
+      path: '/api/users/:id/sessions',
+      params: idParams,
+      responses: {
+        200: z.array(z.custom<SessionInfo>()),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    revokeSession: {
+      method: 'DELETE' as const,
+      path: '/api/users/:id/sessions/:sessionId',
+      params: z.object({ id: pathId, sessionId: z.string() }),
+      responses: {
+        204: z.void(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    revokeSessions: {
+      method: 'DELETE' as const,
+      path: '/api/users/:id/sessions',
+      params: idParams,
+      responses: {
+        200: z.object({ revoked: z.number() }),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/users/:id',
+      params: idParams,
+      input: z.object({
+        transferTo: z.number().int({ message: "Choose who receives the user's files" }), // Inherits every file and folder the user owns
+      }),
+      responses: {
+        204: z.void(),
         400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
       },
     },
-    toggleStar: {
+    quota: {
+      method: 'GET' as const,
+      path: '/api/users/:id/quota',
+      params: idParams,
+      responses: {
+        200: z.custom<UserQuota>(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    setQuota: {
+      method: 'PUT' as const,
+      path: '/api/users/:id/quota',
+      params: idParams,
+      input: z.object({
+        quotaBytes: z.number().int().nonnegative().nullable(), // null = use the role default
+      }),
+      responses: {
+        200: z.custom<UserQuota>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  quotas: {
+    roles: {
+      method: 'GET' as const,
+      path: '/api/quotas/roles',
+      responses: {
+        200: z.array(z.custom<RoleQuota>()),
+        403: errorSchemas.unauthorized,
+      },
+    },
+    setRole: {
+      method: 'PUT' as const,
+      path: '/api/quotas/roles/:role',
+      input: z.object({
+        quotaBytes: z.number().int().nonnegative().nullable(), // null = unlimited
+      }),
+      responses: {
+        200: z.custom<RoleQuota[]>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+      },
+    },
+  },
+  settings: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/user/settings',
+      responses: {
+        // Empty until the user first changes something
+        200: z.custom<UserSettings | Record<string, never>>(),
+      },
+    },
+    update: {
       method: 'PATCH' as const,
-      path: '/api/fs/:fileId/star',
+      path: '/api/user/settings',
+      input: insertUserSettingsSchema.pick({ theme: true, notificationsEnabled: true, language: true }).partial(),
       responses: {
-        200: z.custom<typeof files.$inferSelect>(),
+        200: z.custom<UserSettings>(),
+        400: errorSchemas.validation,
       },
     },
-    delete: {
+  },
+  twoFactor: {
+    status: {
+      method: 'GET' as const,
+      path: '/api/user/two-factor',
+      responses: {
+        200: z.custom<TwoFactorStatus>(),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    // Starts enrollment with a fresh secret; nothing changes until `enable`
+    // confirms the user's app produces matching codes
+    setup: {
+      method: 'POST' as const,
+      path: '/api/user/two-factor/setup',
+      responses: {
+        200: z.custom<TwoFactorSetup>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    enable: {
+      method: 'POST' as const,
+      path: '/api/user/two-factor/enable',
+      input: z.object({
+        code: z.string().trim().min(1, "Enter the code from your app"),
+      }),
+      responses: {
+        200: z.object({ recoveryCodes: z.array(z.string()) }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    disable: {
+      method: 'POST' as const,
+      path: '/api/user/two-factor/disable',
+      input: z.object({
+        password: z.string().min(1, "Enter your password"),
+      }),
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    regenerateRecoveryCodes: {
+      method: 'POST' as const,
+      path: '/api/user/two-factor/recovery-codes',
+      input: z.object({
+        password: z.string().min(1, "Enter your password"),
+      }),
+      responses: {
+        200: z.object({ recoveryCodes: z.array(z.string()) }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+  },
+  sessions: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/user/sessions',
+      responses: {
+        200: z.array(z.custom<SessionInfo>()),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    // Signs out one other device; the current session uses logout instead
+    revoke: {
       method: 'DELETE' as const,
-      path: '/api/fs/:fileId',
+      path: '/api/user/sessions/:id',
+      params: z.object({ id: z.string() }),
       responses: {
         204: z.void(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
       },
     },
-    storageUsage: {
+    revokeOthers: {
+      method: 'DELETE' as const,
+      path: '/api/user/sessions',
+      responses: {
+        200: z.object({ revoked: z.number() }),
+        401: errorSchemas.unauthorized,
+      },
+    },
+  },
+  apiTokens: {
+    list: {
       method: 'GET' as const,
-      path: '/api/storage-usage',
+      path: '/api/user/api-tokens',
       responses: {
-        200: z.object({
-          used: z.number(),
-          total: z.number(),
-          percentage: z.number(),
-        }),
+        200: z.array(z.custom<ApiTokenInfo>()),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    // The only response that ever contains the token itself
+    create: {
+      method: 'POST' as const,
+      path: '/api/user/api-tokens',
+      input: createApiTokenSchema,
+      responses: {
+        201: z.object({ token: z.string(), apiToken: z.custom<ApiTokenInfo>() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    revoke: {
+      method: 'DELETE' as const,
+      path: '/api/user/api-tokens/:id',
+      params: idParams,
+      responses: {
+        204: z.void(),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
       },
     },
   },
-  audit: {
+  loginPolicy: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/login-policy',
+      responses: {
+        200: loginPolicySchema,
+        403: errorSchemas.unauthorized,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/login-policy',
+      input: loginPolicySchema,
+      responses: {
+        200: loginPolicySchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+      },
+    },
+  },
+  capabilities: {
+    mine: {
+      method: 'GET' as const,
+      path: '/api/user/capabilities',
+      responses: {
+        200: z.custom<RoleCapabilities>(),
+        401: errorSchemas.unauthorized,
+      },
+    },
     list: {
       method: 'GET' as const,
-      path: '/api/audit-logs',
+      path: '/api/capabilities',
       responses: {
-        200: z.array(z.custom<typeof auditLogs.$inferSelect>()),
+        200: z.custom<Record<UserRole, RoleCapabilities>>(),
+        403: errorSchemas.unauthorized,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/capabilities/:role',
+      input: roleCapabilitiesSchema,
+      responses: {
+        200: z.custom<Record<UserRole, RoleCapabilities>>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
       },
     },
   },
-};
+  groups: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/groups',
+      responses: {
+        200: z.array(z.custom<GroupWithMembers>()),
+        403: errorSchemas.unauthorized,
+      },
+    },
+    available: {
+      method: 'GET' as const,
+      path: '/api/groups/available',
+      responses: {
+        200: z.array(z.object({ id: z.number(), name: z.string() })),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/groups',
+      input: insertGroupSchema,
+      responses: {
+        201: z.custom<typeof groups.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/groups/:id',
+      params: idParams,
+      input: insertGroupSchema.partial(),
+      responses: {
+        200: z.custom<typeof groups.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/groups/:id',
+      params: idParams,
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
+    members: {
+      method: 'GET' as const,
+      path: '/api/groups/:id/members',
+      params: idParams,
+      responses: {
+        200: z.array(z.custom<typeof users.$inferSelect>()),
+        404: errorSchemas.notFound,
+      },
+    },
+    addMember: {
+      method: 'POST' as const,
+      path: '/api/groups/:id/members',
+      params: idParams,
+      input: z.object({
+        userId: z.number().int(),
+      }),
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
+    removeMember: {
+      method: 'DELETE' as const,
+      path: '/api/groups/:id/members/:userId',
+      params: z.object({ id: pathId, userId: pathId }),
+      responses: {
+        204: z.void(),
+      },
+    },
+  },
+  fs: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/fs',
+      input: z.object({
+        folderId: z.string().optional(),
+      }).optional(),
+      responses: {
+        200: z.object({
+          folders: z.array(z.custom<typeof folders.$inferSelect>()),
+          files: z.array(z.custom<typeof files.$inferSelect>()),
+          breadcrumbs: z.array(z.object({ id: z.number(), name: z.string() })),
+        }),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+      },
+    },
+    recent: {
+      method: 'GET' as const,
+      path: '/api/fs/recent',
+      input: z.object({
+        limit: z.coerce.number().int().min(1).max(100).default(50),
+        offset: z.coerce.number().int().min(0).default(0),
+      }),
+      responses: {
+        200: z.custom<RecentFiles>(),
+        400: errorSchemas.validation,
+      },
+    },
+    starred: {
+      method: 'GET' as const,
+      path: '/api/fs/starred',
+      responses: {
+        200: z.object({
+          files: z.array(z.custom<typeof files.$inferSelect & { accessLevel: AccessLevel }>()),
+          folders: z.array(z.custom<typeof folders.$inferSelect & { accessLevel: AccessLevel }>()),
+        }),
+      },
+    },
+    search: {
+      method: 'GET' as const,
+      path: '/api/fs/search',
+      input: z.object({
+        q: z.string().trim().min(1, "Enter something to search for").max(200),
+        type: z.enum(SEARCH_TYPES).optional(),
+        ownerId: z.coerce.number().int().optional(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        minSize: z.coerce.number().int().min(0).optional(),
+        maxSize: z.coerce.number().int().min(0).optional(),
+      }),
+      responses: {
+        200: z.custom<SearchResults>(),
+        400: errorSchemas.validation,
+      },
+    },
+    trash: {
+      method: 'GET' as const,
+      path: '/api/fs/trash',
+      responses: {
+        200: z.object({
+          files: z.array(z.custom<typeof files.$inferSelect>()),
+          folders: z.array(z.custom<typeof folders.$inferSelect>()),
+        }),
+      },
+    },
+    createFolder: {
+      method: 'POST' as const,
+      path: '/api/fs/folder',
+      input: insertFolderSchema.pick({ name: true, parentId: true }),
+      responses: {
+        201: z.custom<typeof folders.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+      },
+    },
+    // Multipart uploads in one request. `multipart` names the file field; the
+    // other form fields are described by `input`.
+    upload: {
+      method: 'POST' as const,
+      path: '/api/fs/upload',
+      multipart: { field: 'files', multiple: true },
+      input: z.object({
+        folderId: optionalId,
+      }),
+      responses: {
+        201: z.array(z.custom<typeof files.$inferSelect>()),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+        413: errorSchemas.validation,
+      },
+    },
+    // `paths` holds each file's path inside the uploaded folder, in file order
+    uploadFolder: {
+      method: 'POST' as const,
+      path: '/api/fs/upload-folder',
+      multipart: { field: 'files', multiple: true },
+      input: z.object({
+        folderId: optionalId,
+        paths: repeated(z.string()),
+      }),
+      responses: {
+        201: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+        413: errorSchemas.validation,
+      },
+    },
+    // A zip file, extracted into folders and files on the server
+    uploadArchive: {
+      method: 'POST' as const,
+      path: '/api/fs/upload-archive',
+      multipart: { field: 'archive', multiple: false },
+      input: z.object({
+        folderId: optionalId,
+      }),
+      responses: {
+        201: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+        413: errorSchemas.validation,
+      },
+    },
+    toggleStar: {
+      method: 'PATCH' as const,
+      path: '/api/fs/:fileId/star',
+      params: fileIdParams,
+      responses: {
+        200: z.object({ starred: z.boolean() }),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    toggleFolderStar: {
+      method: 'PATCH' as const,
+      path: '/api/fs/folders/:id/star',
+      params: idParams,
+      responses: {
+        200: z.object({ starred: z.boolean() }),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/fs/:fileId',
+      params: fileIdParams,
+      responses: {
+        204: z.void(),
+      },
+    },
+    // Owners move the folder to the trash; anyone else just leaves the share
+    deleteFolder: {
+      method: 'DELETE' as const,
+      path: '/api/fs/folders/:id',
+      params: idParams,
+      responses: {
+        204: z.void(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    restore: {
+      method: 'POST' as const,
+      path: '/api/fs/:fileId/restore',
+      params: fileIdParams,
+      responses: {
+        200: z.void(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    restoreFolder: {
+      method: 'POST' as const,
+      path: '/api/fs/folders/:id/restore',
+      params: idParams,
+      responses: {
+        200: z.void(),
+      },
+    },
+    permanentDelete: {
+      method: 'DELETE' as const,
+      path: '/api/fs/:fileId/permanent',
+      params: fileIdParams,
+      responses: {
+        204: z.void(),
+      },
+    },
+    permanentDeleteFolder: {
+      method: 'DELETE' as const,
+      path: '/api/fs/folders/:id/permanent',
+      params: idParams,
+      responses: {
+        204: z.void(),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    // The file's content inline, for previews
+    view: {
+      method: 'GET' as const,
+      path: '/api/fs/:fileId/view',
+      params: fileIdParams,
+      responses: {
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    download: {
+      method: 'GET' as const,
+      path: '/api/fs/:fileId/download',
+      params: fileIdParams,
+      responses: {
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    // The folder and everything in it the caller may download, as a zip
+    downloadFolder: {
+      method: 'GET' as const,
+      path: '/api/fs/folders/:id/download',
+      params: idParams,
+      responses: {
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    // Several files and folders as one zip; items the caller can't download are left out
+    bulkDownload: {
+      method: 'GET' as const,
+      path: '/api/fs/bulk-download',
+      input: z.object({
+        fileIds: repeated(z.coerce.number().int()),
+        folderIds: repeated(z.coerce.number().int()),
+      }),
+      responses: {
+        400: errorSchemas.validation,
+      },
+    },
+    renameFile: {
+      method: 'PATCH' as const,
+      path: '/api/fs/files/:id/rename',
+      params: idParams,
+      input: z.object({
+        name: z.string().min(1),
+      }),
+      responses: {
+        200: z.custom<typeof files.$inferSelect>(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    renameFolder: {
+      method: 'PATCH' as const,
+      path: '/api/fs/folders/:id/rename',
+      params: idParams,
+      input: z.object({
+        name: z.string().min(1),
+      }),
+      responses: {
+        200: z.custom<typeof folders.$inferSelect>(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    // null moves the item to the root
+    moveFile: {
+      method: 'PATCH' as const,
+      path: '/api/fs/files/:id/move',
+      params: idParams,
+      input: z.object({
+        folderId: z.number().nullable(),
+      }),
+      responses: {
+        200: z.custom<typeof files.$inferSelect>(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    moveFolder: {
+      method: 'PATCH' as const,
+      path: '/api/fs/folders/:id/move',
+      params: idParams,
+      input: z.object({
+        parentId: z.number().nullable(),
+      }),
+      responses: {
+        200: z.custom<typeof folders.$inferSelect>(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    share: {
+      method: 'POST' as const,
+      path: '/api/fs/share',
+      input: z.object({
+        targetId: z.number().int(),
+        targetType: shareTarget,
+        userId: z.number().int().optional(),
+        groupId: z.number().int().optional(),
+        accessLevel: grantableAccessLevel,
+      }),
+      responses: {
+        201: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+      },
+    },
+    // Items the caller doesn't own are skipped and listed in `errors`
+    shareMultiple: {
+      method: 'POST' as const,
+      path: '/api/fs/share-multiple',
+      input: z.object({
+        items: z.array(z.object({ id: z.number().int(), type: shareTarget })).min(1, "No items to share"),
+        userId: z.number().int().optional(),
+        groupId: z.number().int().optional(),
+        accessLevel: grantableAccessLevel,
+      }),
+      responses: {
+        201: z.object({
+          message: z.string(),
+          sharedCount: z.number(),
+          errors: z.array(z.string()).optional(),
+        }),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+      },
+    },
+    // Who has access to an item; only its owner may ask
+    permissions: {
+      method: 'GET' as const,
+      path: '/api/fs/:type/:id/permissions',
+      params: z.object({ type: z.enum(['files', 'folders']), id: pathId }),
+      responses: {
+        200: z.array(z.custom<Permission & { user: { id: number; username: string } | null; group: Group | null }>()),
+        403: errorSchemas.unauthorized,
+      },
+    },
+    unshare: {
+      method: 'DELETE' as const,
+      path: '/api/fs/share/:permissionId',
+      params: z.object({ permissionId: pathId }),
+      responses: {
+        204: z.void(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    setInheritance: {
+      method: 'PATCH' as const,
+      path: '/api/fs/folders/:id/inheritance',
+      params: idParams,
+      input: z.object({
+        inheritPermissions: z.boolean(),
+      }),
+      responses: {
+        200: z.custom<typeof folders.$inferSelect>(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    versions: {
+      method: 'GET' as const,
+      path: '/api/fs/files/:id/versions',
+      params: idParams,
+      responses: {
+        200: z.array(z.custom<typeof fileVersions.$inferSelect>()),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    uploadVersion: {
+      method: 'POST' as const,
+      path: '/api/fs/files/:id/versions',
+      params: idParams,
+      multipart: { field: 'file', multiple: false },
+      responses: {
+        201: z.custom<typeof fileVersions.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    downloadVersion: {
+      method: 'GET' as const,
+      path: '/api/fs/files/:id/versions/:versionId/download',
+      params: z.object({ id: pathId, versionId: pathId }),
+      responses: {
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    restoreVersion: {
+      method: 'POST' as const,
+      path: '/api/fs/files/:id/versions/:versionId/restore',
+      params: z.object({ id: pathId, versionId: pathId }),
+      responses: {
+        200: z.custom<typeof files.$inferSelect>(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+        413: errorSchemas.validation,
+      },
+    },
+    thumbnail: {
+      method: 'GET' as const,
+      path: '/api/fs/:fileId/thumbnail',
+      params: fileIdParams,
+      responses: {
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    zipEntries: {
+      method: 'GET' as const,
+      path: '/api/fs/files/:id/zip-entries',
+      params: idParams,
+      responses: {
+        200: z.custom<ZipEntry[]>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+        413: errorSchemas.validation,
+      },
+    },
+    uploads: {
+      method: 'GET' as const,
+      path: '/api/fs/uploads',
+      responses: {
+        200: z.array(z.custom<typeof uploadSessions.$inferSelect>()),
+      },
+    },
+    createUpload: {
+      method: 'POST' as const,
+      path: '/api/fs/uploads',
+      input: z.object({
+        name: z.string().min(1),
+        size: z.number().int().nonnegative(),
+        mimeType: z.string().optional(),
+        folderId: z.number().nullable().optional(),
+      }),
+      responses: {
+        201: z.custom<typeof uploadSessions.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+      },
+    },
+    uploadStatus: {
+      method: 'HEAD' as const,
+      path: '/api/fs/uploads/:id',
+      params: z.object({ id: z.string() }),
+      responses: {
+        200: z.void(),
+        404: z.void(),
+      },
+    },
+    // The body is the next bytes of the file, starting at the Upload-Offset header
+    uploadChunk: {
+      method: 'PATCH' as const,
+      path: '/api/fs/uploads/:id',
+      params: z.object({ id: z.string() }),
+      rawBody: 'application/offset+octet-stream',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+        409: errorSchemas.validation,
+      },
+    },
+    completeUpload: {
+      method: 'POST' as const,
+      path: '/api/fs/uploads/:id/complete',
+      params: z.object({ id: z.string() }),
+      responses: {
+        201: z.custom<typeof files.$inferSelect>(),
+        404: errorSchemas.notFound,
+        409: errorSchemas.validation,
+      },
+    },
+    cancelUpload: {
+      method: 'DELETE' as const,
+      path: '/api/fs/uploads/:id',
+      params: z.object({ id: z.string() }),
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
+    storageUsage: {
+      method: 'GET' as const,
+      path: '/api/storage-usage',
+      responses: {
+        200: z.object({
+          used: z.number(), // Charged to the caller: everything they own, trash included
+          quota: z.number().nullable(), // null = unlimited
+          percentage: z.number().nullable(),
+          logical: z.number(), // Sum of every file and version outside the trash
+          physical: z.number(), // Bytes actually held by the blob store after deduplication
+        }),
+      },
+    },
+  },
+  shareLinks: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/fs/:type/:id/share-links',
+      params: z.object({ type: z.enum(['files', 'folders']), id: pathId }),
+      responses: {
+        200: z.array(z.custom<ShareLinkInfo>()),
+        403: errorSchemas.unauthorized,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/share-links',
+      input: z.object({
+        targetId: z.number().int(),
+        targetType: z.enum(['file', 'folder']),
+        expiresAt: z.string().datetime().nullable().optional(),
+        password: z.string().min(4).nullable().optional(),
+        maxDownloads: z.number().int().positive().nullable().optional(),
+        viewOnly: z.boolean().optional(),
+      }),
+      responses: {
+        201: z.custom<ShareLinkInfo>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+      },
+    },
+    revoke: {
+      method: 'DELETE' as const,
+      path: '/api/share-links/:id',
+      params: idParams,
+      responses: {
+        204: z.void(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  publicShares: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/public/shares/:token',
+      input: z.object({
+        folderId: z.string().optional(), // Browse into a subfolder of a shared folder
+      }).optional(),
+      responses: {
+        200: z.custom<PublicShare>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        410: errorSchemas.notFound,
+      },
+    },
+    unlock: {
+      method: 'POST' as const,
+      path: '/api/public/shares/:token/unlock',
+      input: z.object({
+        password: z.string(),
+      }),
+      responses: {
+        200: z.object({ message: z.string() }),
+        401: errorSchemas.unauthorized,
+        429: errorSchemas.tooManyRequests,
+      },
+    },
+    view: {
+      method: 'GET' as const,
+      path: '/api/public/shares/:token/view',
+      input: z.object({
+        fileId: optionalId, // Which file of a shared folder
+      }),
+      responses: {
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+        410: errorSchemas.notFound,
+      },
+    },
+    download: {
+      method: 'GET' as const,
+      path: '/api/public/shares/:token/download',
+      input: z.object({
+        fileId: optionalId, // Left out on a folder link, the whole folder comes as a zip
+      }),
+      responses: {
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+        410: errorSchemas.notFound,
+      },
+    },
+  },
+  // This contract as an OpenAPI 3 document, generated at startup; the
+  // interactive docs at /api/docs are built from it
+  docs: {
+    spec: {
+      method: 'GET' as const,
+      path: '/api/docs/openapi.json',
+      responses: {
+        200: z.custom<Record<string, unknown>>(),
+      },
+    },
+  },
+  audit: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/audit-logs',
+      responses: {
+        200: z.array(z.custom<typeof auditLogs.$inferSelect>()),
+      },
+    },
+  },
+};
+
+// Live updates arrive over a WebSocket rather than a REST route. Each message
+// names the folder listings that changed for the receiving user; null is the
+// top level of their own files.
+export const liveUpdates = {
+  path: '/api/live',
+  event: z.object({
+    type: z.enum(FOLDER_EVENT_TYPES),
+    folderIds: z.array(z.number().nullable()),
+  }),
+};
+
+export type FolderEvent = z.infer<typeof liveUpdates.event>;
 
 export function buildUrl(path: string, params?: Record<string, string | number>): string {
   let url = path;
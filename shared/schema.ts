@@ -1,4 +1,4 @@
-import { mysqlTable, serial, int, text, boolean, timestamp, varchar } from "drizzle-orm/mysql-core";
+import { mysqlTable, serial, int, bigint, text, mediumtext, boolean, timestamp, varchar, uniqueIndex, index } from "drizzle-orm/mysql-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -10,10 +10,31 @@ export const users = mysqlTable("users", {
   username: varchar("username", { length: 255 }).notNull().unique(),
   password: text("password").notNull(),
   role: varchar("role", { length: 50 }).notNull().default("employee"), // 'superadmin', 'admin', 'staff', 'employee'
-  status: varchar("status", { length: 50 }).notNull().default("active"),
+  status: varchar("status", { length: 50 }).notNull().default("active"), // 'active', 'inactive', 'suspended' - only active users can sign in
+  quotaBytes: bigint("quota_bytes", { mode: "number" }), // Storage quota override; null = the role's default
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Default storage quota per role. A role without a row is unlimited.
+export const roleQuotas = mysqlTable("role_quotas", {
+  role: varchar("role", { length: 50 }).primaryKey(),
+  quotaBytes: bigint("quota_bytes", { mode: "number" }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+// What each role may do (see CAPABILITIES). A role without a row falls back
+// to DEFAULT_ROLE_CAPABILITIES; superadmins can always do everything.
+export const roleCapabilities = mysqlTable("role_capabilities", {
+  role: varchar("role", { length: 50 }).primaryKey(),
+  canShareExternally: boolean("can_share_externally").notNull(),
+  canUploadArchive: boolean("can_upload_archive").notNull(),
+  canViewAudit: boolean("can_view_audit").notNull(),
+  canManageUsers: boolean("can_manage_users").notNull(),
+  maxUploadSize: bigint("max_upload_size", { mode: "number" }), // Bytes per file; null = no limit
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
 export const userSettings = mysqlTable("user_settings", {
   userId: int("user_id").primaryKey().references(() => users.id),
   theme: varchar("theme", { length: 20 }).default("light"),
@@ -30,6 +51,7 @@ export const folders = mysqlTable("folders", {
   isDeleted: boolean("is_deleted").default(false), // Soft delete
   deletedAt: timestamp("deleted_at"),
   deletedBy: int("deleted_by").references(() => users.id),
+  inheritPermissions: boolean("inherit_permissions").notNull().default(true), // False = grants on ancestors stop here
   createdAt: timestamp("created_at").defaultNow(),
   path: text("path"), // Materialized path for easier querying
 });
@@ -38,18 +60,61 @@ export const files = mysqlTable("files", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   folderId: int("folder_id").references(() => folders.id, { onDelete: "cascade" }),
-  size: int("size").notNull(), // in bytes
+  size: bigint("size", { mode: "number" }).notNull(), // in bytes
   mimeType: varchar("mime_type", { length: 255 }).notNull(),
   path: text("path").notNull(), // Storage path
   createdBy: int("created_by").references(() => users.id),
-  isStarred: boolean("is_starred").default(false),
   isDeleted: boolean("is_deleted").default(false), // Soft delete
   deletedAt: timestamp("deleted_at"),
   deletedBy: int("deleted_by").references(() => users.id),
-  lastAccessedAt: timestamp("last_accessed_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const fileVersions = mysqlTable("file_versions", {
+  id: serial("id").primaryKey(),
+  fileId: int("file_id").notNull().references(() => files.id, { onDelete: "cascade" }),
+  versionNumber: int("version_number").notNull(),
+  size: bigint("size", { mode: "number" }).notNull(), // in bytes
+  mimeType: varchar("mime_type", { length: 255 }).notNull(),
+  path: text("path").notNull(), // Storage path of this revision
+  createdBy: int("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const fileContents = mysqlTable("file_contents", {
+  fileId: int("file_id").primaryKey().references(() => files.id, { onDelete: "cascade" }),
+  content: mediumtext("content").notNull(), // Plain text extracted from the current version, for search
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+export const blobs = mysqlTable("blobs", {
+  hash: varchar("hash", { length: 64 }).primaryKey(), // SHA-256 of the content, hex
+  path: varchar("path", { length: 512 }).notNull().unique(), // Blob store locator
+  size: bigint("size", { mode: "number" }).notNull(), // in bytes
+  refCount: int("ref_count").notNull().default(0), // Number of file_versions rows pointing at this blob
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Rendered previews, keyed by the content they were made from so every file
+// sharing a blob shares its thumbnail
+export const thumbnails = mysqlTable("thumbnails", {
+  blobPath: varchar("blob_path", { length: 512 }).primaryKey(), // Locator of the source blob
+  path: varchar("path", { length: 512 }).notNull(), // Blob store locator of the WebP thumbnail
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const uploadSessions = mysqlTable("upload_sessions", {
+  id: varchar("id", { length: 64 }).primaryKey(), // Random token, also the partial file name
+  userId: int("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  folderId: int("folder_id").references(() => folders.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(),
+  mimeType: varchar("mime_type", { length: 255 }).notNull(),
+  size: bigint("size", { mode: "number" }).notNull(), // Total bytes expected
+  offset: bigint("upload_offset", { mode: "number" }).notNull().default(0), // Bytes received so far
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
 export const auditLogs = mysqlTable("audit_logs", {
   id: serial("id").primaryKey(),
   userId: int("user_id").references(() => users.id),
@@ -59,6 +124,25 @@ export const auditLogs = mysqlTable("audit_logs", {
   details: text("details"),
   ipAddress: varchar("ip_address", { length: 45 }),
   userAgent: varchar("user_agent", { length: 255 }),
+  // Set when the action came in with a personal API token. The name is copied
+  // so the entry still reads right after the token is revoked.
+  apiTokenId: int("api_token_id"),
+  apiTokenName: varchar("api_token_name", { length: 100 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const groups = mysqlTable("groups", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull().unique(),
+  description: text("description"),
+  createdBy: int("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const groupMembers = mysqlTable("group_members", {
+  id: serial("id").primaryKey(),
+  groupId: int("group_id").notNull().references(() => groups.id, { onDelete: "cascade" }),
+  userId: int("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -66,12 +150,129 @@ export const permissions = mysqlTable("permissions", {
   id: serial("id").primaryKey(),
   fileId: int("file_id").references(() => files.id),
   folderId: int("folder_id").references(() => folders.id),
-  userId: int("user_id").notNull().references(() => users.id),
+  userId: int("user_id").references(() => users.id), // Grantee is either a user...
+  groupId: int("group_id").references(() => groups.id, { onDelete: "cascade" }), // ...or every member of a group
   grantedBy: int("granted_by").notNull().references(() => users.id),
   accessLevel: varchar("access_level", { length: 20 }).notNull().default("view"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const shareLinks = mysqlTable("share_links", {
+  id: serial("id").primaryKey(),
+  token: varchar("token", { length: 64 }).notNull().unique(), // Random, goes into the public /s/:token URL
+  fileId: int("file_id").references(() => files.id, { onDelete: "cascade" }),
+  folderId: int("folder_id").references(() => folders.id, { onDelete: "cascade" }),
+  createdBy: int("created_by").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at"), // Null = never expires
+  passwordHash: text("password_hash"), // Null = no password
+  maxDownloads: int("max_downloads"), // Null = unlimited
+  downloadCount: int("download_count").notNull().default(0),
+  viewOnly: boolean("view_only").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Stars are personal: each row is one user's star on either a file or a folder
+export const userStars = mysqlTable("user_stars", {
+  id: serial("id").primaryKey(),
+  userId: int("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  fileId: int("file_id").references(() => files.id, { onDelete: "cascade" }),
+  folderId: int("folder_id").references(() => folders.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userFile: uniqueIndex("user_stars_user_file").on(table.userId, table.fileId),
+  userFolder: uniqueIndex("user_stars_user_folder").on(table.userId, table.folderId),
+}));
+
+// One row per user and file, moved forward whenever the user touches the file - drives Recent
+export const fileAccess = mysqlTable("file_access", {
+  id: serial("id").primaryKey(),
+  userId: int("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  fileId: int("file_id").notNull().references(() => files.id, { onDelete: "cascade" }),
+  action: varchar("action", { length: 20 }).notNull(), // Latest of FILE_ACCESS_ACTIONS
+  accessedAt: timestamp("accessed_at").notNull().defaultNow(),
+}, (table) => ({
+  userFile: uniqueIndex("file_access_user_file").on(table.userId, table.fileId),
+  userAccessed: index("file_access_user_accessed").on(table.userId, table.accessedAt),
+}));
+
+// A user's TOTP authenticator once enrollment is confirmed. Kept apart from
+// `users` so the secret never travels with a user record.
+export const userTwoFactor = mysqlTable("user_two_factor", {
+  userId: int("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: varchar("secret", { length: 64 }).notNull(), // Base32, as shown to authenticator apps
+  lastUsedStep: bigint("last_used_step", { mode: "number" }), // A code can't be replayed within its window
+  enabledAt: timestamp("enabled_at").defaultNow(),
+});
+
+// Single-use codes for signing in without the authenticator. Only hashes are stored.
+export const recoveryCodes = mysqlTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: int("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  usedAt: timestamp("used_at"),
+}, (table) => ({
+  userCode: uniqueIndex("recovery_codes_user_code").on(table.userId, table.codeHash),
+}));
+
+// Login sessions (express-session's store). The user and device are copied out
+// of the session data so sessions can be listed and revoked per user.
+export const sessions = mysqlTable("sessions", {
+  sid: varchar("sid", { length: 128 }).primaryKey(), // The cookie value - never sent back to clients
+  publicId: varchar("public_id", { length: 32 }).notNull().unique(), // How clients refer to a session
+  userId: int("user_id").references(() => users.id, { onDelete: "cascade" }), // Null until signed in
+  data: text("data").notNull(), // JSON
+  ipAddress: varchar("ip_address", { length: 45 }),
+  userAgent: varchar("user_agent", { length: 255 }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => ({
+  user: index("sessions_user").on(table.userId),
+  expires: index("sessions_expires").on(table.expiresAt),
+}));
+
+// Personal access tokens for scripts, sent as "Authorization: Bearer fms_...".
+// Only a hash is stored; the token itself is shown once, when it is created.
+export const apiTokens = mysqlTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: int("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256, hex
+  prefix: varchar("prefix", { length: 16 }).notNull(), // Start of the token, to tell them apart
+  scopes: varchar("scopes", { length: 100 }).notNull(), // Comma-separated API_TOKEN_SCOPES
+  expiresAt: timestamp("expires_at"), // Null = never
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  user: index("api_tokens_user").on(table.userId),
+}));
+
+// Failed sign-ins, counted per username and per client IP, and wrong public
+// link passwords per link. A row is the current streak of failures; it is
+// cleared by a successful sign-in (for the username) or unlock (for the link),
+// or once the last failure is older than the lockout period.
+export const loginFailures = mysqlTable("login_failures", {
+  id: serial("id").primaryKey(),
+  scope: varchar("scope", { length: 10 }).notNull(), // 'username', 'ip' or 'share_link'
+  key: varchar("key", { length: 255 }).notNull(), // Lower-cased username, the IP address, or the link id
+  failures: int("failures").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at").notNull().defaultNow(),
+  blockedUntil: timestamp("blocked_until"), // Backoff: no attempts before this
+  lockedUntil: timestamp("locked_until"), // Set once the failure limit is reached
+}, (table) => ({
+  scopeKey: uniqueIndex("login_failures_scope_key").on(table.scope, table.key),
+}));
+
+// How sign-in throttling behaves. A single row (id 1); DEFAULT_LOGIN_POLICY
+// applies until an admin saves one.
+export const loginPolicy = mysqlTable("login_policy", {
+  id: int("id").primaryKey(),
+  maxFailures: int("max_failures").notNull(), // Per username, before it is locked
+  maxIpFailures: int("max_ip_failures").notNull(), // Per client IP, before it is locked
+  lockoutMinutes: int("lockout_minutes").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
 // === RELATIONS ===
 
 export const usersRelations = relations(users, ({ one, many }) => ({
@@ -81,6 +282,7 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   settings: one(userSettings),
   permissionsReceived: many(permissions, { relationName: "permissions_received" }),
   permissionsGranted: many(permissions, { relationName: "permissions_granted" }),
+  groupMemberships: many(groupMembers),
 }));
 
 export const userSettingsRelations = relations(userSettings, ({ one }) => ({
@@ -103,6 +305,7 @@ export const foldersRelations = relations(folders, ({ one, many }) => ({
     references: [users.id],
   }),
   permissions: many(permissions),
+  shareLinks: many(shareLinks),
 }));
 
 export const filesRelations = relations(files, ({ one, many }) => ({
@@ -115,6 +318,50 @@ export const filesRelations = relations(files, ({ one, many }) => ({
     references: [users.id],
   }),
   permissions: many(permissions),
+  versions: many(fileVersions),
+  shareLinks: many(shareLinks),
+}));
+
+export const fileVersionsRelations = relations(fileVersions, ({ one }) => ({
+  file: one(files, {
+    fields: [fileVersions.fileId],
+    references: [files.id],
+  }),
+  creator: one(users, {
+    fields: [fileVersions.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const groupsRelations = relations(groups, ({ many }) => ({
+  members: many(groupMembers),
+  permissions: many(permissions),
+}));
+
+export const groupMembersRelations = relations(groupMembers, ({ one }) => ({
+  group: one(groups, {
+    fields: [groupMembers.groupId],
+    references: [groups.id],
+  }),
+  user: one(users, {
+    fields: [groupMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const shareLinksRelations = relations(shareLinks, ({ one }) => ({
+  file: one(files, {
+    fields: [shareLinks.fileId],
+    references: [files.id],
+  }),
+  folder: one(folders, {
+    fields: [shareLinks.folderId],
+    references: [folders.id],
+  }),
+  creator: one(users, {
+    fields: [shareLinks.createdBy],
+    references: [users.id],
+  }),
 }));
 
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
@@ -143,6 +390,10 @@ export const permissionsRelations = relations(permissions, ({ one }) => ({
     references: [users.id],
     relationName: "permissions_granted",
   }),
+  group: one(groups, {
+    fields: [permissions.groupId],
+    references: [groups.id],
+  }),
 }));
 
 // === SCHEMAS ===
@@ -150,14 +401,23 @@ export const permissionsRelations = relations(permissions, ({ one }) => ({
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
 export const insertFolderSchema = createInsertSchema(folders).omit({ id: true, createdAt: true, path: true });
 export const insertFileSchema = createInsertSchema(files).omit({ id: true, createdAt: true });
+export const insertFileVersionSchema = createInsertSchema(fileVersions).omit({ id: true, createdAt: true });
+export const insertBlobSchema = createInsertSchema(blobs).omit({ createdAt: true });
+export const insertUploadSessionSchema = createInsertSchema(uploadSessions).omit({ createdAt: true, updatedAt: true });
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: true, createdAt: true });
 export const insertPermissionSchema = createInsertSchema(permissions).omit({ id: true, createdAt: true });
+export const insertGroupSchema = createInsertSchema(groups, {
+  name: (schema) => schema.min(1, "Name is required"),
+}).omit({ id: true, createdAt: true, createdBy: true });
+export const insertShareLinkSchema = createInsertSchema(shareLinks).omit({ id: true, createdAt: true, downloadCount: true });
 
 // === TYPES ===
 
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type RoleQuota = typeof roleQuotas.$inferSelect;
+
 export type UserSettings = typeof userSettings.$inferSelect;
 export const insertUserSettingsSchema = createInsertSchema(userSettings);
 export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
@@ -168,12 +428,255 @@ export type InsertFolder = z.infer<typeof insertFolderSchema>;
 export type File = typeof files.$inferSelect;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 
+export type FileVersion = typeof fileVersions.$inferSelect;
+export type InsertFileVersion = z.infer<typeof insertFileVersionSchema>;
+
+export type FileContent = typeof fileContents.$inferSelect;
+
+export type Blob = typeof blobs.$inferSelect;
+export type InsertBlob = z.infer<typeof insertBlobSchema>;
+
+export type Thumbnail = typeof thumbnails.$inferSelect;
+
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type InsertUploadSession = z.infer<typeof insertUploadSessionSchema>;
+
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 
 export type Permission = typeof permissions.$inferSelect;
 export type InsertPermission = z.infer<typeof insertPermissionSchema>;
 
+export type Group = typeof groups.$inferSelect;
+export type InsertGroup = z.infer<typeof insertGroupSchema>;
+export type GroupWithMembers = Group & { memberCount: number };
+
+export type UserStar = typeof userStars.$inferSelect;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type LoginSession = typeof sessions.$inferSelect;
+export type LoginFailure = typeof loginFailures.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+export type FileAccess = typeof fileAccess.$inferSelect;
+
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+
+// Access lattice: view < download < edit < owner. Each level includes every
+// level below it, so a check is always "at least this level".
+// View is not "never sees the bytes": a preview is the file itself, so for
+// the kinds the drawer shows (PreviewKind) a viewer is sent the whole file,
+// inline. Download adds every other kind and the file as an attachment.
+export const ACCESS_LEVELS = ['view', 'download', 'edit', 'owner'] as const;
+export type AccessLevel = typeof ACCESS_LEVELS[number];
+
+export function hasAccess(level: AccessLevel | null | undefined, required: AccessLevel): boolean {
+  return !!level && ACCESS_LEVELS.indexOf(level) >= ACCESS_LEVELS.indexOf(required);
+}
+
+export function maxAccess(a: AccessLevel | null, b: AccessLevel | null): AccessLevel | null {
+  if (!a) return b;
+  if (!b) return a;
+  return hasAccess(a, b) ? a : b;
+}
+
+export const USER_ROLES = ['superadmin', 'admin', 'staff', 'employee'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// USER_ROLES runs from most to least privileged. Whoever manages users can
+// only act on, and hand out, roles no higher than their own.
+export function canManageRole(actorRole: string, role: string): boolean {
+  const actorRank = USER_ROLES.indexOf(actorRole as UserRole);
+  return actorRank !== -1 && USER_ROLES.indexOf(role as UserRole) >= actorRank;
+}
+
+export const USER_STATUSES = ['active', 'inactive', 'suspended'] as const;
+export type UserStatus = typeof USER_STATUSES[number];
+
+// Role capabilities. Switches an admin can flip per role, plus an upload size cap.
+export const CAPABILITIES = ['canShareExternally', 'canUploadArchive', 'canViewAudit', 'canManageUsers'] as const;
+export type Capability = typeof CAPABILITIES[number];
+export type RoleCapabilities = Record<Capability, boolean> & { maxUploadSize: number | null; requireTwoFactor: boolean };
+
+export const roleCapabilitiesSchema = z.object({
+  canShareExternally: z.boolean(),
+  canUploadArchive: z.boolean(),
+  canViewAudit: z.boolean(),
+  canManageUsers: z.boolean(),
+  maxUploadSize: z.number().int().positive().nullable(),
+  requireTwoFactor: z.boolean(),
+});
+
+export const ALL_CAPABILITIES: RoleCapabilities = {
+  canShareExternally: true,
+  canUploadArchive: true,
+  canViewAudit: true,
+  canManageUsers: true,
+  maxUploadSize: null,
+  requireTwoFactor: false,
+};
+
+// What every role could do before capabilities were configurable
+export const DEFAULT_ROLE_CAPABILITIES: Record<UserRole, RoleCapabilities> = {
+  superadmin: ALL_CAPABILITIES,
+  admin: ALL_CAPABILITIES,
+  staff: { ...ALL_CAPABILITIES, canViewAudit: false, canManageUsers: false },
+  employee: { ...ALL_CAPABILITIES, canViewAudit: false, canManageUsers: false },
+};
+
+// Personal API tokens. read = GET requests, write = everything else on files
+// and folders, share = sharing with users and links, admin = the admin pages.
+// A token never grants more than its owner's role allows.
+export const API_TOKEN_SCOPES = ['read', 'write', 'share', 'admin'] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name the token").max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "Pick at least one scope"),
+  expiresInDays: z.number().int().min(1).max(366).nullable(),
+});
+export type CreateApiTokenRequest = z.infer<typeof createApiTokenSchema>;
+
+// A token as listed in settings - never the secret or its hash
+export type ApiTokenInfo = {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+};
+
+// File previews. What the preview drawer can show; with view access alone, the
+// view route serves these in full and nothing else.
+export type PreviewKind = "image" | "pdf" | "video" | "audio" | "markdown" | "csv" | "code" | "zip" | "none";
+
+// Text is fetched whole, so anything bigger is offered as a download instead
+export const MAX_TEXT_PREVIEW_BYTES = 2 * 1024 * 1024;
+
+// Extension -> highlight.js language (all part of its "common" bundle)
+export const CODE_LANGUAGES: Record<string, string> = {
+  ".txt": "plaintext",
+  ".log": "plaintext",
+  ".js": "javascript",
+  ".jsx": "javascript",
+  ".mjs": "javascript",
+  ".ts": "typescript",
+  ".tsx": "typescript",
+  ".json": "json",
+  ".html": "xml",
+  ".xml": "xml",
+  ".svg": "xml",
+  ".css": "css",
+  ".scss": "scss",
+  ".py": "python",
+  ".rb": "ruby",
+  ".go": "go",
+  ".rs": "rust",
+  ".java": "java",
+  ".kt": "kotlin",
+  ".swift": "swift",
+  ".c": "c",
+  ".h": "c",
+  ".cpp": "cpp",
+  ".cs": "csharp",
+  ".php": "php",
+  ".sh": "bash",
+  ".sql": "sql",
+  ".yml": "yaml",
+  ".yaml": "yaml",
+  ".toml": "ini",
+  ".ini": "ini",
+  ".diff": "diff",
+};
+
+export function fileExtension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot === -1 ? "" : name.slice(dot).toLowerCase();
+}
+
+export function previewKind(file: Pick<File, "name" | "mimeType" | "size">): PreviewKind {
+  const ext = fileExtension(file.name);
+  const mime = file.mimeType;
+
+  if (ext === ".svg" || mime === "image/svg+xml") return "code"; // Never render untrusted SVG inline
+  if (mime.startsWith("image/")) return "image";
+  if (mime === "application/pdf" || ext === ".pdf") return "pdf";
+  if (mime.startsWith("video/")) return "video";
+  if (mime.startsWith("audio/")) return "audio";
+  if (ext === ".zip" || mime === "application/zip" || mime === "application/x-zip-compressed") return "zip";
+
+  const isText = mime.startsWith("text/") || mime === "application/json" || mime === "application/xml" ||
+    ext in CODE_LANGUAGES || ext === ".md" || ext === ".markdown" || ext === ".csv";
+  if (!isText || file.size > MAX_TEXT_PREVIEW_BYTES) return "none";
+  if (ext === ".md" || ext === ".markdown" || mime === "text/markdown") return "markdown";
+  if (ext === ".csv" || mime === "text/csv") return "csv";
+  return "code";
+}
+
+// Live updates. What happened to an item in a folder listing; the client only
+// needs to know which listings to fetch again.
+export const FOLDER_EVENT_TYPES = ['created', 'updated', 'renamed', 'moved', 'deleted', 'restored', 'shared', 'unshared'] as const;
+export type FolderEventType = typeof FOLDER_EVENT_TYPES[number];
+
+// Sign-in throttling
+export const LOGIN_FAILURE_SCOPES = ['username', 'ip', 'share_link'] as const;
+export type LoginFailureScope = typeof LOGIN_FAILURE_SCOPES[number];
+
+export const loginPolicySchema = z.object({
+  maxFailures: z.number().int().min(1, "Allow at least one attempt").max(100),
+  maxIpFailures: z.number().int().min(1, "Allow at least one attempt").max(1000),
+  lockoutMinutes: z.number().int().min(1, "Lock for at least a minute").max(24 * 60),
+});
+export type LoginPolicy = z.infer<typeof loginPolicySchema>;
+
+// An IP can front a whole office, so it gets more room than one username
+export const DEFAULT_LOGIN_POLICY: LoginPolicy = { maxFailures: 5, maxIpFailures: 50, lockoutMinutes: 15 };
+
+// A username currently locked out, as shown to admins
+export type AccountLockout = { userId: number; failures: number; lockedUntil: Date };
+
+// Storage quotas. Everything a user owns counts - every version, and trashed
+// items until they are purged - because all of it occupies the server.
+export type StorageUsage = { used: number; quota: number | null; percentage: number | null };
+export type UserQuota = StorageUsage & { quotaBytes: number | null; roleQuota: number | null };
+
+// Search
+export const SEARCH_TYPES = ['folder', 'document', 'spreadsheet', 'pdf', 'image', 'video', 'audio', 'archive'] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+export type SearchFolderResult = Folder & { accessLevel: AccessLevel; location: string };
+export type SearchFileResult = File & { accessLevel: AccessLevel; location: string; snippet: string | null };
+export type SearchResults = { folders: SearchFolderResult[]; files: SearchFileResult[] };
+export type ZipEntry = { name: string; size: number; compressedSize: number; isDirectory: boolean; modifiedAt: string };
+
+// Recent
+export const FILE_ACCESS_ACTIONS = ['view', 'download', 'rename', 'upload'] as const;
+export type FileAccessAction = typeof FILE_ACCESS_ACTIONS[number];
+
+export type RecentFile = File & { accessLevel: AccessLevel; lastAction: FileAccessAction; accessedAt: Date };
+// nextOffset is null on the last page
+export type RecentFiles = { files: RecentFile[]; nextOffset: number | null };
+
+// Two-factor authentication. A password alone only gets a user as far as the
+// second step; a role that requires 2FA sends unenrolled users to set it up.
+// The password hash never leaves the server.
+export type AuthUser = Omit<User, 'password'> & { twoFactorSetupRequired: boolean };
+export type LoginResponse = AuthUser | { twoFactorRequired: true };
+export type TwoFactorStatus = { enabled: boolean; required: boolean; recoveryCodesRemaining: number };
+export type TwoFactorSetup = { secret: string; otpauthUrl: string; qrCode: string };
+
+// A signed-in session as shown in the sessions lists; `current` is the one making the request
+export type SessionInfo = {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+};
+
 // Request Types
 export type LoginRequest = { username: string; password: string };
 export type CreateFolderRequest = InsertFolder;
@@ -181,13 +684,61 @@ export type CreateFileRequest = InsertFile;
 export type ShareRequest = {
   targetId: number;
   targetType: 'file' | 'folder';
-  userId: number; // Who to share with
+  userId?: number; // Who to share with - a user...
+  groupId?: number; // ...or a whole group
   accessLevel: 'view' | 'edit' | 'download';
 };
 
+export type CreateUploadRequest = {
+  name: string;
+  size: number;
+  mimeType?: string;
+  folderId?: number | null;
+};
+
+export type CreateShareLinkRequest = {
+  targetId: number;
+  targetType: 'file' | 'folder';
+  expiresAt?: string | null; // ISO date
+  password?: string | null;
+  maxDownloads?: number | null;
+  viewOnly?: boolean;
+};
+
+// Share link as returned to its owner - the password hash never leaves the server
+export type ShareLinkInfo = Omit<ShareLink, 'passwordHash'> & { hasPassword: boolean };
+
+// What an anonymous visitor of /s/:token gets to see
+export type PublicShareEntry = { id: number; name: string; size: number; mimeType: string };
+export type PublicShare = {
+  name: string;
+  type: 'file' | 'folder';
+  viewOnly: boolean;
+  expiresAt: string | null;
+  downloadsRemaining: number | null;
+  requiresPassword: boolean; // Still locked - no contents until the password is given
+  file?: PublicShareEntry;
+  contents?: {
+    folders: { id: number; name: string }[];
+    files: PublicShareEntry[];
+    breadcrumbs: { id: number; name: string }[];
+  };
+};
+
+export type SearchRequest = {
+  q: string;
+  type?: SearchType;
+  ownerId?: number;
+  from?: Date; // Created on or after
+  to?: Date; // Created on or before
+  minSize?: number;
+  maxSize?: number;
+};
+
 // For multi-select share
 export type MultiShareRequest = {
   items: { id: number; type: 'file' | 'folder' }[];
-  userId: number;
+  userId?: number;
+  groupId?: number;
   accessLevel: 'view' | 'edit' | 'download';
 };